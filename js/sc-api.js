@@ -74,7 +74,7 @@ var SC_API = {
     filters = filters || {};
     var query = sb
       .from("files")
-      .select("*, file_community_tags(community_tag), file_royalty_chain(role, member_id, amount_cents)", { count: "exact" })
+      .select("*, file_community_tags(community_tag), file_royalty_chain(role, member_id, share_basis_points)", { count: "exact" })
       .eq("stage", "listed")
       .order("created_at", { ascending: false });
 
@@ -111,7 +111,7 @@ var SC_API = {
     var sb = initSupabase();
     var { data, error } = await sb
       .from("files")
-      .select("*, file_community_tags(community_tag), file_royalty_chain(role, member_id, amount_cents)")
+      .select("*, file_community_tags(community_tag), file_royalty_chain(role, member_id, share_basis_points)")
       .eq("id", fileId)
       .maybeSingle();
     return data;
@@ -133,6 +133,106 @@ var SC_API = {
     return data || [];
   },
 
+  /* ── Catalog Queries ── */
+
+  /**
+   * Load chassis presets / standard products from the product-catalog function.
+   * Same shapes as ChassisPresets.json / StandardProducts.json, plus the
+   * catalog version they belong to.
+   * @param {Object} params - { kind: 'presets'|'products'|'all', category, version }
+   * @returns {Object} catalog data or null if unavailable
+   */
+  getProductCatalog: async function(params) {
+    var res = await SC_API.call("product-catalog", params || {});
+    if (res.error || !res.data || !res.data.version) return null;
+    return res.data;
+  },
+
+  /* ── Resumable Uploads ── */
+
+  /**
+   * Send a file to the upload-session function in chunks (TUS 1.0), resuming
+   * where a previous attempt for the same file stopped. Finalize by posting
+   * the upload-file form with upload_id instead of file.
+   * @param {File} file
+   * @param {Function} onProgress - optional, called with (bytesSent, totalBytes)
+   * @returns {Object} { upload_id, error }
+   */
+  uploadResumable: async function(file, onProgress) {
+    var CHUNK_BYTES = 5 * 1024 * 1024;
+    var MAX_RETRIES = 3;
+    var endpoint = SC_CONFIG.SUPABASE_URL + "/functions/v1/upload-session";
+    var resumeKey = "pif_upload_" + [file.name, file.size, file.lastModified].join(":");
+
+    var sb = initSupabase();
+    var { data: auth } = await sb.auth.getSession();
+    if (!auth || !auth.session) return { upload_id: null, error: "Sign in to upload files" };
+    var headers = {
+      "Authorization": "Bearer " + auth.session.access_token,
+      "apikey": SC_CONFIG.SUPABASE_ANON_KEY,
+      "Tus-Resumable": "1.0.0"
+    };
+
+    /* Resume an earlier session for this file if the server still has it */
+    var uploadId = null, offset = 0;
+    try { uploadId = localStorage.getItem(resumeKey); } catch(e) {}
+    if (uploadId) {
+      var head = await fetch(endpoint + "?id=" + uploadId, { method: "HEAD", headers: headers });
+      if (head.ok) {
+        offset = parseInt(head.headers.get("Upload-Offset"), 10) || 0;
+      } else {
+        uploadId = null;
+      }
+    }
+
+    if (!uploadId) {
+      var meta = "filename " + btoa(unescape(encodeURIComponent(file.name))) +
+        (file.type ? ",filetype " + btoa(file.type) : "");
+      var created = await fetch(endpoint, {
+        method: "POST",
+        headers: Object.assign({ "Upload-Length": String(file.size), "Upload-Metadata": meta }, headers)
+      });
+      var body = await created.json().catch(function() { return {}; });
+      if (!created.ok) return { upload_id: null, error: body.error || "Could not start upload" };
+      uploadId = body.upload_id;
+      try { localStorage.setItem(resumeKey, uploadId); } catch(e) {}
+    }
+
+    var retries = 0;
+    while (offset < file.size) {
+      if (onProgress) onProgress(offset, file.size);
+      var res = null;
+      try {
+        res = await fetch(endpoint + "?id=" + uploadId, {
+          method: "PATCH",
+          headers: Object.assign({
+            "Upload-Offset": String(offset),
+            "Content-Type": "application/offset+octet-stream"
+          }, headers),
+          body: file.slice(offset, offset + CHUNK_BYTES)
+        });
+      } catch(e) { /* network drop — ask the server where to resume */ }
+
+      if (res && res.ok) {
+        offset = parseInt(res.headers.get("Upload-Offset"), 10);
+        retries = 0;
+        continue;
+      }
+      if (res && res.status !== 409 && res.status < 500) {
+        var err = await res.json().catch(function() { return {}; });
+        try { localStorage.removeItem(resumeKey); } catch(e) {}
+        return { upload_id: null, error: err.error || "Upload failed" };
+      }
+      if (++retries > MAX_RETRIES) return { upload_id: null, error: "Upload interrupted — try again to resume" };
+      var check = await fetch(endpoint + "?id=" + uploadId, { method: "HEAD", headers: headers }).catch(function() { return null; });
+      if (check && check.ok) offset = parseInt(check.headers.get("Upload-Offset"), 10) || 0;
+    }
+
+    if (onProgress) onProgress(file.size, file.size);
+    try { localStorage.removeItem(resumeKey); } catch(e) {}
+    return { upload_id: uploadId, error: null };
+  },
+
   /* ── Member Queries ── */
 
   /**
@@ -195,20 +295,31 @@ var SC_API = {
     return data || [];
   },
 
+  /**
+   * Get the current member's storage usage against their tier quota.
+   * @returns {Object} { data: { tier_id, used_bytes, limit_bytes, remaining_bytes, files }, error }
+   */
+  getStorageQuota: async function() {
+    var sb = initSupabase();
+    var { data, error } = await sb.functions.invoke("storage-quota", { method: "GET" });
+    if (error) return { data: null, error: error.message || "Could not load storage usage" };
+    return { data: data, error: null };
+  },
+
   /* ── Tier Helpers ── */
 
   /**
    * Get tier display info.
    * @param {string} tierId
-   * @returns {Object} { name, price, race }
+   * @returns {Object} { name, price, race, storage }
    */
   getTierInfo: function(tierId) {
     var tiers = {
-      design_and_go: { name: "Design & Go", price: "Free", race: "In the paddock" },
-      emerging:      { name: "Emerging", price: "$9.99/mo", race: "First qualifying laps" },
-      surging:       { name: "Surging", price: "$49.99/mo", race: "Mid-field" },
-      converging:    { name: "Converging", price: "$149.99/mo", race: "Front of the field" },
-      diverging:     { name: "Diverging", price: "$399.99/mo", race: "Running a team" }
+      design_and_go: { name: "Design & Go", price: "Free", race: "In the paddock", storage: "250 MB" },
+      emerging:      { name: "Emerging", price: "$9.99/mo", race: "First qualifying laps", storage: "2 GB" },
+      surging:       { name: "Surging", price: "$49.99/mo", race: "Mid-field", storage: "10 GB" },
+      converging:    { name: "Converging", price: "$149.99/mo", race: "Front of the field", storage: "50 GB" },
+      diverging:     { name: "Diverging", price: "$399.99/mo", race: "Running a team", storage: "250 GB" }
     };
     return tiers[tierId] || tiers.design_and_go;
   }
@@ -0,0 +1,154 @@
+// =============================================================================
+// PIF Selection-Connection — shared: hardware and material catalog
+// The hardware_items and material_prices tables (migration 016) in the
+// PriceCatalog shape the configurator and _shared/cutlist.ts use. Read by
+// catalog (public), generate-cut-list and quote; written by admin-catalog.
+// Rows store cents; the catalog shape is in dollars like the configurator's
+// built-in HARDWARE_LIBRARY / MATERIAL_PRICING.
+// =============================================================================
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  HardwareCategory,
+  HardwareItem,
+  MaterialPricing,
+  PriceCatalog,
+} from "./configurator-data.ts";
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+export const HARDWARE_CATEGORIES: HardwareCategory[] = ["hinges", "slides", "pulls"];
+
+export const MATERIAL_KINDS = ["sheet", "edge_banding"] as const;
+
+/** Same patterns as the hardware_items.id / material_prices.id CHECK constraints. */
+const HARDWARE_ID_PATTERN = /^[A-Z0-9][A-Z0-9-]{1,31}$/;
+const MATERIAL_ID_PATTERN = /^[a-z0-9][a-z0-9.-]{1,31}$/;
+
+/** Not a catalog row: the configurator's "no hardware, set sliders by hand". */
+const MANUAL_ITEM: Omit<HardwareItem, "id"> = {
+  label: "Manual / Custom",
+  brand: "",
+  model: "",
+  price: 0,
+  params: null,
+};
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type MaterialKind = typeof MATERIAL_KINDS[number];
+
+export interface HardwareItemRow {
+  id: string;
+  category: HardwareCategory;
+  label: string;
+  brand: string;
+  model: string;
+  price_cents: number;
+  params: Record<string, number>;
+  active: boolean;
+  sort_order: number;
+  updated_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface MaterialPriceRow {
+  id: string;
+  kind: MaterialKind;
+  /** null on the default sheet price and edge banding. */
+  thickness: number | null;
+  label: string;
+  unit: "sheet" | "ft";
+  price_cents: number;
+  active: boolean;
+  updated_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+export function isValidHardwareId(id: unknown): id is string {
+  return typeof id === "string" && HARDWARE_ID_PATTERN.test(id);
+}
+
+export function isValidMaterialId(id: unknown): id is string {
+  return typeof id === "string" && MATERIAL_ID_PATTERN.test(id);
+}
+
+/** Hardware params must be slider values: { SliderKey: number }. */
+export function isHardwareParams(value: unknown): value is Record<string, number> {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return false;
+  return Object.values(value).every((v) => typeof v === "number" && Number.isFinite(v));
+}
+
+/** Build a PriceCatalog from catalog rows (inactive rows are skipped). */
+export function buildPriceCatalog(
+  hardwareRows: HardwareItemRow[],
+  materialRows: MaterialPriceRow[]
+): PriceCatalog {
+  const hardware = {} as Record<HardwareCategory, HardwareItem[]>;
+  for (const category of HARDWARE_CATEGORIES) {
+    hardware[category] = [{ id: "manual", ...MANUAL_ITEM }];
+  }
+
+  const sorted = hardwareRows
+    .filter((row) => row.active)
+    .sort((a, b) => a.sort_order - b.sort_order || a.id.localeCompare(b.id));
+  for (const row of sorted) {
+    hardware[row.category].push({
+      id: row.id,
+      label: row.label,
+      brand: row.brand,
+      model: row.model,
+      price: row.price_cents / 100,
+      params: row.params,
+    });
+  }
+
+  const materials: MaterialPricing = { sheets: {}, edgeBandingPerFt: 0, defaultSheetPrice: 0 };
+  for (const row of materialRows) {
+    if (!row.active) continue;
+    if (row.kind === "edge_banding") {
+      materials.edgeBandingPerFt = row.price_cents / 100;
+    } else if (row.thickness === null) {
+      materials.defaultSheetPrice = row.price_cents / 100;
+    } else {
+      materials.sheets[Number(row.thickness).toFixed(3)] = {
+        label: row.label,
+        pricePerSheet: row.price_cents / 100,
+      };
+    }
+  }
+
+  return { hardware, materials };
+}
+
+/** The active catalog from the database. Throws on a query error. */
+export async function loadCatalog(
+  supabase: ReturnType<typeof createClient>
+): Promise<PriceCatalog> {
+  const [hardwareResult, materialResult] = await Promise.all([
+    supabase.from("hardware_items").select("*").eq("active", true),
+    supabase.from("material_prices").select("*").eq("active", true),
+  ]);
+
+  if (hardwareResult.error) {
+    throw new Error(`Failed to load hardware catalog: ${hardwareResult.error.message}`);
+  }
+  if (materialResult.error) {
+    throw new Error(`Failed to load material prices: ${materialResult.error.message}`);
+  }
+
+  return buildPriceCatalog(
+    (hardwareResult.data ?? []) as HardwareItemRow[],
+    (materialResult.data ?? []) as MaterialPriceRow[]
+  );
+}
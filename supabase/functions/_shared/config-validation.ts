@@ -0,0 +1,331 @@
+// =============================================================================
+// PIF Selection-Connection — shared: configurator state validation
+// Server-side port of validateConfig() in configurator.html: the geometry
+// rules that tell a buildable cabinet from a broken one (no interior width,
+// back panel deeper than the cabinet, drawer stack taller than the interior,
+// ...). Used by upload-file to check configurator-state .json uploads before
+// they can reach the marketplace. Keep the rules in step with the configurator.
+// LamiForm exports (lamiform.html) are checked with _shared/lamiform.ts.
+// Configurations in mm (units: "mm") are range-checked in mm and run through
+// the geometry rules in inches.
+// =============================================================================
+
+import { SLIDER_GROUPS, SliderSpec, ZONE_DEFAULTS, ZONE_RANGES } from "./configurator-data.ts";
+import { CabinetState, computeZoneStack, resolveCabinetState } from "./cutlist.ts";
+import { LAMIFORM_SCHEMA_VERSION, lamiFormParamsFromExport, parseLamiFormParams } from "./lamiform.ts";
+import { fromInches, isLengthKey, parseUnitSystem, UNIT_SYSTEMS, UnitSystem } from "./units.ts";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface ConfigIssue {
+  /** Configurator parameter the issue is attached to (the slider to fix). */
+  key: string;
+  /** error = the cabinet can't be built; warning = worth a second look. */
+  severity: "error" | "warning";
+  message: string;
+  /** Preset name, for preset collections (ChassisPresets.json format). */
+  preset?: string;
+}
+
+export interface ConfigFileValidation {
+  /**
+   * "state" = one configuration; "presets" = { presets: { name: state } };
+   * "lamiform" = one lamiform.html export.
+   */
+  kind: "state" | "presets" | "lamiform";
+  configurations: number;
+  /** Unit system of the configuration(s); null for LamiForm exports. */
+  units: UnitSystem | null;
+  passed: boolean;
+  issues: ConfigIssue[];
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const SLIDERS: Record<string, SliderSpec> = {};
+for (const group of SLIDER_GROUPS) {
+  for (const slider of group.sliders) SLIDERS[slider.key] = slider;
+}
+
+/** Keys every configurator state has; a JSON object with none of them isn't one. */
+const REQUIRED_KEYS = ["Width", "Height", "Depth"];
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function looksLikeState(value: unknown): value is Record<string, unknown> {
+  return isPlainObject(value) && REQUIRED_KEYS.some((key) => key in value);
+}
+
+/**
+ * Types and ranges (slider or zone stack input) of the keys the config
+ * sets, in the config's units. Counts must be whole numbers. A value out of
+ * range is an error: resolveCabinetState would clamp it, so the cabinet
+ * built would not be the one the config describes.
+ */
+function validateValues(config: Record<string, unknown>): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+
+  let units = parseUnitSystem(config.units);
+  if (!units) {
+    issues.push({ key: "units", severity: "error", message: `units must be one of: ${UNIT_SYSTEMS.join(", ")}` });
+    units = "inches";
+  }
+
+  for (const key of REQUIRED_KEYS) {
+    if (!(key in config)) {
+      issues.push({ key, severity: "error", message: `${key} is required` });
+    }
+  }
+
+  for (const [key, value] of Object.entries(config)) {
+    const slider = SLIDERS[key];
+    if (!slider && !(key in ZONE_DEFAULTS)) continue; // metadata such as "category"
+
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      issues.push({ key, severity: "error", message: `${key} must be a number` });
+      continue;
+    }
+    const range = slider ?? ZONE_RANGES[key];
+    const isCount = slider ? slider.decimals === 0 : !isLengthKey(key);
+    if (isCount && !Number.isInteger(value)) {
+      issues.push({ key, severity: "error", message: `${key} must be a whole number` });
+      continue;
+    }
+    const [min, max] = isLengthKey(key)
+      ? [fromInches(range.min, units), fromInches(range.max, units)]
+      : [range.min, range.max];
+    if (value < min || value > max) {
+      const unit = units === "mm" && isLengthKey(key) ? " mm" : "";
+      issues.push({
+        key,
+        severity: "error",
+        message: `${key} (${value}${unit}) is outside the configurator range ${min}–${max}${unit}`,
+      });
+    }
+  }
+  return issues;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Geometry rules from the configurator's validateConfig(), run on a full
+ * state (see resolveCabinetState). Advisory checks the configurator shows
+ * as hints (shelf stack share, empty interior, stile proportion) are
+ * warnings; everything else is an error.
+ */
+export function validateCabinetState(state: CabinetState): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+  const error = (key: string, message: string) => issues.push({ key, severity: "error", message });
+  const warning = (key: string, message: string) => issues.push({ key, severity: "warning", message });
+
+  const W = state.Width, H = state.Height, D = state.Depth;
+  const ST = state.SideThickness, BT = state.BottomThickness;
+  const TK = state.ToeKickHeight, BPT = state.BackPanelThickness;
+  const DD = state.DadoDepth;
+  const interiorW = W - 2 * ST;
+  const interiorH = H - TK - BT - state.FrontStretcherWidth;
+  const ffSW = state.FaceFrameStileWidth || 0;
+  const ffRW = state.FaceFrameRailWidth || 0;
+
+  /* Boundary constraints — does the cabinet make sense? */
+  if (interiorW <= 0) {
+    error("SideThickness", `Side thickness (${(2 * ST).toFixed(3)}") exceeds cabinet width (${W.toFixed(3)}")`);
+  }
+  if (interiorH <= 0) {
+    error("Height", "No usable interior height after toe kick + bottom + stretcher");
+  }
+  if (D - BPT <= 0) {
+    error("BackPanelThickness", "Back panel thickness exceeds depth");
+  }
+
+  /* Clearance constraints — do parts fit? */
+  const ffOH = state.FaceFrameOverhang || 0;
+  const ffOpenW = ffSW > 0 ? (W - 2 * ffSW + 2 * ffOH) : interiorW;
+  const ffOpenH = ffRW > 0 ? (H - TK - 2 * ffRW) : (H - TK);
+  if (state.DoorCount > 0) {
+    const dc = Math.round(state.DoorCount);
+    const totalDoorW = ffOpenW + state.DoorOverlayLeft + state.DoorOverlayRight;
+    const doorW = (totalDoorW - (dc - 1) * state.DoorGap) / dc;
+    if (doorW < 3) {
+      error("DoorCount", `Door width (${doorW.toFixed(1)}") too narrow for ${dc} doors at this cabinet width`);
+    }
+  }
+
+  if (state.DrawerCount > 0) {
+    const drc = Math.round(state.DrawerCount);
+    const drawerStackH = drc * state.DrawerHeight;
+    if (drawerStackH > interiorH && interiorH > 0) {
+      error("DrawerCount", `Drawer stack (${drawerStackH.toFixed(1)}") exceeds interior height (${interiorH.toFixed(1)}")`);
+    }
+    const dbW = interiorW - 2 * state.DrawerClearance - 2 * state.DrawerBoxSideThickness;
+    if (dbW < 2) {
+      error("DrawerClearance", `Drawer box width (${dbW.toFixed(1)}") too narrow after clearances`);
+    }
+    if (state.DrawerBoxHeight >= state.DrawerHeight) {
+      error(
+        "DrawerBoxHeight",
+        `Drawer box height (${state.DrawerBoxHeight.toFixed(3)}") must be less than drawer front height (${state.DrawerHeight.toFixed(3)}")`
+      );
+    }
+  }
+
+  /* Module stacking — do shelves + drawers fit? */
+  if (state.ShelfCount > 0 && interiorH > 0) {
+    const shelfStackH = Math.round(state.ShelfCount) * state.ShelfThickness;
+    if (shelfStackH > interiorH * 0.8) {
+      warning("ShelfCount", `Shelves use ${Math.round(shelfStackH / interiorH * 100)}% of interior height`);
+    }
+  }
+
+  /* Shelf geometry */
+  if (state.ShelfCount > 0) {
+    const shelfW = interiorW - 2 * DD;
+    if (shelfW < 2) {
+      error("DadoDepth", `Shelf width (${shelfW.toFixed(1)}") too narrow after dado depth`);
+    }
+    const shelfD = D - BPT - state.ShelfSetback;
+    if (shelfD < 2) {
+      error("ShelfSetback", `Shelf depth (${shelfD.toFixed(1)}") too shallow after setback`);
+    }
+  }
+
+  /* Hinge constraints */
+  if (state.DoorCount > 0 && state.HingeCount > 0) {
+    const doorH = ffOpenH + state.DoorOverlayTop + state.DoorOverlayBottom;
+    const hingeSpread = state.HingeInsetTop + state.HingeInsetBottom;
+    if (hingeSpread >= doorH && doorH > 0) {
+      error("HingeInsetTop", `Hinge insets (${hingeSpread.toFixed(1)}") exceed door height (${doorH.toFixed(1)}")`);
+    }
+  }
+
+  /* Empty cabinet: no doors, no drawers, no shelves, no zones */
+  const dadoCount = Math.round(state.ZS_DadoCount || 0);
+  if (state.DoorCount === 0 && state.DrawerCount === 0 && state.ShelfCount === 0 && dadoCount === 0) {
+    warning("DoorCount", "No doors, drawers, or shelves configured — cabinet interior is empty");
+  }
+
+  /* Zone stack: compartment height too small */
+  if (dadoCount > 0 && interiorH > 0) {
+    computeZoneStack(state).forEach((z) => {
+      if (z.height < 2) {
+        error("ZS_DadoCount", `Compartment ${z.index + 1} height (${z.height.toFixed(1)}") is too small (min 2")`);
+      }
+    });
+  }
+
+  /* Zone stack: dado positions exceed interior */
+  if (dadoCount >= 1 && state.ZS_Dado1Z >= interiorH) {
+    error("ZS_Dado1Z", `Dado 1 position (${state.ZS_Dado1Z.toFixed(1)}") exceeds interior height (${interiorH.toFixed(1)}")`);
+  }
+  if (dadoCount >= 2 && state.ZS_Dado2Z >= interiorH) {
+    error("ZS_Dado2Z", "Dado 2 position exceeds interior height");
+  }
+  if (dadoCount >= 3 && state.ZS_Dado3Z >= interiorH) {
+    error("ZS_Dado3Z", "Dado 3 position exceeds interior height");
+  }
+
+  /* Face frame constraints */
+  if (ffSW > 0) {
+    if (2 * ffSW >= W) {
+      error("FaceFrameStileWidth", `Face frame stiles (${(2 * ffSW).toFixed(2)}") exceed cabinet width (${W.toFixed(1)}")`);
+    } else if (ffSW > W / 4) {
+      warning("FaceFrameStileWidth", `Face frame stile width (${ffSW.toFixed(3)}") exceeds 25% of cabinet width`);
+    }
+    if (H - TK - 2 * ffRW <= 0) {
+      error("FaceFrameRailWidth", "Face frame rails leave no opening height");
+    }
+  }
+
+  return issues;
+}
+
+/** True for a configurator parameter: a slider or zone-stack key. */
+export function isConfiguratorKey(key: string): boolean {
+  return key in SLIDERS || key in ZONE_DEFAULTS;
+}
+
+/** Value checks plus geometry rules for one (possibly partial) configuration. */
+export function validateConfiguration(config: Record<string, unknown>): ConfigIssue[] {
+  const valueIssues = validateValues(config);
+  return [...valueIssues, ...validateCabinetState(resolveCabinetState(config))];
+}
+
+/**
+ * Validate an uploaded .json file as configurator state: either one
+ * configuration (captureState() / a single preset), a preset collection
+ * in the ChassisPresets.json format, or a LamiForm export. Returns null if
+ * the JSON is none of these, so other JSON uploads pass through; throws on
+ * malformed JSON.
+ */
+export function validateConfiguratorJson(text: string): ConfigFileValidation | null {
+  const data = JSON.parse(text);
+
+  if (isPlainObject(data) && data.pif_type === "lamiform") {
+    const issues: ConfigIssue[] = [];
+    if (data.schema_version !== LAMIFORM_SCHEMA_VERSION) {
+      issues.push({
+        key: "schema_version",
+        severity: "error",
+        message: `Unsupported LamiForm schema_version ${JSON.stringify(data.schema_version ?? null)} (expected ${LAMIFORM_SCHEMA_VERSION})`,
+      });
+    }
+    issues.push(...parseLamiFormParams(lamiFormParamsFromExport(data)).issues);
+    return {
+      kind: "lamiform",
+      configurations: 1,
+      units: null,
+      passed: !issues.some((i) => i.severity === "error"),
+      issues,
+    };
+  }
+
+  if (isPlainObject(data) && isPlainObject(data.presets)) {
+    const issues: ConfigIssue[] = [];
+    const entries = Object.entries(data.presets);
+    const units = parseUnitSystem(data.units);
+    if (!units) {
+      issues.push({ key: "units", severity: "error", message: `units must be one of: ${UNIT_SYSTEMS.join(", ")}` });
+    }
+    if (entries.length === 0) {
+      issues.push({ key: "presets", severity: "error", message: "No presets in file" });
+    }
+    for (const [name, preset] of entries) {
+      if (!isPlainObject(preset)) {
+        issues.push({ key: "presets", severity: "error", message: "Preset must be an object of parameter values", preset: name });
+        continue;
+      }
+      /* A collection-level units applies to presets that don't set their own */
+      const config = units && !("units" in preset) ? { ...preset, units } : preset;
+      for (const issue of validateConfiguration(config)) issues.push({ ...issue, preset: name });
+    }
+    return {
+      kind: "presets",
+      configurations: entries.length,
+      units: units ?? "inches",
+      passed: !issues.some((i) => i.severity === "error"),
+      issues,
+    };
+  }
+
+  if (looksLikeState(data)) {
+    const issues = validateConfiguration(data);
+    return {
+      kind: "state",
+      configurations: 1,
+      units: parseUnitSystem(data.units) ?? "inches",
+      passed: !issues.some((i) => i.severity === "error"),
+      issues,
+    };
+  }
+
+  return null;
+}
@@ -0,0 +1,387 @@
+// =============================================================================
+// PIF Selection-Connection — shared: configurator data
+// The parameter and price tables of configurator.html, for the server-side
+// cut list (cutlist.ts). Live prices come from the catalog tables (see
+// _shared/catalog.ts, migration 016); the tables here seed them and are the
+// fallback. Keep in step with the same constants in
+// configurator.html (SLIDER_GROUPS, SECTION_MAP, ZONE_DEFAULTS,
+// HARDWARE_LIBRARY, MATERIAL_PRICING) — see MAINTENANCE.md.
+// All measurements in inches, prices in US dollars.
+// =============================================================================
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface SliderSpec {
+  key: string;
+  default: number;
+  min: number;
+  max: number;
+  step: number;
+  decimals: number;
+}
+
+export interface SliderGroup {
+  id: string;
+  label: string;
+  sliders: SliderSpec[];
+}
+
+export type HardwareCategory = "hinges" | "slides" | "pulls";
+
+export interface HardwareItem {
+  id: string;
+  label: string;
+  brand: string;
+  model: string;
+  price: number;
+  /** Slider values the item sets; null for "Manual / Custom". */
+  params: Record<string, number> | null;
+}
+
+export interface MaterialPricing {
+  /** Keyed by thickness with 3 decimals, e.g. "0.750". Price per 4x8 sheet. */
+  sheets: Record<string, { label: string; pricePerSheet: number }>;
+  edgeBandingPerFt: number;
+  defaultSheetPrice: number;
+}
+
+/** Hardware and material prices, as built in here or loaded by _shared/catalog.ts. */
+export interface PriceCatalog {
+  hardware: Record<HardwareCategory, HardwareItem[]>;
+  materials: MaterialPricing;
+}
+
+// ---------------------------------------------------------------------------
+// Parameters
+// ---------------------------------------------------------------------------
+
+export const SLIDER_GROUPS: SliderGroup[] = [
+  {
+    id: "cabinet-dimensions",
+    label: "Cabinet Dimensions",
+    sliders: [
+      { key: "Width",        default: 48,   min: 9,   max: 96,  step: 0.125, decimals: 3 },
+      { key: "Height",       default: 36,   min: 6,   max: 96,  step: 0.125, decimals: 3 },
+      { key: "Depth",        default: 24,   min: 6,   max: 48,  step: 0.125, decimals: 3 }
+    ]
+  },
+  {
+    id: "material-thickness",
+    label: "Material Thickness",
+    sliders: [
+      { key: "SideThickness",      default: 0.75,  min: 0.25,  max: 1.5,   step: 0.001, decimals: 3 },
+      { key: "BottomThickness",     default: 0.767, min: 0.25,  max: 1.5,   step: 0.001, decimals: 3 },
+      { key: "ShelfThickness",      default: 0.797, min: 0.25,  max: 1.5,   step: 0.001, decimals: 3 },
+      { key: "BackPanelThickness",  default: 0.25,  min: 0.125, max: 1.5,   step: 0.001, decimals: 3 }
+    ]
+  },
+  {
+    id: "toe-kick",
+    label: "Toe Kick",
+    sliders: [
+      { key: "ToeKickHeight", default: 7.68,  min: 0,   max: 12, step: 0.001, decimals: 3 },
+      { key: "ToeKickDepth",  default: 4.069, min: 0,   max: 6,  step: 0.001, decimals: 3 }
+    ]
+  },
+  {
+    id: "stretchers-frame",
+    label: "Stretchers / Frame",
+    sliders: [
+      { key: "FrontStretcherWidth",     default: 5.361, min: 0.5, max: 6,   step: 0.001, decimals: 3 },
+      { key: "FrontStretcherThickness", default: 0.733, min: 0.5, max: 1.5, step: 0.001, decimals: 3 },
+      { key: "BackStretcherThickness",  default: 0.96,  min: 0,   max: 1.5, step: 0.001, decimals: 3 },
+      { key: "BackStretcherWidth",      default: 2.8,   min: 1,   max: 6,   step: 0.001, decimals: 3 },
+      { key: "RearStretcherWidth",      default: 5.932, min: 1,   max: 6,   step: 0.001, decimals: 3 },
+      { key: "RearStretcherThickness",  default: 0.758, min: 0.5, max: 1.5, step: 0.001, decimals: 3 }
+    ]
+  },
+  {
+    id: "face-frame",
+    label: "Face Frame",
+    sliders: [
+      { key: "FaceFrameStileWidth",  default: 1.5,    min: 0.75, max: 3,   step: 0.001, decimals: 3 },
+      { key: "FaceFrameRailWidth",   default: 1.5,    min: 0.75, max: 3,   step: 0.001, decimals: 3 },
+      { key: "FaceFrameThickness",   default: 0.75,   min: 0.375,max: 1.5, step: 0.001, decimals: 3 },
+      { key: "FaceFrameOverhang",    default: 0.0625, min: 0,    max: 0.25,step: 0.001, decimals: 3 }
+    ]
+  },
+  {
+    id: "shelves",
+    label: "Shelves",
+    sliders: [
+      { key: "ShelfCount",    default: 1,     min: 0, max: 12, step: 1,     decimals: 0 },
+      { key: "ShelfSetback",  default: 3.975, min: 0, max: 4,  step: 0.001, decimals: 3 },
+      { key: "SingleShelfZ",  default: 18,    min: 4, max: 48, step: 0.125, decimals: 3 }
+    ]
+  },
+  {
+    id: "doors",
+    label: "Doors",
+    sliders: [
+      { key: "DoorCount",         default: 2,     min: 0,     max: 4,   step: 1,     decimals: 0 },
+      { key: "DoorThickness",     default: 0.75,  min: 0.5,   max: 1.5, step: 0.001, decimals: 3 },
+      { key: "DoorGap",           default: 0.125, min: 0.063, max: 0.25,step: 0.001, decimals: 3 },
+      { key: "DoorOverlayLeft",   default: 0.5,   min: -1.5,  max: 1.5, step: 0.001, decimals: 3 },
+      { key: "DoorOverlayRight",  default: 0.5,   min: -1.5,  max: 1.5, step: 0.001, decimals: 3 },
+      { key: "DoorOverlayTop",    default: 0.5,   min: -1.5,  max: 1.5, step: 0.001, decimals: 3 },
+      { key: "DoorOverlayBottom", default: 0.5,   min: -1.5,  max: 1.5, step: 0.001, decimals: 3 }
+    ]
+  },
+  {
+    id: "drawers",
+    label: "Drawers",
+    sliders: [
+      { key: "DrawerCount",            default: 0,     min: 0,     max: 6,    step: 1,     decimals: 0 },
+      { key: "DrawerHeight",           default: 6,     min: 3,     max: 12,   step: 0.001, decimals: 3 },
+      { key: "DrawerBoxHeight",        default: 4,     min: 2.5,   max: 10,   step: 0.001, decimals: 3 },
+      { key: "DrawerBoxSideThickness", default: 0.5,   min: 0.375, max: 0.75, step: 0.001, decimals: 3 },
+      { key: "DrawerBottomThickness",  default: 0.25,  min: 0.125, max: 0.5,  step: 0.001, decimals: 3 },
+      { key: "DrawerClearance",        default: 0.5,   min: 0.25,  max: 1,    step: 0.001, decimals: 3 },
+      { key: "SlideTopClearance",      default: 0.276, min: 0.236, max: 0.5,  step: 0.001, decimals: 3 },
+      { key: "SlideBottomClearance",   default: 0.551, min: 0.394, max: 0.75, step: 0.001, decimals: 3 }
+    ]
+  },
+  {
+    id: "hinges",
+    label: "Hinges",
+    sliders: [
+      { key: "HingeCount",          default: 2,     min: 1,     max: 5,     step: 1,     decimals: 0 },
+      { key: "HingeInsetTop",       default: 3,     min: 2,     max: 5,     step: 0.001, decimals: 3 },
+      { key: "HingeInsetBottom",    default: 3,     min: 2,     max: 5,     step: 0.001, decimals: 3 },
+      { key: "HingeCupDiameter",    default: 1.378, min: 1.024, max: 1.378, step: 0.001, decimals: 3 },
+      { key: "HingeCupDepth",       default: 0.512, min: 0.394, max: 0.531, step: 0.001, decimals: 3 },
+      { key: "HingeBoringDistance",  default: 0.197, min: 0.118, max: 0.315, step: 0.001, decimals: 3 }
+    ]
+  },
+  {
+    id: "pulls",
+    label: "Pulls",
+    sliders: [
+      { key: "PullCenterHeight",     default: 4,      min: 1,      max: 48,    step: 0.125, decimals: 3 },
+      { key: "PullCenterOffset",     default: 0,      min: -2,     max: 2,     step: 0.001, decimals: 3 },
+      { key: "PullBoreSpacing",      default: 3.75,   min: 0,      max: 10.063,step: 0.001, decimals: 3 },
+      { key: "PullMountingHoleDia",  default: 0.1875, min: 0.1563, max: 0.25,  step: 0.0001,decimals: 4 },
+      { key: "PullProjection",       default: 1.375,  min: 0.375,  max: 1.5,   step: 0.001, decimals: 3 }
+    ]
+  },
+  {
+    id: "tolerances",
+    label: "Tolerances",
+    sliders: [
+      { key: "DadoDepth",       default: 0.25,  min: 0.125, max: 0.375, step: 0.001,  decimals: 3 },
+      { key: "JointAllowance",  default: 0.01,  min: 0.005, max: 0.05,  step: 0.001,  decimals: 3 },
+      { key: "Tolerance",       default: 0.02,  min: 0.001, max: 0.02,  step: 0.001,  decimals: 3 },
+      { key: "StepFactor",      default: 0.25,  min: 0.1,   max: 0.4,   step: 0.001,  decimals: 3 }
+    ]
+  }
+];
+
+/** Section name of each slider group in exported JSON (the GH definition's jSwan inputs). */
+export const SECTION_MAP: Record<string, string> = {
+  "cabinet-dimensions": "CabinetDimensions",
+  "material-thickness": "MaterialThickness",
+  "toe-kick": "ToeKick",
+  "stretchers-frame": "StretchersFrame",
+  "face-frame": "FaceFrame",
+  "shelves": "Shelves",
+  "doors": "DoorParameters",
+  "drawers": "DrawerParameters",
+  "hinges": "HingeParameters",
+  "pulls": "PullParameters",
+  "tolerances": "Tolerances"
+};
+
+/** Zone stack keys (not sliders in SLIDER_GROUPS). */
+export const ZONE_DEFAULTS: Record<string, number> = {
+  ZS_LayoutPreset: 0,
+  ZS_DadoCount: 0,
+  ZS_Dado1Z: 18, ZS_Dado2Z: 36, ZS_Dado3Z: 54,
+  ZS_DadoThickness: 0.75,
+  ZS_Comp1Type: 0, ZS_Comp2Type: 1, ZS_Comp3Type: 2, ZS_Comp4Type: 2
+};
+
+/** Ranges of the zone stack inputs (ZONE_LAYOUT_PRESETS, dado and compartment controls). */
+export const ZONE_RANGES: Record<string, { min: number; max: number }> = {
+  ZS_LayoutPreset: { min: 0, max: 9 },
+  ZS_DadoCount: { min: 0, max: 3 },
+  ZS_Dado1Z: { min: 4, max: 80 }, ZS_Dado2Z: { min: 4, max: 80 }, ZS_Dado3Z: { min: 4, max: 80 },
+  ZS_DadoThickness: { min: 0.25, max: 1.5 },
+  ZS_Comp1Type: { min: 0, max: 2 }, ZS_Comp2Type: { min: 0, max: 2 },
+  ZS_Comp3Type: { min: 0, max: 2 }, ZS_Comp4Type: { min: 0, max: 2 }
+};
+
+// ---------------------------------------------------------------------------
+// Hardware and materials
+// ---------------------------------------------------------------------------
+
+export const HARDWARE_LIBRARY: Record<HardwareCategory, HardwareItem[]> = {
+  hinges: [
+    { id: "manual", label: "Manual / Custom", brand: "", model: "", price: 0, params: null },
+    { id: "HG-001", label: "Blum CLIP Top BM 110\u00B0 Full OL", brand: "Blum", model: "71B3550", price: 3.50,
+      params: { HingeCupDiameter: 1.378, HingeCupDepth: 0.512, HingeBoringDistance: 0.197 } },
+    { id: "HG-002", label: "Blum CLIP Top BM 110\u00B0 Half OL", brand: "Blum", model: "71B3650", price: 3.75,
+      params: { HingeCupDiameter: 1.378, HingeCupDepth: 0.512, HingeBoringDistance: 0.197 } },
+    { id: "HG-003", label: "Blum CLIP Top BM 110\u00B0 Inset", brand: "Blum", model: "71B3750", price: 4.00,
+      params: { HingeCupDiameter: 1.378, HingeCupDepth: 0.512, HingeBoringDistance: 0.197 } },
+    { id: "HG-004", label: "Blum CLIP Top 110\u00B0 Full OL (no SC)", brand: "Blum", model: "71T3550", price: 2.25,
+      params: { HingeCupDiameter: 1.378, HingeCupDepth: 0.453, HingeBoringDistance: 0.197 } },
+    { id: "HG-005", label: "Blum CLIP Top BM 95\u00B0 Thick Door", brand: "Blum", model: "71B9550", price: 4.25,
+      params: { HingeCupDiameter: 1.378, HingeCupDepth: 0.512, HingeBoringDistance: 0.197 } },
+    { id: "HG-006", label: "Blum CLIP Top BM 110\u00B0 Press-In", brand: "Blum", model: "71B3580", price: 3.50,
+      params: { HingeCupDiameter: 1.378, HingeCupDepth: 0.512, HingeBoringDistance: 0.197 } },
+    { id: "HG-007", label: "Blum CLIP Top 170\u00B0 Wide Angle", brand: "Blum", model: "79T5580", price: 6.50,
+      params: { HingeCupDiameter: 1.378, HingeCupDepth: 0.453, HingeBoringDistance: 0.197 } },
+    { id: "HG-008", label: "Blum CLIP Top 155\u00B0 Zero Protrusion", brand: "Blum", model: "79T8500", price: 7.00,
+      params: { HingeCupDiameter: 1.378, HingeCupDepth: 0.453, HingeBoringDistance: 0.197 } },
+    { id: "HG-009", label: "Blum CLIP Top 110\u00B0 w/ Restriction", brand: "Blum", model: "70T3553", price: 2.50,
+      params: { HingeCupDiameter: 1.378, HingeCupDepth: 0.453, HingeBoringDistance: 0.197 } },
+    { id: "HG-010", label: "Blum CLIP Top Mini 94\u00B0 (26mm)", brand: "Blum", model: "70T9550.TL", price: 3.00,
+      params: { HingeCupDiameter: 1.024, HingeCupDepth: 0.394, HingeBoringDistance: 0.197 } },
+    { id: "HG-011", label: "Hettich Sensys 110\u00B0 Full OL (SC)", brand: "Hettich", model: "9071205", price: 3.50,
+      params: { HingeCupDiameter: 1.378, HingeCupDepth: 0.504, HingeBoringDistance: 0.197 } },
+    { id: "HG-012", label: "Hettich Sensys 110\u00B0 Half OL (SC)", brand: "Hettich", model: "9071206", price: 3.75,
+      params: { HingeCupDiameter: 1.378, HingeCupDepth: 0.504, HingeBoringDistance: 0.197 } },
+    { id: "HG-013", label: "Hettich Sensys 110\u00B0 Inset (SC)", brand: "Hettich", model: "9071207", price: 4.00,
+      params: { HingeCupDiameter: 1.378, HingeCupDepth: 0.504, HingeBoringDistance: 0.197 } },
+    { id: "HG-014", label: "Hettich Sensys 110\u00B0 Full OL (no SC)", brand: "Hettich", model: "9073662", price: 2.50,
+      params: { HingeCupDiameter: 1.378, HingeCupDepth: 0.504, HingeBoringDistance: 0.197 } },
+    { id: "HG-015", label: "Hettich Sensys W90 95\u00B0 Blind Corner", brand: "Hettich", model: "9085200", price: 4.50,
+      params: { HingeCupDiameter: 1.378, HingeCupDepth: 0.504, HingeBoringDistance: 0.197 } },
+    { id: "HG-016", label: "Hettich Sensys 110\u00B0 Thin Door (SC)", brand: "Hettich", model: "9094450", price: 5.00,
+      params: { HingeCupDiameter: 1.378, HingeCupDepth: 0.457, HingeBoringDistance: 0.197 } },
+    { id: "HG-017", label: "Grass Tiomos 110\u00B0 Full OL (SC)", brand: "Grass", model: "F045138502", price: 4.00,
+      params: { HingeCupDiameter: 1.378, HingeCupDepth: 0.531, HingeBoringDistance: 0.236 } },
+    { id: "HG-018", label: "Grass Tiomos 110\u00B0 Half OL (SC)", brand: "Grass", model: "F045138506", price: 4.25,
+      params: { HingeCupDiameter: 1.378, HingeCupDepth: 0.531, HingeBoringDistance: 0.236 } },
+    { id: "HG-019", label: "Salice C2A 110\u00B0 Full OL (SC)", brand: "Salice", model: "C2ABG99", price: 3.25,
+      params: { HingeCupDiameter: 1.378, HingeCupDepth: 0.472, HingeBoringDistance: 0.197 } },
+    { id: "HG-020", label: "Salice C2R 110\u00B0 Inset (SC)", brand: "Salice", model: "C2RFG99", price: 3.50,
+      params: { HingeCupDiameter: 1.378, HingeCupDepth: 0.472, HingeBoringDistance: 0.197 } },
+    { id: "HG-021", label: "Liberty H702 110\u00B0 Full OL (SC)", brand: "Liberty", model: "H70223C", price: 2.00,
+      params: { HingeCupDiameter: 1.378, HingeCupDepth: 0.472, HingeBoringDistance: 0.197 } },
+    { id: "HG-022", label: "Generic Euro 110\u00B0 (SC)", brand: "Generic", model: "EURO-110-SC", price: 1.25,
+      params: { HingeCupDiameter: 1.378, HingeCupDepth: 0.472, HingeBoringDistance: 0.197 } }
+  ],
+  slides: [
+    { id: "manual", label: "Manual / Custom", brand: "", model: "", price: 0, params: null },
+    { id: "DS-001", label: "Blum TANDEM 563H (UM, 100lb)", brand: "Blum", model: "563H", price: 28.00,
+      params: { DrawerClearance: 0.827, SlideTopClearance: 0.276, SlideBottomClearance: 0.551 } },
+    { id: "DS-002", label: "Blum TANDEM 569H HD (UM, 150lb)", brand: "Blum", model: "569H", price: 42.00,
+      params: { DrawerClearance: 0.827, SlideTopClearance: 0.276, SlideBottomClearance: 0.551 } },
+    { id: "DS-003", label: "Blum TANDEM 563F \u00BE\" (UM, 100lb)", brand: "Blum", model: "563F", price: 30.00,
+      params: { DrawerClearance: 0.965, SlideTopClearance: 0.276, SlideBottomClearance: 0.551 } },
+    { id: "DS-004", label: "Blum MOVENTO 760H (UM, 88lb)", brand: "Blum", model: "760H", price: 38.00,
+      params: { DrawerClearance: 0.502, SlideTopClearance: 0.276, SlideBottomClearance: 0.551 } },
+    { id: "DS-005", label: "Blum MOVENTO 769H HD (UM, 155lb)", brand: "Blum", model: "769H", price: 52.00,
+      params: { DrawerClearance: 0.502, SlideTopClearance: 0.276, SlideBottomClearance: 0.551 } },
+    { id: "DS-006", label: "Hettich Quadro V6 IW21 (UM, 100lb)", brand: "Hettich", model: "9134368", price: 24.00,
+      params: { DrawerClearance: 0.492, SlideTopClearance: 0.276, SlideBottomClearance: 0.433 } },
+    { id: "DS-007", label: "Hettich Quadro 4D V6 (UM, 100lb)", brand: "Hettich", model: "9135020", price: 35.00,
+      params: { DrawerClearance: 0.492, SlideTopClearance: 0.276, SlideBottomClearance: 0.433 } },
+    { id: "DS-008", label: "Hettich Quadro FAQ (UM/SM, 100lb)", brand: "Hettich", model: "9306534", price: 20.00,
+      params: { DrawerClearance: 0.492, SlideTopClearance: 0.276, SlideBottomClearance: 0.433 } },
+    { id: "DS-009", label: "Hettich Actro YOU (UM, 90lb)", brand: "Hettich", model: "9257008", price: 36.00,
+      params: { DrawerClearance: 0.492, SlideTopClearance: 0.236, SlideBottomClearance: 0.394 } },
+    { id: "DS-010", label: "Hettich Actro YOU HD (UM, 154lb)", brand: "Hettich", model: "9257010", price: 50.00,
+      params: { DrawerClearance: 0.492, SlideTopClearance: 0.236, SlideBottomClearance: 0.394 } },
+    { id: "DS-011", label: "KV 8400B (SM, 100lb)", brand: "Knape & Vogt", model: "8400B", price: 12.00,
+      params: { DrawerClearance: 0.500, SlideTopClearance: 0.250, SlideBottomClearance: 0.500 } },
+    { id: "DS-012", label: "KV 8417B Soft-Close (SM, 100lb)", brand: "Knape & Vogt", model: "8417B", price: 18.00,
+      params: { DrawerClearance: 0.500, SlideTopClearance: 0.250, SlideBottomClearance: 0.500 } },
+    { id: "DS-013", label: "KV 8450FM (UM, 75lb)", brand: "Knape & Vogt", model: "8450FM", price: 22.00,
+      params: { DrawerClearance: 0.500, SlideTopClearance: 0.276, SlideBottomClearance: 0.472 } },
+    { id: "DS-014", label: "Accuride C3832 (SM, 100lb)", brand: "Accuride", model: "C3832", price: 14.00,
+      params: { DrawerClearance: 0.500, SlideTopClearance: 0.250, SlideBottomClearance: 0.500 } },
+    { id: "DS-015", label: "Accuride C3832-SC (SM SC, 100lb)", brand: "Accuride", model: "C3832-SC", price: 20.00,
+      params: { DrawerClearance: 0.500, SlideTopClearance: 0.250, SlideBottomClearance: 0.500 } },
+    { id: "DS-016", label: "Accuride C3160 (Center, 35lb)", brand: "Accuride", model: "C3160", price: 8.00,
+      params: { DrawerClearance: 0.000, SlideTopClearance: 0.250, SlideBottomClearance: 0.250 } },
+    { id: "DS-017", label: "Liberty D806 SC (SM, 100lb)", brand: "Liberty", model: "D80622C", price: 10.00,
+      params: { DrawerClearance: 0.500, SlideTopClearance: 0.250, SlideBottomClearance: 0.500 } },
+    { id: "DS-018", label: "Liberty D942 HD (SM, 200lb)", brand: "Liberty", model: "D94222C", price: 22.00,
+      params: { DrawerClearance: 0.500, SlideTopClearance: 0.250, SlideBottomClearance: 0.500 } },
+    { id: "DS-019", label: "Grass Dynapro (UM, 100lb)", brand: "Grass", model: "Dynapro", price: 34.00,
+      params: { DrawerClearance: 0.492, SlideTopClearance: 0.236, SlideBottomClearance: 0.472 } },
+    { id: "DS-020", label: "Salice Futura (UM, 100lb)", brand: "Salice", model: "A7555/530", price: 30.00,
+      params: { DrawerClearance: 0.492, SlideTopClearance: 0.276, SlideBottomClearance: 0.472 } },
+    { id: "DS-021", label: "King Slide 2M15 (UM, 75lb)", brand: "King Slide", model: "2M15", price: 18.00,
+      params: { DrawerClearance: 0.492, SlideTopClearance: 0.276, SlideBottomClearance: 0.472 } },
+    { id: "DS-022", label: "Accuride C7432 HD (SM, 150lb)", brand: "Accuride", model: "C7432", price: 24.00,
+      params: { DrawerClearance: 0.500, SlideTopClearance: 0.250, SlideBottomClearance: 0.500 } }
+  ],
+  pulls: [
+    { id: "manual", label: "Manual / Custom", brand: "", model: "", price: 0, params: null },
+    { id: "PL-001", label: "Amerock Bar 3-3/4\" CC (Black)", brand: "Amerock", model: "BP40515", price: 5.50,
+      params: { PullBoreSpacing: 3.75, PullMountingHoleDia: 0.1875, PullProjection: 1.375 } },
+    { id: "PL-002", label: "Amerock Bar 5-1/16\" CC (Black)", brand: "Amerock", model: "BP40516", price: 6.00,
+      params: { PullBoreSpacing: 5.063, PullMountingHoleDia: 0.1875, PullProjection: 1.375 } },
+    { id: "PL-003", label: "Amerock Bar 6-5/16\" CC (Black)", brand: "Amerock", model: "BP40517", price: 6.50,
+      params: { PullBoreSpacing: 6.313, PullMountingHoleDia: 0.1875, PullProjection: 1.375 } },
+    { id: "PL-004", label: "Amerock Bar 7-9/16\" CC (Black)", brand: "Amerock", model: "BP40518", price: 7.00,
+      params: { PullBoreSpacing: 7.563, PullMountingHoleDia: 0.1875, PullProjection: 1.375 } },
+    { id: "PL-005", label: "Amerock Bar 10-1/16\" CC (Black)", brand: "Amerock", model: "BP40520", price: 8.00,
+      params: { PullBoreSpacing: 10.063, PullMountingHoleDia: 0.1875, PullProjection: 1.375 } },
+    { id: "PL-006", label: "Amerock Blackrock Knob 1-3/16\"", brand: "Amerock", model: "BP55277BBR", price: 4.00,
+      params: { PullBoreSpacing: 0, PullMountingHoleDia: 0.1875, PullProjection: 1.188 } },
+    { id: "PL-007", label: "Amerock Allison Knob 1-1/4\" (SN)", brand: "Amerock", model: "BP53005G10", price: 2.50,
+      params: { PullBoreSpacing: 0, PullMountingHoleDia: 0.1875, PullProjection: 1.0 } },
+    { id: "PL-008", label: "Top Knobs Bar 3-3/4\" CC (SN)", brand: "Top Knobs", model: "M2158", price: 8.50,
+      params: { PullBoreSpacing: 3.75, PullMountingHoleDia: 0.1875, PullProjection: 1.313 } },
+    { id: "PL-009", label: "Top Knobs Aspen 3-3/4\" CC (Bronze)", brand: "Top Knobs", model: "M1512", price: 14.00,
+      params: { PullBoreSpacing: 3.75, PullMountingHoleDia: 0.1875, PullProjection: 1.5 } },
+    { id: "PL-010", label: "Top Knobs Nouveau Knob 1-1/16\"", brand: "Top Knobs", model: "M2170", price: 5.50,
+      params: { PullBoreSpacing: 0, PullMountingHoleDia: 0.1875, PullProjection: 1.0 } },
+    { id: "PL-011", label: "Richelieu Bar 5-1/16\" CC (BN)", brand: "Richelieu", model: "BP305128195", price: 4.50,
+      params: { PullBoreSpacing: 5.063, PullMountingHoleDia: 0.1875, PullProjection: 1.25 } },
+    { id: "PL-012", label: "Richelieu Bar 7-9/16\" CC (BN)", brand: "Richelieu", model: "BP305196195", price: 5.50,
+      params: { PullBoreSpacing: 7.563, PullMountingHoleDia: 0.1875, PullProjection: 1.25 } },
+    { id: "PL-013", label: "Liberty Bar 3-3/4\" CC (Black)", brand: "Liberty", model: "P01026C", price: 3.50,
+      params: { PullBoreSpacing: 3.75, PullMountingHoleDia: 0.1875, PullProjection: 1.25 } },
+    { id: "PL-014", label: "Liberty Edge Pull 3-3/4\" CC (SN)", brand: "Liberty", model: "P29613K", price: 4.00,
+      params: { PullBoreSpacing: 3.75, PullMountingHoleDia: 0.1875, PullProjection: 0.625 } },
+    { id: "PL-015", label: "Liberty Wrapped Bar 5-1/16\" CC", brand: "Liberty", model: "P44428C", price: 4.00,
+      params: { PullBoreSpacing: 5.063, PullMountingHoleDia: 0.1875, PullProjection: 1.375 } },
+    { id: "PL-016", label: "Hickory Bar 3-3/4\" CC (Black)", brand: "Hickory", model: "HH075594", price: 4.50,
+      params: { PullBoreSpacing: 3.75, PullMountingHoleDia: 0.1875, PullProjection: 1.375 } },
+    { id: "PL-017", label: "Hickory Cup Pull 3\" CC (SS)", brand: "Hickory", model: "P3055-SS", price: 6.00,
+      params: { PullBoreSpacing: 3.0, PullMountingHoleDia: 0.1875, PullProjection: 0.875 } },
+    { id: "PL-018", label: "Amerock Cup Pull 3\" CC (SN)", brand: "Amerock", model: "BP36640G10", price: 5.50,
+      params: { PullBoreSpacing: 3.0, PullMountingHoleDia: 0.1875, PullProjection: 0.75 } },
+    { id: "PL-019", label: "Top Knobs Tab Pull 2\" (Single)", brand: "Top Knobs", model: "TK95x", price: 7.00,
+      params: { PullBoreSpacing: 0, PullMountingHoleDia: 0.1875, PullProjection: 0.375 } },
+    { id: "PL-020", label: "Berenson Euro Bar 3-3/4\" CC (BN)", brand: "Berenson", model: "2096-4BPN-P", price: 6.00,
+      params: { PullBoreSpacing: 3.75, PullMountingHoleDia: 0.1875, PullProjection: 1.375 } },
+    { id: "PL-021", label: "Atlas Bar 5-1/16\" CC (Black)", brand: "Atlas", model: "A837-BL", price: 9.00,
+      params: { PullBoreSpacing: 5.063, PullMountingHoleDia: 0.1875, PullProjection: 1.5 } },
+    { id: "PL-022", label: "Generic Euro Bar 3-3/4\" CC", brand: "Generic", model: "Euro Bar", price: 1.50,
+      params: { PullBoreSpacing: 3.75, PullMountingHoleDia: 0.1875, PullProjection: 1.25 } },
+    { id: "PL-023", label: "Generic Euro Knob 1-3/16\" (SN)", brand: "Generic", model: "Euro Knob", price: 1.00,
+      params: { PullBoreSpacing: 0, PullMountingHoleDia: 0.1875, PullProjection: 1.0 } }
+  ]
+};
+
+/** Default US retail prices. */
+export const MATERIAL_PRICING: MaterialPricing = {
+  sheets: {
+    "0.750": { label: '\u00BE" Plywood',  pricePerSheet: 58.00 },
+    "0.767": { label: '\u00BE" Plywood',  pricePerSheet: 58.00 },
+    "0.797": { label: '\u00BE" Plywood',  pricePerSheet: 58.00 },
+    "0.733": { label: '\u00BE" Plywood',  pricePerSheet: 58.00 },
+    "0.758": { label: '\u00BE" Plywood',  pricePerSheet: 58.00 },
+    "0.960": { label: '\u00BE" Plywood',  pricePerSheet: 58.00 },
+    "0.500": { label: '\u00BD" Plywood',  pricePerSheet: 48.00 },
+    "0.375": { label: '\u00BC" Plywood',  pricePerSheet: 28.00 },
+    "0.250": { label: '\u00BC" Plywood',  pricePerSheet: 28.00 },
+    "0.125": { label: '\u2159" Hardboard', pricePerSheet: 18.00 }
+  },
+  edgeBandingPerFt: 0.75,
+  defaultSheetPrice: 50.00
+};
+
+/** Built-in prices: the fallback when the database catalog isn't loaded. */
+export const DEFAULT_CATALOG: PriceCatalog = {
+  hardware: HARDWARE_LIBRARY,
+  materials: MATERIAL_PRICING,
+};
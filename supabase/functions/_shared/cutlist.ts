@@ -0,0 +1,720 @@
+// =============================================================================
+// PIF Selection-Connection — shared: cabinet cut list, BOM and DXF
+// Server-side port of the configurator.html output functions: computeCutList,
+// computeSheetGoods, computeHardwareSchedule, computeCostSummary, generateDXF
+// and generateCSV. Takes configurator state (the SLIDER_GROUPS keys, as in
+// ChassisPresets.json) instead of reading the page's global `state`, and
+// returns DXF / CSV text instead of downloading it.
+// Computation is in inches; configs in mm are converted on the way in and
+// the CSV / DXF / JSON outputs on the way out (_shared/units.ts).
+// Used by generate-cut-list. Formulas must match configurator.html and the
+// GH definition (see "How to Verify GH Definition Matches Web Computation").
+// =============================================================================
+
+import {
+  DEFAULT_CATALOG,
+  HardwareCategory,
+  HardwareItem,
+  PriceCatalog,
+  SLIDER_GROUPS,
+  ZONE_DEFAULTS,
+  ZONE_RANGES,
+} from "./configurator-data.ts";
+import {
+  configToInches,
+  dxfInsUnits,
+  formatLength,
+  fromInches,
+  metricStockThickness,
+  MM_PER_INCH,
+  runLength,
+  runLengthUnit,
+  UnitSystem,
+} from "./units.ts";
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** 4x8 sheet, in square inches. */
+const SHEET_AREA = 48 * 96;
+
+/** Sheet count allowance for kerf and offcuts. */
+const SHEET_WASTE_FACTOR = 1.3;
+
+/** DXF layout sheet (landscape) and spacing between parts, in inches. */
+const DXF_SHEET_W = 96;
+const DXF_SHEET_H = 48;
+const DXF_GAP = 1;
+
+const DXF_LAYERS = [
+  { name: "CUT", color: 7 },
+  { name: "DRILL", color: 1 },
+  { name: "ENGRAVE", color: 3 },
+  { name: "REFERENCE", color: 5 },
+];
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Every configurator parameter, defaults filled in. */
+export type CabinetState = Record<string, number>;
+
+/** Selected hardware catalog ids ("manual" = none). */
+export interface HardwareSelection {
+  hinge: string;
+  slide: string;
+  pull: string;
+}
+
+export interface CutPart {
+  name: string;
+  qty: number;
+  /** Inches; w along the grain for grain-locked parts. */
+  w: number;
+  h: number;
+  t: number;
+  /** Toe kick notch cut from the front-bottom corner of a side panel. */
+  notch?: { w: number; h: number } | null;
+  type: string;
+  grainLock: boolean;
+  material: "sheet" | "lumber";
+}
+
+export interface SheetGoodsLine {
+  thickness: number;
+  count: number;
+}
+
+export interface ZoneCompartment {
+  index: number;
+  /** 0 = door, 1 = drawer, 2 = open. */
+  type: number;
+  height: number;
+  bottomZ: number;
+  topZ: number;
+}
+
+export interface HardwareLine {
+  category: string;
+  label: string;
+  qty: number;
+  unit: string;
+  unitPrice: number;
+  total: number;
+}
+
+export interface CostLine {
+  label: string;
+  detail: string;
+  value: number;
+}
+
+export interface CostSummary {
+  lines: CostLine[];
+  total: number;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function findHardwareItem(catalog: PriceCatalog, type: HardwareCategory, id: string): HardwareItem | null {
+  return catalog.hardware[type].find((item) => item.id === id) ?? null;
+}
+
+function csvEscape(str: string): string {
+  if (!str) return "";
+  if (str.indexOf(",") >= 0 || str.indexOf('"') >= 0 || str.indexOf("\n") >= 0) {
+    return '"' + str.replace(/"/g, '""') + '"';
+  }
+  return str;
+}
+
+/* Coordinates are laid out in inches; `scale` converts them to the
+   drawing's units (1 for inches, 25.4 for mm). */
+function dxfCoord(value: number, scale: number): string {
+  return String(scale === 1 ? value : Math.round(value * scale * 1000) / 1000);
+}
+
+function addRect(lines: string[], x: number, y: number, w: number, h: number, layer: string, scale = 1): void {
+  const c = (v: number) => dxfCoord(v, scale);
+  lines.push("0", "LWPOLYLINE", "8", layer, "90", "4", "70", "1");
+  lines.push("10", c(x), "20", c(y));
+  lines.push("10", c(x + w), "20", c(y));
+  lines.push("10", c(x + w), "20", c(y + h));
+  lines.push("10", c(x), "20", c(y + h));
+}
+
+/* L-shaped polyline: rectangle with notch cut from bottom-left corner.
+   Notch: nw wide × nh tall. Part oriented: width=depth, height=height.
+   Bottom-left = front-bottom of side panel. */
+function addLShape(
+  lines: string[],
+  x: number,
+  y: number,
+  w: number,
+  h: number,
+  nw: number,
+  nh: number,
+  layer: string,
+  scale = 1
+): void {
+  const c = (v: number) => dxfCoord(v, scale);
+  lines.push("0", "LWPOLYLINE", "8", layer, "90", "6", "70", "1");
+  lines.push("10", c(x), "20", c(y + nh)); /* above notch */
+  lines.push("10", c(x + nw), "20", c(y + nh)); /* notch inner corner */
+  lines.push("10", c(x + nw), "20", c(y)); /* notch bottom */
+  lines.push("10", c(x + w), "20", c(y)); /* bottom-right */
+  lines.push("10", c(x + w), "20", c(y + h)); /* top-right */
+  lines.push("10", c(x), "20", c(y + h)); /* top-left */
+}
+
+function addText(lines: string[], text: string, x: number, y: number, layer: string, height: number, scale = 1): void {
+  lines.push("0", "TEXT", "8", layer);
+  lines.push("10", dxfCoord(x, scale), "20", dxfCoord(y, scale), "30", "0");
+  lines.push("40", dxfCoord(height || 1, scale));
+  lines.push("1", text);
+}
+
+// ---------------------------------------------------------------------------
+// Public API — input
+// ---------------------------------------------------------------------------
+
+/**
+ * Configurator state from a (possibly partial) config: every SLIDER_GROUPS
+ * and zone stack key, at its default unless the config sets a finite number.
+ * A config with units: "mm" is converted to inches first (configToInches).
+ * Values are clamped to the configurator's range, which also bounds the
+ * counts the cut list, zone stack and DXF loop over.
+ * Other keys (e.g. "category" in ChassisPresets.json) are ignored.
+ */
+export function resolveCabinetState(config: Record<string, unknown>): CabinetState {
+  config = configToInches(config);
+  const state: CabinetState = {};
+  const ranges: Record<string, { min: number; max: number }> = { ...ZONE_RANGES };
+  for (const group of SLIDER_GROUPS) {
+    for (const slider of group.sliders) {
+      state[slider.key] = slider.default;
+      ranges[slider.key] = slider;
+    }
+  }
+  Object.assign(state, ZONE_DEFAULTS);
+
+  for (const key of Object.keys(state)) {
+    const value = config[key];
+    if (typeof value === "number" && Number.isFinite(value)) {
+      state[key] = Math.min(Math.max(value, ranges[key].min), ranges[key].max);
+    }
+  }
+  return state;
+}
+
+/** Hardware selection from a request; unknown ids fall back to "manual". */
+export function parseHardwareSelection(value: unknown, catalog: PriceCatalog = DEFAULT_CATALOG): HardwareSelection {
+  const input = (value && typeof value === "object" ? value : {}) as Record<string, unknown>;
+  const pick = (type: HardwareCategory, id: unknown): string =>
+    typeof id === "string" && findHardwareItem(catalog, type, id) ? id : "manual";
+
+  return {
+    hinge: pick("hinges", input.hinge),
+    slide: pick("slides", input.slide),
+    pull: pick("pulls", input.pull),
+  };
+}
+
+/** Stock label for a thickness in inches: ¾" / 19 mm (nearest metric stock). */
+export function thicknessLabel(t: number, units: UnitSystem = "inches"): string {
+  if (units === "mm") return metricStockThickness(t) + " mm";
+  if (t <= 0.26) return '¼"';
+  if (t <= 0.51) return '½"';
+  return '¾"';
+}
+
+// ---------------------------------------------------------------------------
+// Public API — computation
+// ---------------------------------------------------------------------------
+
+/** Compartments between the dado shelves, bottom → top. */
+export function computeZoneStack(state: CabinetState): ZoneCompartment[] {
+  const interiorH = state.Height - state.ToeKickHeight - state.BottomThickness - state.FrontStretcherWidth;
+  if (interiorH <= 0) return [];
+
+  const dadoCount = Math.round(state.ZS_DadoCount || 0);
+  const compCount = dadoCount + 1;
+  const dadoT = state.ZS_DadoThickness || 0.75;
+  const maxDadoZ = interiorH - dadoT;
+  const dadoZ = [
+    Math.min(state.ZS_Dado1Z, maxDadoZ),
+    Math.min(state.ZS_Dado2Z, maxDadoZ),
+    Math.min(state.ZS_Dado3Z, maxDadoZ),
+  ];
+  /* Ensure dado positions are sorted ascending */
+  for (let d = 1; d < dadoCount; d++) {
+    if (dadoZ[d] <= dadoZ[d - 1] + dadoT) dadoZ[d] = dadoZ[d - 1] + dadoT + 1;
+  }
+  const baseZ = state.ToeKickHeight + state.BottomThickness;
+  const compartments: ZoneCompartment[] = [];
+
+  for (let i = 0; i < compCount; i++) {
+    const bottom = i === 0 ? 0 : dadoZ[i - 1] + dadoT;
+    const top = i < dadoCount ? dadoZ[i] : interiorH;
+    compartments.push({
+      index: i,
+      type: Math.round(state["ZS_Comp" + (i + 1) + "Type"] || 0),
+      height: Math.max(0, top - bottom),
+      bottomZ: baseZ + bottom,
+      topZ: baseZ + top,
+    });
+  }
+  return compartments;
+}
+
+export function computeCutList(state: CabinetState): CutPart[] {
+  const W = state.Width, H = state.Height, D = state.Depth;
+  const ST = state.SideThickness, BT = state.BottomThickness;
+  const ShT = state.ShelfThickness, BPT = state.BackPanelThickness;
+  const TK = state.ToeKickHeight, DD = state.DadoDepth;
+  const interiorW = Math.max(0, W - 2 * ST);
+  const parts: CutPart[] = [];
+
+  const tkd = (TK > 0) ? (state.ToeKickDepth || 3) : 0;
+  const sideNotch = (TK > 0 && tkd > 0) ? { w: tkd, h: TK } : null;
+  parts.push({ name: "Left Side", qty: 1, w: D, h: H, t: ST, notch: sideNotch, type: "side", grainLock: true, material: "sheet" });
+  parts.push({ name: "Right Side", qty: 1, w: D, h: H, t: ST, notch: sideNotch, type: "side", grainLock: true, material: "sheet" });
+  parts.push({ name: "Bottom", qty: 1, w: interiorW, h: D, t: BT, type: "bottom", grainLock: false, material: "sheet" });
+
+  const backH = Math.max(0, H - TK - BT);
+  parts.push({ name: "Back Panel", qty: 1, w: interiorW, h: backH, t: BPT, type: "back", grainLock: false, material: "sheet" });
+
+  if (TK > 0) {
+    parts.push({ name: "Toe Kick Board", qty: 1, w: interiorW, h: TK, t: ST, type: "stretcher", grainLock: false, material: "lumber" });
+  }
+
+  parts.push({ name: "Front Stretcher", qty: 1, w: interiorW, h: state.FrontStretcherWidth, t: state.FrontStretcherThickness, type: "stretcher", grainLock: false, material: "lumber" });
+  parts.push({ name: "Back Stretcher", qty: 1, w: interiorW, h: state.BackStretcherWidth, t: state.BackStretcherThickness, type: "stretcher", grainLock: false, material: "lumber" });
+  parts.push({ name: "Rear Stretcher", qty: 1, w: interiorW, h: state.RearStretcherWidth, t: state.RearStretcherThickness, type: "stretcher", grainLock: false, material: "lumber" });
+
+  /* ── Face Frame ── */
+  const ffSW = state.FaceFrameStileWidth || 0;
+  const ffRW = state.FaceFrameRailWidth || 0;
+  const ffT = state.FaceFrameThickness || 0.75;
+  if (ffSW > 0) {
+    const ffH = Math.max(0, H - TK);
+    const ffRailLen = Math.max(0, W - 2 * ffSW);
+    parts.push({ name: "FF Left Stile", qty: 1, w: ffSW, h: ffH, t: ffT, type: "frame", grainLock: true, material: "lumber" });
+    parts.push({ name: "FF Right Stile", qty: 1, w: ffSW, h: ffH, t: ffT, type: "frame", grainLock: true, material: "lumber" });
+    parts.push({ name: "FF Top Rail", qty: 1, w: ffRailLen, h: ffRW, t: ffT, type: "frame", grainLock: false, material: "lumber" });
+    parts.push({ name: "FF Bottom Rail", qty: 1, w: ffRailLen, h: ffRW, t: ffT, type: "frame", grainLock: false, material: "lumber" });
+  }
+
+  const ffOH = state.FaceFrameOverhang || 0;
+  const dadoCount = Math.round(state.ZS_DadoCount || 0);
+  const shelfW = Math.max(0, interiorW - 2 * DD);
+  const shelfD = Math.max(0, D - BPT - state.ShelfSetback);
+  /* Door width based on face frame opening (overlay measured from FF edge) */
+  const ffOpenW = ffSW > 0 ? (W - 2 * ffSW + 2 * ffOH) : interiorW;
+  const ffOpenH = ffRW > 0 ? (H - TK - 2 * ffRW) : (H - TK);
+  const totalDoorW = ffOpenW + state.DoorOverlayLeft + state.DoorOverlayRight;
+  const dbW = Math.max(0, interiorW - 2 * state.DrawerClearance - 2 * state.DrawerBoxSideThickness);
+  const dbD = Math.max(0, D - BPT - 1);
+
+  /* Face frame mid-rails at dado shelf divisions */
+  if (ffSW > 0 && dadoCount > 0) {
+    parts.push({ name: "FF Mid Rail", qty: dadoCount, w: Math.max(0, W - 2 * ffSW), h: ffRW, t: ffT, type: "frame", grainLock: false, material: "lumber" });
+  }
+
+  if (dadoCount > 0) {
+    /* ── Zone Stack Mode ── */
+    /* Dado shelves */
+    parts.push({ name: "Dado Shelf", qty: dadoCount, w: shelfW, h: Math.max(0, D - BPT), t: state.ZS_DadoThickness, type: "shelf", grainLock: false, material: "sheet" });
+
+    /* Per-compartment parts */
+    const zones = computeZoneStack(state);
+    zones.forEach((zone, i) => {
+      const lbl = zones.length > 1 ? "Z" + (i + 1) + " " : "";
+
+      if (zone.type === 0) { /* Door compartment */
+        const zDoorCount = 2;
+        const zDoorH = Math.max(0, zone.height + state.DoorOverlayTop + state.DoorOverlayBottom);
+        const zDoorW = Math.max(0, (totalDoorW - (zDoorCount - 1) * state.DoorGap) / zDoorCount);
+        parts.push({ name: lbl + "Door", qty: zDoorCount, w: zDoorW, h: zDoorH, t: state.DoorThickness, type: "door", grainLock: true, material: "sheet" });
+        parts.push({ name: lbl + "Adj. Shelf", qty: 1, w: shelfW, h: shelfD, t: ShT, type: "shelf", grainLock: false, material: "sheet" });
+      }
+
+      if (zone.type === 1) { /* Drawer compartment */
+        const zDrawerCount = 3;
+        const zFrontH = Math.max(3, zone.height / zDrawerCount);
+        parts.push({ name: lbl + "Drawer Front", qty: zDrawerCount, w: totalDoorW, h: zFrontH, t: state.DoorThickness, type: "drawer-front", grainLock: true, material: "sheet" });
+        parts.push({ name: lbl + "Drawer Side", qty: zDrawerCount * 2, w: dbD, h: state.DrawerBoxHeight, t: state.DrawerBoxSideThickness, type: "drawer-box", grainLock: false, material: "sheet" });
+        parts.push({ name: lbl + "Drawer F/B", qty: zDrawerCount * 2, w: dbW, h: state.DrawerBoxHeight, t: state.DrawerBoxSideThickness, type: "drawer-box", grainLock: false, material: "sheet" });
+        parts.push({ name: lbl + "Drawer Bottom", qty: zDrawerCount, w: dbW, h: dbD, t: state.DrawerBottomThickness, type: "drawer-box", grainLock: false, material: "sheet" });
+      }
+
+      if (zone.type === 2) { /* Open compartment */
+        parts.push({ name: lbl + "Adj. Shelf", qty: 2, w: shelfW, h: shelfD, t: ShT, type: "shelf", grainLock: false, material: "sheet" });
+      }
+    });
+
+  } else {
+    /* ── Standard Mode (no zones) ── */
+    if (state.ShelfCount > 0) {
+      parts.push({ name: "Adj. Shelf", qty: Math.round(state.ShelfCount), w: shelfW, h: shelfD, t: ShT, type: "shelf", grainLock: false, material: "sheet" });
+    }
+
+    if (state.DoorCount > 0) {
+      const dc = Math.round(state.DoorCount);
+      const doorW = Math.max(0, (totalDoorW - (dc - 1) * state.DoorGap) / dc);
+      const doorH = Math.max(0, ffOpenH + state.DoorOverlayTop + state.DoorOverlayBottom);
+      parts.push({ name: "Door", qty: dc, w: doorW, h: doorH, t: state.DoorThickness, type: "door", grainLock: true, material: "sheet" });
+    }
+
+    if (state.DrawerCount > 0) {
+      const drc = Math.round(state.DrawerCount);
+      parts.push({ name: "Drawer Front", qty: drc, w: totalDoorW, h: state.DrawerHeight, t: state.DoorThickness, type: "drawer-front", grainLock: true, material: "sheet" });
+      parts.push({ name: "Drawer Box Side", qty: drc * 2, w: dbD, h: state.DrawerBoxHeight, t: state.DrawerBoxSideThickness, type: "drawer-box", grainLock: false, material: "sheet" });
+      parts.push({ name: "Drawer Box F/B", qty: drc * 2, w: dbW, h: state.DrawerBoxHeight, t: state.DrawerBoxSideThickness, type: "drawer-box", grainLock: false, material: "sheet" });
+      parts.push({ name: "Drawer Bottom", qty: drc, w: dbW, h: dbD, t: state.DrawerBottomThickness, type: "drawer-box", grainLock: false, material: "sheet" });
+    }
+  }
+
+  return parts;
+}
+
+/** Estimated 4x8 sheets per thickness, thickest first. */
+export function computeSheetGoods(parts: CutPart[]): SheetGoodsLine[] {
+  const byThickness: Record<string, number> = {};
+
+  parts.forEach((p) => {
+    const k = p.t.toFixed(3);
+    if (!byThickness[k]) byThickness[k] = 0;
+    byThickness[k] += p.qty * p.w * p.h;
+  });
+
+  return Object.keys(byThickness)
+    .sort((a, b) => parseFloat(b) - parseFloat(a))
+    .map((k) => ({
+      thickness: parseFloat(k),
+      count: Math.ceil((byThickness[k] * SHEET_WASTE_FACTOR) / SHEET_AREA),
+    }));
+}
+
+export function computeHardwareSchedule(
+  state: CabinetState,
+  hardware: HardwareSelection,
+  catalog: PriceCatalog = DEFAULT_CATALOG
+): HardwareLine[] {
+  const schedule: HardwareLine[] = [];
+  let dc: number, drc: number;
+  const dadoCount = Math.round(state.ZS_DadoCount || 0);
+
+  if (dadoCount > 0) {
+    /* Zone mode: sum doors/drawers across all compartments */
+    dc = 0; drc = 0;
+    computeZoneStack(state).forEach((z) => {
+      if (z.type === 0) dc += 2; /* 2 doors per door compartment */
+      if (z.type === 1) drc += 3; /* 3 drawers per drawer compartment */
+    });
+  } else {
+    dc = Math.round(state.DoorCount);
+    drc = Math.round(state.DrawerCount);
+  }
+  const hc = Math.round(state.HingeCount);
+
+  /* Hinges: HingeCount per door × DoorCount */
+  if (dc > 0) {
+    const hinge = findHardwareItem(catalog, "hinges", hardware.hinge);
+    const hingeQty = hc * dc;
+    schedule.push({
+      category: "Hinge",
+      label: hinge && hinge.brand ? hinge.brand + " " + hinge.model : "Custom",
+      qty: hingeQty,
+      unit: "ea",
+      unitPrice: hinge ? hinge.price : 0,
+      total: hingeQty * (hinge ? hinge.price : 0),
+    });
+  }
+
+  /* Slides: 1 pair per drawer (2 rails) */
+  if (drc > 0) {
+    const slide = findHardwareItem(catalog, "slides", hardware.slide);
+    schedule.push({
+      category: "Slide Pair",
+      label: slide && slide.brand ? slide.brand + " " + slide.model : "Custom",
+      qty: drc,
+      unit: "pr",
+      unitPrice: slide ? slide.price : 0,
+      total: drc * (slide ? slide.price : 0),
+    });
+  }
+
+  /* Pulls: 1 per door + 1 per drawer */
+  if (dc > 0 || drc > 0) {
+    const pull = findHardwareItem(catalog, "pulls", hardware.pull);
+    const pullQty = dc + drc;
+    schedule.push({
+      category: "Pull",
+      label: pull && pull.brand ? pull.brand + " " + pull.model : "Custom",
+      qty: pullQty,
+      unit: "ea",
+      unitPrice: pull ? pull.price : 0,
+      total: pullQty * (pull ? pull.price : 0),
+    });
+  }
+
+  return schedule;
+}
+
+export function computeEdgeBandingFeet(state: CabinetState): number {
+  const ST = state.SideThickness, DD = state.DadoDepth, TK = state.ToeKickHeight;
+  const interiorW = Math.max(0, state.Width - 2 * ST);
+  let inches = 0;
+
+  /* Shelf front edges */
+  if (state.ShelfCount > 0) {
+    const shelfW = Math.max(0, interiorW - 2 * DD);
+    inches += Math.round(state.ShelfCount) * shelfW;
+  }
+
+  /* Bottom front edge */
+  inches += interiorW;
+
+  /* Side panel front edges (visible portion above toe kick) */
+  inches += 2 * Math.max(0, state.Height - TK);
+
+  return inches / 12;
+}
+
+/** Material + hardware cost at catalog prices (built-in tables by default). */
+export function computeCostSummary(
+  state: CabinetState,
+  hardware: HardwareSelection,
+  catalog: PriceCatalog = DEFAULT_CATALOG,
+  units: UnitSystem = "inches"
+): CostSummary {
+  const materials = catalog.materials;
+  const parts = computeCutList(state);
+  const sheets = computeSheetGoods(parts);
+  const hwSchedule = computeHardwareSchedule(state, hardware, catalog);
+  const edgeFt = computeEdgeBandingFeet(state);
+
+  const lines: CostLine[] = [];
+  let grandTotal = 0;
+
+  /* Sheet goods cost */
+  let sheetTotal = 0;
+  sheets.forEach((s) => {
+    const pricing = materials.sheets[s.thickness.toFixed(3)];
+    const price = pricing ? pricing.pricePerSheet : materials.defaultSheetPrice;
+    const label = pricing ? pricing.label : thicknessLabel(s.thickness, units) + " Sheet";
+    const lineTotal = s.count * price;
+    sheetTotal += lineTotal;
+    lines.push({
+      label,
+      detail: s.count + "× $" + price.toFixed(2) + "/sheet",
+      value: lineTotal,
+    });
+  });
+
+  /* Hardware cost */
+  const hwTotal = hwSchedule.reduce((sum, item) => sum + item.total, 0);
+  if (hwTotal > 0) {
+    lines.push({ label: "Hardware", detail: hwSchedule.length + " items", value: hwTotal });
+  }
+
+  /* Edge banding cost */
+  if (edgeFt > 0) {
+    const ebCost = edgeFt * materials.edgeBandingPerFt;
+    const unit = runLengthUnit(units);
+    lines.push({
+      label: "Edge Banding",
+      detail: runLength(edgeFt, units).toFixed(1) + " " + unit + " × $" +
+        (materials.edgeBandingPerFt / runLength(1, units)).toFixed(2) + "/" + unit,
+      value: ebCost,
+    });
+    grandTotal += ebCost;
+  }
+
+  grandTotal += sheetTotal + hwTotal;
+
+  return { lines, total: grandTotal };
+}
+
+// ---------------------------------------------------------------------------
+// Public API — units
+// ---------------------------------------------------------------------------
+
+/** Cut list with dimensions in `units` (0.1 mm for metric), for JSON output. */
+export function cutListInUnits(parts: CutPart[], units: UnitSystem): CutPart[] {
+  if (units === "inches") return parts;
+  return parts.map((p) => ({
+    ...p,
+    w: fromInches(p.w, units),
+    h: fromInches(p.h, units),
+    t: fromInches(p.t, units),
+    notch: p.notch ? { w: fromInches(p.notch.w, units), h: fromInches(p.notch.h, units) } : p.notch,
+  }));
+}
+
+/** Sheet goods with thickness in `units`, plus the stock label it snaps to. */
+export function sheetGoodsInUnits(lines: SheetGoodsLine[], units: UnitSystem): (SheetGoodsLine & { stock: string })[] {
+  return lines.map((s) => ({
+    thickness: fromInches(s.thickness, units),
+    count: s.count,
+    stock: thicknessLabel(s.thickness, units),
+  }));
+}
+
+// ---------------------------------------------------------------------------
+// Public API — output files
+// ---------------------------------------------------------------------------
+
+/**
+ * Four-layer DXF (CUT, DRILL, ENGRAVE, REFERENCE), one 96x48 layout per
+ * stock thickness. Same layout as the configurator's DXF export; in mm the
+ * drawing is scaled by 25.4 and $INSUNITS / labels follow.
+ */
+export function generateDXF(state: CabinetState, units: UnitSystem = "inches"): string {
+  const parts = computeCutList(state);
+  const lines: string[] = [];
+  const scale = units === "mm" ? MM_PER_INCH : 1;
+
+  /* DXF header */
+  lines.push("0", "SECTION", "2", "HEADER");
+  lines.push("9", "$ACADVER", "1", "AC1015");
+  lines.push("9", "$INSUNITS", "70", String(dxfInsUnits(units)));
+  lines.push("0", "ENDSEC");
+
+  /* Tables section — define layers */
+  lines.push("0", "SECTION", "2", "TABLES");
+  lines.push("0", "TABLE", "2", "LAYER", "70", "4");
+  DXF_LAYERS.forEach((lyr) => {
+    lines.push("0", "LAYER", "2", lyr.name, "70", "0", "62", String(lyr.color), "6", "Continuous");
+  });
+  lines.push("0", "ENDTAB");
+  lines.push("0", "ENDSEC");
+
+  /* Entities section — part outlines */
+  lines.push("0", "SECTION", "2", "ENTITIES");
+
+  let curX = 0, curY = 0, rowH = 0, sheetNum = 0;
+
+  /* Group parts by thickness */
+  const byThick: Record<string, { name: string; w: number; h: number; notch: { w: number; h: number } | null }[]> = {};
+  parts.forEach((p) => {
+    const k = p.t.toFixed(3);
+    if (!byThick[k]) byThick[k] = [];
+    for (let i = 0; i < p.qty; i++) {
+      byThick[k].push({ name: p.name + (p.qty > 1 ? "_" + (i + 1) : ""), w: p.w, h: p.h, notch: p.notch || null });
+    }
+  });
+
+  Object.keys(byThick).sort((a, b) => parseFloat(b) - parseFloat(a)).forEach((thick) => {
+    curX = 0; curY = sheetNum * (DXF_SHEET_H + 10); rowH = 0;
+
+    /* Sheet boundary on REFERENCE layer */
+    addRect(lines, 0, curY, DXF_SHEET_W, DXF_SHEET_H, "REFERENCE", scale);
+    addText(lines, thicknessLabel(parseFloat(thick), units) + " Stock", 1, curY + DXF_SHEET_H + 2, "REFERENCE", 1.5, scale);
+
+    byThick[thick].forEach((part) => {
+      /* Check if part fits in current row */
+      if (curX + part.w > DXF_SHEET_W) {
+        curX = 0;
+        curY += rowH + DXF_GAP;
+        rowH = 0;
+      }
+      /* If part exceeds sheet, start new sheet line */
+      if (curY + part.h > sheetNum * (DXF_SHEET_H + 10) + DXF_SHEET_H) {
+        sheetNum++;
+        curX = 0; curY = sheetNum * (DXF_SHEET_H + 10); rowH = 0;
+        addRect(lines, 0, curY, DXF_SHEET_W, DXF_SHEET_H, "REFERENCE", scale);
+      }
+
+      /* Part outline on CUT layer */
+      if (part.notch) {
+        addLShape(lines, curX, curY, part.w, part.h, part.notch.w, part.notch.h, "CUT", scale);
+      } else {
+        addRect(lines, curX, curY, part.w, part.h, "CUT", scale);
+      }
+
+      /* Part label on ENGRAVE layer */
+      addText(lines, part.name, curX + 0.25, curY + 0.5, "ENGRAVE", 0.75, scale);
+
+      /* Dimension annotations on REFERENCE layer */
+      addText(lines, formatLength(part.w, units, 2), curX + part.w / 2, curY + part.h + 0.3, "REFERENCE", 0.5, scale);
+
+      curX += part.w + DXF_GAP;
+      if (part.h > rowH) rowH = part.h;
+    });
+
+    sheetNum++;
+  });
+
+  /* Hinge cup bores on DRILL layer */
+  if (state.DoorCount > 0) {
+    /* Note: drill positions are documented in boring specs — placed as reference circles */
+    addText(lines, "Hinge boring: " + formatLength(state.HingeCupDiameter, units) + " dia cup, " + formatLength(state.HingeBoringDistance, units) + " from edge", 1, sheetNum * (DXF_SHEET_H + 10) + 2, "DRILL", 1, scale);
+  }
+
+  lines.push("0", "ENDSEC");
+  lines.push("0", "EOF");
+
+  return lines.join("\n");
+}
+
+/**
+ * BOM CSV: panel schedule, hardware schedule and cost summary, as exported
+ * by the configurator. `title` is the preset name or "Custom Configuration".
+ * In mm the panel columns are Width_mm / Height_mm / Thickness_mm.
+ */
+export function generateCSV(
+  state: CabinetState,
+  hardware: HardwareSelection,
+  title: string,
+  dateStr: string,
+  catalog: PriceCatalog = DEFAULT_CATALOG,
+  units: UnitSystem = "inches"
+): string {
+  const parts = computeCutList(state);
+  const hwSchedule = computeHardwareSchedule(state, hardware, catalog);
+  const cost = computeCostSummary(state, hardware, catalog, units);
+  const rows: string[] = [];
+  const suffix = units === "mm" ? "mm" : "in";
+  const len = (v: number) => units === "mm" ? fromInches(v, units).toFixed(1) : v.toFixed(3);
+
+  rows.push("PIF Cabinet BOM — " + title + " — " + dateStr);
+  rows.push("");
+
+  /* Panel schedule */
+  rows.push("PANEL SCHEDULE");
+  rows.push(`Part_Name,Qty,Width_${suffix},Height_${suffix},Thickness_${suffix},Material,Notch`);
+  parts.forEach((p) => {
+    const notchStr = p.notch ? len(p.notch.w) + "x" + len(p.notch.h) : "";
+    rows.push(csvEscape(p.name) + "," + p.qty + "," + len(p.w) + "," + len(p.h) + "," + len(p.t) + "," + csvEscape(thicknessLabel(p.t, units) + " Plywood") + "," + notchStr);
+  });
+  rows.push("");
+
+  /* Hardware schedule */
+  if (hwSchedule.length > 0) {
+    rows.push("HARDWARE SCHEDULE");
+    rows.push("Item,Brand,Model,Qty,Unit_Cost,Total_Cost");
+    hwSchedule.forEach((item) => {
+      rows.push(csvEscape(item.category) + "," + csvEscape(item.label.split(" ")[0] || "") + "," +
+        csvEscape(item.label) + "," + item.qty + "," +
+        (item.unitPrice > 0 ? item.unitPrice.toFixed(2) : "") + "," +
+        (item.total > 0 ? item.total.toFixed(2) : ""));
+    });
+    rows.push("");
+  }
+
+  /* Cost summary */
+  rows.push("COST SUMMARY");
+  rows.push("Category,Detail,Cost");
+  cost.lines.forEach((line) => {
+    rows.push(csvEscape(line.label) + "," + csvEscape(line.detail) + "," + line.value.toFixed(2));
+  });
+  rows.push("TOTAL,," + cost.total.toFixed(2));
+
+  return rows.join("\n");
+}
@@ -0,0 +1,205 @@
+// =============================================================================
+// PIF Selection-Connection — shared: configurator entitlements
+// A paid configurator purchase (config_purchases, migration 013) is proven by
+// a signed entitlement rather than anything the browser stores for itself.
+// stripe-webhook issues it; verify-entitlement, generate-cut-list and
+// generate-lamiform check it before an export.
+//
+// Token format:  <claims>.<signature>
+//   claims    = base64url(JSON { purchase_id, config_hash, kind, issued_at })
+//   signature = HMAC-SHA256(ENTITLEMENT_SIGNING_SECRET, claims) as lowercase hex
+// config_hash is the SHA-256 of the product kind and the configuration in
+// canonical form (keys sorted), so an entitlement only unlocks the product
+// and configuration that were paid for. Cabinet configurations hash without a
+// kind prefix, and a token without a kind is a cabinet one, so entitlements
+// issued before LamiForm purchases (migration 026) stay valid.
+// =============================================================================
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { hmacSha256Hex, timingSafeEqual } from "./stripe-signature.ts";
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Upper bounds on a submitted configuration (the configurator has ~200 keys). */
+const MAX_CONFIG_KEYS = 1000;
+const MAX_CONFIG_KEY_LENGTH = 64;
+const MAX_CONFIG_STRING_LENGTH = 200;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Configurator slider state: flat map of slider key → value. */
+export type ConfiguratorConfig = Record<string, number | string | boolean>;
+
+/** What a configurator purchase buys: cabinet output or a LamiForm design's. */
+export type ProductKind = "cabinet" | "lamiform";
+
+export const PRODUCT_KINDS: ProductKind[] = ["cabinet", "lamiform"];
+
+export interface EntitlementClaims {
+  purchase_id: string;
+  config_hash: string;
+  kind: ProductKind;
+  /** Unix seconds. */
+  issued_at: number;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function signingSecret(): string {
+  const secret = Deno.env.get("ENTITLEMENT_SIGNING_SECRET");
+  if (!secret) {
+    throw new Error("ENTITLEMENT_SIGNING_SECRET is not configured");
+  }
+  return secret;
+}
+
+function base64UrlEncode(text: string): string {
+  return btoa(text).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function base64UrlDecode(text: string): string | null {
+  try {
+    return atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+  } catch {
+    return null;
+  }
+}
+
+/** JSON with object keys sorted, so equal configurations hash equally. */
+function canonicalJson(config: ConfiguratorConfig): string {
+  const sorted: ConfiguratorConfig = {};
+  for (const key of Object.keys(config).sort()) {
+    sorted[key] = config[key];
+  }
+  return JSON.stringify(sorted);
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Validate a configuration sent by the configurator.
+ * Returns null unless it is a flat object of finite numbers, short strings
+ * and booleans.
+ */
+export function parseConfig(value: unknown): ConfiguratorConfig | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+
+  const entries = Object.entries(value as Record<string, unknown>);
+  if (entries.length === 0 || entries.length > MAX_CONFIG_KEYS) return null;
+
+  const config: ConfiguratorConfig = {};
+  for (const [key, v] of entries) {
+    if (key.length > MAX_CONFIG_KEY_LENGTH) return null;
+    if (typeof v === "number" && Number.isFinite(v)) {
+      config[key] = v;
+    } else if (typeof v === "string" && v.length <= MAX_CONFIG_STRING_LENGTH) {
+      config[key] = v;
+    } else if (typeof v === "boolean") {
+      config[key] = v;
+    } else {
+      return null;
+    }
+  }
+  return config;
+}
+
+/** SHA-256 of the product kind and canonical configuration, as lowercase hex. */
+export async function hashConfig(
+  config: ConfiguratorConfig,
+  kind: ProductKind = "cabinet"
+): Promise<string> {
+  const canonical = kind === "cabinet" ? canonicalJson(config) : `${kind}:${canonicalJson(config)}`;
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(canonical)
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/** Sign an entitlement for a paid configurator purchase. */
+export async function signEntitlement(
+  purchaseId: string,
+  configHash: string,
+  kind: ProductKind,
+  issuedAt = new Date()
+): Promise<string> {
+  const claims: EntitlementClaims = {
+    purchase_id: purchaseId,
+    config_hash: configHash,
+    kind,
+    issued_at: Math.floor(issuedAt.getTime() / 1000),
+  };
+  const encoded = base64UrlEncode(JSON.stringify(claims));
+  const signature = await hmacSha256Hex(signingSecret(), encoded);
+  return `${encoded}.${signature}`;
+}
+
+/**
+ * Check an entitlement's signature and return its claims, or null if it was
+ * not issued by us. Whether the purchase still stands (not refunded) is up to
+ * the caller to check against config_purchases.
+ */
+export async function verifyEntitlement(token: unknown): Promise<EntitlementClaims | null> {
+  if (typeof token !== "string") return null;
+
+  const [encoded, signature, extra] = token.split(".");
+  if (!encoded || !signature || extra !== undefined) return null;
+
+  const expected = await hmacSha256Hex(signingSecret(), encoded);
+  if (!timingSafeEqual(expected, signature.toLowerCase())) return null;
+
+  const json = base64UrlDecode(encoded);
+  if (!json) return null;
+
+  try {
+    const claims = JSON.parse(json) as EntitlementClaims;
+    if (typeof claims.purchase_id !== "string" || typeof claims.config_hash !== "string") {
+      return null;
+    }
+    claims.kind ??= "cabinet";
+    if (!PRODUCT_KINDS.includes(claims.kind)) return null;
+    return claims;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * True when token is the entitlement on record for a paid (not refunded)
+ * purchase of this kind of product with this configuration hash. Throws on
+ * lookup errors.
+ */
+export async function hasEntitlement(
+  supabase: ReturnType<typeof createClient>,
+  token: unknown,
+  configHash: string,
+  kind: ProductKind = "cabinet"
+): Promise<boolean> {
+  const claims = await verifyEntitlement(token);
+  if (!claims || claims.config_hash !== configHash || claims.kind !== kind) return false;
+
+  const { data, error } = await supabase
+    .from("config_purchases")
+    .select("config_hash, product_kind, payment_status, entitlement_token")
+    .eq("id", claims.purchase_id)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Entitlement lookup failed: ${error.message}`);
+  }
+  return !!data &&
+    data.payment_status === "paid" &&
+    data.entitlement_token === token &&
+    data.config_hash === configHash &&
+    data.product_kind === kind;
+}
@@ -0,0 +1,756 @@
+// =============================================================================
+// PIF Selection-Connection — shared: marketplace file formats
+// The one list of formats the marketplace accepts (files.file_format, see
+// migration 023) and the content inspection upload-file runs on every file:
+// the format is sniffed from the first bytes and must agree with the
+// extension, then the file is opened —
+//   DXF  sections balanced, ENTITIES present, EOF marker, $INSUNITS (streamed)
+//   SVG  well-formed XML with an <svg> root; SVG elements only (allowlist),
+//        no scripts, event handlers, script URLs (after decoding character
+//        references), href-rewriting animation, <foreignObject> or entity
+//        declarations
+//   PDF  %PDF-x.y header, %%EOF trailer
+//   ZIP  central directory read without extracting: zip-bomb size and ratio
+//        limits, overlapping entries, path traversal, symlinks, nested archives
+//   3DM  Rhino header and version
+// .gh and Vectric .crv / .crv3d have no published signature; they pass as
+// long as the content isn't recognizably some other format. .json content is
+// checked further by _shared/config-validation.ts.
+// =============================================================================
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** files.file_format values, in the order formats are listed to members. */
+export const FILE_FORMAT_IDS = ["dxf", "svg", "pdf", "zip", "3dm", "gh", "crv", "crv3d", "json"] as const;
+
+/** Bytes read for sniffing. */
+const HEAD_BYTES = 4096;
+
+/** PDF trailer search window; %%EOF should be in the last 1 KB. */
+const PDF_TAIL_BYTES = 1024;
+
+/** SVG is parsed whole; real drawings are far smaller. */
+const MAX_SVG_BYTES = 10 * 1024 * 1024;
+
+// ZIP limits. Sizes are the central directory's; overlapping entries (the
+// usual way to fake them) are refused separately.
+const MAX_ZIP_ENTRIES = 10000;
+const MAX_ZIP_UNCOMPRESSED_BYTES = 1024 * 1024 * 1024; // 1 GB
+const MAX_ZIP_RATIO = 100;
+/** Entries smaller than this uncompressed aren't ratio-checked (tiny text compresses well). */
+const ZIP_RATIO_MIN_BYTES = 1024 * 1024;
+const MAX_ZIP_CENTRAL_DIRECTORY_BYTES = 8 * 1024 * 1024;
+/** End of central directory record: 22 bytes plus a comment of up to 64 KB. */
+const ZIP_EOCD_SEARCH_BYTES = 22 + 0xffff;
+
+const NESTED_ARCHIVE_EXTENSIONS = [".zip", ".rar", ".7z", ".gz", ".tgz", ".tar", ".bz2", ".xz", ".jar"];
+
+/** DXF $INSUNITS codes → unit names. */
+const DXF_UNITS: Record<number, string> = {
+  0: "unitless", 1: "inches", 2: "feet", 4: "mm", 5: "cm", 6: "m",
+};
+
+/** Per-file issue cap; a broken archive can otherwise produce thousands. */
+const MAX_ISSUES = 50;
+
+const MAGIC = {
+  pdf: "%PDF-",
+  zip: "PK\x03\x04",
+  emptyZip: "PK\x05\x06",
+  rhino: "3D Geometry File Format ",
+  binaryDxf: "AutoCAD Binary DXF\r\n\x1a\x00",
+};
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type FileFormat = typeof FILE_FORMAT_IDS[number];
+
+export interface FileFormatSpec {
+  id: FileFormat;
+  label: string;
+  extensions: string[];
+  /** Content-Type the file is stored and served with. */
+  content_type: string;
+  /** False for formats with no signature to sniff (.gh, .crv, .crv3d). */
+  sniffable: boolean;
+}
+
+export const FILE_FORMATS: Record<FileFormat, FileFormatSpec> = {
+  dxf: { id: "dxf", label: "DXF", extensions: [".dxf"], content_type: "image/vnd.dxf", sniffable: true },
+  svg: { id: "svg", label: "SVG", extensions: [".svg"], content_type: "image/svg+xml", sniffable: true },
+  pdf: { id: "pdf", label: "PDF", extensions: [".pdf"], content_type: "application/pdf", sniffable: true },
+  zip: { id: "zip", label: "ZIP", extensions: [".zip"], content_type: "application/zip", sniffable: true },
+  "3dm": { id: "3dm", label: "Rhino 3DM", extensions: [".3dm"], content_type: "application/octet-stream", sniffable: true },
+  gh: { id: "gh", label: "Grasshopper", extensions: [".gh"], content_type: "application/octet-stream", sniffable: false },
+  crv: { id: "crv", label: "VCarve", extensions: [".crv"], content_type: "application/octet-stream", sniffable: false },
+  crv3d: { id: "crv3d", label: "Aspire", extensions: [".crv3d"], content_type: "application/octet-stream", sniffable: false },
+  json: { id: "json", label: "JSON", extensions: [".json"], content_type: "application/json", sniffable: true },
+};
+
+/** Accepted extensions, with the dot. */
+export const ALLOWED_FILE_FORMATS = FILE_FORMAT_IDS.flatMap((id) => FILE_FORMATS[id].extensions);
+
+export interface FormatIssue {
+  /** What the issue is about: "sections", "path_traversal", "script", ... */
+  key: string;
+  /** error = the file is refused; warning = kept with the file for review. */
+  severity: "error" | "warning";
+  message: string;
+}
+
+/** What inspection needs from a file. */
+export interface InspectableFile {
+  name: string;
+  size: number;
+  stream(): ReadableStream<Uint8Array>;
+  /** Bytes [start, end), clamped to the file. */
+  readRange(start: number, end: number): Promise<Uint8Array>;
+}
+
+export interface FormatInspection {
+  /** Format by extension; null if the extension isn't accepted. */
+  format: FileFormat | null;
+  /** Format the content was sniffed as; null if it has no known signature. */
+  detected: FileFormat | null;
+  passed: boolean;
+  /** Format-specific facts: DXF units and entity counts, ZIP totals, PDF version, ... */
+  details: Record<string, unknown>;
+  issues: FormatIssue[];
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function addIssue(issues: FormatIssue[], key: string, severity: FormatIssue["severity"], message: string): void {
+  if (issues.length < MAX_ISSUES) {
+    issues.push({ key, severity, message });
+  } else if (issues.length === MAX_ISSUES) {
+    issues.push({ key: "issues", severity: "warning", message: "Further issues not listed" });
+  }
+}
+
+/** Bytes as a binary string (one char per byte), for signature checks. */
+function latin1(bytes: Uint8Array): string {
+  let out = "";
+  for (let i = 0; i < bytes.length; i++) out += String.fromCharCode(bytes[i]);
+  return out;
+}
+
+function extensionOf(name: string): string {
+  return "." + (name.includes(".") ? name.split(".").pop() ?? "" : "").toLowerCase();
+}
+
+/** Lines of a text stream, decoded as UTF-8, without line endings. */
+export async function* readLines(stream: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  let pending = "";
+  for await (const chunk of stream) {
+    pending += decoder.decode(chunk, { stream: true });
+    const lines = pending.split("\n");
+    pending = lines.pop() ?? "";
+    for (const line of lines) yield line.endsWith("\r") ? line.slice(0, -1) : line;
+  }
+  pending += decoder.decode();
+  if (pending) yield pending;
+}
+
+function lineAt(text: string, index: number): number {
+  let line = 1;
+  for (let i = 0; i < index; i++) if (text.charCodeAt(i) === 10) line++;
+  return line;
+}
+
+// ---- DXF ----
+
+/**
+ * ASCII DXF, read as group code / value line pairs: sections must open and
+ * close in order, ENTITIES must hold at least one entity, and the file must
+ * end with EOF. $INSUNITS and $ACADVER come from the HEADER section.
+ */
+async function inspectDxf(file: InspectableFile, head: string, issues: FormatIssue[]): Promise<Record<string, unknown>> {
+  if (head.startsWith(MAGIC.binaryDxf)) {
+    addIssue(issues, "binary", "warning", "Binary DXF: structure not inspected; ASCII DXF is preferred");
+    return { binary: true };
+  }
+
+  const sections: string[] = [];
+  const entityCounts: Record<string, number> = {};
+  let section: string | null = null;
+  let code: number | null = null;
+  let lineNo = 0;
+  let expectSectionName = false;
+  let headerVar: string | null = null;
+  let insUnits: number | null = null;
+  let version: string | null = null;
+  let sawEof = false;
+
+  for await (const line of readLines(file.stream())) {
+    lineNo++;
+    if (sawEof) break;
+
+    if (code === null) {
+      const trimmed = line.trim();
+      if (!/^-?\d+$/.test(trimmed)) {
+        addIssue(issues, "group_code", "error", `Line ${lineNo}: expected a group code, found "${trimmed.slice(0, 40)}"`);
+        return { sections, units: null };
+      }
+      code = Number(trimmed);
+      continue;
+    }
+
+    const value = line.trim();
+    if (expectSectionName) {
+      expectSectionName = false;
+      if (code === 2) {
+        section = value;
+        sections.push(value);
+        code = null;
+        continue;
+      }
+      addIssue(issues, "sections", "error", `Line ${lineNo}: SECTION without a name`);
+    }
+
+    if (code === 0) {
+      if (value === "SECTION") {
+        if (section !== null) {
+          addIssue(issues, "sections", "error", `Line ${lineNo}: SECTION inside ${section} (missing ENDSEC)`);
+        }
+        expectSectionName = true;
+      } else if (value === "ENDSEC") {
+        if (section === null) addIssue(issues, "sections", "error", `Line ${lineNo}: ENDSEC without SECTION`);
+        section = null;
+      } else if (value === "EOF") {
+        sawEof = true;
+      } else if (section === "ENTITIES") {
+        entityCounts[value] = (entityCounts[value] ?? 0) + 1;
+      }
+    } else if (section === "HEADER") {
+      if (code === 9) {
+        headerVar = value;
+      } else if (headerVar === "$INSUNITS" && code === 70) {
+        insUnits = Number(value);
+      } else if (headerVar === "$ACADVER" && code === 1) {
+        version = value;
+      }
+    }
+    code = null;
+  }
+
+  if (code !== null) addIssue(issues, "truncated", "error", "File ends between a group code and its value");
+  if (section !== null) addIssue(issues, "sections", "error", `Section ${section} is never closed (missing ENDSEC)`);
+  if (!sawEof) addIssue(issues, "eof", "error", "Missing EOF marker; the file may be truncated");
+
+  const entities = Object.values(entityCounts).reduce((sum, n) => sum + n, 0);
+  if (!sections.includes("ENTITIES")) {
+    addIssue(issues, "entities", "error", "No ENTITIES section");
+  } else if (entities === 0) {
+    addIssue(issues, "entities", "error", "ENTITIES section is empty");
+  }
+
+  const units = insUnits === null ? null : DXF_UNITS[insUnits] ?? `code ${insUnits}`;
+  if (insUnits === null || insUnits === 0) {
+    addIssue(issues, "units", "warning", "Drawing units not set ($INSUNITS); buyers will have to guess the scale");
+  }
+
+  return { version, units, sections, entities, entity_counts: entityCounts };
+}
+
+// ---- SVG ----
+
+const SVG_TAG = /<([A-Za-z_][\w.:-]*)((?:\s+[^\s=\/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/y;
+const SVG_END_TAG = /<\/([A-Za-z_][\w.:-]*)\s*>/y;
+const SVG_ATTR = /([^\s=\/>]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+const XML_BAD_AMPERSAND = /&(?!(?:[A-Za-z_][\w.-]*|#\d+|#x[0-9a-fA-F]+);)/;
+const XML_CHAR_REF = /&(?:#(\d+)|#x([0-9a-fA-F]+)|(amp|lt|gt|quot|apos));/g;
+const XML_NAMED_REFS: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" };
+/** Script-capable URL schemes, matched after decoding and whitespace/control-character stripping. */
+const SVG_SCRIPT_URL = /javascript:|vbscript:|data:text\/html|data:application\/xhtml/;
+const XHTML_NAMESPACE = "http://www.w3.org/1999/xhtml";
+
+/**
+ * SVG elements (local names, lowercased) that may appear unprefixed. Anything
+ * else in the SVG namespace — <iframe>, <embed>, <handler>, <listener>, ... —
+ * is refused. Prefixed elements from editor namespaces (inkscape:,
+ * sodipodi:, rdf:, ...) don't render and are allowed, but still get the
+ * script and foreignObject checks.
+ */
+const SVG_ELEMENTS = new Set([
+  "svg", "g", "defs", "desc", "title", "metadata", "symbol", "use", "image", "switch", "a", "view", "style",
+  "path", "rect", "circle", "ellipse", "line", "polyline", "polygon",
+  "text", "tspan", "textpath", "tref",
+  "marker", "pattern", "clippath", "mask", "lineargradient", "radialgradient", "stop",
+  "filter", "fedistantlight", "fepointlight", "fespotlight", "feblend", "fecolormatrix",
+  "fecomponenttransfer", "fefunca", "fefuncb", "fefuncg", "fefuncr", "fecomposite",
+  "feconvolvematrix", "fediffuselighting", "fedisplacementmap", "fedropshadow", "feflood",
+  "fegaussianblur", "feimage", "femerge", "femergenode", "femorphology", "feoffset",
+  "fespecularlighting", "fetile", "feturbulence",
+  "animate", "animatemotion", "animatetransform", "animatecolor", "set", "mpath",
+  "font", "font-face", "font-face-src", "font-face-uri", "font-face-format", "font-face-name", "glyph", "missing-glyph", "hkern", "vkern",
+  "color-profile", "cursor", "solidcolor", "hatch", "hatchpath", "meshgradient", "meshrow", "meshpatch",
+]);
+
+/** Animation elements, which can rewrite another element's attributes. */
+const SVG_ANIMATIONS = new Set(["set", "animate", "animatemotion", "animatetransform", "animatecolor"]);
+
+/** Replace XML character references (&#115; &#x73; &amp; ...) with their characters. */
+function decodeXmlReferences(value: string): string {
+  return value.replace(XML_CHAR_REF, (ref, dec, hex, named) => {
+    if (named) return XML_NAMED_REFS[named];
+    const code = dec ? parseInt(dec, 10) : parseInt(hex, 16);
+    return code <= 0x10ffff ? String.fromCodePoint(code) : ref;
+  });
+}
+
+/**
+ * An attribute value as a URL parser would see it: references decoded,
+ * whitespace and control characters removed, lowercased.
+ */
+function normalizeSvgValue(value: string): string {
+  return decodeXmlReferences(value).replace(/[\s\x00-\x1f\x7f]+/g, "").toLowerCase();
+}
+
+/** Tag and attribute checks that keep active content out of an SVG. */
+function checkSvgElement(
+  name: string,
+  attrs: Map<string, string>,
+  at: () => string,
+  issues: FormatIssue[]
+): void {
+  const [prefix, local] = name.includes(":")
+    ? [name.slice(0, name.indexOf(":")), name.slice(name.indexOf(":") + 1).toLowerCase()]
+    : [null, name.toLowerCase()];
+  if (local === "script") {
+    addIssue(issues, "script", "error", `${at()}: <script> elements are not allowed`);
+  } else if (local === "foreignobject") {
+    addIssue(issues, "foreign_object", "error", `${at()}: <foreignObject> (embedded HTML) is not allowed`);
+  } else if ((prefix === null || prefix === "svg") && !SVG_ELEMENTS.has(local)) {
+    addIssue(issues, "element", "error", `${at()}: <${name}> is not an SVG element`);
+  }
+
+  if (SVG_ANIMATIONS.has(local)) {
+    const target = normalizeSvgValue(attrs.get("attributeName") ?? "");
+    if (target === "href" || target.endsWith(":href")) {
+      addIssue(issues, "animated_link", "error", `${at()}: <${name}> may not animate ${target}`);
+    }
+  }
+
+  for (const [attr, value] of attrs) {
+    const attrName = attr.toLowerCase();
+    const normalized = normalizeSvgValue(value);
+    if (attrName.startsWith("on")) {
+      addIssue(issues, "event_handler", "error", `${at()}: event handler attribute ${attr} is not allowed`);
+    } else if ((attrName === "xmlns" || attrName.startsWith("xmlns:")) && normalized === XHTML_NAMESPACE) {
+      addIssue(issues, "foreign_object", "error", `${at()}: the XHTML namespace (embedded HTML) is not allowed`);
+    } else if (SVG_SCRIPT_URL.test(normalized)) {
+      // Any attribute: href, style url(...), and an animation's to / from / values
+      addIssue(issues, "javascript_url", "error", `${at()}: ${attr} contains a script URL`);
+    } else if ((attrName === "href" || attrName.endsWith(":href")) && /^(?:https?:)?\/\//.test(normalized)) {
+      addIssue(issues, "external_reference", "warning", `${at()}: ${attr} loads ${value.trim().slice(0, 80)} from another site`);
+    }
+  }
+}
+
+/** Stylesheet text (a <style> element's content) may not reach script either. */
+function checkSvgStyle(css: string, at: () => string, issues: FormatIssue[]): void {
+  if (SVG_SCRIPT_URL.test(normalizeSvgValue(css))) {
+    addIssue(issues, "javascript_url", "error", `${at()}: <style> contains a script URL`);
+  } else if (/@import/i.test(css)) {
+    addIssue(issues, "external_reference", "warning", `${at()}: <style> imports another stylesheet`);
+  }
+}
+
+/**
+ * Well-formedness (matched tags, one root, quoted attributes, escaped &)
+ * and active content. Returns the root's size attributes.
+ */
+async function inspectSvg(file: InspectableFile, issues: FormatIssue[]): Promise<Record<string, unknown>> {
+  if (file.size > MAX_SVG_BYTES) {
+    addIssue(issues, "size", "error", `SVG files must be under ${MAX_SVG_BYTES} bytes`);
+    return {};
+  }
+
+  const text = (await new Response(file.stream()).text()).replace(/^\uFEFF/, "");
+  const stack: string[] = [];
+  let root: { name: string; attrs: Map<string, string> } | null = null;
+  let rootClosed = false;
+  let elements = 0;
+  let i = 0;
+
+  const malformed = (at: number, message: string) => {
+    addIssue(issues, "well_formed", "error", `Line ${lineAt(text, at)}: ${message}`);
+  };
+  const inStyle = () => stack.length > 0 && stack[stack.length - 1].split(":").pop()!.toLowerCase() === "style";
+
+  while (i < text.length) {
+    const lt = text.indexOf("<", i);
+    const chars = text.slice(i, lt < 0 ? text.length : lt);
+    if (stack.length === 0 && chars.trim()) {
+      malformed(i, "text outside the root element");
+      break;
+    }
+    if (XML_BAD_AMPERSAND.test(chars)) {
+      malformed(i, "unescaped & in text");
+      break;
+    }
+    const at = i;
+    if (inStyle() && chars.trim()) checkSvgStyle(chars, () => `Line ${lineAt(text, at)}`, issues);
+    if (lt < 0) break;
+
+    if (text.startsWith("<!--", lt)) {
+      const end = text.indexOf("-->", lt + 4);
+      if (end < 0) { malformed(lt, "unterminated comment"); break; }
+      i = end + 3;
+    } else if (text.startsWith("<![CDATA[", lt)) {
+      const end = text.indexOf("]]>", lt + 9);
+      if (stack.length === 0 || end < 0) { malformed(lt, "misplaced or unterminated CDATA section"); break; }
+      if (inStyle()) checkSvgStyle(text.slice(lt + 9, end), () => `Line ${lineAt(text, lt)}`, issues);
+      i = end + 3;
+    } else if (text.startsWith("<?", lt)) {
+      const end = text.indexOf("?>", lt + 2);
+      if (end < 0) { malformed(lt, "unterminated processing instruction"); break; }
+      i = end + 2;
+    } else if (text.startsWith("<!DOCTYPE", lt)) {
+      const subset = text.indexOf("[", lt);
+      const close = text.indexOf(">", lt);
+      let end = close;
+      if (subset >= 0 && subset < close) {
+        end = text.indexOf("]>", subset);
+        if (end >= 0 && text.slice(subset, end).includes("<!ENTITY")) {
+          addIssue(issues, "entity_declaration", "error", "DOCTYPE declares entities (entity expansion is not allowed)");
+        }
+        if (end >= 0) end += 1;
+      }
+      if (end < 0) { malformed(lt, "unterminated DOCTYPE"); break; }
+      i = end + 1;
+    } else if (text.startsWith("</", lt)) {
+      SVG_END_TAG.lastIndex = lt;
+      const match = SVG_END_TAG.exec(text);
+      if (!match) { malformed(lt, "malformed end tag"); break; }
+      const open = stack.pop();
+      if (open !== match[1]) {
+        malformed(lt, open ? `</${match[1]}> closes <${open}>` : `</${match[1]}> has no start tag`);
+        break;
+      }
+      if (stack.length === 0) rootClosed = true;
+      i = SVG_END_TAG.lastIndex;
+    } else {
+      SVG_TAG.lastIndex = lt;
+      const match = SVG_TAG.exec(text);
+      if (!match) { malformed(lt, "malformed tag"); break; }
+      const [, name, attrText, selfClosing] = match;
+
+      const attrs = new Map<string, string>();
+      let duplicate: string | null = null;
+      for (const [, attr, double, single] of attrText.matchAll(SVG_ATTR)) {
+        if (attrs.has(attr)) duplicate = attr;
+        attrs.set(attr, double ?? single ?? "");
+      }
+      if (duplicate) { malformed(lt, `duplicate attribute ${duplicate} on <${name}>`); break; }
+
+      if (stack.length === 0) {
+        if (rootClosed) { malformed(lt, "more than one root element"); break; }
+        root = { name, attrs };
+      }
+      checkSvgElement(name, attrs, () => `Line ${lineAt(text, lt)}`, issues);
+      elements++;
+
+      if (selfClosing) {
+        if (stack.length === 0) rootClosed = true;
+      } else {
+        stack.push(name);
+      }
+      i = SVG_TAG.lastIndex;
+    }
+  }
+
+  if (!issues.some((issue) => issue.key === "well_formed")) {
+    if (stack.length > 0) malformed(text.length, `<${stack[stack.length - 1]}> is never closed`);
+    else if (!root) malformed(0, "no root element");
+  }
+  if (root && root.name.split(":").pop() !== "svg") {
+    addIssue(issues, "root", "error", `Root element is <${root.name}>, not <svg>`);
+  }
+
+  return {
+    elements,
+    width: root?.attrs.get("width") ?? null,
+    height: root?.attrs.get("height") ?? null,
+    view_box: root?.attrs.get("viewBox") ?? null,
+  };
+}
+
+// ---- PDF ----
+
+async function inspectPdf(file: InspectableFile, head: string, issues: FormatIssue[]): Promise<Record<string, unknown>> {
+  const version = /^%PDF-(\d\.\d)/.exec(head)?.[1] ?? null;
+  if (!version) addIssue(issues, "header", "error", "PDF header has no version (%PDF-x.y)");
+
+  const tail = latin1(await file.readRange(Math.max(file.size - PDF_TAIL_BYTES, 0), file.size));
+  if (!tail.includes("%%EOF")) {
+    addIssue(issues, "trailer", "error", "No %%EOF trailer; the PDF is truncated");
+  } else if (!tail.includes("startxref")) {
+    addIssue(issues, "trailer", "warning", "No startxref before %%EOF; readers will have to rebuild the cross-reference table");
+  }
+
+  const encrypted = tail.includes("/Encrypt");
+  if (encrypted) addIssue(issues, "encrypted", "warning", "PDF is encrypted");
+  return { version, encrypted };
+}
+
+// ---- ZIP ----
+
+interface ZipEntry {
+  name: string;
+  flags: number;
+  method: number;
+  compressed: number;
+  uncompressed: number;
+  offset: number;
+  /** Local header + name + data, a lower bound on the bytes the entry occupies. */
+  span: number;
+  symlink: boolean;
+}
+
+/** Central directory entries; null (with an issue) if it can't be read. */
+async function readZipDirectory(file: InspectableFile, issues: FormatIssue[]): Promise<ZipEntry[] | null> {
+  const tailStart = Math.max(file.size - ZIP_EOCD_SEARCH_BYTES, 0);
+  const tail = await file.readRange(tailStart, file.size);
+  const tailView = new DataView(tail.buffer, tail.byteOffset, tail.byteLength);
+
+  let eocd = -1;
+  for (let p = tail.length - 22; p >= 0; p--) {
+    if (tailView.getUint32(p, true) === 0x06054b50) { eocd = p; break; }
+  }
+  if (eocd < 0) {
+    addIssue(issues, "central_directory", "error", "End of central directory not found; the archive is truncated or not a ZIP");
+    return null;
+  }
+
+  const disk = tailView.getUint16(eocd + 4, true);
+  const count = tailView.getUint16(eocd + 10, true);
+  const dirSize = tailView.getUint32(eocd + 12, true);
+  const dirOffset = tailView.getUint32(eocd + 16, true);
+
+  if (count === 0xffff || dirSize === 0xffffffff || dirOffset === 0xffffffff) {
+    addIssue(issues, "zip64", "error", "ZIP64 archives are not accepted");
+    return null;
+  }
+  if (disk !== 0) {
+    addIssue(issues, "central_directory", "error", "Multi-part (spanned) archives are not accepted");
+    return null;
+  }
+  if (count > MAX_ZIP_ENTRIES) {
+    addIssue(issues, "entry_count", "error", `${count} entries (max ${MAX_ZIP_ENTRIES})`);
+    return null;
+  }
+  if (dirSize > MAX_ZIP_CENTRAL_DIRECTORY_BYTES || dirOffset + dirSize > tailStart + eocd) {
+    addIssue(issues, "central_directory", "error", "Central directory is out of bounds");
+    return null;
+  }
+
+  const dir = await file.readRange(dirOffset, dirOffset + dirSize);
+  const view = new DataView(dir.buffer, dir.byteOffset, dir.byteLength);
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+  let p = 0;
+
+  for (let n = 0; n < count; n++) {
+    if (p + 46 > dir.length || view.getUint32(p, true) !== 0x02014b50) {
+      addIssue(issues, "central_directory", "error", `Central directory entry ${n + 1} is malformed`);
+      return null;
+    }
+    const nameLength = view.getUint16(p + 28, true);
+    const extraLength = view.getUint16(p + 30, true);
+    const commentLength = view.getUint16(p + 32, true);
+    const compressed = view.getUint32(p + 20, true);
+    const uncompressed = view.getUint32(p + 24, true);
+    const offset = view.getUint32(p + 42, true);
+    if (compressed === 0xffffffff || uncompressed === 0xffffffff || offset === 0xffffffff) {
+      addIssue(issues, "zip64", "error", "ZIP64 archives are not accepted");
+      return null;
+    }
+
+    const madeByUnix = view.getUint8(p + 5) === 3;
+    const mode = view.getUint32(p + 38, true) >>> 16;
+    entries.push({
+      name: decoder.decode(dir.subarray(p + 46, p + 46 + nameLength)),
+      flags: view.getUint16(p + 8, true),
+      method: view.getUint16(p + 10, true),
+      compressed,
+      uncompressed,
+      offset,
+      span: 30 + nameLength + compressed,
+      symlink: madeByUnix && (mode & 0o170000) === 0o120000,
+    });
+    p += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+/**
+ * Everything is read from the central directory; nothing is extracted.
+ * Declared sizes drive the bomb limits, and entries whose data overlaps —
+ * how a small archive claims a huge expansion — are refused.
+ */
+async function inspectZip(file: InspectableFile, head: string, issues: FormatIssue[]): Promise<Record<string, unknown>> {
+  if (head.startsWith(MAGIC.emptyZip)) {
+    addIssue(issues, "empty", "error", "ZIP archive is empty");
+    return { entries: 0 };
+  }
+
+  const entries = await readZipDirectory(file, issues);
+  if (!entries) return {};
+  if (entries.length === 0) {
+    addIssue(issues, "empty", "error", "ZIP archive is empty");
+    return { entries: 0 };
+  }
+
+  let compressedTotal = 0;
+  let uncompressedTotal = 0;
+  let nested = 0;
+  for (const entry of entries) {
+    compressedTotal += entry.compressed;
+    uncompressedTotal += entry.uncompressed;
+
+    const path = entry.name.replace(/\\/g, "/");
+    if (
+      path.startsWith("/") || /^[A-Za-z]:/.test(path) || path.includes("\0") ||
+      path.split("/").includes("..")
+    ) {
+      addIssue(issues, "path_traversal", "error", `${entry.name}: path leaves the archive folder`);
+    }
+    if (entry.symlink) {
+      addIssue(issues, "symlink", "error", `${entry.name}: symbolic links are not allowed`);
+    }
+    if (NESTED_ARCHIVE_EXTENSIONS.includes(extensionOf(path))) {
+      nested++;
+      addIssue(issues, "nested_archive", "error", `${entry.name}: archives inside the archive can't be inspected`);
+    }
+    if (entry.flags & 1) {
+      addIssue(issues, "encrypted", "warning", `${entry.name}: encrypted; contents not inspected`);
+    }
+    if (entry.method !== 0 && entry.method !== 8) {
+      addIssue(issues, "compression_method", "warning", `${entry.name}: compression method ${entry.method} (only stored and deflate are widely supported)`);
+    }
+    if (
+      entry.uncompressed >= ZIP_RATIO_MIN_BYTES &&
+      entry.uncompressed / Math.max(entry.compressed, 1) > MAX_ZIP_RATIO
+    ) {
+      addIssue(issues, "compression_ratio", "error", `${entry.name}: expands ${Math.round(entry.uncompressed / Math.max(entry.compressed, 1))}x (max ${MAX_ZIP_RATIO}x)`);
+    }
+  }
+
+  const byOffset = [...entries].sort((a, b) => a.offset - b.offset);
+  for (let n = 1; n < byOffset.length; n++) {
+    const prev = byOffset[n - 1];
+    if (prev.offset + prev.span > byOffset[n].offset) {
+      addIssue(issues, "overlap", "error", `${prev.name} and ${byOffset[n].name} share data (overlapping entries)`);
+      break;
+    }
+  }
+
+  const ratio = uncompressedTotal / Math.max(compressedTotal, 1);
+  if (uncompressedTotal > MAX_ZIP_UNCOMPRESSED_BYTES) {
+    addIssue(issues, "uncompressed_size", "error", `Expands to ${uncompressedTotal} bytes (max ${MAX_ZIP_UNCOMPRESSED_BYTES})`);
+  } else if (uncompressedTotal >= ZIP_RATIO_MIN_BYTES && ratio > MAX_ZIP_RATIO) {
+    addIssue(issues, "compression_ratio", "error", `Archive expands ${Math.round(ratio)}x (max ${MAX_ZIP_RATIO}x)`);
+  }
+
+  return {
+    entries: entries.length,
+    compressed_bytes: compressedTotal,
+    uncompressed_bytes: uncompressedTotal,
+    compression_ratio: Math.round(ratio * 10) / 10,
+    nested_archives: nested,
+  };
+}
+
+// ---- 3DM ----
+
+function inspect3dm(head: string, issues: FormatIssue[]): Record<string, unknown> {
+  const version = Number(head.slice(MAGIC.rhino.length, MAGIC.rhino.length + 8).trim());
+  if (!Number.isInteger(version) || version <= 0) {
+    addIssue(issues, "header", "error", "Rhino header has no readable version");
+    return { version: null };
+  }
+  return { version };
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/** Format for an extension (".dxf"), or null if it isn't accepted. */
+export function formatForExtension(ext: string): FileFormat | null {
+  const lower = ext.toLowerCase();
+  return FILE_FORMAT_IDS.find((id) => FILE_FORMATS[id].extensions.includes(lower)) ?? null;
+}
+
+/**
+ * Format from the first bytes of a file: magic numbers for binary formats,
+ * the opening of the text for DXF, SVG and JSON. Null when nothing matches.
+ */
+export function sniffFormat(head: Uint8Array): FileFormat | null {
+  const bytes = latin1(head);
+  if (bytes.startsWith(MAGIC.pdf)) return "pdf";
+  if (bytes.startsWith(MAGIC.zip) || bytes.startsWith(MAGIC.emptyZip)) return "zip";
+  if (bytes.startsWith(MAGIC.rhino)) return "3dm";
+  if (bytes.startsWith(MAGIC.binaryDxf)) return "dxf";
+
+  const text = new TextDecoder().decode(head).replace(/^\uFEFF/, "");
+  if (/^\s*[{[]/.test(text)) return "json";
+  if (/^(?:\s*999\r?\n[^\r\n]*\r?\n)*\s*0\r?\nSECTION\s*\r?\n/.test(text)) return "dxf";
+  if (/^\s*<(?:\?xml|svg|!--|!DOCTYPE\s+svg)/i.test(text) && /<svg[\s>]/.test(text)) return "svg";
+  return null;
+}
+
+/**
+ * Sniff and open a file. passed is false for an unaccepted extension,
+ * content that doesn't match the extension, or any error issue.
+ */
+export async function inspectFile(file: InspectableFile): Promise<FormatInspection> {
+  const ext = extensionOf(file.name);
+  const format = formatForExtension(ext);
+  const headBytes = await file.readRange(0, HEAD_BYTES);
+  const detected = sniffFormat(headBytes);
+  const issues: FormatIssue[] = [];
+
+  if (!format) {
+    addIssue(issues, "format", "error", `Unsupported format: ${ext}. Allowed: ${ALLOWED_FILE_FORMATS.join(", ")}`);
+    return { format, detected, passed: false, details: {}, issues };
+  }
+
+  const spec = FILE_FORMATS[format];
+  if (detected !== (spec.sniffable ? format : null)) {
+    addIssue(
+      issues, "format", "error",
+      detected
+        ? `File content is ${FILE_FORMATS[detected].label}, not ${spec.label}`
+        : `File content is not ${spec.label}`
+    );
+    return { format, detected, passed: false, details: {}, issues };
+  }
+
+  const head = latin1(headBytes);
+  let details: Record<string, unknown> = {};
+  switch (format) {
+    case "dxf": details = await inspectDxf(file, head, issues); break;
+    case "svg": details = await inspectSvg(file, issues); break;
+    case "pdf": details = await inspectPdf(file, head, issues); break;
+    case "zip": details = await inspectZip(file, head, issues); break;
+    case "3dm": details = inspect3dm(head, issues); break;
+  }
+
+  return {
+    format,
+    detected,
+    passed: !issues.some((issue) => issue.severity === "error"),
+    details,
+    issues,
+  };
+}
@@ -0,0 +1,571 @@
+// =============================================================================
+// PIF Selection-Connection — shared: Grasshopper interchange
+// The versioned JSON format the web configurator and the PIF Grasshopper
+// definition exchange (schema "pif-gh-interchange", see MAINTENANCE.md "How
+// to Verify GH Definition Matches Web Computation"):
+//   web → GH  exportInterchange(): configurator state in jSwan sections, plus
+//             the server-side cut list and sheet counts it should reproduce
+//   GH → web  parseInterchangeImport(): the state GH ran with and the part
+//             list it produced
+// compareInterchange() diffs a GH part list against the server-side cut list
+// (_shared/cutlist.ts) for the same state, within tolerances. Used by
+// gh-interchange.
+// =============================================================================
+
+import {
+  CutPart,
+  computeCutList,
+  computeSheetGoods,
+  HardwareSelection,
+  resolveCabinetState,
+  SheetGoodsLine,
+} from "./cutlist.ts";
+import { SECTION_MAP, SLIDER_GROUPS, ZONE_DEFAULTS } from "./configurator-data.ts";
+import { toInches, UNIT_SYSTEMS, UnitSystem } from "./units.ts";
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+export const INTERCHANGE_SCHEMA = "pif-gh-interchange";
+
+/** Version written by exportInterchange(). */
+export const INTERCHANGE_SCHEMA_VERSION = "1.0";
+
+/** Versions parseInterchangeImport() reads. */
+export const INTERCHANGE_SCHEMA_VERSIONS = ["1.0"];
+
+export const INTERCHANGE_UNITS = UNIT_SYSTEMS;
+
+/** jSwan section for the zone stack keys (ZONE_DEFAULTS). */
+const ZONE_SECTION = "ZoneStack";
+
+/** Defaults, in inches / sheets: 1/64" on part size, 0.001" on thickness, exact sheet counts. */
+export const DEFAULT_TOLERANCES: InterchangeTolerances = {
+  dimension: 0.015625,
+  thickness: 0.001,
+  sheets: 0,
+};
+
+/** Upper bounds on an imported part list. */
+const MAX_PARTS = 500;
+const MAX_PART_NAME_LENGTH = 100;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type InterchangeUnits = UnitSystem;
+
+/** One cut list line. w is along the grain for grain-locked parts. */
+export interface InterchangePart {
+  name: string;
+  qty: number;
+  w: number;
+  h: number;
+  t: number;
+  /** Cut list part type (side, door, drawer-front, ...); optional from GH. */
+  type?: string;
+}
+
+/** web → GH document. */
+export interface InterchangeExport {
+  schema: typeof INTERCHANGE_SCHEMA;
+  schema_version: string;
+  direction: "web_to_gh";
+  units: "inches";
+  generated_at: string;
+  name: string | null;
+  /**
+   * hashConfig (_shared/entitlements.ts) of the full state — every parameter,
+   * defaults filled in — so GH can echo it back with its import.
+   */
+  config_hash: string;
+  /** Every configurator parameter, by jSwan section. */
+  parameters: Record<string, Record<string, number>>;
+  hardware: HardwareSelection;
+  /** What the definition should produce for these parameters. */
+  expected: {
+    parts: InterchangePart[];
+    sheet_goods: SheetGoodsLine[];
+  };
+}
+
+/** GH → web document, normalized to inches. */
+export interface InterchangeImport {
+  schema_version: string;
+  /** Units the parts came in (converted to inches here). */
+  units: InterchangeUnits;
+  source: { definition: string | null; version: string | null };
+  config_hash: string | null;
+  /** The state GH ran with, flat (sections merged). */
+  config: Record<string, number>;
+  parts: InterchangePart[];
+  /** GH's own sheet estimate; null = computed from its parts. */
+  sheet_goods: SheetGoodsLine[] | null;
+}
+
+export interface InterchangeIssue {
+  /** Location in the document, e.g. "parts[3].w". */
+  path: string;
+  severity: "error" | "warning";
+  message: string;
+}
+
+export interface InterchangeTolerances {
+  /** Inches, on w and h. */
+  dimension: number;
+  /** Inches, on t and sheet thickness. */
+  thickness: number;
+  /** Sheets, per thickness. */
+  sheets: number;
+}
+
+export type DiffStatus = "match" | "mismatch" | "missing_in_gh" | "extra_in_gh";
+
+export interface PartDiff {
+  name: string;
+  status: DiffStatus;
+  web: InterchangePart | null;
+  gh: InterchangePart | null;
+  /** gh − web, for matched names. */
+  deltas: { qty: number; w: number; h: number; t: number } | null;
+  /** GH has w and h swapped (accepted only for parts without grain lock). */
+  rotated: boolean;
+  notes: string[];
+}
+
+export interface SheetDiff {
+  thickness: number;
+  web: number;
+  gh: number;
+  status: "match" | "mismatch";
+}
+
+export interface InterchangeDiffReport {
+  passed: boolean;
+  schema_version: string;
+  /** Import's config_hash differs from the hash of its parameters. */
+  config_hash_mismatch: boolean;
+  tolerances: InterchangeTolerances;
+  summary: {
+    parts: number;
+    matched: number;
+    mismatched: number;
+    missing_in_gh: number;
+    extra_in_gh: number;
+    sheet_mismatches: number;
+  };
+  /** Carcass, stretcher, face frame and shelf parts. */
+  parts: PartDiff[];
+  doors: PartDiff[];
+  /** Drawer fronts and drawer box parts. */
+  drawers: PartDiff[];
+  sheet_goods: SheetDiff[];
+  /** Where the GH sheet counts came from. */
+  sheet_goods_source: "gh" | "computed";
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function isNonNegativeNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0;
+}
+
+/** Parts match by name, case- and spacing-insensitively. */
+function partKey(name: string): string {
+  return name.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+function toInterchangePart(part: CutPart): InterchangePart {
+  return { name: part.name, qty: part.qty, w: part.w, h: part.h, t: part.t, type: part.type };
+}
+
+function partCategory(type: string | undefined): "parts" | "doors" | "drawers" {
+  if (type === "door") return "doors";
+  if (type === "drawer-front" || type === "drawer-box") return "drawers";
+  return "parts";
+}
+
+function round(value: number, places = 4): number {
+  const f = Math.pow(10, places);
+  return Math.round(value * f) / f;
+}
+
+/** One part's checks: qty exact, w/h within dimension (or swapped), t within thickness. */
+function diffPart(web: CutPart, gh: InterchangePart, tol: InterchangeTolerances): PartDiff {
+  const notes: string[] = [];
+  const straight = Math.abs(gh.w - web.w) <= tol.dimension && Math.abs(gh.h - web.h) <= tol.dimension;
+  const swapped = Math.abs(gh.w - web.h) <= tol.dimension && Math.abs(gh.h - web.w) <= tol.dimension;
+  const rotated = !straight && swapped;
+
+  if (gh.qty !== web.qty) notes.push(`qty ${gh.qty} (web ${web.qty})`);
+  if (!straight && !swapped) {
+    notes.push(`size ${round(gh.w, 3)} x ${round(gh.h, 3)} (web ${round(web.w, 3)} x ${round(web.h, 3)})`);
+  } else if (rotated && web.grainLock) {
+    notes.push("w and h swapped on a grain-locked part");
+  } else if (rotated) {
+    notes.push("w and h swapped");
+  }
+  if (Math.abs(gh.t - web.t) > tol.thickness) notes.push(`thickness ${round(gh.t, 3)} (web ${round(web.t, 3)})`);
+
+  const failed = gh.qty !== web.qty ||
+    (!straight && !swapped) ||
+    (rotated && web.grainLock) ||
+    Math.abs(gh.t - web.t) > tol.thickness;
+
+  return {
+    name: web.name,
+    status: failed ? "mismatch" : "match",
+    web: toInterchangePart(web),
+    gh,
+    deltas: {
+      qty: gh.qty - web.qty,
+      w: round(gh.w - web.w),
+      h: round(gh.h - web.h),
+      t: round(gh.t - web.t),
+    },
+    rotated,
+    notes,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Public API — export
+// ---------------------------------------------------------------------------
+
+/**
+ * Configurator parameters by jSwan section (SECTION_MAP), plus ZoneStack.
+ * config is (possibly partial) configurator state; defaults fill the rest.
+ */
+export function interchangeParameters(config: Record<string, unknown>): Record<string, Record<string, number>> {
+  const state = resolveCabinetState(config);
+  const sections: Record<string, Record<string, number>> = {};
+  for (const group of SLIDER_GROUPS) {
+    const section: Record<string, number> = {};
+    for (const slider of group.sliders) section[slider.key] = state[slider.key];
+    sections[SECTION_MAP[group.id] ?? group.id] = section;
+  }
+  const zones: Record<string, number> = {};
+  for (const key of Object.keys(ZONE_DEFAULTS)) zones[key] = state[key];
+  sections[ZONE_SECTION] = zones;
+  return sections;
+}
+
+/** web → GH document for one configuration. */
+export function exportInterchange(
+  config: Record<string, unknown>,
+  hardware: HardwareSelection,
+  name: string | null,
+  configHash: string,
+  generatedAt = new Date()
+): InterchangeExport {
+  const parts = computeCutList(resolveCabinetState(config));
+  return {
+    schema: INTERCHANGE_SCHEMA,
+    schema_version: INTERCHANGE_SCHEMA_VERSION,
+    direction: "web_to_gh",
+    units: "inches",
+    generated_at: generatedAt.toISOString(),
+    name,
+    config_hash: configHash,
+    parameters: interchangeParameters(config),
+    hardware,
+    expected: {
+      parts: parts.map(toInterchangePart),
+      sheet_goods: computeSheetGoods(parts),
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Public API — import
+// ---------------------------------------------------------------------------
+
+/**
+ * Flat configurator state from interchange parameters: jSwan sections
+ * ({ CabinetDimensions: { Width, ... }, ... }) or already flat. Non-numeric
+ * values are skipped with a warning; unknown keys are ignored with one.
+ */
+export function flattenInterchangeParameters(
+  value: Record<string, unknown>,
+  issues: InterchangeIssue[]
+): Record<string, number> {
+  const known = new Set<string>(Object.keys(ZONE_DEFAULTS));
+  for (const group of SLIDER_GROUPS) for (const slider of group.sliders) known.add(slider.key);
+
+  const config: Record<string, number> = {};
+  const take = (path: string, key: string, v: unknown) => {
+    if (!known.has(key)) {
+      issues.push({ path, severity: "warning", message: `Unknown configurator parameter "${key}" ignored` });
+    } else if (typeof v !== "number" || !Number.isFinite(v)) {
+      issues.push({ path, severity: "warning", message: `${key} is not a number; its default is used` });
+    } else {
+      config[key] = v;
+    }
+  };
+
+  for (const [key, v] of Object.entries(value)) {
+    if (isPlainObject(v)) {
+      for (const [subKey, subValue] of Object.entries(v)) take(`parameters.${key}.${subKey}`, subKey, subValue);
+    } else {
+      take(`parameters.${key}`, key, v);
+    }
+  }
+  return config;
+}
+
+/**
+ * Read a GH → web document. Requires schema "pif-gh-interchange", a
+ * supported schema_version, parameters and a parts list; mm parts are
+ * converted to inches (parameters are always configurator inches).
+ * doc is null whenever issues contains an error.
+ */
+export function parseInterchangeImport(value: unknown): { doc: InterchangeImport | null; issues: InterchangeIssue[] } {
+  const issues: InterchangeIssue[] = [];
+  const error = (path: string, message: string) => issues.push({ path, severity: "error", message });
+
+  if (!isPlainObject(value)) {
+    error("", "Document must be a JSON object");
+    return { doc: null, issues };
+  }
+
+  if (value.schema !== INTERCHANGE_SCHEMA) {
+    error("schema", `schema must be "${INTERCHANGE_SCHEMA}"`);
+  }
+  const schemaVersion = typeof value.schema_version === "string" ? value.schema_version : "";
+  if (!INTERCHANGE_SCHEMA_VERSIONS.includes(schemaVersion)) {
+    error("schema_version", `Unsupported schema_version ${JSON.stringify(value.schema_version ?? null)} (supported: ${INTERCHANGE_SCHEMA_VERSIONS.join(", ")})`);
+  }
+
+  const units = value.units ?? "inches";
+  if (typeof units !== "string" || !(INTERCHANGE_UNITS as readonly string[]).includes(units)) {
+    error("units", `units must be one of: ${INTERCHANGE_UNITS.join(", ")}`);
+  }
+  const scale = toInches(1, units as InterchangeUnits);
+
+  let config: Record<string, number> = {};
+  if (!isPlainObject(value.parameters)) {
+    error("parameters", "parameters must be the configurator state GH ran with");
+  } else {
+    config = flattenInterchangeParameters(value.parameters, issues);
+    for (const key of ["Width", "Height", "Depth"]) {
+      if (!(key in config)) error(`parameters.${key}`, `${key} is required`);
+    }
+  }
+
+  // ---- Parts ----
+  const parts: InterchangePart[] = [];
+  if (!Array.isArray(value.parts) || value.parts.length === 0) {
+    error("parts", "parts must be a non-empty array of { name, qty, w, h, t }");
+  } else if (value.parts.length > MAX_PARTS) {
+    error("parts", `At most ${MAX_PARTS} parts`);
+  } else {
+    const seen = new Set<string>();
+    value.parts.forEach((part: unknown, i: number) => {
+      const path = `parts[${i}]`;
+      if (!isPlainObject(part)) {
+        error(path, "Part must be an object");
+        return;
+      }
+      const { name, qty, w, h, t, type } = part;
+      let ok = true;
+      if (typeof name !== "string" || !name.trim() || name.length > MAX_PART_NAME_LENGTH) {
+        error(`${path}.name`, `name must be a string (${MAX_PART_NAME_LENGTH} chars max)`);
+        ok = false;
+      } else if (seen.has(partKey(name))) {
+        error(`${path}.name`, `Duplicate part "${name}" — combine it into one line with qty`);
+        ok = false;
+      }
+      if (typeof qty !== "number" || !Number.isInteger(qty) || qty < 1) {
+        error(`${path}.qty`, "qty must be a positive integer");
+        ok = false;
+      }
+      for (const [key, v] of [["w", w], ["h", h], ["t", t]] as const) {
+        if (!isNonNegativeNumber(v)) {
+          error(`${path}.${key}`, `${key} must be a non-negative number`);
+          ok = false;
+        }
+      }
+      if (type !== undefined && typeof type !== "string") {
+        error(`${path}.type`, "type must be a string");
+        ok = false;
+      }
+      if (!ok) return;
+
+      seen.add(partKey(name as string));
+      parts.push({
+        name: (name as string).trim(),
+        qty: qty as number,
+        w: (w as number) * scale,
+        h: (h as number) * scale,
+        t: (t as number) * scale,
+        ...(type !== undefined ? { type: type as string } : {}),
+      });
+    });
+  }
+
+  // ---- Sheet goods (optional) ----
+  let sheetGoods: SheetGoodsLine[] | null = null;
+  if (value.sheet_goods !== undefined && value.sheet_goods !== null) {
+    if (!Array.isArray(value.sheet_goods)) {
+      error("sheet_goods", "sheet_goods must be an array of { thickness, count }");
+    } else {
+      sheetGoods = [];
+      value.sheet_goods.forEach((line: unknown, i: number) => {
+        const path = `sheet_goods[${i}]`;
+        if (!isPlainObject(line) || !isNonNegativeNumber(line.thickness) || !isNonNegativeNumber(line.count) || !Number.isInteger(line.count)) {
+          error(path, "Each line must be { thickness, count } with a whole sheet count");
+          return;
+        }
+        sheetGoods!.push({ thickness: line.thickness * scale, count: line.count });
+      });
+    }
+  }
+
+  const source = isPlainObject(value.source) ? value.source : {};
+  const doc: InterchangeImport = {
+    schema_version: schemaVersion,
+    units: units as InterchangeUnits,
+    source: {
+      definition: typeof source.definition === "string" ? source.definition : null,
+      version: typeof source.version === "string" ? source.version : null,
+    },
+    config_hash: typeof value.config_hash === "string" ? value.config_hash : null,
+    config,
+    parts,
+    sheet_goods: sheetGoods,
+  };
+
+  return { doc: issues.some((i) => i.severity === "error") ? null : doc, issues };
+}
+
+/**
+ * Tolerances from a request: any of dimension / thickness (inches) and
+ * sheets, over DEFAULT_TOLERANCES. Null if a given value isn't a
+ * non-negative number.
+ */
+export function parseTolerances(value: unknown): InterchangeTolerances | null {
+  if (value === undefined || value === null) return { ...DEFAULT_TOLERANCES };
+  if (!isPlainObject(value)) return null;
+
+  const tolerances = { ...DEFAULT_TOLERANCES };
+  for (const key of Object.keys(tolerances) as (keyof InterchangeTolerances)[]) {
+    const v = value[key];
+    if (v === undefined) continue;
+    if (!isNonNegativeNumber(v)) return null;
+    tolerances[key] = v;
+  }
+  return tolerances;
+}
+
+// ---------------------------------------------------------------------------
+// Public API — compare
+// ---------------------------------------------------------------------------
+
+/**
+ * Diff a GH part list against the server-side cut list for the state GH ran
+ * with. Parts pair up by name; each pair must agree on qty, on w / h within
+ * tolerances.dimension (swapped w / h passes for parts without grain lock)
+ * and on t within tolerances.thickness. Sheet counts per thickness must agree
+ * within tolerances.sheets — GH's own estimate if it sent one, otherwise
+ * computed from its parts the way the web does. configHash is the hash of
+ * the full state for doc.config (as in the export), to flag an import that
+ * echoes a different export's config_hash.
+ */
+export function compareInterchange(
+  doc: InterchangeImport,
+  tolerances: InterchangeTolerances,
+  configHash: string | null = null
+): InterchangeDiffReport {
+  const webParts = computeCutList(resolveCabinetState(doc.config));
+  const ghByKey = new Map(doc.parts.map((p) => [partKey(p.name), p]));
+
+  const report: InterchangeDiffReport = {
+    passed: true,
+    schema_version: doc.schema_version,
+    config_hash_mismatch: !!configHash && !!doc.config_hash && doc.config_hash !== configHash,
+    tolerances,
+    summary: { parts: 0, matched: 0, mismatched: 0, missing_in_gh: 0, extra_in_gh: 0, sheet_mismatches: 0 },
+    parts: [],
+    doors: [],
+    drawers: [],
+    sheet_goods: [],
+    sheet_goods_source: doc.sheet_goods ? "gh" : "computed",
+  };
+
+  // ---- Web parts, paired with GH by name ----
+  for (const web of webParts) {
+    const key = partKey(web.name);
+    const gh = ghByKey.get(key);
+    let diff: PartDiff;
+    if (gh) {
+      ghByKey.delete(key);
+      diff = diffPart(web, gh, tolerances);
+    } else {
+      diff = {
+        name: web.name,
+        status: "missing_in_gh",
+        web: toInterchangePart(web),
+        gh: null,
+        deltas: null,
+        rotated: false,
+        notes: ["GH has no part with this name"],
+      };
+    }
+    report[partCategory(web.type)].push(diff);
+  }
+
+  // ---- GH parts the web cut list doesn't have ----
+  for (const gh of ghByKey.values()) {
+    report[partCategory(gh.type)].push({
+      name: gh.name,
+      status: "extra_in_gh",
+      web: null,
+      gh,
+      deltas: null,
+      rotated: false,
+      notes: ["Not in the web cut list"],
+    });
+  }
+
+  for (const diff of [...report.parts, ...report.doors, ...report.drawers]) {
+    report.summary.parts++;
+    if (diff.status === "match") report.summary.matched++;
+    else if (diff.status === "mismatch") report.summary.mismatched++;
+    else if (diff.status === "missing_in_gh") report.summary.missing_in_gh++;
+    else report.summary.extra_in_gh++;
+  }
+
+  // ---- Sheet counts per thickness ----
+  const webSheets = computeSheetGoods(webParts);
+  const ghSheets = doc.sheet_goods ?? computeSheetGoods(doc.parts.map((p) => ({
+    name: p.name, qty: p.qty, w: p.w, h: p.h, t: p.t, type: p.type ?? "", grainLock: false, material: "sheet" as const,
+  })));
+
+  const thicknesses: number[] = [];
+  for (const line of [...webSheets, ...ghSheets]) {
+    if (!thicknesses.some((t) => Math.abs(t - line.thickness) <= tolerances.thickness)) thicknesses.push(line.thickness);
+  }
+  const countAt = (lines: SheetGoodsLine[], t: number) =>
+    lines.filter((l) => Math.abs(l.thickness - t) <= tolerances.thickness).reduce((sum, l) => sum + l.count, 0);
+
+  for (const thickness of thicknesses.sort((a, b) => b - a)) {
+    const web = countAt(webSheets, thickness);
+    const gh = countAt(ghSheets, thickness);
+    const status = Math.abs(gh - web) <= tolerances.sheets ? "match" : "mismatch";
+    if (status === "mismatch") report.summary.sheet_mismatches++;
+    report.sheet_goods.push({ thickness: round(thickness, 3), web, gh, status });
+  }
+
+  report.passed = report.summary.matched === report.summary.parts &&
+    report.summary.sheet_mismatches === 0 &&
+    !report.config_hash_mismatch;
+  return report;
+}
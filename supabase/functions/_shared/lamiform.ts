@@ -0,0 +1,533 @@
+// =============================================================================
+// PIF Selection-Connection — shared: LamiForm slices, material and DXF
+// Server-side port of the lamiform.html output functions: profileRadius,
+// computeSlices, the results panel's material summary, getSliceRecommendation
+// and generateDXF. Takes LamiForm parameters (the page's `lf` sliders plus its
+// profile / slice / alignment selects) instead of reading the DOM, and
+// returns DXF text instead of downloading it.
+// Used by generate-lamiform, and by config-validation for LamiForm .json
+// uploads (lamiform.html's exportJSON, schema "lamiform-2.0").
+// Formulas must match lamiform.html.
+// =============================================================================
+
+import type { ConfigIssue } from "./config-validation.ts";
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+export const PROFILE_TYPES = ["tapered", "cylindrical", "bullnose", "ogee", "compound"] as const;
+export const SLICE_DIRECTIONS = ["horizontal", "vertical"] as const;
+export const ALIGNMENT_METHODS = ["threaded_rod", "dowel_pins", "interlocking"] as const;
+
+/** schema_version of lamiform.html's JSON export. */
+export const LAMIFORM_SCHEMA_VERSION = "lamiform-2.0";
+
+/** lamiform.html slider ranges. Presets go below some minimums (Rosette height 1.5"). */
+const NUMERIC_PARAMS: Record<string, { min: number; max: number; default: number }> = {
+  height: { min: 3, max: 48, default: 29 },
+  topWidth: { min: 0.5, max: 12, default: 1.75 },
+  bottomWidth: { min: 0.5, max: 12, default: 2.5 },
+  taperStart: { min: 0, max: 24, default: 2 },
+  curveFactor: { min: 0, max: 1, default: 0 },
+  materialThickness: { min: 0.25, max: 1.5, default: 0.75 },
+  sheetPrice: { min: 20, max: 120, default: 58 },
+};
+
+/** Hard caps, well past the slider ranges: keeps a request's DXF bounded. */
+const MAX_DIMENSION = 120;
+const MAX_SLICES = 500;
+
+/** Sheet count allowance for kerf and offcuts (results panel). */
+const SLICE_WASTE_FACTOR = 1.35;
+
+/** 4x8 sheet, in square inches. */
+const SHEET_AREA = 48 * 96;
+
+/** DXF layout sheet (landscape), spacing between parts and between sheets, in inches. */
+const DXF_SHEET_W = 96;
+const DXF_SHEET_H = 48;
+const DXF_GAP = 0.5;
+const DXF_SHEET_SPACING = 10;
+
+const DXF_LAYERS = [
+  { name: "CUT", color: 7 },
+  { name: "DRILL", color: 1 },
+  { name: "ENGRAVE", color: 3 },
+  { name: "REFERENCE", color: 5 },
+];
+
+/** Alignment hole diameter, inches. */
+const ALIGNMENT_HOLE_DIA: Record<AlignmentMethod, number> = {
+  threaded_rod: 0.375,
+  dowel_pins: 0.25,
+  interlocking: 0.1875,
+};
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type ProfileType = typeof PROFILE_TYPES[number];
+export type SliceDirection = typeof SLICE_DIRECTIONS[number];
+export type AlignmentMethod = typeof ALIGNMENT_METHODS[number];
+
+/** One LamiForm design: lamiform.html's `lf` state and selects. Inches, $. */
+export interface LamiFormParams {
+  profileType: ProfileType;
+  sliceDirection: SliceDirection;
+  alignMethod: AlignmentMethod;
+  height: number;
+  topWidth: number;
+  bottomWidth: number;
+  taperStart: number;
+  curveFactor: number;
+  materialThickness: number;
+  sheetPrice: number;
+}
+
+export interface LamiFormSlice {
+  index: number;
+  /** Height of the slice's bottom face in the stack. */
+  z: number;
+  width: number;
+  depth: number;
+  /** Bounding area used for nesting. */
+  area: number;
+  /** Disc radius (horizontal slicing); null for vertical slabs. */
+  radius: number | null;
+}
+
+export interface LamiFormMaterialSummary {
+  sliceCount: number;
+  /** Square inches, including the waste allowance. */
+  totalArea: number;
+  sheetsNeeded: number;
+  sheetPrice: number;
+  cost: number;
+}
+
+export interface SliceRecommendation {
+  method: SliceDirection;
+  reasons: string[];
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function addRect(lines: string[], x: number, y: number, w: number, h: number, layer: string): void {
+  lines.push("0", "LWPOLYLINE", "8", layer, "90", "4", "70", "1");
+  lines.push("10", String(x), "20", String(y));
+  lines.push("10", String(x + w), "20", String(y));
+  lines.push("10", String(x + w), "20", String(y + h));
+  lines.push("10", String(x), "20", String(y + h));
+}
+
+function addCircle(lines: string[], cx: number, cy: number, r: number, layer: string): void {
+  lines.push("0", "CIRCLE", "8", layer);
+  lines.push("10", String(cx), "20", String(cy), "30", "0");
+  lines.push("40", String(r));
+}
+
+function addText(lines: string[], text: string, x: number, y: number, layer: string, height: number): void {
+  lines.push("0", "TEXT", "8", layer);
+  lines.push("10", String(x), "20", String(y), "30", "0");
+  lines.push("40", String(height || 1));
+  lines.push("1", text);
+}
+
+/** Radius at the middle of horizontal slice i (clamped inside the form). */
+function discRadius(params: LamiFormParams, i: number): number {
+  const H = params.height;
+  const T = params.materialThickness;
+  let hMid = T * i + T / 2;
+  if (hMid > H) hMid = H - T / 2;
+  return profileRadius(hMid, H, params.topWidth, params.bottomWidth, params.taperStart, params.curveFactor, params.profileType);
+}
+
+// ---------------------------------------------------------------------------
+// Public API — input
+// ---------------------------------------------------------------------------
+
+/** lamiform.html's starting design (the Turned Leg preset). */
+export function defaultLamiFormParams(): LamiFormParams {
+  const params: Record<string, unknown> = {
+    profileType: "tapered",
+    sliceDirection: "horizontal",
+    alignMethod: "threaded_rod",
+  };
+  for (const [key, spec] of Object.entries(NUMERIC_PARAMS)) params[key] = spec.default;
+  return params as unknown as LamiFormParams;
+}
+
+/**
+ * LamiForm parameters from a request: missing keys take the page defaults.
+ * Unknown keys, wrong types, non-positive sizes and designs past the hard
+ * caps are errors; values outside the page's slider ranges are warnings.
+ * params is null whenever issues contains an error.
+ */
+export function parseLamiFormParams(value: unknown): { params: LamiFormParams | null; issues: ConfigIssue[] } {
+  const issues: ConfigIssue[] = [];
+  const error = (key: string, message: string) => issues.push({ key, severity: "error", message });
+  const warning = (key: string, message: string) => issues.push({ key, severity: "warning", message });
+
+  if (!isPlainObject(value)) {
+    error("params", "LamiForm parameters must be an object");
+    return { params: null, issues };
+  }
+
+  const params = defaultLamiFormParams() as unknown as Record<string, unknown>;
+  const choices: Record<string, readonly string[]> = {
+    profileType: PROFILE_TYPES,
+    sliceDirection: SLICE_DIRECTIONS,
+    alignMethod: ALIGNMENT_METHODS,
+  };
+
+  for (const [key, v] of Object.entries(value)) {
+    if (choices[key]) {
+      if (typeof v !== "string" || !choices[key].includes(v)) {
+        error(key, `${key} must be one of: ${choices[key].join(", ")}`);
+      } else {
+        params[key] = v;
+      }
+      continue;
+    }
+
+    const spec = NUMERIC_PARAMS[key];
+    if (!spec) {
+      error(key, `Unknown LamiForm parameter "${key}"`);
+      continue;
+    }
+    if (typeof v !== "number" || !Number.isFinite(v)) {
+      error(key, `${key} must be a number`);
+      continue;
+    }
+    if (v < 0 || v > MAX_DIMENSION) {
+      error(key, `${key} (${v}) must be from 0 to ${MAX_DIMENSION}`);
+      continue;
+    }
+    if (v < spec.min || v > spec.max) {
+      warning(key, `${key} (${v}) is outside the LamiForm range ${spec.min}–${spec.max}`);
+    }
+    params[key] = v;
+  }
+
+  const p = params as unknown as LamiFormParams;
+  for (const key of ["height", "topWidth", "bottomWidth", "materialThickness"] as const) {
+    if (p[key] <= 0) error(key, `${key} must be greater than 0`);
+  }
+  if (p.curveFactor > 1) error("curveFactor", "curveFactor must be from 0 to 1");
+
+  if (p.materialThickness > 0) {
+    const slices = p.sliceDirection === "horizontal"
+      ? Math.ceil(p.height / p.materialThickness)
+      : Math.ceil(Math.max(p.topWidth, p.bottomWidth) / p.materialThickness);
+    if (slices > MAX_SLICES) {
+      error("materialThickness", `${slices} slices at this thickness (max ${MAX_SLICES})`);
+    }
+  }
+  if (p.profileType === "tapered" && p.taperStart >= p.height) {
+    warning("taperStart", `Taper start (${p.taperStart}") is at or above the height — the form is a plain cylinder`);
+  }
+
+  return { params: issues.some((i) => i.severity === "error") ? null : p, issues };
+}
+
+/**
+ * Parameters of a lamiform.html JSON export (schema "lamiform-2.0"), in the
+ * parseLamiFormParams input shape. The export has no sheet price, so the
+ * default applies.
+ */
+export function lamiFormParamsFromExport(data: Record<string, unknown>): Record<string, unknown> {
+  const form = isPlainObject(data.form) ? data.form : {};
+  const parameters = isPlainObject(form.parameters) ? form.parameters : {};
+  const slicing = isPlainObject(data.slicing) ? data.slicing : {};
+  const alignment = isPlainObject(data.alignment) ? data.alignment : {};
+
+  const params: Record<string, unknown> = {
+    profileType: form.profile_type,
+    sliceDirection: slicing.slice_direction === "Z" ? "horizontal" : slicing.slice_direction === "X" ? "vertical" : slicing.slice_direction,
+    alignMethod: alignment.method,
+    height: form.height,
+    topWidth: parameters.top_width,
+    bottomWidth: parameters.bottom_width,
+    taperStart: parameters.taper_start_height,
+    curveFactor: parameters.curve_factor,
+    materialThickness: slicing.material_thickness,
+  };
+  for (const key of Object.keys(params)) {
+    if (params[key] === undefined) delete params[key];
+  }
+  return params;
+}
+
+// ---------------------------------------------------------------------------
+// Public API — computation
+// ---------------------------------------------------------------------------
+
+/**
+ * Profile radius at height h of a form `total` tall. topR / botR are the top
+ * and bottom widths (diameters), as lamiform.html passes them.
+ */
+export function profileRadius(
+  h: number,
+  total: number,
+  topR: number,
+  botR: number,
+  taperStart: number,
+  curveFactor: number,
+  type: ProfileType
+): number {
+  if (type === "cylindrical") return Math.max(topR, botR) / 2;
+
+  const t = total > 0 ? h / total : 0;
+
+  if (type === "bullnose") {
+    /* Sinusoidal bulge */
+    const base = botR / 2 + (topR / 2 - botR / 2) * t;
+    const bulge = curveFactor * (botR / 2) * Math.sin(Math.PI * t);
+    return Math.max(0.25, base + bulge);
+  }
+
+  if (type === "ogee") {
+    /* S-curve profile */
+    const mid = botR / 2 + (topR / 2 - botR / 2) * t;
+    const scurve = curveFactor * (botR / 4) * Math.sin(2 * Math.PI * t);
+    return Math.max(0.25, mid + scurve);
+  }
+
+  if (type === "compound") {
+    /* Cabriole / compound curve: wide knee at ~25%, narrows, slight flare at foot */
+    const base = botR / 2 + (topR / 2 - botR / 2) * t;
+    const knee = curveFactor * (botR / 3) * Math.sin(Math.PI * t) * Math.cos(Math.PI * t * 0.5);
+    return Math.max(0.25, base + knee);
+  }
+
+  /* Tapered (default) */
+  if (h <= taperStart) return botR / 2;
+  const taperT = (h - taperStart) / (total - taperStart);
+  let r = botR / 2 + (topR / 2 - botR / 2) * taperT;
+
+  if (curveFactor > 0) {
+    const swell = curveFactor * (botR / 4) * Math.sin(Math.PI * taperT);
+    r += swell;
+  }
+
+  return Math.max(0.25, r);
+}
+
+/**
+ * Horizontal: one disc per material thickness up the height, sized by the
+ * profile at the slice's middle. Vertical: slabs across the widest width,
+ * each the full maxW x height silhouette.
+ */
+export function computeSlices(params: LamiFormParams): LamiFormSlice[] {
+  const H = params.height;
+  const T = params.materialThickness;
+  const maxW = Math.max(params.topWidth, params.bottomWidth);
+  const slices: LamiFormSlice[] = [];
+
+  /* Horizontal: stack discs along height; Vertical: stack slabs along width */
+  const numSlices = params.sliceDirection === "horizontal" ? Math.ceil(H / T) : Math.ceil(maxW / T);
+
+  for (let i = 0; i < numSlices; i++) {
+    if (params.sliceDirection === "horizontal") {
+      const r = discRadius(params, i);
+      const dia = r * 2;
+      slices.push({
+        index: i + 1,
+        z: T * i,
+        width: dia,
+        depth: dia,
+        area: dia * dia, /* bounding square for nesting */
+        radius: r,
+      });
+    } else {
+      /* Vertical slabs: profile silhouette, bounding rectangle maxW x H */
+      slices.push({
+        index: i + 1,
+        z: T * i,
+        width: maxW,
+        depth: H,
+        area: maxW * H,
+        radius: null,
+      });
+    }
+  }
+  return slices;
+}
+
+/** Sheets and cost for the slices: bounding area plus waste, over 4x8 sheets. */
+export function computeMaterialSummary(params: LamiFormParams, slices: LamiFormSlice[]): LamiFormMaterialSummary {
+  const totalArea = slices.reduce((sum, s) => sum + s.area, 0) * SLICE_WASTE_FACTOR;
+  const sheetsNeeded = Math.ceil(totalArea / SHEET_AREA);
+  return {
+    sliceCount: slices.length,
+    totalArea,
+    sheetsNeeded,
+    sheetPrice: params.sheetPrice,
+    cost: sheetsNeeded * params.sheetPrice,
+  };
+}
+
+/** Which slice direction suits the form better, and why. */
+export function getSliceRecommendation(params: LamiFormParams): SliceRecommendation {
+  const H = params.height;
+  const maxW = Math.max(params.topWidth, params.bottomWidth);
+  const T = params.materialThickness;
+  const type = params.profileType;
+
+  const hCount = Math.ceil(H / T);
+  const vCount = Math.ceil(maxW / T);
+
+  /* Material area: horizontal = sum of bounding squares; vertical = slabs * maxW * H */
+  let hArea = 0;
+  for (let i = 0; i < hCount; i++) {
+    hArea += Math.pow(discRadius(params, i) * 2, 2);
+  }
+  const vArea = vCount * maxW * H;
+
+  let rec: SliceDirection = "vertical";
+  const reasons: string[] = [];
+
+  /* Cylindrical profiles are natural for disc stacking */
+  if (type === "cylindrical") {
+    rec = "horizontal";
+    reasons.push("round profile — discs are natural fit");
+  }
+
+  /* Short, wide parts (medallions, rosettes) favor horizontal */
+  if (H <= maxW) {
+    rec = "horizontal";
+    reasons.push("wider than tall — disc stacking is efficient");
+  }
+
+  /* Compare slice counts */
+  if (vCount < hCount) {
+    reasons.push(vCount + " slabs vs " + hCount + " discs");
+  } else if (hCount < vCount) {
+    reasons.push(hCount + " discs vs " + vCount + " slabs");
+  } else {
+    reasons.push(hCount + " slices either way");
+  }
+
+  /* Material savings */
+  if (vArea < hArea * 0.85) {
+    reasons.push("~" + Math.round((1 - vArea / hArea) * 100) + "% less material");
+    if (type !== "cylindrical" && H > maxW) rec = "vertical";
+  } else if (hArea < vArea * 0.85) {
+    reasons.push("~" + Math.round((1 - hArea / vArea) * 100) + "% less material");
+    rec = "horizontal";
+  }
+
+  return { method: rec, reasons };
+}
+
+// ---------------------------------------------------------------------------
+// Public API — output files
+// ---------------------------------------------------------------------------
+
+/**
+ * Four-layer DXF (CUT, DRILL, ENGRAVE, REFERENCE), inches, slices laid out
+ * on 96x48 sheets: discs as circles with a center alignment hole, slabs as
+ * rectangles with two. Same layout as lamiform.html's DXF export. `name`
+ * labels each sheet (the preset name).
+ */
+export function generateLamiFormDXF(params: LamiFormParams, name: string): string {
+  const slices = computeSlices(params);
+  const holeDia = ALIGNMENT_HOLE_DIA[params.alignMethod];
+  const lines: string[] = [];
+
+  /* DXF header */
+  lines.push("0", "SECTION", "2", "HEADER");
+  lines.push("9", "$ACADVER", "1", "AC1015");
+  lines.push("9", "$INSUNITS", "70", "1");
+  lines.push("0", "ENDSEC");
+
+  /* Tables — define 4 layers */
+  lines.push("0", "SECTION", "2", "TABLES");
+  lines.push("0", "TABLE", "2", "LAYER", "70", "4");
+  DXF_LAYERS.forEach((lyr) => {
+    lines.push("0", "LAYER", "2", lyr.name, "70", "0", "62", String(lyr.color), "6", "Continuous");
+  });
+  lines.push("0", "ENDTAB");
+  lines.push("0", "ENDSEC");
+
+  /* Entities */
+  lines.push("0", "SECTION", "2", "ENTITIES");
+
+  let curX = 0, curY = 0, rowH = 0, sheetNum = 0;
+  const sheetTop = () => sheetNum * (DXF_SHEET_H + DXF_SHEET_SPACING) + DXF_SHEET_H;
+
+  const startSheet = () => {
+    curX = 0; curY = sheetNum * (DXF_SHEET_H + DXF_SHEET_SPACING); rowH = 0;
+    /* Sheet boundary on REFERENCE */
+    addRect(lines, 0, curY, DXF_SHEET_W, DXF_SHEET_H, "REFERENCE");
+    addText(lines, "Sheet " + (sheetNum + 1) + " — " + name + " — " + params.materialThickness + '" stock', 1, curY + DXF_SHEET_H + 2, "REFERENCE", 1.5);
+  };
+
+  startSheet();
+
+  slices.forEach((s) => {
+    if (params.sliceDirection === "horizontal") {
+      /* Circular slices — bounding box is s.width x s.depth */
+      const bbox = s.width + DXF_GAP;
+      const radius = s.width / 2;
+
+      /* Advance row if needed */
+      if (curX + bbox > DXF_SHEET_W) { curX = 0; curY += rowH + DXF_GAP; rowH = 0; }
+      if (curY + bbox > sheetTop()) { sheetNum++; startSheet(); }
+
+      const cx = curX + radius;
+      const cy = curY + radius;
+
+      /* CUT layer: circle outline */
+      addCircle(lines, cx, cy, radius, "CUT");
+
+      /* DRILL layer: alignment hole at center */
+      addCircle(lines, cx, cy, holeDia / 2, "DRILL");
+
+      /* ENGRAVE layer: slice number */
+      addText(lines, "#" + s.index, cx - 0.3, cy - 0.3, "ENGRAVE", 0.6);
+
+      /* REFERENCE layer: dimension */
+      addText(lines, s.width.toFixed(2) + '" dia', curX, curY + s.width + 0.3, "REFERENCE", 0.4);
+
+      curX += bbox;
+      if (s.width > rowH) rowH = s.width;
+    } else {
+      /* Vertical slabs: rectangles (s.width x s.depth) */
+      const pw = s.width + DXF_GAP, ph = s.depth + DXF_GAP;
+
+      if (curX + pw > DXF_SHEET_W) { curX = 0; curY += rowH + DXF_GAP; rowH = 0; }
+      if (curY + ph > sheetTop()) { sheetNum++; startSheet(); }
+
+      /* CUT layer: rectangle */
+      addRect(lines, curX, curY, s.width, s.depth, "CUT");
+
+      /* DRILL layer: alignment holes (top and bottom center, proportional inset) */
+      const holeInset = Math.max(0.5, Math.min(2, s.depth * 0.15));
+      addCircle(lines, curX + s.width / 2, curY + holeInset, holeDia / 2, "DRILL");
+      addCircle(lines, curX + s.width / 2, curY + s.depth - holeInset, holeDia / 2, "DRILL");
+
+      /* ENGRAVE layer: slice number */
+      addText(lines, "#" + s.index, curX + 0.25, curY + 0.5, "ENGRAVE", 0.6);
+
+      /* REFERENCE layer: dimensions */
+      addText(lines, s.width.toFixed(2) + '"', curX + s.width / 2, curY + s.depth + 0.3, "REFERENCE", 0.4);
+
+      curX += pw;
+      if (s.depth > rowH) rowH = s.depth;
+    }
+  });
+
+  lines.push("0", "ENDSEC");
+  lines.push("0", "EOF");
+
+  return lines.join("\n");
+}
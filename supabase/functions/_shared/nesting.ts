@@ -0,0 +1,528 @@
+// =============================================================================
+// PIF Selection-Connection — shared: sheet-goods nesting
+// Lays cut parts out on stock sheets with a MaxRects packer (best short side
+// fit). Where the configurator's shelfPackNest and the area x 1.3 estimate in
+// computeSheetGoods only approximate, this is what the shop cuts from:
+//   - saw kerf between parts, plus optional edge trim on each sheet
+//   - grain: a grain-locked part keeps its w along the sheet's w (the grain)
+//     unless the stock has no grain (MDF, melamine)
+//   - mixed stock: several sheet sizes per thickness, limited quantities, and
+//     offcuts from earlier jobs (used before a fresh sheet when they fit)
+// Returns sheet layouts, yield and the reusable offcuts each sheet leaves.
+// Used by nest-parts. All dimensions in inches.
+// =============================================================================
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** 1/8" saw kerf, as the configurator assumes (KERF). */
+export const DEFAULT_KERF = 0.125;
+
+/** Offcuts smaller than this aren't worth keeping (long side x short side). */
+export const DEFAULT_MIN_OFFCUT = { long: 12, short: 6 };
+
+/** Stock used when a request names none: 4x8 sheets in any thickness. */
+export const DEFAULT_STOCK: StockSheet[] = [
+  { id: "4x8", w: 96, h: 48, thickness: null, qty: null, grain: true, offcut: false },
+];
+
+/** Upper bounds on one request (parts after qty expansion). */
+export const MAX_PIECES = 500;
+const MAX_STOCK_ENTRIES = 50;
+const MAX_DIMENSION = 240;
+
+/** Tolerance for floating point comparisons. */
+const EPSILON = 1e-6;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** A cut part to nest — same shape as _shared/cutlist.ts CutPart. */
+export interface NestPart {
+  name: string;
+  qty: number;
+  /** w runs along the grain when grainLock is set. */
+  w: number;
+  h: number;
+  t: number;
+  grainLock: boolean;
+  notch?: { w: number; h: number } | null;
+  type?: string;
+}
+
+export interface StockSheet {
+  id: string;
+  /** w is the grain direction. */
+  w: number;
+  h: number;
+  /** null = any thickness. */
+  thickness: number | null;
+  /** null = unlimited. */
+  qty: number | null;
+  grain: boolean;
+  /** Leftover from an earlier job; preferred over fresh stock. */
+  offcut: boolean;
+}
+
+export interface NestOptions {
+  kerf: number;
+  /** Trimmed off every edge of a sheet before nesting (factory edges). */
+  trim: number;
+  minOffcut: { long: number; short: number };
+}
+
+export interface Rect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+export interface Placement extends Rect {
+  name: string;
+  type: string;
+  /** True when the part's w runs across the sheet. */
+  rotated: boolean;
+  notch: { w: number; h: number } | null;
+}
+
+export interface SheetLayout {
+  index: number;
+  stock_id: string;
+  thickness: number;
+  w: number;
+  h: number;
+  offcut: boolean;
+  placements: Placement[];
+  parts_area: number;
+  yield_pct: number;
+  /** Reusable leftovers, non-overlapping. */
+  offcuts: Rect[];
+}
+
+export interface StockUsage {
+  stock_id: string;
+  thickness: number;
+  w: number;
+  h: number;
+  offcut: boolean;
+  count: number;
+}
+
+export interface UnplacedPart {
+  name: string;
+  w: number;
+  h: number;
+  thickness: number;
+  reason: "no_stock" | "too_large";
+}
+
+export interface NestResult {
+  sheets: SheetLayout[];
+  stock_used: StockUsage[];
+  unplaced: UnplacedPart[];
+  parts_area: number;
+  sheet_area: number;
+  offcut_area: number;
+  yield_pct: number;
+}
+
+/** One piece (qty expanded). */
+interface Piece {
+  name: string;
+  type: string;
+  w: number;
+  h: number;
+  thickness: number;
+  grainLock: boolean;
+  notch: { w: number; h: number } | null;
+  area: number;
+}
+
+/** Packing state for one sheet, in coordinates inside the trim. */
+interface Bin {
+  stock: StockSheet;
+  /** Usable size plus one kerf, so parts may sit flush with the far edges. */
+  w: number;
+  h: number;
+  free: Rect[];
+  placements: Placement[];
+  partsArea: number;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers — MaxRects
+// ---------------------------------------------------------------------------
+
+function round3(n: number): number {
+  return Math.round(n * 1000) / 1000;
+}
+
+function newBin(stock: StockSheet, options: NestOptions): Bin {
+  const w = stock.w - 2 * options.trim + options.kerf;
+  const h = stock.h - 2 * options.trim + options.kerf;
+  return { stock, w, h, free: [{ x: 0, y: 0, w, h }], placements: [], partsArea: 0 };
+}
+
+interface Fit {
+  rect: Rect;
+  rotated: boolean;
+  shortSide: number;
+  longSide: number;
+}
+
+/** Best short side fit for a piece (footprint includes kerf), or null. */
+function findFit(bin: Bin, piece: Piece, kerf: number): Fit | null {
+  const orientations: { w: number; h: number; rotated: boolean }[] = [
+    { w: piece.w + kerf, h: piece.h + kerf, rotated: false },
+  ];
+  if (!(piece.grainLock && bin.stock.grain) && Math.abs(piece.w - piece.h) > EPSILON) {
+    orientations.push({ w: piece.h + kerf, h: piece.w + kerf, rotated: true });
+  }
+
+  let best: Fit | null = null;
+  for (const fr of bin.free) {
+    for (const o of orientations) {
+      if (o.w > fr.w + EPSILON || o.h > fr.h + EPSILON) continue;
+      const leftoverW = fr.w - o.w;
+      const leftoverH = fr.h - o.h;
+      const shortSide = Math.min(leftoverW, leftoverH);
+      const longSide = Math.max(leftoverW, leftoverH);
+      if (
+        !best ||
+        shortSide < best.shortSide - EPSILON ||
+        (Math.abs(shortSide - best.shortSide) <= EPSILON && longSide < best.longSide)
+      ) {
+        best = { rect: { x: fr.x, y: fr.y, w: o.w, h: o.h }, rotated: o.rotated, shortSide, longSide };
+      }
+    }
+  }
+  return best;
+}
+
+function intersects(a: Rect, b: Rect): boolean {
+  return a.x < b.x + b.w - EPSILON && a.x + a.w > b.x + EPSILON &&
+    a.y < b.y + b.h - EPSILON && a.y + a.h > b.y + EPSILON;
+}
+
+function contains(outer: Rect, inner: Rect): boolean {
+  return inner.x >= outer.x - EPSILON && inner.y >= outer.y - EPSILON &&
+    inner.x + inner.w <= outer.x + outer.w + EPSILON &&
+    inner.y + inner.h <= outer.y + outer.h + EPSILON;
+}
+
+/** Remove used from the free list: split every overlapping free rect, then prune. */
+function carve(free: Rect[], used: Rect): Rect[] {
+  const next: Rect[] = [];
+  for (const fr of free) {
+    if (!intersects(fr, used)) {
+      next.push(fr);
+      continue;
+    }
+    if (used.x > fr.x + EPSILON) {
+      next.push({ x: fr.x, y: fr.y, w: used.x - fr.x, h: fr.h });
+    }
+    if (used.x + used.w < fr.x + fr.w - EPSILON) {
+      next.push({ x: used.x + used.w, y: fr.y, w: fr.x + fr.w - (used.x + used.w), h: fr.h });
+    }
+    if (used.y > fr.y + EPSILON) {
+      next.push({ x: fr.x, y: fr.y, w: fr.w, h: used.y - fr.y });
+    }
+    if (used.y + used.h < fr.y + fr.h - EPSILON) {
+      next.push({ x: fr.x, y: used.y + used.h, w: fr.w, h: fr.y + fr.h - (used.y + used.h) });
+    }
+  }
+  return next.filter((r, i) =>
+    !next.some((other, j) => j !== i && contains(other, r) && (!contains(r, other) || j < i))
+  );
+}
+
+function partArea(piece: { w: number; h: number; notch: { w: number; h: number } | null }): number {
+  const notchArea = piece.notch ? piece.notch.w * piece.notch.h : 0;
+  return piece.w * piece.h - notchArea;
+}
+
+/** Greedily fill one sheet from pieces (largest first); returns what was placed. */
+function fillBin(bin: Bin, pieces: Piece[], options: NestOptions): Set<number> {
+  const placed = new Set<number>();
+  pieces.forEach((piece, i) => {
+    const fit = findFit(bin, piece, options.kerf);
+    if (!fit) return;
+    bin.free = carve(bin.free, fit.rect);
+    bin.placements.push({
+      name: piece.name,
+      type: piece.type,
+      x: round3(fit.rect.x + options.trim),
+      y: round3(fit.rect.y + options.trim),
+      w: fit.rotated ? piece.h : piece.w,
+      h: fit.rotated ? piece.w : piece.h,
+      rotated: fit.rotated,
+      notch: piece.notch,
+    });
+    bin.partsArea += piece.area;
+    placed.add(i);
+  });
+  return placed;
+}
+
+/** Largest non-overlapping leftovers worth keeping, clipped to the trimmed sheet. */
+function extractOffcuts(bin: Bin, options: NestOptions): Rect[] {
+  const usableW = bin.stock.w - 2 * options.trim;
+  const usableH = bin.stock.h - 2 * options.trim;
+  const keepable = (r: Rect) =>
+    Math.max(r.w, r.h) >= options.minOffcut.long - EPSILON &&
+    Math.min(r.w, r.h) >= options.minOffcut.short - EPSILON;
+
+  let free = bin.free;
+  const offcuts: Rect[] = [];
+  while (true) {
+    const clipped = free
+      .map((r) => ({ x: r.x, y: r.y, w: Math.min(r.x + r.w, usableW) - r.x, h: Math.min(r.y + r.h, usableH) - r.y }))
+      .filter(keepable)
+      .sort((a, b) => b.w * b.h - a.w * a.h);
+    if (clipped.length === 0) break;
+    const best = clipped[0];
+    offcuts.push({ x: round3(best.x + options.trim), y: round3(best.y + options.trim), w: round3(best.w), h: round3(best.h) });
+    // Kerf around the kept piece so the next offcut is cut free of it
+    free = carve(free, { x: best.x, y: best.y, w: best.w + options.kerf, h: best.h + options.kerf });
+  }
+  return offcuts;
+}
+
+function thicknessKey(t: number): string {
+  return t.toFixed(3);
+}
+
+function stockFitsThickness(stock: StockSheet, thickness: number): boolean {
+  return stock.thickness === null || thicknessKey(stock.thickness) === thicknessKey(thickness);
+}
+
+// ---------------------------------------------------------------------------
+// Public API — input
+// ---------------------------------------------------------------------------
+
+/**
+ * Validate parts from a request (CutPart shape; grainLock defaults to false).
+ * Returns null if any part is malformed or there are too many pieces.
+ */
+export function parseNestParts(value: unknown): NestPart[] | null {
+  if (!Array.isArray(value) || value.length === 0) return null;
+
+  const parts: NestPart[] = [];
+  let pieces = 0;
+  for (const raw of value) {
+    if (!raw || typeof raw !== "object") return null;
+    const p = raw as Record<string, unknown>;
+    const qty = p.qty === undefined ? 1 : p.qty;
+    if (
+      typeof qty !== "number" || !Number.isInteger(qty) || qty < 0 ||
+      typeof p.w !== "number" || !(p.w > 0) || p.w > MAX_DIMENSION ||
+      typeof p.h !== "number" || !(p.h > 0) || p.h > MAX_DIMENSION ||
+      typeof p.t !== "number" || !(p.t > 0)
+    ) {
+      return null;
+    }
+    const notch = p.notch as { w?: unknown; h?: unknown } | null | undefined;
+    const validNotch = notch && typeof notch.w === "number" && typeof notch.h === "number" &&
+      notch.w > 0 && notch.h > 0 && notch.w < p.w && notch.h < p.h;
+
+    pieces += qty;
+    if (pieces > MAX_PIECES) return null;
+
+    parts.push({
+      name: typeof p.name === "string" ? p.name.slice(0, 100) : "Part",
+      qty,
+      w: p.w,
+      h: p.h,
+      t: p.t,
+      grainLock: p.grainLock === true,
+      notch: validNotch ? { w: notch.w as number, h: notch.h as number } : null,
+      type: typeof p.type === "string" ? p.type : "other",
+    });
+  }
+  return parts;
+}
+
+/**
+ * Validate stock from a request: [{ id?, w, h, thickness?, qty?, grain?, offcut? }].
+ * Returns null if malformed.
+ */
+export function parseStockSheets(value: unknown): StockSheet[] | null {
+  if (!Array.isArray(value) || value.length === 0 || value.length > MAX_STOCK_ENTRIES) return null;
+
+  const stock: StockSheet[] = [];
+  for (const [i, raw] of value.entries()) {
+    if (!raw || typeof raw !== "object") return null;
+    const s = raw as Record<string, unknown>;
+    if (
+      typeof s.w !== "number" || !(s.w > 0) || s.w > MAX_DIMENSION ||
+      typeof s.h !== "number" || !(s.h > 0) || s.h > MAX_DIMENSION ||
+      (s.thickness != null && (typeof s.thickness !== "number" || !(s.thickness > 0))) ||
+      (s.qty != null && (typeof s.qty !== "number" || !Number.isInteger(s.qty) || s.qty < 0))
+    ) {
+      return null;
+    }
+    stock.push({
+      id: typeof s.id === "string" && s.id ? s.id.slice(0, 64) : `stock-${i + 1}`,
+      w: s.w,
+      h: s.h,
+      thickness: (s.thickness as number | null | undefined) ?? null,
+      qty: (s.qty as number | null | undefined) ?? null,
+      grain: s.grain !== false,
+      offcut: s.offcut === true,
+    });
+  }
+  return stock;
+}
+
+// ---------------------------------------------------------------------------
+// Public API — nesting
+// ---------------------------------------------------------------------------
+
+/**
+ * Nest parts onto stock, one thickness at a time (thickest first).
+ * Each new sheet is the stock entry that, filled greedily with the remaining
+ * parts, gives the best yield — so offcuts and smaller sheets get used where
+ * they fill well, and a full sheet where they don't. Ties go to offcuts, then
+ * to the smaller sheet. Parts no stock can hold are returned in unplaced.
+ */
+export function nestParts(
+  parts: NestPart[],
+  stock: StockSheet[] = DEFAULT_STOCK,
+  options: Partial<NestOptions> = {}
+): NestResult {
+  const opts: NestOptions = {
+    kerf: options.kerf ?? DEFAULT_KERF,
+    trim: options.trim ?? 0,
+    minOffcut: options.minOffcut ?? DEFAULT_MIN_OFFCUT,
+  };
+
+  const remainingQty = stock.map((s) => s.qty);
+  const sheets: SheetLayout[] = [];
+  const unplaced: UnplacedPart[] = [];
+
+  // ---- Expand qty and group by thickness ----
+  const byThickness: Record<string, Piece[]> = {};
+  for (const p of parts) {
+    for (let q = 0; q < p.qty; q++) {
+      const key = thicknessKey(p.t);
+      if (!byThickness[key]) byThickness[key] = [];
+      byThickness[key].push({
+        name: p.name + (p.qty > 1 ? "_" + (q + 1) : ""),
+        type: p.type ?? "other",
+        w: p.w,
+        h: p.h,
+        thickness: p.t,
+        grainLock: p.grainLock,
+        notch: p.notch ?? null,
+        area: partArea({ w: p.w, h: p.h, notch: p.notch ?? null }),
+      });
+    }
+  }
+
+  for (const key of Object.keys(byThickness).sort((a, b) => parseFloat(b) - parseFloat(a))) {
+    const thickness = parseFloat(key);
+    // Largest first, longest side breaking ties
+    let pending = byThickness[key].sort(
+      (a, b) => b.area - a.area || Math.max(b.w, b.h) - Math.max(a.w, a.h)
+    );
+
+    while (pending.length > 0) {
+      let best: { index: number; bin: Bin; placed: Set<number>; yieldRatio: number } | null = null;
+
+      for (let index = 0; index < stock.length; index++) {
+        const s = stock[index];
+        const left = remainingQty[index];
+        if (!stockFitsThickness(s, thickness) || (left !== null && left <= 0)) continue;
+
+        const bin = newBin(s, opts);
+        const placed = fillBin(bin, pending, opts);
+        if (placed.size === 0) continue;
+
+        const yieldRatio = bin.partsArea / (s.w * s.h);
+        if (
+          !best ||
+          yieldRatio > best.yieldRatio + EPSILON ||
+          (Math.abs(yieldRatio - best.yieldRatio) <= EPSILON &&
+            ((s.offcut && !best.bin.stock.offcut) ||
+              (s.offcut === best.bin.stock.offcut && s.w * s.h < best.bin.stock.w * best.bin.stock.h)))
+        ) {
+          best = { index, bin, placed, yieldRatio };
+        }
+      }
+
+      if (!best) {
+        // Nothing left fits any available stock
+        const anyStock = stock.some((s, i) => {
+          const left = remainingQty[i];
+          return stockFitsThickness(s, thickness) && (left === null || left > 0);
+        });
+        for (const piece of pending) {
+          unplaced.push({
+            name: piece.name,
+            w: piece.w,
+            h: piece.h,
+            thickness,
+            reason: anyStock ? "too_large" : "no_stock",
+          });
+        }
+        break;
+      }
+
+      const chosen = best;
+      const left = remainingQty[chosen.index];
+      if (left !== null) remainingQty[chosen.index] = left - 1;
+      sheets.push({
+        index: sheets.length + 1,
+        stock_id: chosen.bin.stock.id,
+        thickness,
+        w: chosen.bin.stock.w,
+        h: chosen.bin.stock.h,
+        offcut: chosen.bin.stock.offcut,
+        placements: chosen.bin.placements,
+        parts_area: round3(chosen.bin.partsArea),
+        yield_pct: Math.round(chosen.yieldRatio * 1000) / 10,
+        offcuts: extractOffcuts(chosen.bin, opts),
+      });
+      pending = pending.filter((_, i) => !chosen.placed.has(i));
+    }
+  }
+
+  // ---- Totals ----
+  const usage = new Map<string, StockUsage>();
+  for (const sheet of sheets) {
+    const k = `${sheet.stock_id}|${thicknessKey(sheet.thickness)}`;
+    const line = usage.get(k);
+    if (line) {
+      line.count += 1;
+    } else {
+      usage.set(k, {
+        stock_id: sheet.stock_id,
+        thickness: sheet.thickness,
+        w: sheet.w,
+        h: sheet.h,
+        offcut: sheet.offcut,
+        count: 1,
+      });
+    }
+  }
+
+  const partsArea = sheets.reduce((sum, s) => sum + s.parts_area, 0);
+  const sheetArea = sheets.reduce((sum, s) => sum + s.w * s.h, 0);
+  const offcutArea = sheets.reduce(
+    (sum, s) => sum + s.offcuts.reduce((a, o) => a + o.w * o.h, 0),
+    0
+  );
+
+  return {
+    sheets,
+    stock_used: Array.from(usage.values()),
+    unplaced,
+    parts_area: round3(partsArea),
+    sheet_area: round3(sheetArea),
+    offcut_area: round3(offcutArea),
+    yield_pct: sheetArea > 0 ? Math.round((partsArea / sheetArea) * 1000) / 10 : 0,
+  };
+}
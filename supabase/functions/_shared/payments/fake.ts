@@ -0,0 +1,222 @@
+// =============================================================================
+// PIF Selection-Connection — shared: in-memory fake payment provider
+// For local development and tests: no network calls, nothing leaves the
+// process. Sessions, accounts and transfers live in module-level maps.
+//
+// Local purchase flow:
+//   1. PAYMENT_PROVIDER=fake, FAKE_PAYMENT_WEBHOOK_SECRET=<anything>
+//   2. create-checkout returns a fake_cs_... session id and a local URL
+//   3. POST the completed event to /stripe-webhook with header
+//      X-Fake-Payment-Secret: <secret> and a body like
+//      { "id": "evt_1", "type": "checkout.session.completed",
+//        "object": { "id": "fake_cs_...", "payment_intent": "fake_pi_...",
+//                    "amount_total": <the order's total_cents>,
+//                    "metadata": { ...as returned by create-checkout... } } }
+//      (in-process tests can build it with buildFakeCheckoutCompletedEvent)
+//
+// Never enable in production: the only webhook check is the shared secret.
+// =============================================================================
+
+import {
+  CheckoutSession,
+  CheckoutSessionParams,
+  ConnectedAccountParams,
+  PaymentEvent,
+  PaymentProvider,
+  ProviderResult,
+  SubscriptionCheckoutParams,
+  SubscriptionPriceChange,
+  TransferParams,
+  WebhookKind,
+} from "./provider.ts";
+
+// ---------------------------------------------------------------------------
+// In-memory state
+// ---------------------------------------------------------------------------
+
+const sessions = new Map<string, CheckoutSessionParams>();
+const accounts = new Map<string, ConnectedAccountParams>();
+const transfers = new Map<string, TransferParams & { reversed_cents: number }>();
+const transfersByKey = new Map<string, string>();
+const subscriptions = new Map<
+  string,
+  { member_id: string; price_id: string; tier_id: string; cancel_at_period_end: boolean }
+>();
+
+/** Short random id with a provider-style prefix. */
+function fakeId(prefix: string): string {
+  return `${prefix}_${crypto.randomUUID().replace(/-/g, "").slice(0, 16)}`;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Start a fake subscription for a member and build the
+ * customer.subscription.created event the webhook would receive.
+ */
+export function buildFakeSubscriptionCreatedEvent(params: SubscriptionCheckoutParams): PaymentEvent {
+  const subscriptionId = fakeId("fake_sub");
+  subscriptions.set(subscriptionId, {
+    member_id: params.member_id,
+    price_id: params.price_id,
+    tier_id: params.tier_id,
+    cancel_at_period_end: false,
+  });
+  return {
+    id: fakeId("evt"),
+    type: "customer.subscription.created",
+    object: {
+      id: subscriptionId,
+      customer: params.customer_id ?? fakeId("fake_cus"),
+      status: "active",
+      cancel_at_period_end: false,
+      current_period_end: Math.floor(Date.now() / 1000) + 30 * 24 * 60 * 60,
+      items: { data: [{ price: { id: params.price_id } }] },
+      metadata: { member_id: params.member_id, tier_id: params.tier_id },
+    },
+  };
+}
+
+/** Build the webhook body that completes a fake checkout session. */
+export function buildFakeCheckoutCompletedEvent(sessionId: string): PaymentEvent | null {
+  const session = sessions.get(sessionId);
+  if (!session) return null;
+  return {
+    id: fakeId("evt"),
+    type: "checkout.session.completed",
+    object: {
+      id: sessionId,
+      payment_intent: fakeId("fake_pi"),
+      amount_total: session.line_items.reduce((sum, item) => sum + item.amount_cents * (item.quantity ?? 1), 0),
+      metadata: session.metadata,
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Adapter
+// ---------------------------------------------------------------------------
+
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = "fake" as const;
+  readonly supportsTransfers = true;
+
+  async createCheckoutSession(
+    params: CheckoutSessionParams
+  ): Promise<ProviderResult<CheckoutSession>> {
+    const sessionId = fakeId("fake_cs");
+    sessions.set(sessionId, params);
+
+    const url = new URL(params.success_url);
+    url.searchParams.set("session_id", sessionId);
+    url.searchParams.set("fake", "1");
+    return { data: { session_id: sessionId, checkout_url: url.toString() }, error: null };
+  }
+
+  async parseWebhook(body: string, req: Request, _kind: WebhookKind): Promise<PaymentEvent | null> {
+    const secret = Deno.env.get("FAKE_PAYMENT_WEBHOOK_SECRET") ?? "";
+    if (!secret || req.headers.get("X-Fake-Payment-Secret") !== secret) {
+      console.error("[fake-payments] Missing or wrong X-Fake-Payment-Secret");
+      return null;
+    }
+
+    try {
+      const event = JSON.parse(body);
+      if (typeof event.id !== "string" || typeof event.type !== "string") return null;
+      return { id: event.id, type: event.type, object: event.object ?? {} };
+    } catch {
+      return null;
+    }
+  }
+
+  async createConnectedAccount(
+    params: ConnectedAccountParams
+  ): Promise<ProviderResult<{ account_id: string }>> {
+    const accountId = fakeId("fake_acct");
+    accounts.set(accountId, params);
+    return { data: { account_id: accountId }, error: null };
+  }
+
+  async createOnboardingLink(
+    accountId: string,
+    urls: { refresh_url: string; return_url: string }
+  ): Promise<ProviderResult<{ url: string }>> {
+    if (!accounts.has(accountId)) return { data: null, error: `Unknown fake account: ${accountId}` };
+    const url = new URL(urls.return_url);
+    url.searchParams.set("fake_account", accountId);
+    return { data: { url: url.toString() }, error: null };
+  }
+
+  async createTransfer(params: TransferParams): Promise<ProviderResult<{ transfer_id: string }>> {
+    // Honour idempotency keys like the real API
+    const existing = transfersByKey.get(params.idempotency_key);
+    if (existing) return { data: { transfer_id: existing }, error: null };
+
+    const transferId = fakeId("fake_tr");
+    transfers.set(transferId, { ...params, reversed_cents: 0 });
+    transfersByKey.set(params.idempotency_key, transferId);
+    return { data: { transfer_id: transferId }, error: null };
+  }
+
+  async findTransfer(
+    destination: string,
+    transferGroup: string,
+    payoutId: string
+  ): Promise<ProviderResult<{ transfer_id: string | null }>> {
+    for (const [id, t] of transfers) {
+      if (
+        t.destination === destination &&
+        t.transfer_group === transferGroup &&
+        t.metadata.payout_id === payoutId
+      ) {
+        return { data: { transfer_id: id }, error: null };
+      }
+    }
+    return { data: { transfer_id: null }, error: null };
+  }
+
+  async reverseTransfer(
+    transferId: string,
+    amountCents: number
+  ): Promise<ProviderResult<{ reversal_id: string }>> {
+    const transfer = transfers.get(transferId);
+    if (!transfer) return { data: null, error: `Unknown fake transfer: ${transferId}` };
+    if (transfer.reversed_cents + amountCents > transfer.amount_cents) {
+      return { data: null, error: "Reversal exceeds transferred amount" };
+    }
+    transfer.reversed_cents += amountCents;
+    return { data: { reversal_id: fakeId("fake_trr") }, error: null };
+  }
+
+  async createSubscriptionCheckout(
+    params: SubscriptionCheckoutParams
+  ): Promise<ProviderResult<CheckoutSession>> {
+    const url = new URL(params.success_url);
+    url.searchParams.set("fake", "1");
+    url.searchParams.set("tier_id", params.tier_id);
+    return { data: { session_id: fakeId("fake_cs"), checkout_url: url.toString() }, error: null };
+  }
+
+  async changeSubscriptionPrice(
+    subscriptionId: string,
+    change: SubscriptionPriceChange
+  ): Promise<ProviderResult<{ subscription_id: string }>> {
+    const subscription = subscriptions.get(subscriptionId);
+    if (!subscription) return { data: null, error: `Unknown fake subscription: ${subscriptionId}` };
+    subscription.price_id = change.price_id;
+    subscription.tier_id = change.tier_id;
+    subscription.cancel_at_period_end = false;
+    return { data: { subscription_id: subscriptionId }, error: null };
+  }
+
+  async cancelSubscriptionAtPeriodEnd(
+    subscriptionId: string
+  ): Promise<ProviderResult<{ subscription_id: string }>> {
+    const subscription = subscriptions.get(subscriptionId);
+    if (!subscription) return { data: null, error: `Unknown fake subscription: ${subscriptionId}` };
+    subscription.cancel_at_period_end = true;
+    return { data: { subscription_id: subscriptionId }, error: null };
+  }
+}
@@ -0,0 +1,250 @@
+// =============================================================================
+// PIF Selection-Connection — shared: Gumroad payment provider (fallback)
+// Sells through a single pay-what-you-want Gumroad product. The order id,
+// amount and metadata travel as one signed URL parameter (ref) and come back
+// on Gumroad's sale "ping". The buyer can edit the URL, so a ping is only
+// turned into a completed checkout when the ref's signature checks out, the
+// sale is for our product and the amount paid is exactly the signed amount;
+// stripe-webhook then checks that amount against the stored order total.
+//
+// Gumroad pays sellers itself, so connected accounts and transfers are not
+// supported — royalty payouts stay pending until settled another way.
+//
+// Env:
+//   GUMROAD_PRODUCT_URL     e.g. https://pif.gumroad.com/l/marketplace
+//   GUMROAD_WEBHOOK_SECRET  appended to the ping URL as ?secret=... (Gumroad
+//                           pings are unsigned, so the secret is the check);
+//                           also the HMAC key for ref
+// =============================================================================
+
+import { hmacSha256Hex, timingSafeEqual } from "../stripe-signature.ts";
+import {
+  CheckoutSession,
+  CheckoutSessionParams,
+  PaymentEvent,
+  PaymentProvider,
+  ProviderResult,
+  unsupported,
+  WebhookKind,
+} from "./provider.ts";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** What the signed ref parameter carries through Gumroad. */
+interface OrderRef {
+  order_id: string;
+  amount_cents: number;
+  metadata: Record<string, string>;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Constant-time comparison for the ping secret. */
+function secretsMatch(a: string, b: string): boolean {
+  return a.length > 0 && timingSafeEqual(a, b);
+}
+
+function base64UrlEncode(text: string): string {
+  return btoa(text).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function base64UrlDecode(text: string): string | null {
+  try {
+    return atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+  } catch {
+    return null;
+  }
+}
+
+/** `<base64url(JSON ref)>.<HMAC-SHA256 hex>` */
+async function signOrderRef(ref: OrderRef, secret: string): Promise<string> {
+  const claims = base64UrlEncode(JSON.stringify(ref));
+  return `${claims}.${await hmacSha256Hex(secret, claims)}`;
+}
+
+/** The ref a ping carries back, or null if it's missing, malformed or unsigned. */
+async function verifyOrderRef(value: string | undefined, secret: string): Promise<OrderRef | null> {
+  const [claims, signature, extra] = (value ?? "").split(".");
+  if (!claims || !signature || extra !== undefined) return null;
+  if (!timingSafeEqual(await hmacSha256Hex(secret, claims), signature)) return null;
+
+  try {
+    const ref = JSON.parse(base64UrlDecode(claims) ?? "");
+    if (
+      typeof ref?.order_id !== "string" ||
+      !Number.isInteger(ref.amount_cents) ||
+      typeof ref.metadata !== "object" || ref.metadata === null
+    ) {
+      return null;
+    }
+    return ref as OrderRef;
+  } catch {
+    return null;
+  }
+}
+
+/** Short permalink of the configured product (the last segment of its URL). */
+function productPermalink(productUrl: string): string {
+  return new URL(productUrl).pathname.split("/").filter(Boolean).pop() ?? "";
+}
+
+/** Whether a ping is for our product: Gumroad sends both a short and a full permalink. */
+function isOurProduct(form: URLSearchParams, productUrl: string): boolean {
+  const expected = productPermalink(productUrl);
+  if (!expected) return false;
+  const permalink = form.get("permalink") ?? "";
+  const full = form.get("product_permalink") ?? "";
+  return permalink === expected || full.replace(/\/+$/, "").split("/").pop() === expected;
+}
+
+/** Collect url_params[key]=value fields from a ping into a plain object. */
+function extractUrlParams(form: URLSearchParams): Record<string, string> {
+  const params: Record<string, string> = {};
+  for (const [key, value] of form.entries()) {
+    const match = key.match(/^url_params\[(.+)\]$/);
+    if (match) params[match[1]] = value;
+  }
+  return params;
+}
+
+// ---------------------------------------------------------------------------
+// Adapter
+// ---------------------------------------------------------------------------
+
+export class GumroadPaymentProvider implements PaymentProvider {
+  readonly name = "gumroad" as const;
+  readonly supportsTransfers = false;
+
+  async createCheckoutSession(
+    params: CheckoutSessionParams
+  ): Promise<ProviderResult<CheckoutSession>> {
+    const productUrl = Deno.env.get("GUMROAD_PRODUCT_URL");
+    if (!productUrl) return { data: null, error: "GUMROAD_PRODUCT_URL is not configured" };
+    const secret = Deno.env.get("GUMROAD_WEBHOOK_SECRET");
+    if (!secret) return { data: null, error: "GUMROAD_WEBHOOK_SECRET is not configured" };
+
+    const totalCents = params.line_items.reduce(
+      (sum, item) => sum + item.amount_cents * (item.quantity ?? 1),
+      0
+    );
+
+    const url = new URL(productUrl);
+    url.searchParams.set("wanted", "true");
+    url.searchParams.set("email", params.buyer_email);
+    url.searchParams.set("price", (totalCents / 100).toFixed(2));
+    url.searchParams.set(
+      "ref",
+      await signOrderRef({ order_id: params.order_id, amount_cents: totalCents, metadata: params.metadata }, secret)
+    );
+
+    // Gumroad has no session object — the order id identifies the purchase
+    return { data: { session_id: params.order_id, checkout_url: url.toString() }, error: null };
+  }
+
+  async parseWebhook(body: string, req: Request, kind: WebhookKind): Promise<PaymentEvent | null> {
+    if (kind !== "payments") return null;
+
+    const expected = Deno.env.get("GUMROAD_WEBHOOK_SECRET") ?? "";
+    const provided = new URL(req.url).searchParams.get("secret") ?? "";
+    if (!secretsMatch(expected, provided)) {
+      console.error("[gumroad] Ping secret mismatch");
+      return null;
+    }
+
+    const form = new URLSearchParams(body);
+    const saleId = form.get("sale_id");
+    if (!saleId) return null;
+
+    if (!isOurProduct(form, Deno.env.get("GUMROAD_PRODUCT_URL") ?? "")) {
+      console.error("[gumroad] Ping for another product:", form.get("permalink"), "sale:", saleId);
+      return null;
+    }
+
+    const urlParams = extractUrlParams(form);
+    const priceCents = parseInt(form.get("price") ?? "0", 10);
+
+    if (form.get("refunded") === "true") {
+      return {
+        id: `gumroad_${saleId}_refunded`,
+        type: "charge.refunded",
+        object: { id: saleId, payment_intent: saleId, refunded: true, amount_refunded: priceCents },
+      };
+    }
+
+    if (form.get("disputed") === "true") {
+      const won = form.get("dispute_won") === "true";
+      return {
+        id: `gumroad_${saleId}_dispute_${won ? "closed" : "created"}`,
+        type: won ? "charge.dispute.closed" : "charge.dispute.created",
+        object: {
+          id: `gumroad_dispute_${saleId}`,
+          charge: saleId,
+          payment_intent: saleId,
+          amount: priceCents,
+          status: won ? "won" : "needs_response",
+        },
+      };
+    }
+
+    // ---- A sale: the ref must be ours and the amount exactly what we signed ----
+    const ref = await verifyOrderRef(urlParams.ref, expected);
+    if (!ref) {
+      console.error("[gumroad] Sale without a valid signed ref:", saleId);
+      return null;
+    }
+    const currency = (form.get("currency") ?? "usd").toLowerCase();
+    if (currency !== "usd" || priceCents !== ref.amount_cents) {
+      console.error(
+        `[gumroad] Sale ${saleId} paid ${priceCents} ${currency}, order ${ref.order_id} is ${ref.amount_cents} usd`
+      );
+      return null;
+    }
+
+    return {
+      id: `gumroad_${saleId}_sale`,
+      type: "checkout.session.completed",
+      object: {
+        id: ref.order_id,
+        payment_intent: saleId,
+        amount_total: priceCents,
+        metadata: { ...ref.metadata, buyer_email: ref.metadata.buyer_email ?? form.get("email") ?? "" },
+      },
+    };
+  }
+
+  async createConnectedAccount(): Promise<ProviderResult<{ account_id: string }>> {
+    return unsupported(this.name, "Connected accounts");
+  }
+
+  async createOnboardingLink(): Promise<ProviderResult<{ url: string }>> {
+    return unsupported(this.name, "Account onboarding");
+  }
+
+  async createTransfer(): Promise<ProviderResult<{ transfer_id: string }>> {
+    return unsupported(this.name, "Transfers");
+  }
+
+  async findTransfer(): Promise<ProviderResult<{ transfer_id: string | null }>> {
+    return unsupported(this.name, "Transfers");
+  }
+
+  async reverseTransfer(): Promise<ProviderResult<{ reversal_id: string }>> {
+    return unsupported(this.name, "Transfer reversals");
+  }
+
+  async createSubscriptionCheckout(): Promise<ProviderResult<CheckoutSession>> {
+    return unsupported(this.name, "Membership subscriptions");
+  }
+
+  async changeSubscriptionPrice(): Promise<ProviderResult<{ subscription_id: string }>> {
+    return unsupported(this.name, "Membership subscriptions");
+  }
+
+  async cancelSubscriptionAtPeriodEnd(): Promise<ProviderResult<{ subscription_id: string }>> {
+    return unsupported(this.name, "Membership subscriptions");
+  }
+}
@@ -0,0 +1,35 @@
+// =============================================================================
+// PIF Selection-Connection — shared: payment provider selection
+// PAYMENT_PROVIDER = "stripe" (default) | "gumroad" | "fake"
+// =============================================================================
+
+import { FakePaymentProvider } from "./fake.ts";
+import { GumroadPaymentProvider } from "./gumroad.ts";
+import { PaymentProvider } from "./provider.ts";
+import { StripePaymentProvider } from "./stripe.ts";
+
+export * from "./provider.ts";
+
+let activeProvider: PaymentProvider | null = null;
+
+/** Return the payment provider selected by PAYMENT_PROVIDER (cached per instance). */
+export function getPaymentProvider(): PaymentProvider {
+  if (activeProvider) return activeProvider;
+
+  const name = (Deno.env.get("PAYMENT_PROVIDER") ?? "stripe").toLowerCase();
+  switch (name) {
+    case "stripe":
+      activeProvider = new StripePaymentProvider();
+      break;
+    case "gumroad":
+      activeProvider = new GumroadPaymentProvider();
+      break;
+    case "fake":
+      console.warn("[payments] Using the in-memory fake payment provider — local use only");
+      activeProvider = new FakePaymentProvider();
+      break;
+    default:
+      throw new Error(`Unknown PAYMENT_PROVIDER: ${name}`);
+  }
+  return activeProvider;
+}
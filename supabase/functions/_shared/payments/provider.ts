@@ -0,0 +1,167 @@
+// =============================================================================
+// PIF Selection-Connection — shared: payment provider interface
+// Edge Functions talk to the payment processor only through this interface.
+// Adapters: stripe.ts (default), gumroad.ts (fallback), fake.ts (local, no
+// network). Select with the PAYMENT_PROVIDER env var — see index.ts.
+//
+// Webhook events are normalized to Stripe's event names and object shapes,
+// because that's what the handlers in stripe-webhook / stripe-onboarding
+// were written against. Fields the handlers rely on:
+//   checkout.session.completed  { id, mode, payment_intent, customer, amount_total,
+//                                 metadata: { order_id, file_id, buyer_email } }
+//                               (carts: metadata.order_group_id; configurator: metadata.config_purchase_id)
+//   payment_intent.payment_failed { id }
+//   charge.refunded             { id, payment_intent, amount_refunded, refunded }
+//   charge.dispute.created      { id, charge, payment_intent, amount, reason }
+//   charge.dispute.closed       { id, charge, payment_intent, amount, status }
+//   account.updated             { id, charges_enabled }
+//   customer.subscription.*     { id, customer, status, cancel_at_period_end, current_period_end,
+//                                 items: { data: [{ price: { id } }] }, metadata: { member_id } }
+//   invoice.payment_failed      { id, customer, subscription }
+// =============================================================================
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type PaymentProviderName = "stripe" | "gumroad" | "fake";
+
+/** Same { data, error } shape as supabase-js results. */
+export interface ProviderResult<T> {
+  data: T | null;
+  error: string | null;
+}
+
+/** Which webhook endpoint an event arrived on. */
+export type WebhookKind = "payments" | "connect";
+
+export interface CheckoutLineItem {
+  name: string;
+  description?: string;
+  amount_cents: number;
+  quantity?: number;
+}
+
+export interface CheckoutSessionParams {
+  /** Our order id; also used as the transfer group for later payouts. */
+  order_id: string;
+  buyer_email: string;
+  line_items: CheckoutLineItem[];
+  /** Echoed back on the completed event (string values only). */
+  metadata: Record<string, string>;
+  success_url: string;
+  cancel_url: string;
+}
+
+export interface CheckoutSession {
+  session_id: string;
+  checkout_url: string;
+}
+
+export interface PaymentEvent {
+  id: string;
+  type: string;
+  object: Record<string, unknown>;
+}
+
+export interface ConnectedAccountParams {
+  member_id: string;
+  email: string;
+  display_name: string;
+}
+
+export interface TransferParams {
+  amount_cents: number;
+  currency: string;
+  destination: string;
+  transfer_group: string;
+  metadata: Record<string, string>;
+  idempotency_key: string;
+}
+
+export interface SubscriptionCheckoutParams {
+  member_id: string;
+  tier_id: string;
+  /** Provider price id of the tier's monthly plan. */
+  price_id: string;
+  /** Existing customer to bill, or null to create one from customer_email. */
+  customer_id: string | null;
+  customer_email: string;
+  success_url: string;
+  cancel_url: string;
+}
+
+export interface SubscriptionPriceChange {
+  price_id: string;
+  tier_id: string;
+  /** Charge (or credit) the difference for the rest of the period right away. */
+  prorate: boolean;
+}
+
+export interface PaymentProvider {
+  readonly name: PaymentProviderName;
+
+  /** False when the provider pays sellers itself (no Connect-style transfers). */
+  readonly supportsTransfers: boolean;
+
+  /** Create a hosted checkout page for an order. */
+  createCheckoutSession(params: CheckoutSessionParams): Promise<ProviderResult<CheckoutSession>>;
+
+  /**
+   * Verify and parse an incoming webhook request.
+   * Returns null if the signature (or shared secret) doesn't check out.
+   */
+  parseWebhook(body: string, req: Request, kind: WebhookKind): Promise<PaymentEvent | null>;
+
+  /** Create a connected account a member can be paid out to. */
+  createConnectedAccount(params: ConnectedAccountParams): Promise<ProviderResult<{ account_id: string }>>;
+
+  /** Hosted onboarding link for a connected account. */
+  createOnboardingLink(
+    accountId: string,
+    urls: { refresh_url: string; return_url: string }
+  ): Promise<ProviderResult<{ url: string }>>;
+
+  /** Move money from the platform to a connected account. */
+  createTransfer(params: TransferParams): Promise<ProviderResult<{ transfer_id: string }>>;
+
+  /** Find a transfer previously created with the given metadata.payout_id. */
+  findTransfer(
+    destination: string,
+    transferGroup: string,
+    payoutId: string
+  ): Promise<ProviderResult<{ transfer_id: string | null }>>;
+
+  /** Reverse (part of) a transfer back to the platform. */
+  reverseTransfer(
+    transferId: string,
+    amountCents: number,
+    metadata: Record<string, string>,
+    idempotencyKey: string
+  ): Promise<ProviderResult<{ reversal_id: string }>>;
+
+  /** Hosted checkout that starts a monthly membership subscription. */
+  createSubscriptionCheckout(
+    params: SubscriptionCheckoutParams
+  ): Promise<ProviderResult<CheckoutSession>>;
+
+  /** Move an existing subscription to another price (and undo a scheduled cancel). */
+  changeSubscriptionPrice(
+    subscriptionId: string,
+    change: SubscriptionPriceChange
+  ): Promise<ProviderResult<{ subscription_id: string }>>;
+
+  /** Cancel a subscription when the current paid period ends. */
+  cancelSubscriptionAtPeriodEnd(
+    subscriptionId: string
+  ): Promise<ProviderResult<{ subscription_id: string }>>;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Result for an operation the provider doesn't support. */
+export function unsupported<T>(provider: PaymentProviderName, operation: string): ProviderResult<T> {
+  return { data: null, error: `${operation} is not supported by the ${provider} payment provider` };
+}
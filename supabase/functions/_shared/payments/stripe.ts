@@ -0,0 +1,230 @@
+// =============================================================================
+// PIF Selection-Connection — shared: Stripe Connect payment provider
+// Checkout Sessions, signed webhooks, Express connected accounts,
+// separate-charges-and-transfers payouts and membership subscriptions. Uses STRIPE_SECRET_KEY,
+// STRIPE_WEBHOOK_SECRET and STRIPE_CONNECT_WEBHOOK_SECRET.
+// =============================================================================
+
+import { stripeRequest } from "../stripe-api.ts";
+import { verifyStripeSignature } from "../stripe-signature.ts";
+import {
+  CheckoutSession,
+  CheckoutSessionParams,
+  ConnectedAccountParams,
+  PaymentEvent,
+  PaymentProvider,
+  ProviderResult,
+  SubscriptionCheckoutParams,
+  SubscriptionPriceChange,
+  TransferParams,
+  WebhookKind,
+} from "./provider.ts";
+
+export class StripePaymentProvider implements PaymentProvider {
+  readonly name = "stripe" as const;
+  readonly supportsTransfers = true;
+
+  async createCheckoutSession(
+    params: CheckoutSessionParams
+  ): Promise<ProviderResult<CheckoutSession>> {
+    const { data, error } = await stripeRequest(
+      "POST",
+      "/checkout/sessions",
+      {
+        mode: "payment",
+        customer_email: params.buyer_email,
+        line_items: params.line_items.map((item) => ({
+          price_data: {
+            currency: "usd",
+            unit_amount: item.amount_cents,
+            product_data: { name: item.name, description: item.description },
+          },
+          quantity: item.quantity ?? 1,
+        })),
+        payment_intent_data: {
+          transfer_group: params.order_id,
+          metadata: params.metadata,
+        },
+        success_url: params.success_url,
+        cancel_url: params.cancel_url,
+        metadata: params.metadata,
+      },
+      `checkout-${params.order_id}`
+    );
+
+    if (error || !data) return { data: null, error };
+    return {
+      data: { session_id: data.id as string, checkout_url: data.url as string },
+      error: null,
+    };
+  }
+
+  async parseWebhook(body: string, req: Request, kind: WebhookKind): Promise<PaymentEvent | null> {
+    const secret =
+      kind === "connect"
+        ? Deno.env.get("STRIPE_CONNECT_WEBHOOK_SECRET") ?? ""
+        : Deno.env.get("STRIPE_WEBHOOK_SECRET") ?? "";
+
+    const event = await verifyStripeSignature(body, req.headers.get("Stripe-Signature"), secret);
+    if (!event || typeof event.id !== "string" || typeof event.type !== "string") return null;
+
+    return {
+      id: event.id,
+      type: event.type,
+      object: ((event.data as Record<string, unknown>)?.object ?? {}) as Record<string, unknown>,
+    };
+  }
+
+  async createConnectedAccount(
+    params: ConnectedAccountParams
+  ): Promise<ProviderResult<{ account_id: string }>> {
+    const { data, error } = await stripeRequest(
+      "POST",
+      "/accounts",
+      {
+        type: "express",
+        email: params.email,
+        metadata: { pif_member_id: params.member_id, display_name: params.display_name },
+        capabilities: {
+          card_payments: { requested: true },
+          transfers: { requested: true },
+        },
+      },
+      `account-${params.member_id}`
+    );
+
+    if (error || !data) return { data: null, error };
+    return { data: { account_id: data.id as string }, error: null };
+  }
+
+  async createOnboardingLink(
+    accountId: string,
+    urls: { refresh_url: string; return_url: string }
+  ): Promise<ProviderResult<{ url: string }>> {
+    const { data, error } = await stripeRequest("POST", "/account_links", {
+      account: accountId,
+      refresh_url: urls.refresh_url,
+      return_url: urls.return_url,
+      type: "account_onboarding",
+    });
+
+    if (error || !data) return { data: null, error };
+    return { data: { url: data.url as string }, error: null };
+  }
+
+  async createTransfer(params: TransferParams): Promise<ProviderResult<{ transfer_id: string }>> {
+    const { data, error } = await stripeRequest(
+      "POST",
+      "/transfers",
+      {
+        amount: params.amount_cents,
+        currency: params.currency,
+        destination: params.destination,
+        transfer_group: params.transfer_group,
+        metadata: params.metadata,
+      },
+      params.idempotency_key
+    );
+
+    if (error || !data) return { data: null, error: error ?? "Stripe returned no transfer" };
+    return { data: { transfer_id: data.id as string }, error: null };
+  }
+
+  async findTransfer(
+    destination: string,
+    transferGroup: string,
+    payoutId: string
+  ): Promise<ProviderResult<{ transfer_id: string | null }>> {
+    const { data, error } = await stripeRequest("GET", "/transfers", {
+      destination,
+      transfer_group: transferGroup,
+      limit: 100,
+    });
+
+    if (error || !data) return { data: null, error: `Could not list existing transfers: ${error}` };
+
+    const transfers = (data.data ?? []) as Array<{ id: string; metadata?: Record<string, string> }>;
+    const match = transfers.find((t) => t.metadata?.payout_id === payoutId);
+    return { data: { transfer_id: match?.id ?? null }, error: null };
+  }
+
+  async reverseTransfer(
+    transferId: string,
+    amountCents: number,
+    metadata: Record<string, string>,
+    idempotencyKey: string
+  ): Promise<ProviderResult<{ reversal_id: string }>> {
+    const { data, error } = await stripeRequest(
+      "POST",
+      `/transfers/${transferId}/reversals`,
+      { amount: amountCents, metadata },
+      idempotencyKey
+    );
+
+    if (error || !data) return { data: null, error: error ?? "Stripe returned no reversal" };
+    return { data: { reversal_id: data.id as string }, error: null };
+  }
+
+  async createSubscriptionCheckout(
+    params: SubscriptionCheckoutParams
+  ): Promise<ProviderResult<CheckoutSession>> {
+    const { data, error } = await stripeRequest("POST", "/checkout/sessions", {
+      mode: "subscription",
+      customer: params.customer_id ?? undefined,
+      customer_email: params.customer_id ? undefined : params.customer_email,
+      client_reference_id: params.member_id,
+      line_items: [{ price: params.price_id, quantity: 1 }],
+      subscription_data: {
+        metadata: { member_id: params.member_id, tier_id: params.tier_id },
+      },
+      success_url: params.success_url,
+      cancel_url: params.cancel_url,
+      metadata: { member_id: params.member_id, tier_id: params.tier_id },
+    });
+
+    if (error || !data) return { data: null, error };
+    return {
+      data: { session_id: data.id as string, checkout_url: data.url as string },
+      error: null,
+    };
+  }
+
+  async changeSubscriptionPrice(
+    subscriptionId: string,
+    change: SubscriptionPriceChange
+  ): Promise<ProviderResult<{ subscription_id: string }>> {
+    const { data: subscription, error: fetchError } = await stripeRequest(
+      "GET",
+      `/subscriptions/${subscriptionId}`
+    );
+    if (fetchError || !subscription) return { data: null, error: fetchError };
+
+    const items = (subscription.items as { data?: Array<{ id: string }> })?.data ?? [];
+    if (items.length !== 1) {
+      return { data: null, error: `Subscription ${subscriptionId} has ${items.length} items, expected 1` };
+    }
+
+    // Setting the same price twice is harmless, so no idempotency key
+    const { data, error } = await stripeRequest("POST", `/subscriptions/${subscriptionId}`, {
+      items: [{ id: items[0].id, price: change.price_id }],
+      // Upgrades bill the difference now; downgrades take effect next period
+      proration_behavior: change.prorate ? "always_invoice" : "none",
+      cancel_at_period_end: false,
+      metadata: { tier_id: change.tier_id },
+    });
+
+    if (error || !data) return { data: null, error };
+    return { data: { subscription_id: data.id as string }, error: null };
+  }
+
+  async cancelSubscriptionAtPeriodEnd(
+    subscriptionId: string
+  ): Promise<ProviderResult<{ subscription_id: string }>> {
+    const { data, error } = await stripeRequest("POST", `/subscriptions/${subscriptionId}`, {
+      cancel_at_period_end: true,
+    });
+
+    if (error || !data) return { data: null, error };
+    return { data: { subscription_id: data.id as string }, error: null };
+  }
+}
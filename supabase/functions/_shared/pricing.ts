@@ -0,0 +1,79 @@
+// =============================================================================
+// PIF Selection-Connection — shared: marketplace pricing
+// Used by create-checkout (single file), create-cart-checkout (one line per
+// file) and create-config-checkout (configurator output, PIF keeps the base)
+// so every purchase path prices the same way.
+// =============================================================================
+
+import { RoyaltyEntry, RoyaltySplit, splitRoyalties } from "./royalty.ts";
+import { calculateTaxCents } from "./tax.ts";
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** PIF platform fee, charged on top of the file price (Section 6A). */
+export const PIF_FEE_MULTIPLIER = 1.10;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface Pricing {
+  /** What the buyer pays: base price + PIF fee + tax. */
+  total_cents: number;
+  pif_fee_cents: number;
+  /** Price the royalty chain is split on (list price minus any discount). */
+  base_price_cents: number;
+  list_price_cents: number;
+  discount_cents: number;
+  /** Sales tax / VAT on base price + PIF fee; not part of the royalty split. */
+  tax_cents: number;
+  tax_rate_basis_points: number;
+  payouts: RoyaltySplit[];
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Calculate the total price including PIF platform fee.
+ * A discount (see _shared/promotions.ts) comes off the list price first;
+ * PIF takes 10% on top of the discounted base price, and tax at the buyer's
+ * rate (see _shared/tax.ts) is added on top of both.
+ *   total = (list_price - discount) * 1.10 * (1 + tax_rate)
+ * The base price is split across the royalty chain; PIF keeps the fee and
+ * the tax is remitted, so neither reaches the payouts.
+ */
+export function calculatePricing(
+  priceCents: number,
+  royaltyChain: RoyaltyEntry[],
+  discountCents = 0,
+  taxRateBasisPoints = 0
+): Pricing {
+  const discount = Math.min(Math.max(discountCents, 0), priceCents);
+  const basePriceCents = priceCents - discount;
+
+  // Pre-tax amount = base price + 10% PIF fee
+  const preTaxCents = Math.round(basePriceCents * PIF_FEE_MULTIPLIER);
+  const pifFeeCents = preTaxCents - basePriceCents;
+
+  // Tax is charged on the whole pre-tax amount
+  const taxCents = calculateTaxCents(preTaxCents, taxRateBasisPoints);
+  const totalCents = preTaxCents + taxCents;
+
+  // Each royalty recipient gets their share of the base price
+  const payouts = splitRoyalties(basePriceCents, royaltyChain);
+
+  return {
+    total_cents: totalCents,
+    pif_fee_cents: pifFeeCents,
+    base_price_cents: basePriceCents,
+    list_price_cents: priceCents,
+    discount_cents: discount,
+    tax_cents: taxCents,
+    tax_rate_basis_points: taxRateBasisPoints,
+    payouts,
+  };
+}
@@ -0,0 +1,477 @@
+// =============================================================================
+// PIF Selection-Connection — shared: chassis preset and standard product catalog
+// Validates ChassisPresets.json and StandardProducts.json for import as one
+// catalog version (migration 017) and turns stored rows back into the same
+// file shapes for product-catalog, so clients that read the static files can
+// read the API unchanged. Used by admin-product-catalog, product-catalog and
+// publish-product.
+//
+// An import is rejected on any error: unsupported schema_version, a key that
+// isn't a configurator parameter, a preset or product state that fails the
+// configurator's geometry rules (_shared/config-validation.ts), a product
+// pointing at a preset or hardware item that doesn't exist. Warnings (slider
+// ranges, a standardPrice that isn't materialCost x markupFactor) don't block.
+// =============================================================================
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { isConfiguratorKey, validateConfiguration } from "./config-validation.ts";
+import { HardwareCategory, HardwareItem } from "./configurator-data.ts";
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** schema_version values this importer understands, for both files. */
+export const CATALOG_SCHEMA_VERSIONS = ["1.0"];
+
+/**
+ * Non-slider keys a preset or product state may carry. NominalWidth is the
+ * GH definition's nominal size; the web configurator ignores it.
+ */
+const METADATA_KEYS = ["category", "NominalWidth"];
+
+/** Reserved by the configurator's preset dropdown ("keep current values"). */
+const RESERVED_PRESET_NAMES = ["Custom"];
+
+const MAX_PRESETS = 200;
+const MAX_PRODUCTS = 1000;
+const MAX_NAME_LENGTH = 120;
+
+const SKU_PATTERN = /^[A-Z0-9][A-Z0-9-]{1,31}$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const HARDWARE_TYPES: { key: "hinge" | "slide" | "pull"; category: HardwareCategory }[] = [
+  { key: "hinge", category: "hinges" },
+  { key: "slide", category: "slides" },
+  { key: "pull", category: "pulls" },
+];
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface CatalogImportIssue {
+  /** Where in the files, e.g. products["SP-001"].state.Width */
+  path: string;
+  severity: "error" | "warning";
+  message: string;
+}
+
+/** StandardProducts.json "pricing". */
+export interface CatalogPricing {
+  markupFactor: number;
+  customSurchargePercent: number;
+}
+
+export interface ChassisPresetRow {
+  name: string;
+  category: string;
+  params: Record<string, number>;
+  sort_order: number;
+}
+
+export interface StandardProductRow {
+  sku: string;
+  name: string;
+  category: string;
+  description: string;
+  chassis_preset: string;
+  dimensions: { Width: number; Height: number; Depth: number };
+  hardware: { hinge: string; slide: string; pull: string };
+  state: Record<string, number>;
+  material_cost_cents: number;
+  standard_price_cents: number;
+  date_added: string | null;
+  active: boolean;
+  tags: string[];
+  sort_order: number;
+  /** Member who published it through publish-product (migration 018). */
+  author_member_id?: string | null;
+}
+
+/** Both files, validated and flattened into rows for import_catalog_version. */
+export interface CatalogImport {
+  presets_schema_version: string;
+  products_schema_version: string;
+  presets_source: string | null;
+  products_source: string | null;
+  pricing: CatalogPricing;
+  presets: ChassisPresetRow[];
+  products: StandardProductRow[];
+}
+
+export interface CatalogVersion {
+  version: number;
+  presets_schema_version: string;
+  products_schema_version: string;
+  pricing: CatalogPricing;
+  note: string | null;
+  imported_at: string;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function isText(value: unknown, maxLength = MAX_NAME_LENGTH): value is string {
+  return typeof value === "string" && value.trim().length > 0 && value.length <= maxLength;
+}
+
+function isAmount(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0;
+}
+
+/**
+ * Check a preset or product state: every key a configurator parameter (or
+ * known metadata) with a number value, then the configurator's value and
+ * geometry rules. Returns the numeric parameters.
+ */
+function checkState(
+  values: Record<string, unknown>,
+  path: string,
+  issues: CatalogImportIssue[]
+): Record<string, number> {
+  const params: Record<string, number> = {};
+  for (const [key, value] of Object.entries(values)) {
+    if (key === "category") continue;
+    if (!isConfiguratorKey(key) && !METADATA_KEYS.includes(key)) {
+      issues.push({ path: `${path}.${key}`, severity: "error", message: `Unknown configurator parameter "${key}"` });
+      continue;
+    }
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      issues.push({ path: `${path}.${key}`, severity: "error", message: `${key} must be a number` });
+      continue;
+    }
+    params[key] = value;
+  }
+
+  for (const issue of validateConfiguration(params)) {
+    issues.push({ path: `${path}.${issue.key}`, severity: issue.severity, message: issue.message });
+  }
+  return params;
+}
+
+function checkSchemaVersion(file: Record<string, unknown>, name: string, issues: CatalogImportIssue[]): string {
+  const version = file.schema_version;
+  if (typeof version !== "string" || !CATALOG_SCHEMA_VERSIONS.includes(version)) {
+    issues.push({
+      path: `${name}.schema_version`,
+      severity: "error",
+      message: `Unsupported schema_version ${JSON.stringify(version ?? null)} (supported: ${CATALOG_SCHEMA_VERSIONS.join(", ")})`,
+    });
+    return "";
+  }
+  return version;
+}
+
+function parsePresets(file: Record<string, unknown>, issues: CatalogImportIssue[]): ChassisPresetRow[] {
+  const rows: ChassisPresetRow[] = [];
+  if (!isPlainObject(file.presets)) {
+    issues.push({ path: "presets", severity: "error", message: "presets must be an object of { name: preset }" });
+    return rows;
+  }
+
+  const entries = Object.entries(file.presets);
+  if (entries.length === 0 || entries.length > MAX_PRESETS) {
+    issues.push({ path: "presets", severity: "error", message: `Expected 1–${MAX_PRESETS} presets, got ${entries.length}` });
+    return rows;
+  }
+
+  entries.forEach(([name, preset], index) => {
+    const path = `presets[${JSON.stringify(name)}]`;
+    if (!isText(name) || RESERVED_PRESET_NAMES.includes(name)) {
+      issues.push({ path, severity: "error", message: `Invalid preset name ${JSON.stringify(name)}` });
+      return;
+    }
+    if (!isPlainObject(preset)) {
+      issues.push({ path, severity: "error", message: "Preset must be an object of parameter values" });
+      return;
+    }
+    if (!isText(preset.category)) {
+      issues.push({ path: `${path}.category`, severity: "error", message: "category is required" });
+    }
+    const params = checkState(preset, path, issues);
+    rows.push({ name, category: String(preset.category ?? "").trim(), params, sort_order: index });
+  });
+  return rows;
+}
+
+/** Validate one StandardProducts.json product. Returns null if it can't be read at all. */
+function parseProduct(
+  sku: string,
+  product: unknown,
+  index: number,
+  presetNames: Set<string>,
+  hardware: Record<HardwareCategory, HardwareItem[]>,
+  markupFactor: number | null,
+  issues: CatalogImportIssue[]
+): StandardProductRow | null {
+  const path = `products[${JSON.stringify(sku)}]`;
+  const error = (field: string, message: string) =>
+    issues.push({ path: field ? `${path}.${field}` : path, severity: "error", message });
+
+  if (!SKU_PATTERN.test(sku)) {
+    error("", `Invalid SKU ${JSON.stringify(sku)}`);
+    return null;
+  }
+  if (!isPlainObject(product)) {
+    error("", "Product must be an object");
+    return null;
+  }
+  if (product.sku !== sku) error("sku", `sku must match its key (${sku})`);
+  if (!isText(product.name)) error("name", "name is required");
+  if (!isText(product.category)) error("category", "category is required");
+  if (product.description !== undefined && typeof product.description !== "string") {
+    error("description", "description must be a string");
+  }
+
+  const chassisPreset = product.chassisPreset;
+  if (typeof chassisPreset !== "string" || !presetNames.has(chassisPreset)) {
+    error("chassisPreset", `chassisPreset ${JSON.stringify(chassisPreset ?? null)} is not a preset in the catalog`);
+  }
+
+  // ---- Hardware: catalog ids (_shared/catalog.ts) or "manual" ----
+  const hw = { hinge: "manual", slide: "manual", pull: "manual" };
+  if (product.hardware !== undefined && !isPlainObject(product.hardware)) {
+    error("hardware", "hardware must be { hinge, slide, pull }");
+  } else {
+    const selection = (product.hardware ?? {}) as Record<string, unknown>;
+    for (const { key, category } of HARDWARE_TYPES) {
+      const id = selection[key] ?? "manual";
+      if (typeof id !== "string" || !hardware[category].some((item) => item.id === id)) {
+        error(`hardware.${key}`, `Unknown ${key} ${JSON.stringify(id)} (not in the hardware catalog)`);
+        continue;
+      }
+      hw[key] = id;
+    }
+  }
+
+  // ---- State ----
+  let state: Record<string, number> = {};
+  if (!isPlainObject(product.state)) {
+    error("state", "state must be an object of parameter values");
+  } else {
+    state = checkState(product.state, `${path}.state`, issues);
+  }
+
+  // ---- Dimensions must describe the state ----
+  const dims = isPlainObject(product.dimensions) ? product.dimensions : null;
+  for (const key of ["Width", "Height", "Depth"] as const) {
+    if (!dims || dims[key] !== state[key]) {
+      error(`dimensions.${key}`, `dimensions.${key} must equal state.${key} (${state[key] ?? "missing"})`);
+    }
+  }
+
+  // ---- Prices ----
+  if (!isAmount(product.materialCost)) error("materialCost", "materialCost must be a dollar amount");
+  if (!isAmount(product.standardPrice)) error("standardPrice", "standardPrice must be a dollar amount");
+  if (isAmount(product.materialCost) && isAmount(product.standardPrice) && markupFactor !== null) {
+    const expected = Math.round(product.materialCost * markupFactor * 100) / 100;
+    if (Math.abs(expected - product.standardPrice) > 0.01) {
+      issues.push({
+        path: `${path}.standardPrice`,
+        severity: "warning",
+        message: `standardPrice ${product.standardPrice} is not materialCost x markupFactor (${expected})`,
+      });
+    }
+  }
+
+  if (product.dateAdded !== undefined && (typeof product.dateAdded !== "string" || !DATE_PATTERN.test(product.dateAdded))) {
+    error("dateAdded", "dateAdded must be YYYY-MM-DD");
+  }
+  if (product.active !== undefined && typeof product.active !== "boolean") {
+    error("active", "active must be true or false");
+  }
+  const tags = product.tags ?? [];
+  if (!Array.isArray(tags) || !tags.every((t) => typeof t === "string")) {
+    error("tags", "tags must be a list of strings");
+  }
+
+  return {
+    sku,
+    name: String(product.name ?? "").trim(),
+    category: String(product.category ?? "").trim(),
+    description: typeof product.description === "string" ? product.description : "",
+    chassis_preset: String(chassisPreset ?? ""),
+    dimensions: { Width: state.Width, Height: state.Height, Depth: state.Depth },
+    hardware: hw,
+    state,
+    material_cost_cents: Math.round(Number(product.materialCost) * 100),
+    standard_price_cents: Math.round(Number(product.standardPrice) * 100),
+    date_added: typeof product.dateAdded === "string" ? product.dateAdded : null,
+    active: product.active !== false,
+    tags: Array.isArray(tags) ? tags.map(String) : [],
+    sort_order: index,
+  };
+}
+
+function parseProducts(
+  file: Record<string, unknown>,
+  presetNames: Set<string>,
+  hardware: Record<HardwareCategory, HardwareItem[]>,
+  markupFactor: number | null,
+  issues: CatalogImportIssue[]
+): StandardProductRow[] {
+  const rows: StandardProductRow[] = [];
+  if (!isPlainObject(file.products)) {
+    issues.push({ path: "products", severity: "error", message: "products must be an object of { sku: product }" });
+    return rows;
+  }
+
+  const entries = Object.entries(file.products);
+  if (entries.length === 0 || entries.length > MAX_PRODUCTS) {
+    issues.push({ path: "products", severity: "error", message: `Expected 1–${MAX_PRODUCTS} products, got ${entries.length}` });
+    return rows;
+  }
+
+  entries.forEach(([sku, product], index) => {
+    const row = parseProduct(sku, product, index, presetNames, hardware, markupFactor, issues);
+    if (row) rows.push(row);
+  });
+  return rows;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Validate ChassisPresets.json and StandardProducts.json as one import.
+ * hardware is the current hardware catalog that product hardware ids must
+ * name. catalog is null whenever issues contains an error.
+ */
+export function parseCatalogImport(
+  presetsFile: unknown,
+  productsFile: unknown,
+  hardware: Record<HardwareCategory, HardwareItem[]>
+): { catalog: CatalogImport | null; issues: CatalogImportIssue[] } {
+  const issues: CatalogImportIssue[] = [];
+
+  if (!isPlainObject(presetsFile) || !isPlainObject(productsFile)) {
+    issues.push({
+      path: isPlainObject(presetsFile) ? "products" : "presets",
+      severity: "error",
+      message: "Expected the contents of ChassisPresets.json and StandardProducts.json",
+    });
+    return { catalog: null, issues };
+  }
+
+  const presetsSchema = checkSchemaVersion(presetsFile, "presets", issues);
+  const productsSchema = checkSchemaVersion(productsFile, "products", issues);
+
+  // ---- Pricing ----
+  const pricing = isPlainObject(productsFile.pricing) ? productsFile.pricing : {};
+  const markupFactor = pricing.markupFactor;
+  const surcharge = pricing.customSurchargePercent;
+  if (typeof markupFactor !== "number" || !(markupFactor >= 1 && markupFactor <= 10)) {
+    issues.push({ path: "products.pricing.markupFactor", severity: "error", message: "markupFactor must be a number from 1 to 10" });
+  }
+  if (typeof surcharge !== "number" || !(surcharge >= 0 && surcharge <= 100)) {
+    issues.push({
+      path: "products.pricing.customSurchargePercent",
+      severity: "error",
+      message: "customSurchargePercent must be a number from 0 to 100",
+    });
+  }
+
+  const presets = parsePresets(presetsFile, issues);
+  const products = parseProducts(
+    productsFile,
+    new Set(presets.map((p) => p.name)),
+    hardware,
+    typeof markupFactor === "number" ? markupFactor : null,
+    issues
+  );
+
+  if (issues.some((i) => i.severity === "error")) {
+    return { catalog: null, issues };
+  }
+
+  return {
+    catalog: {
+      presets_schema_version: presetsSchema,
+      products_schema_version: productsSchema,
+      presets_source: typeof presetsFile.source === "string" ? presetsFile.source : null,
+      products_source: typeof productsFile.source === "string" ? productsFile.source : null,
+      pricing: { markupFactor: markupFactor as number, customSurchargePercent: surcharge as number },
+      presets,
+      products,
+    },
+    issues,
+  };
+}
+
+/**
+ * Validate one product outside an import (publish-product) with the import's
+ * checks, against the presets of the catalog version it will join. product
+ * is null whenever issues contains an error.
+ */
+export function parseStandardProduct(
+  product: unknown,
+  presetNames: Set<string>,
+  hardware: Record<HardwareCategory, HardwareItem[]>,
+  markupFactor: number
+): { product: StandardProductRow | null; issues: CatalogImportIssue[] } {
+  const issues: CatalogImportIssue[] = [];
+  const sku = isPlainObject(product) && typeof product.sku === "string" ? product.sku : "";
+  const row = parseProduct(sku, product, 0, presetNames, hardware, markupFactor, issues);
+  return { product: issues.some((i) => i.severity === "error") ? null : row, issues };
+}
+
+/** Presets in the ChassisPresets.json "presets" shape, in import order. */
+export function presetsToFileShape(rows: ChassisPresetRow[]): Record<string, Record<string, unknown>> {
+  const presets: Record<string, Record<string, unknown>> = {};
+  for (const row of [...rows].sort((a, b) => a.sort_order - b.sort_order)) {
+    presets[row.name] = { category: row.category, ...row.params };
+  }
+  return presets;
+}
+
+/** Products in the StandardProducts.json "products" shape, in import order. */
+export function productsToFileShape(rows: StandardProductRow[]): Record<string, Record<string, unknown>> {
+  const products: Record<string, Record<string, unknown>> = {};
+  for (const row of [...rows].sort((a, b) => a.sort_order - b.sort_order)) {
+    products[row.sku] = {
+      name: row.name,
+      sku: row.sku,
+      category: row.category,
+      description: row.description,
+      dimensions: row.dimensions,
+      chassisPreset: row.chassis_preset,
+      hardware: row.hardware,
+      state: row.state,
+      materialCost: row.material_cost_cents / 100,
+      standardPrice: row.standard_price_cents / 100,
+      dateAdded: row.date_added,
+      active: row.active,
+      tags: row.tags,
+    };
+    if (row.author_member_id) products[row.sku].authorMemberId = row.author_member_id;
+  }
+  return products;
+}
+
+/**
+ * A catalog version: the given number, or the latest when version is null.
+ * Returns null if there is no such version (or nothing imported yet).
+ * Throws on a query error.
+ */
+export async function findCatalogVersion(
+  supabase: ReturnType<typeof createClient>,
+  version: number | null
+): Promise<CatalogVersion | null> {
+  let query = supabase
+    .from("catalog_versions")
+    .select("version, presets_schema_version, products_schema_version, pricing, note, imported_at");
+  query = version === null
+    ? query.order("version", { ascending: false }).limit(1)
+    : query.eq("version", version);
+
+  const { data, error } = await query.maybeSingle();
+  if (error) throw new Error(`Failed to look up catalog version: ${error.message}`);
+  return (data as CatalogVersion | null) ?? null;
+}
@@ -0,0 +1,140 @@
+// =============================================================================
+// PIF Selection-Connection — shared: promo codes
+// Used by create-checkout (applying a code) and promotions (managing codes).
+//
+// A code is percent-off or fixed-off and is scoped to a file, a family, an
+// originator or a community tag ('all' is reserved for platform codes).
+// Codes issued by an originator only ever discount files they originate,
+// whatever their scope says. Usage limits are enforced atomically in the
+// database by reserve_promo_redemption (migration 010).
+// =============================================================================
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+export const PROMO_DISCOUNT_TYPES = ["percent", "fixed"] as const;
+
+export const PROMO_SCOPE_TYPES = ["all", "file", "family", "originator", "community_tag"] as const;
+
+/** Scopes an originator may use for their own codes. */
+export const ORIGINATOR_PROMO_SCOPES: PromoScopeType[] = ["file", "family", "originator"];
+
+/** Same pattern as the promo_codes.code CHECK constraint. */
+const PROMO_CODE_PATTERN = /^[A-Z0-9_-]{3,32}$/;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type PromoDiscountType = typeof PROMO_DISCOUNT_TYPES[number];
+export type PromoScopeType = typeof PROMO_SCOPE_TYPES[number];
+
+export interface PromoCode {
+  id: string;
+  code: string;
+  created_by: string | null;
+  is_platform: boolean;
+  discount_type: PromoDiscountType;
+  percent_off: number | null;
+  amount_off_cents: number | null;
+  scope_type: PromoScopeType;
+  scope_value: string | null;
+  starts_at: string;
+  expires_at: string | null;
+  max_redemptions: number | null;
+  max_per_buyer: number | null;
+  redemption_count: number;
+  active: boolean;
+}
+
+/** What a code is checked against when applied to a file. */
+export interface PromoTarget {
+  file_id: string;
+  family_id: string;
+  originator_id: string;
+  community_tags: string[];
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/** Canonical form of a code as typed by a buyer or originator. */
+export function normalizePromoCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+export function isValidPromoCode(code: string): boolean {
+  return PROMO_CODE_PATTERN.test(code);
+}
+
+/** Look up a code by its (normalized) text. Returns null if it doesn't exist. */
+export async function findPromoCode(
+  supabase: ReturnType<typeof createClient>,
+  code: string
+): Promise<PromoCode | null> {
+  const { data, error } = await supabase
+    .from("promo_codes")
+    .select(
+      "id, code, created_by, is_platform, discount_type, percent_off, amount_off_cents, scope_type, scope_value, starts_at, expires_at, max_redemptions, max_per_buyer, redemption_count, active"
+    )
+    .eq("code", normalizePromoCode(code))
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Promo code lookup failed: ${error.message}`);
+  }
+  return data as PromoCode | null;
+}
+
+/**
+ * Check whether a code can be applied to a file right now.
+ * Returns the reason it can't, or null if it applies. Usage limits are
+ * re-checked atomically when the redemption is reserved.
+ */
+export function checkPromoApplicable(
+  promo: PromoCode,
+  target: PromoTarget,
+  now = new Date()
+): string | null {
+  if (!promo.active) return "Promo code is no longer active";
+  if (new Date(promo.starts_at) > now) return "Promo code is not active yet";
+  if (promo.expires_at && new Date(promo.expires_at) <= now) return "Promo code has expired";
+  if (promo.max_redemptions !== null && promo.redemption_count >= promo.max_redemptions) {
+    return "Promo code has reached its usage limit";
+  }
+
+  if (!promo.is_platform && promo.created_by !== target.originator_id) {
+    return "Promo code does not apply to this file";
+  }
+
+  const inScope = (() => {
+    switch (promo.scope_type) {
+      case "all":
+        return true;
+      case "file":
+        return promo.scope_value === target.file_id;
+      case "family":
+        return promo.scope_value === target.family_id;
+      case "originator":
+        return promo.scope_value === target.originator_id;
+      case "community_tag":
+        return target.community_tags.includes(promo.scope_value ?? "");
+      default:
+        return false;
+    }
+  })();
+
+  return inScope ? null : "Promo code does not apply to this file";
+}
+
+/** Discount in cents for a list price; never more than the price itself. */
+export function computeDiscountCents(promo: PromoCode, priceCents: number): number {
+  const discount = promo.discount_type === "percent"
+    ? Math.floor((priceCents * (promo.percent_off ?? 0)) / 100)
+    : promo.amount_off_cents ?? 0;
+  return Math.min(Math.max(discount, 0), priceCents);
+}
@@ -0,0 +1,273 @@
+// =============================================================================
+// PIF Selection-Connection — shared: cabinet quotes
+// Itemized build price for a configurator state: sheet goods, hardware and
+// edge banding at catalog prices (_shared/catalog.ts; the same figures as
+// computeCostSummary), shop labor at the admin-set quote_labor_rates, then
+// the markup and custom surcharge of the latest catalog version's pricing
+// (StandardProducts.json "pricing", migration 017):
+//   total = (materials + labor) * markupFactor * (1 + customSurchargePercent / 100)
+// A quoted configuration is a custom build, so the surcharge always applies;
+// unmodified standard products sell at their library standardPrice.
+// Used by the quote function, which stores each quote so its price can be
+// honored after prices change. All amounts in cents; sheet thicknesses and
+// edge banding are described in the quote's unit system (_shared/units.ts).
+// =============================================================================
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { DEFAULT_CATALOG, PriceCatalog } from "./configurator-data.ts";
+import {
+  CabinetState,
+  computeCutList,
+  computeEdgeBandingFeet,
+  computeHardwareSchedule,
+  computeSheetGoods,
+  HardwareSelection,
+  thicknessLabel,
+} from "./cutlist.ts";
+import { findCatalogVersion } from "./product-catalog.ts";
+import { fromInches, runLength, runLengthUnit, sheetSizeLabel, UnitSystem } from "./units.ts";
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/**
+ * Bump whenever the calculation below changes; stored on each quote. Catalog
+ * price changes are tracked in catalog_price_history; the markup, surcharge
+ * and labor rate used are stored on the quote itself.
+ */
+export const QUOTE_PRICING_VERSION = "2026-10-19";
+
+/** How long a quoted price is honored. */
+export const QUOTE_VALID_DAYS = 30;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** The quote_labor_rates row (migration 015). */
+export interface QuoteLaborRates {
+  rate_cents_per_hour: number;
+  setup_minutes: number;
+  sheet_part_minutes: number;
+  lumber_part_minutes: number;
+  door_minutes: number;
+  drawer_minutes: number;
+  edge_banding_foot_minutes: number;
+}
+
+export interface QuotePricing {
+  markupFactor: number;
+  customSurchargePercent: number;
+  labor: QuoteLaborRates;
+}
+
+export type QuoteLineCategory = "sheet_goods" | "hardware" | "edge_banding" | "labor";
+
+export interface QuoteLineItem {
+  category: QuoteLineCategory;
+  label: string;
+  detail: string;
+  quantity: number;
+  unit: string;
+  unit_cents: number;
+  total_cents: number;
+}
+
+export interface Quote {
+  line_items: QuoteLineItem[];
+  material_cents: number;
+  labor_cents: number;
+  /** materials + labor */
+  subtotal_cents: number;
+  markup_factor: number;
+  markup_cents: number;
+  custom_surcharge_percent: number;
+  surcharge_cents: number;
+  total_cents: number;
+  labor_minutes: number;
+  pricing_version: string;
+  /** Unit system of the line item details and edge banding quantity. */
+  units: UnitSystem;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function toCents(dollars: number): number {
+  return Math.round(dollars * 100);
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * The markup and surcharge of the latest catalog version with the shop's
+ * labor rates. Returns null if either hasn't been set up yet.
+ * Throws on a query error.
+ */
+export async function loadQuotePricing(
+  supabase: ReturnType<typeof createClient>
+): Promise<QuotePricing | null> {
+  const [catalogVersion, laborResult] = await Promise.all([
+    findCatalogVersion(supabase, null),
+    supabase
+      .from("quote_labor_rates")
+      .select("rate_cents_per_hour, setup_minutes, sheet_part_minutes, lumber_part_minutes, door_minutes, drawer_minutes, edge_banding_foot_minutes")
+      .maybeSingle(),
+  ]);
+
+  if (laborResult.error) {
+    throw new Error(`Failed to load labor rates: ${laborResult.error.message}`);
+  }
+  if (!catalogVersion || !laborResult.data) return null;
+
+  // NUMERIC columns come back as strings
+  const row = laborResult.data as Record<keyof QuoteLaborRates, number | string>;
+  const labor: QuoteLaborRates = {
+    rate_cents_per_hour: Number(row.rate_cents_per_hour),
+    setup_minutes: Number(row.setup_minutes),
+    sheet_part_minutes: Number(row.sheet_part_minutes),
+    lumber_part_minutes: Number(row.lumber_part_minutes),
+    door_minutes: Number(row.door_minutes),
+    drawer_minutes: Number(row.drawer_minutes),
+    edge_banding_foot_minutes: Number(row.edge_banding_foot_minutes),
+  };
+
+  return {
+    markupFactor: Number(catalogVersion.pricing.markupFactor),
+    customSurchargePercent: Number(catalogVersion.pricing.customSurchargePercent),
+    labor,
+  };
+}
+
+/**
+ * True if any line (quantity, unit or total) or any total of the quote is
+ * negative — never a price the shop can honor.
+ */
+export function hasNegativeAmount(quote: Quote): boolean {
+  const lineNegative = quote.line_items.some((l) => l.quantity < 0 || l.unit_cents < 0 || l.total_cents < 0);
+  return lineNegative || [
+    quote.material_cents,
+    quote.labor_cents,
+    quote.markup_cents,
+    quote.surcharge_cents,
+    quote.total_cents,
+  ].some((cents) => cents < 0);
+}
+
+/** Price a cabinet. Materials match the configurator's computeCostSummary. */
+export function calculateQuote(
+  state: CabinetState,
+  hardware: HardwareSelection,
+  pricing: QuotePricing,
+  catalog: PriceCatalog = DEFAULT_CATALOG,
+  units: UnitSystem = "inches"
+): Quote {
+  const materials = catalog.materials;
+  const parts = computeCutList(state);
+  const lines: QuoteLineItem[] = [];
+
+  // ---- Sheet goods ----
+  for (const s of computeSheetGoods(parts)) {
+    const pricing = materials.sheets[s.thickness.toFixed(3)];
+    const price = pricing ? pricing.pricePerSheet : materials.defaultSheetPrice;
+    const unitCents = toCents(price);
+    lines.push({
+      category: "sheet_goods",
+      label: pricing ? pricing.label : thicknessLabel(s.thickness, units) + " Sheet",
+      detail: units === "mm"
+        ? `${fromInches(s.thickness, units).toFixed(1)} mm (${thicknessLabel(s.thickness, units)} stock) ${sheetSizeLabel(units)}`
+        : `${s.thickness.toFixed(3)}" ${sheetSizeLabel(units)}`,
+      quantity: s.count,
+      unit: "sheet",
+      unit_cents: unitCents,
+      total_cents: s.count * unitCents,
+    });
+  }
+
+  // ---- Hardware ----
+  for (const item of computeHardwareSchedule(state, hardware, catalog)) {
+    const unitCents = toCents(item.unitPrice);
+    lines.push({
+      category: "hardware",
+      label: item.category,
+      detail: item.label,
+      quantity: item.qty,
+      unit: item.unit,
+      unit_cents: unitCents,
+      total_cents: item.qty * unitCents,
+    });
+  }
+
+  // ---- Edge banding ----
+  const edgeFt = computeEdgeBandingFeet(state);
+  if (edgeFt > 0) {
+    const length = Math.round(runLength(edgeFt, units) * 10) / 10;
+    const unit = runLengthUnit(units);
+    lines.push({
+      category: "edge_banding",
+      label: "Edge Banding",
+      detail: `${length.toFixed(1)} ${unit}`,
+      quantity: length,
+      unit,
+      unit_cents: toCents(materials.edgeBandingPerFt / runLength(1, units)),
+      total_cents: toCents(edgeFt * materials.edgeBandingPerFt),
+    });
+  }
+
+  // ---- Labor ----
+  let sheetParts = 0, lumberParts = 0, doors = 0, drawers = 0;
+  for (const p of parts) {
+    if (p.qty <= 0) continue;
+    if (p.material === "sheet") sheetParts += p.qty;
+    else lumberParts += p.qty;
+    if (p.type === "door") doors += p.qty;
+    if (p.type === "drawer-front") drawers += p.qty;
+  }
+  const labor = pricing.labor;
+  const laborMinutes = Math.round(
+    labor.setup_minutes +
+    sheetParts * labor.sheet_part_minutes +
+    lumberParts * labor.lumber_part_minutes +
+    doors * labor.door_minutes +
+    drawers * labor.drawer_minutes +
+    edgeFt * labor.edge_banding_foot_minutes
+  );
+  const laborHours = laborMinutes / 60;
+  const laborCents = Math.round(laborHours * labor.rate_cents_per_hour);
+  lines.push({
+    category: "labor",
+    label: "Shop Labor",
+    detail: `${sheetParts + lumberParts} parts, ${doors} doors, ${drawers} drawers`,
+    quantity: Math.round(laborHours * 100) / 100,
+    unit: "hr",
+    unit_cents: labor.rate_cents_per_hour,
+    total_cents: laborCents,
+  });
+
+  // ---- Markup and surcharge ----
+  const materialCents = lines
+    .filter((l) => l.category !== "labor")
+    .reduce((sum, l) => sum + l.total_cents, 0);
+  const subtotalCents = materialCents + laborCents;
+  const markedUpCents = Math.round(subtotalCents * pricing.markupFactor);
+  const totalCents = Math.round(markedUpCents * (1 + pricing.customSurchargePercent / 100));
+
+  return {
+    line_items: lines,
+    material_cents: materialCents,
+    labor_cents: laborCents,
+    subtotal_cents: subtotalCents,
+    markup_factor: pricing.markupFactor,
+    markup_cents: markedUpCents - subtotalCents,
+    custom_surcharge_percent: pricing.customSurchargePercent,
+    surcharge_cents: totalCents - markedUpCents,
+    total_cents: totalCents,
+    labor_minutes: laborMinutes,
+    pricing_version: QUOTE_PRICING_VERSION,
+    units,
+  };
+}
@@ -0,0 +1,114 @@
+// =============================================================================
+// PIF Selection-Connection — shared: royalty chain model
+// One model used by upload-file, create-checkout and stripe-webhook.
+//
+// A file's royalty chain has one entry per role (originator, contributor,
+// applicator). Each entry holds a share of the base price in basis points
+// (10000 = 100%); the shares of a chain must sum to exactly 10000.
+// =============================================================================
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Roles in payout order. The originator is always first. */
+export const ROYALTY_ROLES = ["originator", "contributor", "applicator"] as const;
+
+/** Basis points that make up 100% of a chain. */
+export const TOTAL_BASIS_POINTS = 10000;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type RoyaltyRole = typeof ROYALTY_ROLES[number];
+
+export interface RoyaltyEntry {
+  member_id: string;
+  role: RoyaltyRole;
+  share_basis_points: number;
+}
+
+export interface RoyaltySplit extends RoyaltyEntry {
+  amount_cents: number;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/** Sort entries into payout order (originator, contributor, applicator). */
+export function sortRoyaltyChain<T extends { role: string }>(chain: T[]): T[] {
+  return [...chain].sort(
+    (a, b) =>
+      ROYALTY_ROLES.indexOf(a.role as RoyaltyRole) - ROYALTY_ROLES.indexOf(b.role as RoyaltyRole)
+  );
+}
+
+/**
+ * Validate a royalty chain. Returns a list of problems (empty when valid).
+ * Rules: known roles, one entry per role, an originator is present, every
+ * share is a positive integer, and the shares sum to 100%.
+ */
+export function validateRoyaltyChain(chain: RoyaltyEntry[]): string[] {
+  const errors: string[] = [];
+
+  if (!Array.isArray(chain) || chain.length === 0) {
+    return ["Royalty chain must have at least one entry"];
+  }
+
+  const seenRoles = new Set<string>();
+  let total = 0;
+
+  for (const entry of chain) {
+    if (!ROYALTY_ROLES.includes(entry.role)) {
+      errors.push(`Unknown royalty role: ${entry.role}`);
+    }
+    if (seenRoles.has(entry.role)) {
+      errors.push(`Duplicate royalty role: ${entry.role}`);
+    }
+    seenRoles.add(entry.role);
+
+    if (!entry.member_id) {
+      errors.push(`Missing member_id for role: ${entry.role}`);
+    }
+
+    const share = entry.share_basis_points;
+    if (!Number.isInteger(share) || share <= 0 || share > TOTAL_BASIS_POINTS) {
+      errors.push(`Invalid share for ${entry.role}: ${share} (must be 1–${TOTAL_BASIS_POINTS} basis points)`);
+    } else {
+      total += share;
+    }
+  }
+
+  if (!seenRoles.has("originator")) {
+    errors.push("Royalty chain must include an originator");
+  }
+
+  if (total !== TOTAL_BASIS_POINTS) {
+    errors.push(`Royalty shares must sum to 100% (got ${(total / 100).toFixed(2)}%)`);
+  }
+
+  return errors;
+}
+
+/**
+ * Split a base amount across a royalty chain.
+ * Each recipient gets floor(base * share / 10000); any rounding remainder
+ * goes to the originator so the splits always sum to the base amount.
+ */
+export function splitRoyalties(baseCents: number, chain: RoyaltyEntry[]): RoyaltySplit[] {
+  const ordered = sortRoyaltyChain(chain);
+  const splits = ordered.map((entry) => ({
+    ...entry,
+    amount_cents: Math.floor((baseCents * entry.share_basis_points) / TOTAL_BASIS_POINTS),
+  }));
+
+  const allocated = splits.reduce((sum, s) => sum + s.amount_cents, 0);
+  const originator = splits.find((s) => s.role === "originator") ?? splits[0];
+  if (originator) {
+    originator.amount_cents += baseCents - allocated;
+  }
+
+  return splits;
+}
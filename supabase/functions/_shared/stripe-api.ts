@@ -0,0 +1,98 @@
+// =============================================================================
+// PIF Selection-Connection — shared: minimal Stripe REST client
+// Calls the Stripe API directly with fetch (form-encoded, as Stripe expects)
+// so Edge Functions don't need the Node SDK. Uses STRIPE_SECRET_KEY.
+// =============================================================================
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const STRIPE_API_BASE = "https://api.stripe.com/v1";
+const STRIPE_API_VERSION = "2023-10-16";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Request parameters; nested objects/arrays use Stripe's bracket notation. */
+export type StripeParams = {
+  [key: string]: string | number | boolean | null | undefined | StripeParams | StripeParams[] | string[];
+};
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Flatten params into application/x-www-form-urlencoded pairs. */
+function encodeParams(params: StripeParams, prefix = "", out = new URLSearchParams()): URLSearchParams {
+  for (const [key, value] of Object.entries(params)) {
+    if (value === undefined || value === null) continue;
+    const name = prefix ? `${prefix}[${key}]` : key;
+
+    if (Array.isArray(value)) {
+      value.forEach((item, i) => {
+        if (typeof item === "object") {
+          encodeParams(item as StripeParams, `${name}[${i}]`, out);
+        } else {
+          out.append(`${name}[${i}]`, String(item));
+        }
+      });
+    } else if (typeof value === "object") {
+      encodeParams(value, name, out);
+    } else {
+      out.append(name, String(value));
+    }
+  }
+  return out;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Call a Stripe API endpoint, e.g. stripeRequest("POST", "/transfers", {...}).
+ * Pass an idempotency key for every POST that moves money so a retried call
+ * can never create a second object.
+ */
+export async function stripeRequest(
+  method: "GET" | "POST" | "DELETE",
+  path: string,
+  params: StripeParams = {},
+  idempotencyKey?: string
+): Promise<{ data: Record<string, unknown> | null; error: string | null }> {
+  const secretKey = Deno.env.get("STRIPE_SECRET_KEY");
+  if (!secretKey) {
+    return { data: null, error: "STRIPE_SECRET_KEY is not configured" };
+  }
+
+  const encoded = encodeParams(params).toString();
+  const url = method === "POST" || !encoded
+    ? `${STRIPE_API_BASE}${path}`
+    : `${STRIPE_API_BASE}${path}?${encoded}`;
+
+  const headers: Record<string, string> = {
+    Authorization: `Bearer ${secretKey}`,
+    "Stripe-Version": STRIPE_API_VERSION,
+  };
+  if (method === "POST") headers["Content-Type"] = "application/x-www-form-urlencoded";
+  if (idempotencyKey) headers["Idempotency-Key"] = idempotencyKey;
+
+  try {
+    const res = await fetch(url, {
+      method,
+      headers,
+      body: method === "POST" ? encoded : undefined,
+    });
+    const json = await res.json();
+
+    if (!res.ok) {
+      const message = json?.error?.message ?? `Stripe request failed (${res.status})`;
+      return { data: null, error: message };
+    }
+    return { data: json, error: null };
+  } catch (err) {
+    return { data: null, error: `Stripe request error: ${String(err)}` };
+  }
+}
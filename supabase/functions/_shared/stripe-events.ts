@@ -0,0 +1,146 @@
+// =============================================================================
+// PIF Selection-Connection — shared: Stripe webhook event ledger
+// Records every payment webhook event id in stripe_events so a retried
+// delivery of the same event is acknowledged without being processed a
+// second time. Despite the table name, events from any payment provider
+// are recorded here (see the provider column).
+//
+// Lifecycle of a row:
+//   processing → processed   handler succeeded; later deliveries are duplicates
+//   processing → failed      handler failed; the next delivery may reclaim it
+// =============================================================================
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/**
+ * A 'processing' row older than this is assumed to belong to a crashed
+ * invocation and may be reclaimed by a new delivery.
+ */
+const STALE_PROCESSING_MS = 10 * 60 * 1000; // 10 minutes
+
+/** Postgres unique_violation error code. */
+const UNIQUE_VIOLATION = "23505";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Which webhook endpoint received the event. */
+export type StripeEventSource = "payments" | "connect";
+
+/**
+ * Outcome of claiming an event:
+ *   claimed     — this invocation owns the event and must process it
+ *   duplicate   — already processed; acknowledge and do nothing
+ *   in_progress — another invocation is processing it right now
+ */
+export type StripeEventClaim = "claimed" | "duplicate" | "in_progress";
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/** Claim a Stripe event for processing. Throws on unexpected database errors. */
+export async function claimStripeEvent(
+  supabase: ReturnType<typeof createClient>,
+  event: { id: string; type: string },
+  source: StripeEventSource,
+  provider = "stripe"
+): Promise<StripeEventClaim> {
+  const eventId = event.id;
+  const now = new Date().toISOString();
+
+  const { error: insertError } = await supabase.from("stripe_events").insert({
+    id: eventId,
+    type: event.type,
+    source,
+    provider,
+    status: "processing",
+    attempts: 1,
+    received_at: now,
+    updated_at: now,
+  });
+
+  if (!insertError) return "claimed";
+  if (insertError.code !== UNIQUE_VIOLATION) {
+    throw new Error(`stripe_events insert failed: ${insertError.message}`);
+  }
+
+  // ---- Event seen before: decide whether it can be reclaimed ----
+  const { data: existing, error: lookupError } = await supabase
+    .from("stripe_events")
+    .select("status, attempts, updated_at")
+    .eq("id", eventId)
+    .single();
+
+  if (lookupError || !existing) {
+    throw new Error(`stripe_events lookup failed: ${lookupError?.message ?? "row missing"}`);
+  }
+
+  if (existing.status === "processed") return "duplicate";
+
+  const isStale =
+    existing.status === "processing" &&
+    Date.now() - new Date(existing.updated_at).getTime() > STALE_PROCESSING_MS;
+
+  if (existing.status !== "failed" && !isStale) return "in_progress";
+
+  // Conditional update so only one concurrent delivery wins the reclaim
+  const { data: reclaimed, error: reclaimError } = await supabase
+    .from("stripe_events")
+    .update({
+      status: "processing",
+      attempts: (existing.attempts ?? 0) + 1,
+      last_error: null,
+      updated_at: now,
+    })
+    .eq("id", eventId)
+    .eq("status", existing.status)
+    .eq("updated_at", existing.updated_at)
+    .select("id");
+
+  if (reclaimError) {
+    throw new Error(`stripe_events reclaim failed: ${reclaimError.message}`);
+  }
+  return reclaimed && reclaimed.length > 0 ? "claimed" : "in_progress";
+}
+
+/** Mark a claimed event as fully processed. */
+export async function markStripeEventProcessed(
+  supabase: ReturnType<typeof createClient>,
+  eventId: string
+): Promise<void> {
+  const now = new Date().toISOString();
+  const { error } = await supabase
+    .from("stripe_events")
+    .update({ status: "processed", processed_at: now, updated_at: now })
+    .eq("id", eventId);
+
+  if (error) {
+    console.error("[stripe-events] Failed to mark event processed:", eventId, error.message);
+  }
+}
+
+/** Mark a claimed event as failed so the next Stripe retry can reclaim it. */
+export async function markStripeEventFailed(
+  supabase: ReturnType<typeof createClient>,
+  eventId: string,
+  reason: string
+): Promise<void> {
+  const { error } = await supabase
+    .from("stripe_events")
+    .update({
+      status: "failed",
+      last_error: reason.slice(0, 1000),
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", eventId);
+
+  if (error) {
+    console.error("[stripe-events] Failed to mark event failed:", eventId, error.message);
+  }
+}
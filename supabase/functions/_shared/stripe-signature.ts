@@ -0,0 +1,132 @@
+// =============================================================================
+// PIF Selection-Connection — shared: Stripe webhook signature verification
+// Used by stripe-webhook (STRIPE_WEBHOOK_SECRET) and stripe-onboarding
+// (STRIPE_CONNECT_WEBHOOK_SECRET); its HMAC helpers also sign configurator
+// entitlements (entitlements.ts).
+//
+// The Stripe-Signature header contains:
+//   t=<timestamp>,v1=<signature>[,v1=<signature>...]
+// where each v1 is HMAC-SHA256(secret, `${t}.${body}`) as lowercase hex.
+// Multiple v1 entries appear while a webhook secret is being rolled.
+// =============================================================================
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Maximum age (and clock skew) accepted for a signed payload, in seconds. */
+export const DEFAULT_SIGNATURE_TOLERANCE_SECONDS = 5 * 60; // 5 minutes
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Parse the Stripe-Signature header into its timestamp and v1 signatures. */
+function parseSignatureHeader(
+  header: string
+): { timestamp: number; signatures: string[] } | null {
+  let timestamp: number | null = null;
+  const signatures: string[] = [];
+
+  for (const part of header.split(",")) {
+    const [key, value] = part.trim().split("=", 2);
+    if (!key || !value) continue;
+    if (key === "t") {
+      timestamp = Number(value);
+    } else if (key === "v1") {
+      signatures.push(value.toLowerCase());
+    }
+  }
+
+  if (timestamp === null || !Number.isFinite(timestamp) || signatures.length === 0) {
+    return null;
+  }
+  return { timestamp, signatures };
+}
+
+/** Compute HMAC-SHA256(secret, payload) as lowercase hex. */
+export async function hmacSha256Hex(secret: string, payload: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const mac = await crypto.subtle.sign("HMAC", key, encoder.encode(payload));
+  return Array.from(new Uint8Array(mac))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * Compare two strings in time that depends only on their length, so the
+ * position of the first mismatching byte is not observable.
+ */
+export function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Verify a Stripe webhook signature against the raw request body.
+ * Returns the parsed event object or null if verification fails.
+ */
+export async function verifyStripeSignature(
+  body: string,
+  signature: string | null,
+  secret: string,
+  toleranceSeconds: number = DEFAULT_SIGNATURE_TOLERANCE_SECONDS
+): Promise<Record<string, unknown> | null> {
+  if (!secret) {
+    console.error("[stripe-signature] Webhook secret is not configured");
+    return null;
+  }
+
+  if (!signature) {
+    console.error("[stripe-signature] Missing Stripe-Signature header");
+    return null;
+  }
+
+  const parsed = parseSignatureHeader(signature);
+  if (!parsed) {
+    console.error("[stripe-signature] Malformed Stripe-Signature header");
+    return null;
+  }
+
+  // ---- Timestamp tolerance (replay protection) ----
+  const nowSeconds = Math.floor(Date.now() / 1000);
+  if (Math.abs(nowSeconds - parsed.timestamp) > toleranceSeconds) {
+    console.error("[stripe-signature] Signature timestamp outside tolerance:", parsed.timestamp);
+    return null;
+  }
+
+  // ---- Compare against every v1 signature ----
+  const expected = await hmacSha256Hex(secret, `${parsed.timestamp}.${body}`);
+  let matched = false;
+  for (const candidate of parsed.signatures) {
+    // Do not short-circuit: check every candidate regardless of earlier matches
+    if (timingSafeEqual(expected, candidate)) matched = true;
+  }
+
+  if (!matched) {
+    console.error("[stripe-signature] No matching v1 signature");
+    return null;
+  }
+
+  try {
+    return JSON.parse(body);
+  } catch {
+    console.error("[stripe-signature] Signed body is not valid JSON");
+    return null;
+  }
+}
@@ -0,0 +1,177 @@
+// =============================================================================
+// PIF Selection-Connection — shared: membership subscription state
+// Turns provider subscription events into updates of members.tier_id.
+// Used by stripe-webhook for customer.subscription.* and invoice.payment_failed.
+//
+// Rules:
+//   - upgrades and renewals take effect immediately (the provider prorates)
+//   - downgrades and scheduled cancellations keep the current tier until the
+//     paid period ends (pending_tier_id + tier_grace_until)
+//   - a failed renewal keeps the tier for PAYMENT_FAILURE_GRACE_DAYS while the
+//     provider retries, then falls back to the free tier
+//   - a deleted / unpaid subscription drops to the free tier right away
+// Expired grace periods are applied by apply_expired_tier_grace() (migration 012).
+// =============================================================================
+
+import { FREE_TIER, isTierId, tierForPriceId, TierId, tierRank } from "./tiers.ts";
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** How long a member keeps a paid tier after a renewal payment fails. */
+export const PAYMENT_FAILURE_GRACE_DAYS = 7;
+
+/** Subscription statuses that grant the paid tier. */
+const LIVE_STATUSES = ["active", "trialing"];
+
+/** Subscription statuses after which the paid tier is gone. */
+const ENDED_STATUSES = ["canceled", "unpaid", "incomplete_expired"];
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** The members columns the subscription logic reads. */
+export interface MemberSubscriptionState {
+  id: string;
+  tier_id: string;
+  pending_tier_id: string | null;
+  tier_grace_until: string | null;
+  stripe_subscription_id: string | null;
+}
+
+export interface SubscriptionSnapshot {
+  id: string;
+  customer_id: string | null;
+  status: string;
+  cancel_at_period_end: boolean;
+  current_period_end: string | null;
+  /** Tier the subscription's price pays for; null if the price is unknown. */
+  tier_id: TierId | null;
+  member_id: string | null;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function earlier(a: string | null, b: string): string {
+  return a && new Date(a) < new Date(b) ? a : b;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/** Read the fields we need from a (normalized) subscription event object. */
+export function parseSubscription(object: Record<string, unknown>): SubscriptionSnapshot {
+  const items = (object.items as { data?: Array<{ price?: { id?: string } }> })?.data ?? [];
+  const metadata = (object.metadata ?? {}) as Record<string, string>;
+  const periodEnd = object.current_period_end as number | undefined;
+
+  return {
+    id: object.id as string,
+    customer_id: (object.customer as string) ?? null,
+    status: (object.status as string) ?? "incomplete",
+    cancel_at_period_end: object.cancel_at_period_end === true,
+    current_period_end: periodEnd ? new Date(periodEnd * 1000).toISOString() : null,
+    tier_id: tierForPriceId(items[0]?.price?.id) ?? (isTierId(metadata.tier_id) ? metadata.tier_id : null),
+    member_id: metadata.member_id ?? null,
+  };
+}
+
+/**
+ * Work out the members update for a subscription event.
+ * Returns null when the event concerns a subscription the member has since
+ * replaced, so a late event can't undo a newer one.
+ */
+export function planSubscriptionUpdate(
+  member: MemberSubscriptionState,
+  subscription: SubscriptionSnapshot,
+  deleted: boolean,
+  now = new Date()
+): Record<string, unknown> | null {
+  if (member.stripe_subscription_id && member.stripe_subscription_id !== subscription.id) {
+    const replacing = LIVE_STATUSES.includes(subscription.status) && !deleted;
+    if (!replacing) return null;
+  }
+
+  const update: Record<string, unknown> = {
+    stripe_customer_id: subscription.customer_id,
+    stripe_subscription_id: subscription.id,
+    subscription_status: deleted ? "canceled" : subscription.status,
+    subscription_current_period_end: subscription.current_period_end,
+  };
+
+  // ---- Ended: back to the free tier now ----
+  if (deleted || ENDED_STATUSES.includes(subscription.status)) {
+    return {
+      ...update,
+      stripe_subscription_id: null,
+      subscription_current_period_end: null,
+      tier_id: FREE_TIER,
+      pending_tier_id: null,
+      tier_grace_until: null,
+    };
+  }
+
+  // ---- Renewal failed: keep the tier while the provider retries ----
+  if (subscription.status === "past_due") {
+    const graceEnd = new Date(now.getTime() + PAYMENT_FAILURE_GRACE_DAYS * 24 * 60 * 60 * 1000);
+    return {
+      ...update,
+      pending_tier_id: FREE_TIER,
+      tier_grace_until: earlier(member.tier_grace_until, graceEnd.toISOString()),
+    };
+  }
+
+  // ---- Not paid yet (incomplete): record it, grant nothing ----
+  if (!LIVE_STATUSES.includes(subscription.status) || !subscription.tier_id) {
+    return update;
+  }
+
+  const paidTier = subscription.tier_id;
+  const periodEnd = subscription.current_period_end ?? now.toISOString();
+
+  // ---- Cancel scheduled: keep the better tier until the period ends ----
+  if (subscription.cancel_at_period_end) {
+    return {
+      ...update,
+      tier_id: tierRank(paidTier) > tierRank(member.tier_id) ? paidTier : member.tier_id,
+      pending_tier_id: FREE_TIER,
+      tier_grace_until: periodEnd,
+    };
+  }
+
+  // ---- Upgrade, renewal or recovery: immediate ----
+  if (tierRank(paidTier) >= tierRank(member.tier_id)) {
+    return { ...update, tier_id: paidTier, pending_tier_id: null, tier_grace_until: null };
+  }
+
+  // ---- Downgrade: the higher tier was paid for until the period ends ----
+  // Don't extend an existing downgrade grace on a later renewal event.
+  const graceUntil = member.pending_tier_id && member.tier_grace_until
+    ? member.tier_grace_until
+    : periodEnd;
+
+  if (new Date(graceUntil) <= now) {
+    return { ...update, tier_id: paidTier, pending_tier_id: null, tier_grace_until: null };
+  }
+  return { ...update, pending_tier_id: paidTier, tier_grace_until: graceUntil };
+}
+
+/** Members update for invoice.payment_failed on a membership invoice. */
+export function planPaymentFailedUpdate(
+  member: MemberSubscriptionState,
+  now = new Date()
+): Record<string, unknown> | null {
+  if (member.tier_id === FREE_TIER) return null;
+
+  const graceEnd = new Date(now.getTime() + PAYMENT_FAILURE_GRACE_DAYS * 24 * 60 * 60 * 1000);
+  return {
+    subscription_status: "past_due",
+    pending_tier_id: FREE_TIER,
+    tier_grace_until: earlier(member.tier_grace_until, graceEnd.toISOString()),
+  };
+}
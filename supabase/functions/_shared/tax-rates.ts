@@ -0,0 +1,117 @@
+// =============================================================================
+// PIF Selection-Connection — shared: sales tax / VAT rate table
+// Local rate table for digital goods, looked up by the buyer's billing
+// country (ISO 3166-1 alpha-2) and, where rates differ inside a country, the
+// region (ISO 3166-2 subdivision code without the country prefix, e.g. "WA").
+//
+// Maintenance: rates are in basis points (2000 = 20%). When a rate changes,
+// edit the entry and bump TAX_RATES_VERSION — every order stores the version
+// it was taxed under, so past orders keep their original rate on export.
+// A region rate, when listed, is the full combined rate for that region and
+// replaces the country rate; other codes in region_codes pay the country
+// rate. Countries not listed are not taxed.
+// =============================================================================
+
+/** Date the table was last reviewed against published rates. */
+export const TAX_RATES_VERSION = "2025-07-01";
+
+export interface RegionTaxRate {
+  name: string;
+  rate_basis_points: number;
+}
+
+export interface CountryTaxRate {
+  name: string;
+  /** Tax type shown on exports (VAT, GST, sales tax). */
+  tax_name: string;
+  rate_basis_points: number;
+  regions?: Record<string, RegionTaxRate>;
+  /** Every region a buyer in a country with `regions` can give (required at checkout). */
+  region_codes?: string[];
+}
+
+export const TAX_RATES: Record<string, CountryTaxRate> = {
+  // ---- European Union (standard VAT rate, place of supply = buyer) ----
+  AT: { name: "Austria", tax_name: "VAT", rate_basis_points: 2000 },
+  BE: { name: "Belgium", tax_name: "VAT", rate_basis_points: 2100 },
+  BG: { name: "Bulgaria", tax_name: "VAT", rate_basis_points: 2000 },
+  CY: { name: "Cyprus", tax_name: "VAT", rate_basis_points: 1900 },
+  CZ: { name: "Czechia", tax_name: "VAT", rate_basis_points: 2100 },
+  DE: { name: "Germany", tax_name: "VAT", rate_basis_points: 1900 },
+  DK: { name: "Denmark", tax_name: "VAT", rate_basis_points: 2500 },
+  EE: { name: "Estonia", tax_name: "VAT", rate_basis_points: 2400 },
+  ES: { name: "Spain", tax_name: "VAT", rate_basis_points: 2100 },
+  FI: { name: "Finland", tax_name: "VAT", rate_basis_points: 2550 },
+  FR: { name: "France", tax_name: "VAT", rate_basis_points: 2000 },
+  GR: { name: "Greece", tax_name: "VAT", rate_basis_points: 2400 },
+  HR: { name: "Croatia", tax_name: "VAT", rate_basis_points: 2500 },
+  HU: { name: "Hungary", tax_name: "VAT", rate_basis_points: 2700 },
+  IE: { name: "Ireland", tax_name: "VAT", rate_basis_points: 2300 },
+  IT: { name: "Italy", tax_name: "VAT", rate_basis_points: 2200 },
+  LT: { name: "Lithuania", tax_name: "VAT", rate_basis_points: 2100 },
+  LU: { name: "Luxembourg", tax_name: "VAT", rate_basis_points: 1700 },
+  LV: { name: "Latvia", tax_name: "VAT", rate_basis_points: 2100 },
+  MT: { name: "Malta", tax_name: "VAT", rate_basis_points: 1800 },
+  NL: { name: "Netherlands", tax_name: "VAT", rate_basis_points: 2100 },
+  PL: { name: "Poland", tax_name: "VAT", rate_basis_points: 2300 },
+  PT: { name: "Portugal", tax_name: "VAT", rate_basis_points: 2300 },
+  RO: { name: "Romania", tax_name: "VAT", rate_basis_points: 2100 },
+  SE: { name: "Sweden", tax_name: "VAT", rate_basis_points: 2500 },
+  SI: { name: "Slovenia", tax_name: "VAT", rate_basis_points: 2200 },
+  SK: { name: "Slovakia", tax_name: "VAT", rate_basis_points: 2300 },
+
+  // ---- Other VAT / GST countries ----
+  GB: { name: "United Kingdom", tax_name: "VAT", rate_basis_points: 2000 },
+  NO: { name: "Norway", tax_name: "VAT", rate_basis_points: 2500 },
+  CH: { name: "Switzerland", tax_name: "VAT", rate_basis_points: 810 },
+  AU: { name: "Australia", tax_name: "GST", rate_basis_points: 1000 },
+  NZ: { name: "New Zealand", tax_name: "GST", rate_basis_points: 1500 },
+  CA: {
+    name: "Canada",
+    tax_name: "GST/HST",
+    rate_basis_points: 500,
+    regions: {
+      NB: { name: "New Brunswick", rate_basis_points: 1500 },
+      NL: { name: "Newfoundland and Labrador", rate_basis_points: 1500 },
+      NS: { name: "Nova Scotia", rate_basis_points: 1400 },
+      ON: { name: "Ontario", rate_basis_points: 1300 },
+      PE: { name: "Prince Edward Island", rate_basis_points: 1500 },
+    },
+    region_codes: ["AB", "BC", "MB", "NB", "NL", "NS", "NT", "NU", "ON", "PE", "QC", "SK", "YT"],
+  },
+
+  // ---- United States: states that tax digital goods (state base rate only) ----
+  US: {
+    name: "United States",
+    tax_name: "Sales tax",
+    rate_basis_points: 0,
+    regions: {
+      AL: { name: "Alabama", rate_basis_points: 400 },
+      AZ: { name: "Arizona", rate_basis_points: 560 },
+      CT: { name: "Connecticut", rate_basis_points: 635 },
+      IN: { name: "Indiana", rate_basis_points: 700 },
+      KY: { name: "Kentucky", rate_basis_points: 600 },
+      LA: { name: "Louisiana", rate_basis_points: 500 },
+      ME: { name: "Maine", rate_basis_points: 550 },
+      MS: { name: "Mississippi", rate_basis_points: 700 },
+      NE: { name: "Nebraska", rate_basis_points: 550 },
+      NJ: { name: "New Jersey", rate_basis_points: 663 },
+      OH: { name: "Ohio", rate_basis_points: 575 },
+      PA: { name: "Pennsylvania", rate_basis_points: 600 },
+      SD: { name: "South Dakota", rate_basis_points: 420 },
+      TN: { name: "Tennessee", rate_basis_points: 700 },
+      TX: { name: "Texas", rate_basis_points: 625 },
+      UT: { name: "Utah", rate_basis_points: 610 },
+      WA: { name: "Washington", rate_basis_points: 650 },
+      WI: { name: "Wisconsin", rate_basis_points: 500 },
+      WY: { name: "Wyoming", rate_basis_points: 400 },
+    },
+    region_codes: [
+      "AK", "AL", "AR", "AZ", "CA", "CO", "CT", "DC", "DE", "FL", "GA", "HI", "IA", "ID",
+      "IL", "IN", "KS", "KY", "LA", "MA", "MD", "ME", "MI", "MN", "MO", "MS", "MT", "NC",
+      "ND", "NE", "NH", "NJ", "NM", "NV", "NY", "OH", "OK", "OR", "PA", "RI", "SC", "SD",
+      "TN", "TX", "UT", "VA", "VT", "WA", "WI", "WV", "WY",
+      "AS", "GU", "MP", "PR", "VI",
+    ],
+  },
+};
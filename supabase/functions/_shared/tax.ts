@@ -0,0 +1,92 @@
+// =============================================================================
+// PIF Selection-Connection — shared: sales tax / VAT
+// Resolves the buyer's billing location against the local rate table in
+// tax-rates.ts. Tax is charged on what the buyer pays for the file (base
+// price + PIF fee) and is never part of the royalty split.
+// =============================================================================
+
+import { CheckoutLineItem } from "./payments/provider.ts";
+import { TAX_RATES, TAX_RATES_VERSION } from "./tax-rates.ts";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface BillingLocation {
+  country: string;
+  region?: string | null;
+}
+
+export interface TaxRate {
+  /** "DE", "US-WA", ... — country, plus region when the region sets the rate. */
+  jurisdiction: string;
+  tax_name: string | null;
+  rate_basis_points: number;
+  rates_version: string;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Normalize a billing location from a request body.
+ * Returns null if the country isn't an ISO 3166-1 alpha-2 code, or if the
+ * country is taxed by region and the region is missing or not one of its
+ * region_codes — otherwise the buyer would get the country rate (0 for the US).
+ */
+export function parseBillingLocation(
+  country: unknown,
+  region: unknown
+): BillingLocation | null {
+  const countryCode = typeof country === "string" ? country.trim().toUpperCase() : "";
+  if (!/^[A-Z]{2}$/.test(countryCode)) return null;
+
+  let regionCode = typeof region === "string" ? region.trim().toUpperCase() : "";
+  // Accept full ISO 3166-2 codes ("US-WA") as well as the bare subdivision
+  if (regionCode.startsWith(`${countryCode}-`)) {
+    regionCode = regionCode.slice(countryCode.length + 1);
+  }
+
+  const regionCodes = TAX_RATES[countryCode]?.region_codes;
+  if (regionCodes && !regionCodes.includes(regionCode)) return null;
+
+  return { country: countryCode, region: regionCode || null };
+}
+
+/** Look up the rate for a billing location. Unlisted places get a 0 rate. */
+export function resolveTaxRate(location: BillingLocation): TaxRate {
+  const country = TAX_RATES[location.country];
+  if (!country) {
+    return {
+      jurisdiction: location.country,
+      tax_name: null,
+      rate_basis_points: 0,
+      rates_version: TAX_RATES_VERSION,
+    };
+  }
+
+  const region = location.region ? country.regions?.[location.region] : undefined;
+  return {
+    jurisdiction: region ? `${location.country}-${location.region}` : location.country,
+    tax_name: country.tax_name,
+    rate_basis_points: region ? region.rate_basis_points : country.rate_basis_points,
+    rates_version: TAX_RATES_VERSION,
+  };
+}
+
+/** Tax on an amount, rounded half-up to the cent. */
+export function calculateTaxCents(taxableCents: number, rateBasisPoints: number): number {
+  return Math.round((taxableCents * rateBasisPoints) / 10000);
+}
+
+/** Checkout line item for the tax, so receipts show it separately. */
+export function taxLineItems(rate: TaxRate, taxCents: number): CheckoutLineItem[] {
+  if (taxCents <= 0) return [];
+  return [
+    {
+      name: `${rate.tax_name ?? "Tax"} (${rate.jurisdiction}, ${rate.rate_basis_points / 100}%)`,
+      amount_cents: taxCents,
+    },
+  ];
+}
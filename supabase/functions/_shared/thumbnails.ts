@@ -0,0 +1,751 @@
+// =============================================================================
+// PIF Selection-Connection — shared: preview thumbnails
+// Renders PNG previews of DXF and SVG uploads from their geometry, for
+// originators who upload a drawing without a preview image. Lines,
+// polylines (with bulges), arcs and circles are drawn; text is drawn as a
+// light box the size of the text, since there's no font to render it with.
+// DXF is read from the ENTITIES section (block INSERTs aren't expanded); SVG
+// shapes and paths follow their transforms, skipping <defs> and the like.
+// Every preview is fitted to the same fixed canvas — a larger detail image,
+// and a listing image for the marketplace grid reduced from it, so the
+// strokes are drawn once — grayscale, anti-aliased by 2x supersampling, and
+// encoded here (zlib via CompressionStream), so no image library is needed.
+// Rendering runs inside the upload request, so its work is capped: SVGs
+// over MAX_SVG_BYTES get no preview, and very large drawings are cut short.
+// =============================================================================
+
+import { FileFormat, InspectableFile, readLines } from "./file-formats.ts";
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+export const THUMBNAIL_FORMATS: FileFormat[] = ["dxf", "svg"];
+
+/** Both 4:3, so a drawing is framed the same way in each. */
+export const THUMBNAIL_SIZES = {
+  listing: { width: 400, height: 300 },
+  detail: { width: 1200, height: 900 },
+} as const;
+
+/** Detail pixels per listing pixel, each way. */
+const LISTING_REDUCTION = THUMBNAIL_SIZES.detail.width / THUMBNAIL_SIZES.listing.width;
+
+/** Margin around the drawing, as a fraction of the canvas. */
+const MARGIN = 0.06;
+
+const SUPERSAMPLE = 2;
+
+/** Ink for geometry and for text boxes (0–255, drawn dark on white). */
+const LINE_INK = 255;
+const TEXT_INK = 110;
+
+/** Darkest gray a fully inked pixel becomes. */
+const DARKEST_GRAY = 24;
+
+/** Segments for a full circle; arcs get their share. */
+const CIRCLE_SEGMENTS = 72;
+const CURVE_SEGMENTS = 16;
+
+/**
+ * Work limits for very large drawings, sized to stay well inside an edge
+ * function's CPU time; what's past them isn't drawn.
+ */
+const MAX_STROKES = 20_000;
+const MAX_PLOT_STEPS = 500_000;
+
+/** SVGs are parsed as one string; larger ones get no generated preview. */
+const MAX_SVG_BYTES = 5 * 1024 * 1024;
+
+/** Rough text advance, as a fraction of the text height. */
+const CHAR_WIDTH = 0.6;
+const MTEXT_LINE_SPACING = 1.4;
+
+/** SVG containers whose contents are not drawn in place. */
+const SVG_HIDDEN = new Set(["defs", "clippath", "mask", "symbol", "pattern", "marker", "lineargradient", "radialgradient", "filter", "style", "script", "metadata", "title", "desc"]);
+
+const SVG_TAG = /<(\/?)([A-Za-z_][\w.:-]*)((?:\s+[^\s=\/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g;
+const SVG_ATTR = /([^\s=\/>]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+const PATH_TOKEN = /[MmLlHhVvCcSsQqTtAaZz]|[-+]?(?:\d*\.\d+|\d+\.?)(?:[eE][-+]?\d+)?/g;
+
+const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** A polyline in drawing coordinates: [x0, y0, x1, y1, ...]. */
+interface Stroke {
+  points: number[];
+  ink: number;
+}
+
+interface Drawing {
+  strokes: Stroke[];
+  /** DXF is y-up; SVG is y-down. */
+  yUp: boolean;
+}
+
+/** 2D affine transform [a, b, c, d, e, f] (SVG matrix order). */
+type Matrix = [number, number, number, number, number, number];
+
+export interface Thumbnail {
+  png: Uint8Array;
+  width: number;
+  height: number;
+}
+
+export interface Thumbnails {
+  listing: Thumbnail;
+  detail: Thumbnail;
+  /** Strokes drawn (entities, with text boxes and polyline pieces counted). */
+  strokes: number;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers — geometry
+// ---------------------------------------------------------------------------
+
+/** Points along an arc, start and end included. Angles in radians, CCW. */
+function arcPoints(cx: number, cy: number, r: number, start: number, sweep: number): number[] {
+  const n = Math.max(2, Math.ceil(Math.abs(sweep) / (2 * Math.PI) * CIRCLE_SEGMENTS));
+  const points: number[] = [];
+  for (let i = 0; i <= n; i++) {
+    const t = start + sweep * i / n;
+    points.push(cx + r * Math.cos(t), cy + r * Math.sin(t));
+  }
+  return points;
+}
+
+/** Closed box around text at (x, y), rotated by `angle` radians about it. */
+function textBox(x: number, y: number, width: number, height: number, angle: number): number[] {
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const corners = [[0, 0], [width, 0], [width, height], [0, height], [0, 0]];
+  return corners.flatMap(([u, v]) => [x + u * cos - v * sin, y + u * sin + v * cos]);
+}
+
+/**
+ * Points of a DXF polyline segment with a bulge (tan of a quarter of the
+ * arc's included angle; negative = clockwise), the end point included.
+ */
+function bulgePoints(x1: number, y1: number, x2: number, y2: number, bulge: number): number[] {
+  if (!bulge) return [x2, y2];
+  const theta = 4 * Math.atan(bulge);
+  const chord = Math.hypot(x2 - x1, y2 - y1);
+  if (chord === 0) return [x2, y2];
+
+  const r = chord / (2 * Math.sin(theta / 2));
+  // Center: from the chord midpoint, along the chord's left normal
+  const mx = (x1 + x2) / 2;
+  const my = (y1 + y2) / 2;
+  const offset = r * Math.cos(theta / 2);
+  const cx = mx - offset * (y2 - y1) / chord;
+  const cy = my + offset * (x2 - x1) / chord;
+  const start = Math.atan2(y1 - cy, x1 - cx);
+  return arcPoints(cx, cy, Math.abs(r), start, theta).slice(2);
+}
+
+// ---- DXF ----
+
+/** Group code / value pairs of one entity. */
+type DxfEntity = { type: string; codes: [number, string][] };
+
+function dxfNumber(entity: DxfEntity, code: number, fallback = 0): number {
+  const pair = entity.codes.find(([c]) => c === code);
+  const value = pair ? Number(pair[1]) : NaN;
+  return Number.isFinite(value) ? value : fallback;
+}
+
+function dxfText(entity: DxfEntity): string {
+  return entity.codes.filter(([c]) => c === 3 || c === 1).map(([, v]) => v).join("");
+}
+
+/** Vertices (x, y, bulge) of an LWPOLYLINE, in order. */
+function lwPolylineVertices(entity: DxfEntity): number[][] {
+  const vertices: number[][] = [];
+  for (const [code, value] of entity.codes) {
+    if (code === 10) vertices.push([Number(value), 0, 0]);
+    else if (code === 20 && vertices.length) vertices[vertices.length - 1][1] = Number(value);
+    else if (code === 42 && vertices.length) vertices[vertices.length - 1][2] = Number(value);
+  }
+  return vertices;
+}
+
+function polylineStroke(vertices: number[][], closed: boolean): Stroke | null {
+  if (vertices.length < 2) return null;
+  const points = [vertices[0][0], vertices[0][1]];
+  const count = closed ? vertices.length : vertices.length - 1;
+  for (let i = 0; i < count; i++) {
+    const [x1, y1, bulge] = vertices[i];
+    const [x2, y2] = vertices[(i + 1) % vertices.length];
+    points.push(...bulgePoints(x1, y1, x2, y2, bulge));
+  }
+  return { points, ink: LINE_INK };
+}
+
+/** Stroke(s) for a single DXF entity; POLYLINE is assembled by the caller. */
+function dxfEntityStrokes(entity: DxfEntity): Stroke[] {
+  const n = (code: number, fallback = 0) => dxfNumber(entity, code, fallback);
+  switch (entity.type) {
+    case "LINE":
+      return [{ points: [n(10), n(20), n(11), n(21)], ink: LINE_INK }];
+    case "CIRCLE":
+      return [{ points: arcPoints(n(10), n(20), n(40), 0, 2 * Math.PI), ink: LINE_INK }];
+    case "ARC": {
+      const start = n(50) * Math.PI / 180;
+      let sweep = n(51) * Math.PI / 180 - start;
+      if (sweep <= 0) sweep += 2 * Math.PI;
+      return [{ points: arcPoints(n(10), n(20), n(40), start, sweep), ink: LINE_INK }];
+    }
+    case "LWPOLYLINE": {
+      const stroke = polylineStroke(lwPolylineVertices(entity), (n(70) & 1) === 1);
+      return stroke ? [stroke] : [];
+    }
+    case "TEXT": {
+      const height = n(40, 1);
+      const text = dxfText(entity);
+      return text
+        ? [{ points: textBox(n(10), n(20), text.length * height * CHAR_WIDTH, height, n(50) * Math.PI / 180), ink: TEXT_INK }]
+        : [];
+    }
+    case "MTEXT": {
+      const height = n(40, 1);
+      const lines = dxfText(entity).replace(/\\[A-Za-z][^;\\]*;/g, "").split("\\P");
+      const longest = Math.max(...lines.map((line) => line.length));
+      const blockHeight = height * MTEXT_LINE_SPACING * lines.length;
+      // Insertion point is the top-left corner (attachment point 1)
+      return longest
+        ? [{ points: textBox(n(10), n(20) - blockHeight, longest * height * CHAR_WIDTH, blockHeight, n(50) * Math.PI / 180), ink: TEXT_INK }]
+        : [];
+    }
+    default:
+      return [];
+  }
+}
+
+/** Strokes of the ENTITIES section, streamed pair by pair. */
+async function dxfDrawing(file: InspectableFile): Promise<Drawing> {
+  const strokes: Stroke[] = [];
+  let section: string | null = null;
+  let code: number | null = null;
+  let entity: DxfEntity | null = null;
+  let polyline: { closed: boolean; vertices: number[][] } | null = null;
+
+  const finish = (done: DxfEntity | null) => {
+    if (!done || strokes.length >= MAX_STROKES) return;
+    if (done.type === "POLYLINE") {
+      polyline = { closed: (dxfNumber(done, 70) & 1) === 1, vertices: [] };
+    } else if (done.type === "VERTEX" && polyline) {
+      polyline.vertices.push([dxfNumber(done, 10), dxfNumber(done, 20), dxfNumber(done, 42)]);
+    } else if (done.type === "SEQEND" && polyline) {
+      const stroke = polylineStroke(polyline.vertices, polyline.closed);
+      if (stroke) strokes.push(stroke);
+      polyline = null;
+    } else {
+      strokes.push(...dxfEntityStrokes(done));
+    }
+  };
+
+  let previous: [number, string] | null = null;
+  for await (const line of readLines(file.stream())) {
+    if (strokes.length >= MAX_STROKES) break;
+    if (code === null) {
+      code = Number(line.trim());
+      continue;
+    }
+    const value = line.trim();
+    const pairCode: number = code;
+    code = null;
+
+    if (pairCode === 0) {
+      if (section === "ENTITIES") finish(entity);
+      entity = null;
+      if (value === "ENDSEC") {
+        if (section === "ENTITIES") break;
+        section = null;
+      } else if (section === "ENTITIES") {
+        entity = { type: value, codes: [] };
+      }
+    } else if (pairCode === 2 && previous?.[0] === 0 && previous[1] === "SECTION") {
+      section = value;
+    } else if (entity) {
+      entity.codes.push([pairCode, value]);
+    }
+    previous = [pairCode, value];
+  }
+  return { strokes, yUp: true };
+}
+
+// ---- SVG ----
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+function multiply(m: Matrix, n: Matrix): Matrix {
+  return [
+    m[0] * n[0] + m[2] * n[1],
+    m[1] * n[0] + m[3] * n[1],
+    m[0] * n[2] + m[2] * n[3],
+    m[1] * n[2] + m[3] * n[3],
+    m[0] * n[4] + m[2] * n[5] + m[4],
+    m[1] * n[4] + m[3] * n[5] + m[5],
+  ];
+}
+
+function parseTransform(value: string | undefined): Matrix {
+  let m = IDENTITY;
+  if (!value) return m;
+  for (const [, name, args] of value.matchAll(/(matrix|translate|scale|rotate|skewX|skewY)\s*\(([^)]*)\)/g)) {
+    const v = args.trim().split(/[\s,]+/).map(Number);
+    let t: Matrix = IDENTITY;
+    if (name === "matrix" && v.length === 6) {
+      t = v as Matrix;
+    } else if (name === "translate") {
+      t = [1, 0, 0, 1, v[0] || 0, v[1] || 0];
+    } else if (name === "scale") {
+      t = [v[0] ?? 1, 0, 0, v[1] ?? v[0] ?? 1, 0, 0];
+    } else if (name === "rotate") {
+      const a = (v[0] || 0) * Math.PI / 180;
+      const [cx, cy] = [v[1] || 0, v[2] || 0];
+      t = multiply(multiply([1, 0, 0, 1, cx, cy], [Math.cos(a), Math.sin(a), -Math.sin(a), Math.cos(a), 0, 0]), [1, 0, 0, 1, -cx, -cy]);
+    } else if (name === "skewX") {
+      t = [1, 0, Math.tan((v[0] || 0) * Math.PI / 180), 1, 0, 0];
+    } else if (name === "skewY") {
+      t = [1, Math.tan((v[0] || 0) * Math.PI / 180), 0, 1, 0, 0];
+    }
+    m = multiply(m, t);
+  }
+  return m;
+}
+
+function transformPoints(points: number[], m: Matrix): number[] {
+  const out: number[] = [];
+  for (let i = 0; i < points.length; i += 2) {
+    out.push(m[0] * points[i] + m[2] * points[i + 1] + m[4], m[1] * points[i] + m[3] * points[i + 1] + m[5]);
+  }
+  return out;
+}
+
+/** SVG elliptical arc from (x1, y1) to (x2, y2), end point included (SVG spec F.6.5). */
+function svgArcPoints(
+  x1: number, y1: number, rx: number, ry: number, rotation: number,
+  largeArc: boolean, sweep: boolean, x2: number, y2: number
+): number[] {
+  rx = Math.abs(rx);
+  ry = Math.abs(ry);
+  if (!rx || !ry || (x1 === x2 && y1 === y2)) return [x2, y2];
+
+  const phi = rotation * Math.PI / 180;
+  const cos = Math.cos(phi);
+  const sin = Math.sin(phi);
+  const dx = (x1 - x2) / 2;
+  const dy = (y1 - y2) / 2;
+  const x1p = cos * dx + sin * dy;
+  const y1p = -sin * dx + cos * dy;
+
+  const lambda = (x1p * x1p) / (rx * rx) + (y1p * y1p) / (ry * ry);
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda);
+    ry *= Math.sqrt(lambda);
+  }
+  const num = rx * rx * ry * ry - rx * rx * y1p * y1p - ry * ry * x1p * x1p;
+  const den = rx * rx * y1p * y1p + ry * ry * x1p * x1p;
+  const coef = (largeArc !== sweep ? 1 : -1) * Math.sqrt(Math.max(0, num / den));
+  const cxp = coef * rx * y1p / ry;
+  const cyp = -coef * ry * x1p / rx;
+  const cx = cos * cxp - sin * cyp + (x1 + x2) / 2;
+  const cy = sin * cxp + cos * cyp + (y1 + y2) / 2;
+
+  const angle = (ux: number, uy: number, vx: number, vy: number) => Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+  const start = angle(1, 0, (x1p - cxp) / rx, (y1p - cyp) / ry);
+  let delta = angle((x1p - cxp) / rx, (y1p - cyp) / ry, (-x1p - cxp) / rx, (-y1p - cyp) / ry);
+  if (!sweep && delta > 0) delta -= 2 * Math.PI;
+  if (sweep && delta < 0) delta += 2 * Math.PI;
+
+  const n = Math.max(2, Math.ceil(Math.abs(delta) / (2 * Math.PI) * CIRCLE_SEGMENTS));
+  const points: number[] = [];
+  for (let i = 1; i <= n; i++) {
+    const t = start + delta * i / n;
+    const ex = rx * Math.cos(t);
+    const ey = ry * Math.sin(t);
+    points.push(cx + cos * ex - sin * ey, cy + sin * ex + cos * ey);
+  }
+  return points;
+}
+
+/** Subpaths of path data, each as a flat point list. */
+function pathSubpaths(d: string): number[][] {
+  const tokens = d.match(PATH_TOKEN) ?? [];
+  const subpaths: number[][] = [];
+  let current: number[] = [];
+  let i = 0;
+  let command = "";
+  let x = 0, y = 0, startX = 0, startY = 0;
+  // Last control point, for the smooth S / T commands
+  let ctrlX = 0, ctrlY = 0, lastCommand = "";
+
+  const isCommand = (token: string | undefined) => token !== undefined && /^[A-Za-z]$/.test(token);
+  const num = () => Number(tokens[i++]);
+  const flush = () => {
+    if (current.length >= 4) subpaths.push(current);
+    current = [];
+  };
+  const cubic = (x1: number, y1: number, x2: number, y2: number, x3: number, y3: number) => {
+    for (let s = 1; s <= CURVE_SEGMENTS; s++) {
+      const t = s / CURVE_SEGMENTS;
+      const u = 1 - t;
+      current.push(
+        u * u * u * x + 3 * u * u * t * x1 + 3 * u * t * t * x2 + t * t * t * x3,
+        u * u * u * y + 3 * u * u * t * y1 + 3 * u * t * t * y2 + t * t * t * y3
+      );
+    }
+    ctrlX = x2; ctrlY = y2; x = x3; y = y3;
+  };
+  const quadratic = (x1: number, y1: number, x2: number, y2: number) => {
+    for (let s = 1; s <= CURVE_SEGMENTS; s++) {
+      const t = s / CURVE_SEGMENTS;
+      const u = 1 - t;
+      current.push(u * u * x + 2 * u * t * x1 + t * t * x2, u * u * y + 2 * u * t * y1 + t * t * y2);
+    }
+    ctrlX = x1; ctrlY = y1; x = x2; y = y2;
+  };
+
+  while (i < tokens.length) {
+    if (isCommand(tokens[i])) {
+      command = tokens[i++];
+    } else if (!command) {
+      break;
+    }
+    const rel = command === command.toLowerCase();
+    const ox = rel ? x : 0;
+    const oy = rel ? y : 0;
+
+    switch (command.toUpperCase()) {
+      case "M":
+        flush();
+        x = ox + num(); y = oy + num();
+        startX = x; startY = y;
+        current = [x, y];
+        // Further pairs are implicit line-tos
+        command = rel ? "l" : "L";
+        break;
+      case "L":
+        x = ox + num(); y = oy + num();
+        current.push(x, y);
+        break;
+      case "H":
+        x = ox + num();
+        current.push(x, y);
+        break;
+      case "V":
+        y = oy + num();
+        current.push(x, y);
+        break;
+      case "C": {
+        const [x1, y1, x2, y2, x3, y3] = [ox + num(), oy + num(), ox + num(), oy + num(), ox + num(), oy + num()];
+        cubic(x1, y1, x2, y2, x3, y3);
+        break;
+      }
+      case "S": {
+        const smooth = /[CcSs]/.test(lastCommand);
+        const [x1, y1] = smooth ? [2 * x - ctrlX, 2 * y - ctrlY] : [x, y];
+        const [x2, y2, x3, y3] = [ox + num(), oy + num(), ox + num(), oy + num()];
+        cubic(x1, y1, x2, y2, x3, y3);
+        break;
+      }
+      case "Q": {
+        const [x1, y1, x2, y2] = [ox + num(), oy + num(), ox + num(), oy + num()];
+        quadratic(x1, y1, x2, y2);
+        break;
+      }
+      case "T": {
+        const smooth = /[QqTt]/.test(lastCommand);
+        const [x1, y1] = smooth ? [2 * x - ctrlX, 2 * y - ctrlY] : [x, y];
+        quadratic(x1, y1, ox + num(), oy + num());
+        break;
+      }
+      case "A": {
+        const [rx, ry, rotation, largeArc, sweep] = [num(), num(), num(), num(), num()];
+        const [x2, y2] = [ox + num(), oy + num()];
+        current.push(...svgArcPoints(x, y, rx, ry, rotation, largeArc !== 0, sweep !== 0, x2, y2));
+        x = x2; y = y2;
+        break;
+      }
+      case "Z":
+        x = startX; y = startY;
+        current.push(x, y);
+        flush();
+        current = [x, y];
+        break;
+      default:
+        i++;
+    }
+    if ([x, y].some((v) => !Number.isFinite(v))) break;
+    lastCommand = command;
+  }
+  flush();
+  return subpaths;
+}
+
+function svgNumber(attrs: Map<string, string>, name: string, fallback = 0): number {
+  const value = parseFloat(attrs.get(name) ?? "");
+  return Number.isFinite(value) ? value : fallback;
+}
+
+function pointList(value: string | undefined): number[] {
+  const numbers = (value ?? "").trim().split(/[\s,]+/).map(Number).filter(Number.isFinite);
+  return numbers.length % 2 ? numbers.slice(0, -1) : numbers;
+}
+
+/** Local-coordinate point lists for one SVG element. */
+function svgShapes(name: string, attrs: Map<string, string>, content: string): { points: number[]; ink: number }[] {
+  const n = (attr: string, fallback = 0) => svgNumber(attrs, attr, fallback);
+  switch (name) {
+    case "line":
+      return [{ points: [n("x1"), n("y1"), n("x2"), n("y2")], ink: LINE_INK }];
+    case "rect": {
+      const [x, y, w, h] = [n("x"), n("y"), n("width"), n("height")];
+      return w > 0 && h > 0 ? [{ points: [x, y, x + w, y, x + w, y + h, x, y + h, x, y], ink: LINE_INK }] : [];
+    }
+    case "circle":
+      return [{ points: arcPoints(n("cx"), n("cy"), n("r"), 0, 2 * Math.PI), ink: LINE_INK }];
+    case "ellipse": {
+      const circle = arcPoints(0, 0, 1, 0, 2 * Math.PI);
+      return [{ points: transformPoints(circle, [n("rx"), 0, 0, n("ry"), n("cx"), n("cy")]), ink: LINE_INK }];
+    }
+    case "polyline":
+    case "polygon": {
+      const points = pointList(attrs.get("points"));
+      if (name === "polygon" && points.length >= 4) points.push(points[0], points[1]);
+      return points.length >= 4 ? [{ points, ink: LINE_INK }] : [];
+    }
+    case "path":
+      return pathSubpaths(attrs.get("d") ?? "").map((points) => ({ points, ink: LINE_INK }));
+    case "text": {
+      const text = content.replace(/<[^>]*>/g, "").trim();
+      const size = n("font-size", 16);
+      // (x, y) is the baseline start; the box sits above it
+      return text ? [{ points: textBox(n("x"), n("y") - size, text.length * size * CHAR_WIDTH, size, 0), ink: TEXT_INK }] : [];
+    }
+    default:
+      return [];
+  }
+}
+
+/**
+ * Strokes of an SVG, in user space with every transform applied. Null if
+ * the file is over MAX_SVG_BYTES.
+ */
+async function svgDrawing(file: InspectableFile): Promise<Drawing | null> {
+  if (file.size > MAX_SVG_BYTES) return null;
+  const text = (await new Response(file.stream()).text()).replace(/<!--[\s\S]*?-->/g, "");
+  const strokes: Stroke[] = [];
+  // One entry per open element: its transform and whether it hides content
+  const stack: { name: string; matrix: Matrix; hidden: boolean }[] = [];
+
+  for (const match of text.matchAll(SVG_TAG)) {
+    if (strokes.length >= MAX_STROKES) break;
+    const [, closing, rawName, attrText, selfClosing] = match;
+    const name = rawName.split(":").pop()!.toLowerCase();
+
+    if (closing) {
+      stack.pop();
+      continue;
+    }
+
+    const attrs = new Map<string, string>();
+    for (const [, attr, double, single] of attrText.matchAll(SVG_ATTR)) attrs.set(attr, double ?? single ?? "");
+
+    const parent = stack[stack.length - 1];
+    const matrix = multiply(parent?.matrix ?? IDENTITY, parseTransform(attrs.get("transform")));
+    const hidden = (parent?.hidden ?? false) || SVG_HIDDEN.has(name) || attrs.get("display") === "none";
+
+    if (!hidden) {
+      const after = match.index! + match[0].length;
+      const content = name === "text" && !selfClosing ? text.slice(after, Math.max(text.indexOf("</text>", after), after)) : "";
+      for (const shape of svgShapes(name, attrs, content)) {
+        strokes.push({ points: transformPoints(shape.points, matrix), ink: shape.ink });
+      }
+    }
+    if (!selfClosing) stack.push({ name, matrix, hidden });
+  }
+  return { strokes, yUp: false };
+}
+
+// ---------------------------------------------------------------------------
+// Helpers — raster and PNG
+// ---------------------------------------------------------------------------
+
+/**
+ * Draw the strokes fitted to width x height (plus margin) into an ink
+ * buffer at SUPERSAMPLE x resolution, then box-filter down to grayscale.
+ */
+function rasterize(drawing: Drawing, width: number, height: number): Uint8Array {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (const { points } of drawing.strokes) {
+    for (let i = 0; i < points.length; i += 2) {
+      if (points[i] < minX) minX = points[i];
+      if (points[i] > maxX) maxX = points[i];
+      if (points[i + 1] < minY) minY = points[i + 1];
+      if (points[i + 1] > maxY) maxY = points[i + 1];
+    }
+  }
+
+  const sw = width * SUPERSAMPLE;
+  const sh = height * SUPERSAMPLE;
+  const ink = new Uint8Array(sw * sh);
+  const spanX = Math.max(maxX - minX, 1e-9);
+  const spanY = Math.max(maxY - minY, 1e-9);
+  const scale = Math.min(sw * (1 - 2 * MARGIN) / spanX, sh * (1 - 2 * MARGIN) / spanY);
+  const offsetX = (sw - spanX * scale) / 2;
+  const offsetY = (sh - spanY * scale) / 2;
+  const px = (x: number) => offsetX + (x - minX) * scale;
+  const py = drawing.yUp
+    ? (y: number) => sh - offsetY - (y - minY) * scale
+    : (y: number) => offsetY + (y - minY) * scale;
+
+  // A SUPERSAMPLE-wide square brush: one output pixel wide after filtering
+  let steps = 0;
+  const plot = (x: number, y: number, value: number) => {
+    const x0 = Math.floor(x);
+    const y0 = Math.floor(y);
+    for (let by = y0; by < y0 + SUPERSAMPLE; by++) {
+      if (by < 0 || by >= sh) continue;
+      for (let bx = x0; bx < x0 + SUPERSAMPLE; bx++) {
+        if (bx < 0 || bx >= sw) continue;
+        const at = by * sw + bx;
+        if (ink[at] < value) ink[at] = value;
+      }
+    }
+  };
+
+  for (const { points, ink: value } of drawing.strokes) {
+    for (let i = 2; i + 1 < points.length && steps < MAX_PLOT_STEPS; i += 2) {
+      const x1 = px(points[i - 2]), y1 = py(points[i - 1]);
+      const x2 = px(points[i]), y2 = py(points[i + 1]);
+      const n = Math.max(1, Math.ceil(Math.max(Math.abs(x2 - x1), Math.abs(y2 - y1))));
+      for (let s = 0; s <= n; s++) plot(x1 + (x2 - x1) * s / n, y1 + (y2 - y1) * s / n, value);
+      steps += n;
+    }
+  }
+
+  const gray = new Uint8Array(width * height);
+  const samples = SUPERSAMPLE * SUPERSAMPLE;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      for (let dy = 0; dy < SUPERSAMPLE; dy++) {
+        const row = (y * SUPERSAMPLE + dy) * sw + x * SUPERSAMPLE;
+        for (let dx = 0; dx < SUPERSAMPLE; dx++) sum += ink[row + dx];
+      }
+      gray[y * width + x] = 255 - Math.round(sum / samples * (255 - DARKEST_GRAY) / 255);
+    }
+  }
+  return gray;
+}
+
+/**
+ * Shrink a grayscale image by `factor` each way, keeping the darkest pixel
+ * of each block so one-pixel lines stay visible.
+ */
+function reduce(gray: Uint8Array, width: number, height: number, factor: number): Uint8Array {
+  const w = Math.floor(width / factor);
+  const h = Math.floor(height / factor);
+  const out = new Uint8Array(w * h);
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      let darkest = 255;
+      for (let dy = 0; dy < factor; dy++) {
+        const row = (y * factor + dy) * width + x * factor;
+        for (let dx = 0; dx < factor; dx++) darkest = Math.min(darkest, gray[row + dx]);
+      }
+      out[y * w + x] = darkest;
+    }
+  }
+  return out;
+}
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+}
+
+/** 8-bit grayscale PNG, unfiltered scanlines, zlib-compressed. */
+async function encodePng(gray: Uint8Array, width: number, height: number): Promise<Uint8Array> {
+  const raw = new Uint8Array((width + 1) * height);
+  for (let y = 0; y < height; y++) {
+    raw.set(gray.subarray(y * width, (y + 1) * width), y * (width + 1) + 1);
+  }
+  const compressed = new Uint8Array(
+    await new Response(new Blob([raw]).stream().pipeThrough(new CompressionStream("deflate"))).arrayBuffer()
+  );
+
+  const header = new Uint8Array(13);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  header[8] = 8; // bit depth
+  header[9] = 0; // grayscale
+
+  const parts = [
+    new Uint8Array(PNG_SIGNATURE),
+    pngChunk("IHDR", header),
+    pngChunk("IDAT", compressed),
+    pngChunk("IEND", new Uint8Array(0)),
+  ];
+  const png = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let at = 0;
+  for (const part of parts) {
+    png.set(part, at);
+    at += part.length;
+  }
+  return png;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Listing and detail PNGs of a DXF or SVG file's geometry. Null for other
+ * formats, SVGs over MAX_SVG_BYTES and drawings with nothing to draw.
+ */
+export async function renderThumbnails(file: InspectableFile, format: FileFormat): Promise<Thumbnails | null> {
+  if (!THUMBNAIL_FORMATS.includes(format)) return null;
+
+  const drawing = format === "dxf" ? await dxfDrawing(file) : await svgDrawing(file);
+  if (!drawing) return null;
+  drawing.strokes = drawing.strokes.filter(({ points }) => points.length >= 4 && points.every(Number.isFinite));
+  if (drawing.strokes.length === 0) return null;
+
+  const { detail, listing } = THUMBNAIL_SIZES;
+  const gray = rasterize(drawing, detail.width, detail.height);
+  const listingGray = reduce(gray, detail.width, detail.height, LISTING_REDUCTION);
+
+  return {
+    listing: { png: await encodePng(listingGray, listing.width, listing.height), ...listing },
+    detail: { png: await encodePng(gray, detail.width, detail.height), ...detail },
+    strokes: drawing.strokes.length,
+  };
+}
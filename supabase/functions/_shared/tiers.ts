@@ -0,0 +1,84 @@
+// =============================================================================
+// PIF Selection-Connection — shared: membership tiers
+// The five tiers of members.tier_id, in ascending order, with the monthly
+// prices and storage advertised on index.html. Each paid tier maps to a
+// recurring price in the payment provider, configured through an env var
+// (STRIPE_PRICE_*). Storage quotas are enforced in the database too
+// (tier_storage_quota_bytes, migration 022) — change both together.
+// =============================================================================
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Tiers in ascending order. */
+export const MEMBERSHIP_TIERS = [
+  "design_and_go",
+  "emerging",
+  "surging",
+  "converging",
+  "diverging",
+] as const;
+
+/** Free tier every member falls back to. */
+export const FREE_TIER: TierId = "design_and_go";
+
+const MB = 1024 * 1024;
+const GB = 1024 * MB;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type TierId = typeof MEMBERSHIP_TIERS[number];
+
+export interface TierPlan {
+  id: TierId;
+  name: string;
+  monthly_price_cents: number;
+  /** Env var holding the provider price id; null for the free tier. */
+  price_env: string | null;
+  /** Total size of a member's marketplace files (files not 'removed'). */
+  storage_quota_bytes: number;
+}
+
+export const TIER_PLANS: Record<TierId, TierPlan> = {
+  design_and_go: { id: "design_and_go", name: "Design & Go", monthly_price_cents: 0, price_env: null, storage_quota_bytes: 250 * MB },
+  emerging: { id: "emerging", name: "Emerging", monthly_price_cents: 999, price_env: "STRIPE_PRICE_EMERGING", storage_quota_bytes: 2 * GB },
+  surging: { id: "surging", name: "Surging", monthly_price_cents: 4999, price_env: "STRIPE_PRICE_SURGING", storage_quota_bytes: 10 * GB },
+  converging: { id: "converging", name: "Converging", monthly_price_cents: 14999, price_env: "STRIPE_PRICE_CONVERGING", storage_quota_bytes: 50 * GB },
+  diverging: { id: "diverging", name: "Diverging", monthly_price_cents: 39999, price_env: "STRIPE_PRICE_DIVERGING", storage_quota_bytes: 250 * GB },
+};
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+export function isTierId(value: unknown): value is TierId {
+  return typeof value === "string" && (MEMBERSHIP_TIERS as readonly string[]).includes(value);
+}
+
+/** Position of a tier in MEMBERSHIP_TIERS; -1 for unknown values. */
+export function tierRank(tier: string): number {
+  return (MEMBERSHIP_TIERS as readonly string[]).indexOf(tier);
+}
+
+/** Storage quota of a tier; unknown values get the free tier's. */
+export function storageQuotaBytes(tier: string): number {
+  return TIER_PLANS[isTierId(tier) ? tier : FREE_TIER].storage_quota_bytes;
+}
+
+/** Provider price id for a paid tier, or null if free / not configured. */
+export function tierPriceId(tier: TierId): string | null {
+  const env = TIER_PLANS[tier].price_env;
+  return env ? Deno.env.get(env) ?? null : null;
+}
+
+/** Reverse lookup: which tier a provider price id belongs to. */
+export function tierForPriceId(priceId: string | null | undefined): TierId | null {
+  if (!priceId) return null;
+  for (const tier of MEMBERSHIP_TIERS) {
+    if (tierPriceId(tier) === priceId) return tier;
+  }
+  return null;
+}
@@ -0,0 +1,135 @@
+// =============================================================================
+// PIF Selection-Connection — shared: unit systems
+// The configurator, the GH definition and every formula in _shared/ work in
+// inches. Configurations may be sent in millimetres (a config with
+// units: "mm"); they are converted to inches on the way in
+// (configToInches, applied by resolveCabinetState), and outputs — cut list
+// JSON, BOM CSV, DXF, quotes — are converted back on the way out.
+// =============================================================================
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+export const UNIT_SYSTEMS = ["inches", "mm"] as const;
+
+export const MM_PER_INCH = 25.4;
+
+/**
+ * Configurator keys that are counts, ratios or enums rather than lengths;
+ * every other slider and zone-stack key is a length.
+ */
+const NON_LENGTH_KEYS = new Set([
+  "ShelfCount", "DoorCount", "DrawerCount", "HingeCount", "StepFactor",
+  "ZS_LayoutPreset", "ZS_DadoCount",
+  "ZS_Comp1Type", "ZS_Comp2Type", "ZS_Comp3Type", "ZS_Comp4Type",
+]);
+
+/** Metric sheet stock thicknesses, in mm, that labels snap to. */
+const METRIC_STOCK_MM = [3, 4, 6, 9, 12, 15, 16, 18, 19, 22, 25, 30, 38];
+
+/** Sheet size as the trade names it. */
+const SHEET_SIZE_LABELS: Record<UnitSystem, string> = { inches: "4x8", mm: "1220x2440" };
+
+/** DXF $INSUNITS codes (1 = inches, 4 = millimetres). */
+const DXF_INSUNITS: Record<UnitSystem, number> = { inches: 1, mm: 4 };
+
+const MM_PER_FOOT = 304.8;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type UnitSystem = typeof UNIT_SYSTEMS[number];
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Unit system from a request or config value. Missing (undefined / null)
+ * takes the fallback; anything other than "inches" or "mm" is null.
+ */
+export function parseUnitSystem(value: unknown, fallback: UnitSystem = "inches"): UnitSystem | null {
+  if (value === undefined || value === null) return fallback;
+  return typeof value === "string" && (UNIT_SYSTEMS as readonly string[]).includes(value)
+    ? value as UnitSystem
+    : null;
+}
+
+/** True for a configurator parameter measured in length units. */
+export function isLengthKey(key: string): boolean {
+  return !NON_LENGTH_KEYS.has(key);
+}
+
+/** A length in `units` → inches. */
+export function toInches(value: number, units: UnitSystem): number {
+  return units === "mm" ? value / MM_PER_INCH : value;
+}
+
+/**
+ * A length in inches → `units`. Millimetres are rounded to 0.1 mm (finer
+ * than any saw cut); inches are returned as computed.
+ */
+export function fromInches(value: number, units: UnitSystem): number {
+  return units === "mm" ? Math.round(value * MM_PER_INCH * 10) / 10 : value;
+}
+
+/**
+ * Config in inches, for the formulas: when config.units is "mm", every
+ * numeric length parameter is divided by 25.4. The units key is dropped;
+ * other keys pass through. An unreadable units value is treated as inches
+ * (validateConfiguration reports it).
+ */
+export function configToInches(config: Record<string, unknown>): Record<string, unknown> {
+  const { units, ...rest } = config;
+  if (parseUnitSystem(units) !== "mm") return rest;
+
+  const out: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(rest)) {
+    out[key] = typeof value === "number" && isLengthKey(key) ? value / MM_PER_INCH : value;
+  }
+  return out;
+}
+
+/** Inch configuration → `units`, with the units key set for mm. */
+export function configFromInches(config: Record<string, number>, units: UnitSystem): Record<string, unknown> {
+  if (units === "inches") return { ...config };
+
+  const out: Record<string, unknown> = { units };
+  for (const [key, value] of Object.entries(config)) {
+    out[key] = isLengthKey(key) ? fromInches(value, units) : value;
+  }
+  return out;
+}
+
+/** Length text for labels: 23.625" / 600.1 mm. `decimals` applies to inches. */
+export function formatLength(inches: number, units: UnitSystem, decimals = 3): string {
+  return units === "mm"
+    ? (inches * MM_PER_INCH).toFixed(1) + " mm"
+    : inches.toFixed(decimals) + '"';
+}
+
+/** Nearest metric sheet stock (mm) to a thickness in inches: 0.75" → 19. */
+export function metricStockThickness(inches: number): number {
+  const mm = inches * MM_PER_INCH;
+  return METRIC_STOCK_MM.reduce((best, stock) => Math.abs(stock - mm) < Math.abs(best - mm) ? stock : best);
+}
+
+export function sheetSizeLabel(units: UnitSystem): string {
+  return SHEET_SIZE_LABELS[units];
+}
+
+export function dxfInsUnits(units: UnitSystem): number {
+  return DXF_INSUNITS[units];
+}
+
+/** Feet (edge banding) → metres for mm, unchanged for inches. */
+export function runLength(feet: number, units: UnitSystem): number {
+  return units === "mm" ? feet * MM_PER_FOOT / 1000 : feet;
+}
+
+/** Unit for runLength(): "ft" / "m". */
+export function runLengthUnit(units: UnitSystem): string {
+  return units === "mm" ? "m" : "ft";
+}
@@ -0,0 +1,334 @@
+// =============================================================================
+// PIF Selection-Connection — shared: marketplace file uploads
+// Size limits for marketplace files (accepted formats and content
+// inspection: _shared/file-formats.ts), storage buckets, and resumable
+// upload sessions (migration 020): upload-session takes a file in chunks
+// (TUS 1.0 core protocol — create, resume from the reported offset, append,
+// terminate), each chunk stored as its own object in the private
+// upload-chunks bucket. upload-file finalizes a complete session: the same
+// 7-point validation as a direct upload, then the chunks are streamed into
+// one object in marketplace-files before the files row is created.
+//
+// Every marketplace file's SHA-256 is stored on files.checksum_sha256
+// (migration 021), hashed as a stream so a 100 MB file is never buffered for
+// it: upload-file computes it (and checks a client-supplied one), download
+// re-verifies the stored object against it before signing a URL, and a match
+// with another member's listed file flags the upload as a likely resold copy.
+// =============================================================================
+
+import { crypto as stdCrypto } from "https://deno.land/std@0.177.0/crypto/mod.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+// TODO: Move size limits to a config table or env vars
+export const MAX_FILE_SIZE_BYTES = 100 * 1024 * 1024; // 100 MB hard cap
+
+export const MARKETPLACE_BUCKET = "marketplace-files";
+export const UPLOAD_CHUNK_BUCKET = "upload-chunks";
+export const PREVIEW_BUCKET = "preview-images";
+
+export const TUS_VERSION = "1.0.0";
+
+/**
+ * Per-PATCH chunk bounds. Every chunk but the last must be at least
+ * MIN_CHUNK_BYTES, which keeps a 100 MB upload under 400 chunk objects.
+ */
+export const MAX_CHUNK_BYTES = 6 * 1024 * 1024;
+export const MIN_CHUNK_BYTES = 256 * 1024;
+
+/** An unfinished session (and its chunks) is discarded after this long. */
+export const UPLOAD_SESSION_TTL_HOURS = 24;
+
+/** Chunk object names are their zero-padded start offset, so they list in order. */
+const OFFSET_DIGITS = 12;
+
+/** storage.list page size; above the most chunks a session can have. */
+const CHUNK_LIST_LIMIT = 1000;
+
+/**
+ * Raised by the files storage trigger (migration 022) when an insert or
+ * update would take the member past their tier's storage quota.
+ */
+export const STORAGE_QUOTA_EXCEEDED = "storage_quota_exceeded";
+
+/** Lowercase hex SHA-256, as stored in files.checksum_sha256. */
+export const SHA256_PATTERN = /^[0-9a-f]{64}$/;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface UploadSession {
+  id: string;
+  uploader_id: string;
+  file_name: string;
+  content_type: string | null;
+  upload_length: number;
+  offset_bytes: number;
+  /** Set once upload-file has created the files row. */
+  file_id: string | null;
+  created_at: string;
+  updated_at: string;
+  expires_at: string;
+}
+
+export interface UploadChunk {
+  path: string;
+  offset: number;
+  size: number;
+}
+
+/** What the upload checks need from a file, direct (File) or assembled. */
+export interface UploadedFile {
+  name: string;
+  size: number;
+  type: string;
+  text(): Promise<string>;
+  stream(): ReadableStream<Uint8Array>;
+  /** Bytes [start, end), clamped to the file. */
+  readRange(start: number, end: number): Promise<Uint8Array>;
+}
+
+/** A listed file by another member with the same content. */
+export interface DuplicateFile {
+  id: string;
+  uploader_id: string;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function sessionPrefix(session: UploadSession): string {
+  return `${session.uploader_id}/${session.id}`;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/** Lowercased extension with the dot (".3dm"); "." when there is none. */
+export function fileExtension(name: string): string {
+  return "." + (name.includes(".") ? name.split(".").pop() ?? "" : "").toLowerCase();
+}
+
+/**
+ * TUS Upload-Metadata: comma-separated "key base64value" pairs (value
+ * optional). Null if the header is malformed.
+ */
+export function parseUploadMetadata(header: string | null): Record<string, string> | null {
+  const metadata: Record<string, string> = {};
+  if (!header || !header.trim()) return metadata;
+
+  for (const pair of header.split(",")) {
+    const [key, value, ...rest] = pair.trim().split(" ");
+    if (!key || rest.length > 0) return null;
+    try {
+      metadata[key] = value
+        ? new TextDecoder().decode(Uint8Array.from(atob(value), (c) => c.charCodeAt(0)))
+        : "";
+    } catch {
+      return null;
+    }
+  }
+  return metadata;
+}
+
+/** Storage path of the chunk that starts at `offset`. */
+export function chunkPath(session: UploadSession, offset: number): string {
+  return `${sessionPrefix(session)}/${String(offset).padStart(OFFSET_DIGITS, "0")}`;
+}
+
+/** A session by id, or null. Throws on DB errors. */
+export async function loadUploadSession(
+  supabase: ReturnType<typeof createClient>,
+  id: string
+): Promise<UploadSession | null> {
+  const { data, error } = await supabase
+    .from("upload_sessions")
+    .select("id, uploader_id, file_name, content_type, upload_length, offset_bytes, file_id, created_at, updated_at, expires_at")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load upload session: ${error.message}`);
+  if (!data) return null;
+  return { ...data, upload_length: Number(data.upload_length), offset_bytes: Number(data.offset_bytes) };
+}
+
+export function isSessionExpired(session: UploadSession): boolean {
+  return new Date(session.expires_at).getTime() <= Date.now();
+}
+
+/**
+ * The session's chunks in offset order, checked to tile the whole upload
+ * with no gaps or overlaps. Null if they don't (e.g. a chunk was lost or two
+ * clients wrote the same offset with different lengths) — the upload has to
+ * start over. Throws on storage errors.
+ */
+export async function listSessionChunks(
+  supabase: ReturnType<typeof createClient>,
+  session: UploadSession
+): Promise<UploadChunk[] | null> {
+  const { data, error } = await supabase.storage
+    .from(UPLOAD_CHUNK_BUCKET)
+    .list(sessionPrefix(session), { limit: CHUNK_LIST_LIMIT, sortBy: { column: "name", order: "asc" } });
+
+  if (error) throw new Error(`Failed to list upload chunks: ${error.message}`);
+
+  const chunks: UploadChunk[] = [];
+  let expected = 0;
+  for (const object of data ?? []) {
+    const offset = Number(object.name);
+    const size = Number(object.metadata?.size);
+    if (!Number.isInteger(offset) || !Number.isFinite(size)) continue;
+    if (offset !== expected) return null;
+    chunks.push({ path: `${sessionPrefix(session)}/${object.name}`, offset, size });
+    expected += size;
+  }
+  return expected === session.upload_length ? chunks : null;
+}
+
+/**
+ * The assembled file as a stream, one chunk downloaded at a time, so a
+ * 100 MB upload is never held in memory whole.
+ */
+export function assembleUpload(
+  supabase: ReturnType<typeof createClient>,
+  chunks: UploadChunk[]
+): ReadableStream<Uint8Array> {
+  let next = 0;
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (next >= chunks.length) {
+        controller.close();
+        return;
+      }
+      const { data, error } = await supabase.storage.from(UPLOAD_CHUNK_BUCKET).download(chunks[next++].path);
+      if (error || !data) {
+        controller.error(new Error(`Failed to read upload chunk: ${error?.message ?? "missing"}`));
+        return;
+      }
+      controller.enqueue(new Uint8Array(await data.arrayBuffer()));
+    },
+  });
+}
+
+/** A file posted directly (multipart) as an UploadedFile. */
+export function directFile(file: File): UploadedFile {
+  return {
+    name: file.name,
+    size: file.size,
+    type: file.type,
+    text: () => file.text(),
+    stream: () => file.stream(),
+    readRange: async (start, end) => new Uint8Array(await file.slice(start, end).arrayBuffer()),
+  };
+}
+
+/** Bytes [start, end) of an assembled upload, downloading only the chunks they span. */
+async function readChunkRange(
+  supabase: ReturnType<typeof createClient>,
+  chunks: UploadChunk[],
+  start: number,
+  end: number
+): Promise<Uint8Array> {
+  const parts: Uint8Array[] = [];
+  for (const chunk of chunks) {
+    if (chunk.offset + chunk.size <= start || chunk.offset >= end) continue;
+    const { data, error } = await supabase.storage.from(UPLOAD_CHUNK_BUCKET).download(chunk.path);
+    if (error || !data) throw new Error(`Failed to read upload chunk: ${error?.message ?? "missing"}`);
+    const bytes = new Uint8Array(await data.arrayBuffer());
+    parts.push(bytes.subarray(Math.max(start - chunk.offset, 0), Math.min(end - chunk.offset, chunk.size)));
+  }
+
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let at = 0;
+  for (const part of parts) {
+    out.set(part, at);
+    at += part.length;
+  }
+  return out;
+}
+
+/** A complete session as an UploadedFile for the upload checks. */
+export function sessionFile(
+  supabase: ReturnType<typeof createClient>,
+  session: UploadSession,
+  chunks: UploadChunk[]
+): UploadedFile {
+  return {
+    name: session.file_name,
+    size: session.upload_length,
+    type: session.content_type ?? "application/octet-stream",
+    text: () => new Response(assembleUpload(supabase, chunks)).text(),
+    stream: () => assembleUpload(supabase, chunks),
+    readRange: (start, end) => readChunkRange(supabase, chunks, start, end),
+  };
+}
+
+/** Delete a session's chunk objects. Throws on storage errors. */
+export async function removeSessionChunks(
+  supabase: ReturnType<typeof createClient>,
+  session: UploadSession
+): Promise<void> {
+  const { data, error } = await supabase.storage
+    .from(UPLOAD_CHUNK_BUCKET)
+    .list(sessionPrefix(session), { limit: CHUNK_LIST_LIMIT });
+  if (error) throw new Error(`Failed to list upload chunks: ${error.message}`);
+
+  const paths = (data ?? []).map((object: { name: string }) => `${sessionPrefix(session)}/${object.name}`);
+  if (paths.length === 0) return;
+
+  const { error: removeError } = await supabase.storage.from(UPLOAD_CHUNK_BUCKET).remove(paths);
+  if (removeError) throw new Error(`Failed to remove upload chunks: ${removeError.message}`);
+}
+
+// ---------------------------------------------------------------------------
+// Public API — checksums
+// ---------------------------------------------------------------------------
+
+/**
+ * SHA-256 of a stream, as lowercase hex. std's digest takes an async
+ * iterable and hashes it incrementally (Web Crypto needs the whole buffer).
+ */
+export async function sha256Hex(stream: ReadableStream<Uint8Array>): Promise<string> {
+  const digest = await stdCrypto.subtle.digest("SHA-256", stream);
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * A client-supplied checksum in stored form: hex, any case, optionally
+ * prefixed "sha256:". Null if it isn't a SHA-256.
+ */
+export function normalizeChecksum(value: string): string | null {
+  const hex = value.trim().toLowerCase().replace(/^sha256:/, "");
+  return SHA256_PATTERN.test(hex) ? hex : null;
+}
+
+/**
+ * The oldest listed file with this checksum uploaded by someone other than
+ * `uploaderId`, or null. Throws on DB errors.
+ */
+export async function findListedDuplicate(
+  supabase: ReturnType<typeof createClient>,
+  checksum: string,
+  uploaderId: string
+): Promise<DuplicateFile | null> {
+  const { data, error } = await supabase
+    .from("files")
+    .select("id, uploader_id")
+    .eq("checksum_sha256", checksum)
+    .eq("stage", "listed")
+    .neq("uploader_id", uploaderId)
+    .order("created_at", { ascending: true })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to look up duplicate files: ${error.message}`);
+  return data ?? null;
+}
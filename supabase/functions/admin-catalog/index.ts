@@ -0,0 +1,429 @@
+// =============================================================================
+// PIF Selection-Connection — admin-catalog
+// GET   /admin-catalog                  — all hardware items and material
+//                                          prices, inactive included
+// GET   /admin-catalog?history=<id>     — price history of one item
+// POST  /admin-catalog                  — create an item
+//   Accepts: { type: "hardware", id, category, label, brand?, model?,
+//              price_cents, params?, sort_order? }
+//         or { type: "material", id, kind, thickness?, label, price_cents }
+// PATCH /admin-catalog                  — update an item
+//   Accepts: { type, id, ...fields }; { active: false } deactivates it
+// Requires auth + admin check (hardcoded admin member ID). Items are never
+// deleted — stored quotes and purchased cut lists may name them. Price
+// changes are recorded in catalog_price_history by trigger (migration 016).
+// =============================================================================
+
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  HARDWARE_CATEGORIES,
+  isHardwareParams,
+  isValidHardwareId,
+  isValidMaterialId,
+  MATERIAL_KINDS,
+} from "../_shared/catalog.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "GET, POST, PATCH, OPTIONS",
+};
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/**
+ * Hardcoded admin member ID (same as admin-overrides).
+ * TODO: Move to env var or a dedicated admins table for production.
+ */
+const ADMIN_MEMBER_ID = Deno.env.get("ADMIN_MEMBER_ID") ?? "REPLACE_WITH_ADMIN_UUID";
+
+const ITEM_TYPES = ["hardware", "material"] as const;
+
+/** Sanity bound on a catalog price: $10,000. */
+const MAX_PRICE_CENTS = 1_000_000;
+
+/** Postgres unique_violation. */
+const UNIQUE_VIOLATION = "23505";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+type ItemType = typeof ITEM_TYPES[number];
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Extract the authenticated user from the Authorization header. */
+async function getAuthUser(
+  req: Request,
+  supabase: ReturnType<typeof createClient>
+) {
+  const authHeader = req.headers.get("Authorization");
+  if (!authHeader) return null;
+
+  const token = authHeader.replace("Bearer ", "");
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data.user) return null;
+  return data.user;
+}
+
+/** Check if the authenticated user is an admin. */
+function isAdmin(userId: string): boolean {
+  // TODO: Expand to support multiple admins or an admin role in member_roles
+  return userId === ADMIN_MEMBER_ID;
+}
+
+function tableFor(type: ItemType): string {
+  return type === "hardware" ? "hardware_items" : "material_prices";
+}
+
+function isPriceCents(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 0 && (value as number) <= MAX_PRICE_CENTS;
+}
+
+function isText(value: unknown, maxLength: number): value is string {
+  return typeof value === "string" && value.trim().length > 0 && value.length <= maxLength;
+}
+
+/**
+ * Validate the editable fields present in body. Returns the row fields to
+ * write, or an error message. On create, required fields must be present.
+ */
+function parseFields(
+  type: ItemType,
+  body: Record<string, unknown>,
+  creating: boolean
+): { fields: Record<string, unknown> } | { error: string } {
+  const fields: Record<string, unknown> = {};
+
+  if (creating || body.label !== undefined) {
+    if (!isText(body.label, 120)) return { error: "label must be a non-empty string (120 chars max)" };
+    fields.label = (body.label as string).trim();
+  }
+  if (creating || body.price_cents !== undefined) {
+    if (!isPriceCents(body.price_cents)) {
+      return { error: `price_cents must be a whole number of cents from 0 to ${MAX_PRICE_CENTS}` };
+    }
+    fields.price_cents = body.price_cents;
+  }
+  if (body.active !== undefined) {
+    if (typeof body.active !== "boolean") return { error: "active must be a boolean" };
+    fields.active = body.active;
+  }
+
+  if (type === "hardware") {
+    for (const key of ["brand", "model"]) {
+      if (body[key] === undefined) continue;
+      if (typeof body[key] !== "string" || (body[key] as string).length > 120) {
+        return { error: `${key} must be a string (120 chars max)` };
+      }
+      fields[key] = (body[key] as string).trim();
+    }
+    if (body.params !== undefined) {
+      if (!isHardwareParams(body.params)) {
+        return { error: "params must be an object of slider values, e.g. { \"HingeCupDiameter\": 1.378 }" };
+      }
+      fields.params = body.params;
+    }
+    if (body.sort_order !== undefined) {
+      if (!Number.isInteger(body.sort_order)) return { error: "sort_order must be an integer" };
+      fields.sort_order = body.sort_order;
+    }
+  }
+
+  return { fields };
+}
+
+// ---------------------------------------------------------------------------
+// Route handlers
+// ---------------------------------------------------------------------------
+
+/** GET — The whole catalog, or one item's price history. */
+async function handleGet(
+  supabase: ReturnType<typeof createClient>,
+  url: URL
+): Promise<Response> {
+  const historyId = url.searchParams.get("history");
+
+  if (historyId) {
+    const { data, error } = await supabase
+      .from("catalog_price_history")
+      .select("item_type, item_id, old_price_cents, new_price_cents, changed_by, changed_at")
+      .eq("item_id", historyId)
+      .order("changed_at", { ascending: false });
+
+    if (error) {
+      console.error("[admin-catalog] History error:", error.message);
+      return new Response(
+        JSON.stringify({ error: "Failed to fetch price history" }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ item_id: historyId, history: data }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  const [hardwareResult, materialResult] = await Promise.all([
+    supabase.from("hardware_items").select("*").order("category").order("sort_order"),
+    supabase.from("material_prices").select("*").order("kind").order("thickness", { ascending: false }),
+  ]);
+
+  if (hardwareResult.error || materialResult.error) {
+    console.error(
+      "[admin-catalog] GET error:",
+      hardwareResult.error?.message ?? materialResult.error?.message
+    );
+    return new Response(
+      JSON.stringify({ error: "Failed to fetch catalog" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  return new Response(
+    JSON.stringify({ hardware: hardwareResult.data, materials: materialResult.data }),
+    { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+  );
+}
+
+/** POST — Create a hardware item or material price. */
+async function handlePost(
+  supabase: ReturnType<typeof createClient>,
+  memberId: string | null,
+  type: ItemType,
+  body: Record<string, unknown>
+): Promise<Response> {
+  const row: Record<string, unknown> = { updated_by: memberId };
+
+  if (type === "hardware") {
+    if (!isValidHardwareId(body.id)) {
+      return new Response(
+        JSON.stringify({ error: "id must be 2–32 uppercase letters, digits or dashes, e.g. HG-023" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    if (!HARDWARE_CATEGORIES.includes(body.category as never)) {
+      return new Response(
+        JSON.stringify({ error: `category must be one of: ${HARDWARE_CATEGORIES.join(", ")}` }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    row.category = body.category;
+  } else {
+    if (!isValidMaterialId(body.id)) {
+      return new Response(
+        JSON.stringify({ error: "id must be 2–32 lowercase letters, digits, dots or dashes, e.g. sheet-0.625" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    if (!MATERIAL_KINDS.includes(body.kind as never)) {
+      return new Response(
+        JSON.stringify({ error: `kind must be one of: ${MATERIAL_KINDS.join(", ")}` }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    const thickness = body.thickness ?? null;
+    if (thickness !== null && (body.kind !== "sheet" || typeof thickness !== "number" || !(thickness > 0 && thickness < 100))) {
+      return new Response(
+        JSON.stringify({ error: "thickness must be a positive number of inches, on sheets only (omit for the default sheet price)" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    row.kind = body.kind;
+    row.thickness = thickness;
+    row.unit = body.kind === "sheet" ? "sheet" : "ft";
+  }
+
+  const parsed = parseFields(type, body, true);
+  if ("error" in parsed) {
+    return new Response(
+      JSON.stringify({ error: parsed.error }),
+      { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  const { data: item, error } = await supabase
+    .from(tableFor(type))
+    .insert({ id: body.id, ...row, ...parsed.fields })
+    .select("*")
+    .single();
+
+  if (error) {
+    if (error.code === UNIQUE_VIOLATION) {
+      return new Response(
+        JSON.stringify({
+          error: type === "hardware"
+            ? `Hardware item ${body.id} already exists`
+            : `Material ${body.id} already exists, or an active price already covers that ${body.kind === "sheet" ? "thickness" : "kind"}`,
+        }),
+        { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    console.error("[admin-catalog] Insert error:", error.message);
+    return new Response(
+      JSON.stringify({ error: "Failed to create catalog item" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  return new Response(
+    JSON.stringify({ type, item }),
+    { status: 201, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+  );
+}
+
+/** PATCH — Update fields or price of an item, or (de)activate it. */
+async function handlePatch(
+  supabase: ReturnType<typeof createClient>,
+  memberId: string | null,
+  type: ItemType,
+  body: Record<string, unknown>
+): Promise<Response> {
+  if (typeof body.id !== "string" || !body.id) {
+    return new Response(
+      JSON.stringify({ error: "Missing id" }),
+      { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  // category, kind and thickness identify what an item is; create a new item instead
+  for (const key of ["category", "kind", "thickness", "unit"]) {
+    if (body[key] !== undefined) {
+      return new Response(
+        JSON.stringify({ error: `${key} can't be changed; deactivate the item and create a new one` }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+  }
+
+  const parsed = parseFields(type, body, false);
+  if ("error" in parsed) {
+    return new Response(
+      JSON.stringify({ error: parsed.error }),
+      { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+  if (Object.keys(parsed.fields).length === 0) {
+    return new Response(
+      JSON.stringify({ error: "Nothing to update" }),
+      { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  // updated_at is set by the price-history trigger
+  const { data: item, error } = await supabase
+    .from(tableFor(type))
+    .update({ ...parsed.fields, updated_by: memberId })
+    .eq("id", body.id)
+    .select("*")
+    .maybeSingle();
+
+  if (error) {
+    if (error.code === UNIQUE_VIOLATION) {
+      return new Response(
+        JSON.stringify({ error: "Another active price already covers this material; deactivate it first" }),
+        { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    console.error("[admin-catalog] Update error:", error.message);
+    return new Response(
+      JSON.stringify({ error: "Failed to update catalog item" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  if (!item) {
+    return new Response(
+      JSON.stringify({ error: `Unknown ${type} item: ${body.id}` }),
+      { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  return new Response(
+    JSON.stringify({ type, item }),
+    { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Main handler
+// ---------------------------------------------------------------------------
+
+serve(async (req: Request) => {
+  // ---- CORS preflight ----
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    // ---- Init Supabase admin client ----
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    // ---- Auth check ----
+    const user = await getAuthUser(req, supabaseAdmin);
+    if (!user) {
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ---- Admin check ----
+    if (!isAdmin(user.id)) {
+      return new Response(
+        JSON.stringify({ error: "Admin access required" }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (req.method === "GET") {
+      return await handleGet(supabaseAdmin, new URL(req.url));
+    }
+
+    if (req.method !== "POST" && req.method !== "PATCH") {
+      return new Response(
+        JSON.stringify({ error: "Method not allowed. Use GET, POST or PATCH." }),
+        { status: 405, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ---- Parse request body ----
+    const body = await req.json();
+    if (!body || typeof body !== "object" || !ITEM_TYPES.includes(body.type)) {
+      return new Response(
+        JSON.stringify({ error: `type must be one of: ${ITEM_TYPES.join(", ")}` }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ---- Who made the change (for catalog_price_history) ----
+    const { data: member } = await supabaseAdmin
+      .from("members")
+      .select("id")
+      .eq("auth_user_id", user.id)
+      .maybeSingle();
+    const memberId: string | null = member?.id ?? null;
+
+    return req.method === "POST"
+      ? await handlePost(supabaseAdmin, memberId, body.type, body)
+      : await handlePatch(supabaseAdmin, memberId, body.type, body);
+
+  } catch (err) {
+    console.error("[admin-catalog] Unhandled error:", err);
+    return new Response(
+      JSON.stringify({ error: "Internal server error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -2,8 +2,11 @@
 // PIF Selection-Connection — admin-overrides
 // GET  /admin-overrides          — returns all override_controls rows
 // PUT  /admin-overrides          — accepts { feature_key, enabled }
+// POST /admin-overrides          — accepts { action: "clear_duplicate", file_id }
 // Requires auth + admin check (hardcoded admin member ID).
-// Manages feature flags that gate marketplace capabilities.
+// Manages feature flags that gate marketplace capabilities, and clears a
+// file flagged as a likely duplicate (files.duplicate_of_file_id, migration
+// 021) after review so list-file will list it.
 // =============================================================================
 
 import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
@@ -134,6 +137,79 @@ async function handlePut(
   );
 }
 
+/**
+ * POST clear_duplicate — Mark a flagged file's duplicate match as reviewed
+ * (files.duplicate_cleared_at), so list-file lists it and never flags it again.
+ */
+async function handleClearDuplicate(
+  supabase: ReturnType<typeof createClient>,
+  body: { file_id?: string }
+): Promise<Response> {
+  const { file_id } = body;
+
+  if (!file_id || typeof file_id !== "string") {
+    return new Response(
+      JSON.stringify({ error: "Missing or invalid field: file_id (string)" }),
+      { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  // ---- Verify the file is flagged ----
+  const { data: fileRow, error: lookupError } = await supabase
+    .from("files")
+    .select("id, duplicate_of_file_id, duplicate_cleared_at")
+    .eq("id", file_id)
+    .maybeSingle();
+
+  if (lookupError) {
+    console.error("[admin-overrides] File lookup error:", lookupError.message);
+    return new Response(
+      JSON.stringify({ error: "Failed to fetch file" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+  if (!fileRow) {
+    return new Response(
+      JSON.stringify({ error: `Unknown file: ${file_id}` }),
+      { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+  if (!fileRow.duplicate_of_file_id) {
+    return new Response(
+      JSON.stringify({ error: "File is not flagged as a duplicate" }),
+      { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  // ---- Clear it (once; the first review's time is kept) ----
+  let clearedAt = fileRow.duplicate_cleared_at;
+  if (!clearedAt) {
+    clearedAt = new Date().toISOString();
+    const { error: updateError } = await supabase
+      .from("files")
+      .update({ duplicate_cleared_at: clearedAt })
+      .eq("id", file_id);
+
+    if (updateError) {
+      console.error("[admin-overrides] Clear duplicate error:", updateError.message);
+      return new Response(
+        JSON.stringify({ error: "Failed to clear duplicate flag" }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    console.log("[admin-overrides] Duplicate flag cleared:", file_id, "matched", fileRow.duplicate_of_file_id);
+  }
+
+  return new Response(
+    JSON.stringify({
+      file_id,
+      duplicate_of_file_id: fileRow.duplicate_of_file_id,
+      duplicate_cleared_at: clearedAt,
+    }),
+    { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+  );
+}
+
 // ---------------------------------------------------------------------------
 // Main handler
 // ---------------------------------------------------------------------------
@@ -178,9 +254,20 @@ serve(async (req: Request) => {
         return await handlePut(supabaseAdmin, body);
       }
 
+      case "POST": {
+        const body = await req.json();
+        if (body?.action !== "clear_duplicate") {
+          return new Response(
+            JSON.stringify({ error: "Unknown action. Use clear_duplicate." }),
+            { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+          );
+        }
+        return await handleClearDuplicate(supabaseAdmin, body);
+      }
+
       default:
         return new Response(
-          JSON.stringify({ error: "Method not allowed. Use GET or PUT." }),
+          JSON.stringify({ error: "Method not allowed. Use GET, PUT or POST." }),
           { status: 405, headers: { ...corsHeaders, "Content-Type": "application/json" } }
         );
     }
@@ -0,0 +1,245 @@
+// =============================================================================
+// PIF Selection-Connection — admin-product-catalog
+// GET  /admin-product-catalog — all catalog versions, newest first
+// POST /admin-product-catalog — import a new catalog version
+//   Accepts: { presets: <ChassisPresets.json>, products: <StandardProducts.json>,
+//              note?, dry_run? }
+// Requires auth + admin check (hardcoded admin member ID).
+// Both files are validated together (_shared/product-catalog.ts); any error
+// rejects the import (422, with every issue listed). dry_run validates
+// without importing. A successful import becomes the version product-catalog
+// serves by default. Products in the current version that the files leave out
+// (e.g. ones approved through publish-product) are listed as warnings.
+// =============================================================================
+
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { loadCatalog } from "../_shared/catalog.ts";
+import { findCatalogVersion, parseCatalogImport } from "../_shared/product-catalog.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+};
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/**
+ * Hardcoded admin member ID (same as admin-overrides).
+ * TODO: Move to env var or a dedicated admins table for production.
+ */
+const ADMIN_MEMBER_ID = Deno.env.get("ADMIN_MEMBER_ID") ?? "REPLACE_WITH_ADMIN_UUID";
+
+const MAX_NOTE_LENGTH = 500;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Extract the authenticated user from the Authorization header. */
+async function getAuthUser(
+  req: Request,
+  supabase: ReturnType<typeof createClient>
+) {
+  const authHeader = req.headers.get("Authorization");
+  if (!authHeader) return null;
+
+  const token = authHeader.replace("Bearer ", "");
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data.user) return null;
+  return data.user;
+}
+
+/** Check if the authenticated user is an admin. */
+function isAdmin(userId: string): boolean {
+  // TODO: Expand to support multiple admins or an admin role in member_roles
+  return userId === ADMIN_MEMBER_ID;
+}
+
+// ---------------------------------------------------------------------------
+// Route handlers
+// ---------------------------------------------------------------------------
+
+/** GET — List catalog versions. */
+async function handleGet(
+  supabase: ReturnType<typeof createClient>
+): Promise<Response> {
+  const { data, error } = await supabase
+    .from("catalog_versions")
+    .select(
+      "version, presets_schema_version, products_schema_version, presets_source, products_source, " +
+      "pricing, note, imported_by, imported_at"
+    )
+    .order("version", { ascending: false });
+
+  if (error) {
+    console.error("[admin-product-catalog] GET error:", error.message);
+    return new Response(
+      JSON.stringify({ error: "Failed to fetch catalog versions" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  return new Response(
+    JSON.stringify({ versions: data }),
+    { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+  );
+}
+
+/** POST — Validate both files and import them as the next version. */
+async function handlePost(
+  supabase: ReturnType<typeof createClient>,
+  memberId: string | null,
+  body: { presets?: unknown; products?: unknown; note?: unknown; dry_run?: unknown }
+): Promise<Response> {
+  const { presets, products, note, dry_run } = body;
+
+  if (note !== undefined && note !== null && (typeof note !== "string" || note.length > MAX_NOTE_LENGTH)) {
+    return new Response(
+      JSON.stringify({ error: `note must be a string (${MAX_NOTE_LENGTH} chars max)` }),
+      { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  // ---- Validate (product hardware must be in the live hardware catalog) ----
+  const priceCatalog = await loadCatalog(supabase);
+  const { catalog, issues } = parseCatalogImport(presets, products, priceCatalog.hardware);
+
+  if (!catalog) {
+    return new Response(
+      JSON.stringify({ error: "Catalog files failed validation", issues }),
+      { status: 422, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  // ---- Products published since the files were exported would be dropped ----
+  const latest = await findCatalogVersion(supabase, null);
+  if (latest) {
+    const { data: previous, error: previousError } = await supabase
+      .from("standard_products")
+      .select("sku")
+      .eq("catalog_version", latest.version);
+    if (previousError) throw new Error(`Failed to load products: ${previousError.message}`);
+
+    const imported = new Set(catalog.products.map((p) => p.sku));
+    for (const { sku } of (previous ?? []) as { sku: string }[]) {
+      if (!imported.has(sku)) {
+        issues.push({
+          path: `products.${sku}`,
+          severity: "warning",
+          message: `is in catalog version ${latest.version} but not in this import; it will be removed`,
+        });
+      }
+    }
+  }
+
+  const summary = {
+    presets: catalog.presets.length,
+    products: catalog.products.length,
+    presets_schema_version: catalog.presets_schema_version,
+    products_schema_version: catalog.products_schema_version,
+    warnings: issues,
+  };
+
+  if (dry_run === true) {
+    return new Response(
+      JSON.stringify({ dry_run: true, ...summary }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  // ---- Import atomically (migration 017) ----
+  const { data: version, error: importError } = await supabase.rpc("import_catalog_version", {
+    p_presets_schema_version: catalog.presets_schema_version,
+    p_products_schema_version: catalog.products_schema_version,
+    p_presets_source: catalog.presets_source,
+    p_products_source: catalog.products_source,
+    p_pricing: catalog.pricing,
+    p_presets: catalog.presets,
+    p_products: catalog.products,
+    p_imported_by: memberId,
+    p_note: typeof note === "string" ? note.trim() || null : null,
+  });
+
+  if (importError) {
+    console.error("[admin-product-catalog] Import error:", importError.message);
+    return new Response(
+      JSON.stringify({ error: "Failed to import catalog" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  return new Response(
+    JSON.stringify({ version, ...summary }),
+    { status: 201, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Main handler
+// ---------------------------------------------------------------------------
+
+serve(async (req: Request) => {
+  // ---- CORS preflight ----
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    // ---- Init Supabase admin client ----
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    // ---- Auth check ----
+    const user = await getAuthUser(req, supabaseAdmin);
+    if (!user) {
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ---- Admin check ----
+    if (!isAdmin(user.id)) {
+      return new Response(
+        JSON.stringify({ error: "Admin access required" }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ---- Route by method ----
+    switch (req.method) {
+      case "GET":
+        return await handleGet(supabaseAdmin);
+
+      case "POST": {
+        const { data: member } = await supabaseAdmin
+          .from("members")
+          .select("id")
+          .eq("auth_user_id", user.id)
+          .maybeSingle();
+        const body = await req.json();
+        return await handlePost(supabaseAdmin, member?.id ?? null, body ?? {});
+      }
+
+      default:
+        return new Response(
+          JSON.stringify({ error: "Method not allowed. Use GET or POST." }),
+          { status: 405, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+    }
+
+  } catch (err) {
+    console.error("[admin-product-catalog] Unhandled error:", err);
+    return new Response(
+      JSON.stringify({ error: "Internal server error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -0,0 +1,70 @@
+// =============================================================================
+// PIF Selection-Connection — catalog
+// GET /catalog — the active hardware and material catalog
+// (POST with an empty body also works, for supabase.functions.invoke)
+// Public, no auth. Same shape as the configurator's HARDWARE_LIBRARY /
+// MATERIAL_PRICING (prices in dollars, "manual" first in each hardware
+// category), so the configurator and the server-side pricing
+// (generate-cut-list, quote) price from one catalog. Managed by admin-catalog.
+// =============================================================================
+
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { loadCatalog } from "../_shared/catalog.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Prices change rarely; let browsers and the CDN reuse the catalog briefly. */
+const CACHE_CONTROL = "public, max-age=300";
+
+// ---------------------------------------------------------------------------
+// Main handler
+// ---------------------------------------------------------------------------
+
+serve(async (req: Request) => {
+  // ---- CORS preflight ----
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    // ---- Method guard ----
+    if (req.method !== "GET" && req.method !== "POST") {
+      return new Response(
+        JSON.stringify({ error: "Method not allowed" }),
+        { status: 405, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ---- Init Supabase admin client ----
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    const catalog = await loadCatalog(supabaseAdmin);
+
+    return new Response(
+      JSON.stringify(catalog),
+      {
+        status: 200,
+        headers: { ...corsHeaders, "Content-Type": "application/json", "Cache-Control": CACHE_CONTROL },
+      }
+    );
+
+  } catch (err) {
+    console.error("[catalog] Unhandled error:", err);
+    return new Response(
+      JSON.stringify({ error: "Internal server error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -0,0 +1,334 @@
+// =============================================================================
+// PIF Selection-Connection — create-cart-checkout
+// POST /create-cart-checkout
+// Accepts: { file_ids: string[], buyer_email, billing_country, billing_region? }
+//   (billing_region is required where tax varies by region: US, CA)
+// Creates one checkout session for several marketplace files. Each file is
+// priced on its own with the PIF 10% fee and sales tax / VAT for the buyer's
+// billing location, stored as an orders row (a line)
+// under a single order_groups row that owns the payment. The webhook later
+// issues a download token and payouts per line and sends one email.
+// =============================================================================
+
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getPaymentProvider } from "../_shared/payments/index.ts";
+import { calculatePricing, Pricing } from "../_shared/pricing.ts";
+import { RoyaltyEntry, validateRoyaltyChain } from "../_shared/royalty.ts";
+import { parseBillingLocation, resolveTaxRate, taxLineItems } from "../_shared/tax.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Maximum number of distinct files in one cart. */
+const MAX_CART_ITEMS = 20;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface CartFile {
+  id: string;
+  title: string;
+  price_cents: number;
+  stage: string;
+}
+
+interface CartLine {
+  order_id: string;
+  file_id: string;
+  title: string;
+  pricing: Pricing;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Check whether marketplace_purchase is enabled via override_controls. */
+async function isPurchaseEnabled(
+  supabase: ReturnType<typeof createClient>
+): Promise<boolean> {
+  const { data, error } = await supabase
+    .from("override_controls")
+    .select("enabled")
+    .eq("feature_key", "marketplace_purchase")
+    .single();
+
+  if (error || !data) return false;
+  return data.enabled === true;
+}
+
+// ---------------------------------------------------------------------------
+// Main handler
+// ---------------------------------------------------------------------------
+
+serve(async (req: Request) => {
+  // ---- CORS preflight ----
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    // ---- Method guard ----
+    if (req.method !== "POST") {
+      return new Response(
+        JSON.stringify({ error: "Method not allowed" }),
+        { status: 405, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ---- Init Supabase admin client ----
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    // ---- Parse request body ----
+    const { file_ids, buyer_email, billing_country, billing_region } = await req.json();
+
+    if (!Array.isArray(file_ids) || file_ids.length === 0 || !buyer_email || !billing_country) {
+      return new Response(
+        JSON.stringify({
+          error: "Missing required fields: file_ids (non-empty array), buyer_email, billing_country",
+        }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const billing = parseBillingLocation(billing_country, billing_region);
+    if (!billing) {
+      return new Response(
+        JSON.stringify({
+          error: "billing_country must be an ISO 3166-1 alpha-2 code; US and CA also need a billing_region (e.g. \"WA\")",
+        }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const fileIds = [...new Set(file_ids.map((id: unknown) => String(id)))];
+    if (fileIds.length > MAX_CART_ITEMS) {
+      return new Response(
+        JSON.stringify({ error: `A cart can hold at most ${MAX_CART_ITEMS} files` }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ---- Override check ----
+    const purchaseEnabled = await isPurchaseEnabled(supabaseAdmin);
+    if (!purchaseEnabled) {
+      return new Response(
+        JSON.stringify({ error: "Marketplace purchases are currently disabled" }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ---- Fetch file records ----
+    const { data: fileRows, error: filesError } = await supabaseAdmin
+      .from("files")
+      .select("id, title, price_cents, stage")
+      .in("id", fileIds);
+
+    if (filesError) {
+      console.error("[create-cart-checkout] File lookup error:", filesError.message);
+      return new Response(
+        JSON.stringify({ error: "Failed to load files" }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const filesById = new Map<string, CartFile>(
+      ((fileRows ?? []) as CartFile[]).map((f) => [f.id, f])
+    );
+
+    const missing = fileIds.filter((id) => !filesById.has(id));
+    if (missing.length > 0) {
+      return new Response(
+        JSON.stringify({ error: "File not found", file_ids: missing }),
+        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const unlisted = fileIds.filter((id) => filesById.get(id)!.stage !== "listed");
+    if (unlisted.length > 0) {
+      return new Response(
+        JSON.stringify({ error: "Some files are not currently listed for sale", file_ids: unlisted }),
+        { status: 422, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ---- Fetch royalty chains ----
+    const { data: chainRows, error: royaltyError } = await supabaseAdmin
+      .from("file_royalty_chain")
+      .select("file_id, member_id, role, share_basis_points")
+      .in("file_id", fileIds);
+
+    if (royaltyError) {
+      console.error("[create-cart-checkout] Royalty chain lookup error:", royaltyError.message);
+      return new Response(
+        JSON.stringify({ error: "Failed to load royalty chains" }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const chainsByFile = new Map<string, RoyaltyEntry[]>();
+    for (const row of (chainRows ?? []) as Array<RoyaltyEntry & { file_id: string }>) {
+      const chain = chainsByFile.get(row.file_id) ?? [];
+      chain.push({ member_id: row.member_id, role: row.role, share_basis_points: row.share_basis_points });
+      chainsByFile.set(row.file_id, chain);
+    }
+
+    // ---- Price each line ----
+    const taxRate = resolveTaxRate(billing);
+    const lines: CartLine[] = [];
+    for (const fileId of fileIds) {
+      const chain = chainsByFile.get(fileId) ?? [];
+      const chainErrors = validateRoyaltyChain(chain);
+      if (chainErrors.length > 0) {
+        console.error("[create-cart-checkout] Invalid royalty chain for file:", fileId, chainErrors);
+        return new Response(
+          JSON.stringify({ error: "Royalty chain is misconfigured for a file in the cart", file_id: fileId }),
+          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const file = filesById.get(fileId)!;
+      lines.push({
+        order_id: crypto.randomUUID(),
+        file_id: fileId,
+        title: file.title,
+        pricing: calculatePricing(file.price_cents, chain, 0, taxRate.rate_basis_points),
+      });
+    }
+
+    const sum = (pick: (p: Pricing) => number) =>
+      lines.reduce((total, line) => total + pick(line.pricing), 0);
+
+    // ---- Create order group + lines (payment_status = pending) ----
+    const provider = getPaymentProvider();
+    const groupId = crypto.randomUUID();
+
+    const { error: groupError } = await supabaseAdmin.from("order_groups").insert({
+      id: groupId,
+      buyer_email,
+      payment_provider: provider.name,
+      payment_status: "pending",
+      file_price_cents: sum((p) => p.list_price_cents),
+      pif_fee_cents: sum((p) => p.pif_fee_cents),
+      tax_cents: sum((p) => p.tax_cents),
+      total_cents: sum((p) => p.total_cents),
+      billing_country: billing.country,
+      billing_region: billing.region,
+    });
+
+    if (groupError) {
+      console.error("[create-cart-checkout] Order group insert error:", groupError.message);
+      return new Response(
+        JSON.stringify({ error: "Failed to create order" }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { error: linesError } = await supabaseAdmin.from("orders").insert(
+      lines.map((line) => ({
+        id: line.order_id,
+        order_group_id: groupId,
+        file_id: line.file_id,
+        buyer_email,
+        payment_provider: provider.name,
+        payment_status: "pending",
+        file_price_cents: line.pricing.list_price_cents,
+        total_cents: line.pricing.total_cents,
+        pif_fee_cents: line.pricing.pif_fee_cents,
+        billing_country: billing.country,
+        billing_region: billing.region,
+        tax_cents: line.pricing.tax_cents,
+        tax_rate_basis_points: line.pricing.tax_rate_basis_points,
+        tax_jurisdiction: taxRate.jurisdiction,
+        tax_rates_version: taxRate.rates_version,
+      }))
+    );
+
+    if (linesError) {
+      console.error("[create-cart-checkout] Order line insert error:", linesError.message);
+      await supabaseAdmin.from("order_groups").update({ payment_status: "failed" }).eq("id", groupId);
+      return new Response(
+        JSON.stringify({ error: "Failed to create order" }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ---- Create a single checkout session for the whole cart ----
+    const siteUrl = Deno.env.get("PUBLIC_SITE_URL") ?? "";
+    const { data: session, error: sessionError } = await provider.createCheckoutSession({
+      order_id: groupId,
+      buyer_email,
+      line_items: [
+        ...lines.map((line) => ({
+          name: line.title,
+          description: `PIF Marketplace file: ${line.title}`,
+          amount_cents: line.pricing.total_cents - line.pricing.tax_cents,
+        })),
+        ...taxLineItems(taxRate, sum((p) => p.tax_cents)),
+      ],
+      metadata: { order_group_id: groupId, buyer_email },
+      success_url: `${siteUrl}/purchase/success?order_group_id=${groupId}`,
+      cancel_url: `${siteUrl}/purchase/cancel?order_group_id=${groupId}`,
+    });
+
+    if (sessionError || !session) {
+      console.error("[create-cart-checkout] Checkout session error:", sessionError);
+      await supabaseAdmin.from("order_groups").update({ payment_status: "failed" }).eq("id", groupId);
+      await supabaseAdmin.from("orders").update({ payment_status: "failed" }).eq("order_group_id", groupId);
+      return new Response(
+        JSON.stringify({ error: "Failed to start checkout" }),
+        { status: 502, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ---- Link the session to the group (the webhook looks it up by session id) ----
+    const { error: linkError } = await supabaseAdmin
+      .from("order_groups")
+      .update({ stripe_checkout_session_id: session.session_id })
+      .eq("id", groupId);
+
+    if (linkError) {
+      console.error("[create-cart-checkout] Failed to store session id:", linkError.message);
+      return new Response(
+        JSON.stringify({ error: "Failed to create order" }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ---- Success ----
+    return new Response(
+      JSON.stringify({
+        order_group_id: groupId,
+        checkout_url: session.checkout_url,
+        lines: lines.map((line) => ({
+          order_id: line.order_id,
+          file_id: line.file_id,
+          total_cents: line.pricing.total_cents,
+          tax_cents: line.pricing.tax_cents,
+        })),
+        tax_cents: sum((p) => p.tax_cents),
+        total_cents: sum((p) => p.total_cents),
+      }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+
+  } catch (err) {
+    console.error("[create-cart-checkout] Unhandled error:", err);
+    return new Response(
+      JSON.stringify({ error: "Internal server error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -1,13 +1,30 @@
 // =============================================================================
 // PIF Selection-Connection — create-checkout
 // POST /create-checkout
-// Accepts: { file_id, buyer_email }
-// Creates a Stripe Checkout Session for purchasing a marketplace file.
-// Calculates royalty chain splits and PIF 10% platform fee.
+// Accepts: { file_id, buyer_email, billing_country, billing_region?, promo_code? }
+//   (billing_region is required where tax varies by region: US, CA)
+// Creates a checkout session (via the configured payment provider) for
+// purchasing a marketplace file.
+// Applies an optional promo code to the file price, then calculates royalty
+// chain splits and PIF 10% platform fee on the discounted price, plus sales
+// tax / VAT for the buyer's billing location (kept out of the splits).
+// Payment uses "separate charges and transfers": the platform collects the
+// full amount and process-payouts transfers each royalty split later,
+// grouped by transfer_group = order id.
 // =============================================================================
 
 import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getPaymentProvider } from "../_shared/payments/index.ts";
+import { calculatePricing } from "../_shared/pricing.ts";
+import {
+  checkPromoApplicable,
+  computeDiscountCents,
+  findPromoCode,
+  PromoCode,
+} from "../_shared/promotions.ts";
+import { parseBillingLocation, resolveTaxRate, taxLineItems } from "../_shared/tax.ts";
+import { validateRoyaltyChain } from "../_shared/royalty.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -15,6 +32,13 @@ const corsHeaders = {
     "authorization, x-client-info, apikey, content-type",
 };
 
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Smallest amount the payment processor will charge (Stripe: $0.50). */
+const MIN_CHARGE_CENTS = 50;
+
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
@@ -33,32 +57,6 @@ async function isPurchaseEnabled(
   return data.enabled === true;
 }
 
-/**
- * Calculate the total price including PIF platform fee.
- * PIF takes 10% on top of the base price.
- *   total = base_price * 1.10
- * The application_fee_amount = total - sum_of_royalty_payouts
- */
-function calculatePricing(priceCents: number, royaltyChain: Array<{ share_basis_points: number }>) {
-  // Total charged to buyer = base price + 10% PIF fee
-  const pifFeeMultiplier = 1.10;
-  const totalCents = Math.round(priceCents * pifFeeMultiplier);
-  const pifFeeCents = totalCents - priceCents;
-
-  // Each royalty recipient gets their share of the base price
-  const payouts = royaltyChain.map((entry) => ({
-    ...entry,
-    amount_cents: Math.round((priceCents * entry.share_basis_points) / 10000),
-  }));
-
-  return {
-    total_cents: totalCents,
-    pif_fee_cents: pifFeeCents,
-    base_price_cents: priceCents,
-    payouts,
-  };
-}
-
 // ---------------------------------------------------------------------------
 // Main handler
 // ---------------------------------------------------------------------------
@@ -85,11 +83,21 @@ serve(async (req: Request) => {
     );
 
     // ---- Parse request body ----
-    const { file_id, buyer_email } = await req.json();
+    const { file_id, buyer_email, billing_country, billing_region, promo_code } = await req.json();
 
-    if (!file_id || !buyer_email) {
+    if (!file_id || !buyer_email || !billing_country) {
       return new Response(
-        JSON.stringify({ error: "Missing required fields: file_id, buyer_email" }),
+        JSON.stringify({ error: "Missing required fields: file_id, buyer_email, billing_country" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const billing = parseBillingLocation(billing_country, billing_region);
+    if (!billing) {
+      return new Response(
+        JSON.stringify({
+          error: "billing_country must be an ISO 3166-1 alpha-2 code; US and CA also need a billing_region (e.g. \"WA\")",
+        }),
         { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
@@ -106,7 +114,7 @@ serve(async (req: Request) => {
     // ---- Fetch file record ----
     const { data: fileRow, error: fileError } = await supabaseAdmin
       .from("files")
-      .select("id, title, price_cents, stage, uploader_id")
+      .select("id, title, price_cents, stage, uploader_id, family_id")
       .eq("id", file_id)
       .single();
 
@@ -127,9 +135,8 @@ serve(async (req: Request) => {
     // ---- Fetch royalty chain ----
     const { data: royaltyChain, error: royaltyError } = await supabaseAdmin
       .from("file_royalty_chain")
-      .select("member_id, share_basis_points, position")
-      .eq("file_id", file_id)
-      .order("position", { ascending: true });
+      .select("member_id, role, share_basis_points")
+      .eq("file_id", file_id);
 
     if (royaltyError || !royaltyChain || royaltyChain.length === 0) {
       console.error("[create-checkout] No royalty chain found for file:", file_id);
@@ -139,64 +146,91 @@ serve(async (req: Request) => {
       );
     }
 
-    // ---- Calculate pricing ----
-    const pricing = calculatePricing(fileRow.price_cents, royaltyChain);
-
-    // ---- Create Stripe Checkout Session ----
-    // TODO: Implement Stripe Checkout Session creation
-    // const stripe = new Stripe(Deno.env.get("STRIPE_SECRET_KEY")!, { apiVersion: "2023-10-16" });
-    //
-    // Fetch the primary seller's Stripe Connect account ID:
-    // const { data: seller } = await supabaseAdmin
-    //   .from("members")
-    //   .select("stripe_account_id")
-    //   .eq("id", royaltyChain[0].member_id)
-    //   .single();
-    //
-    // const session = await stripe.checkout.sessions.create({
-    //   mode: "payment",
-    //   customer_email: buyer_email,
-    //   line_items: [
-    //     {
-    //       price_data: {
-    //         currency: "usd",
-    //         unit_amount: pricing.total_cents,
-    //         product_data: {
-    //           name: fileRow.title,
-    //           description: `PIF Marketplace file: ${fileRow.title}`,
-    //         },
-    //       },
-    //       quantity: 1,
-    //     },
-    //   ],
-    //   payment_intent_data: {
-    //     application_fee_amount: pricing.pif_fee_cents,
-    //     transfer_data: {
-    //       destination: seller.stripe_account_id,
-    //     },
-    //   },
-    //   success_url: `${Deno.env.get("PUBLIC_SITE_URL")}/purchase/success?session_id={CHECKOUT_SESSION_ID}`,
-    //   cancel_url: `${Deno.env.get("PUBLIC_SITE_URL")}/purchase/cancel`,
-    //   metadata: {
-    //     file_id,
-    //     buyer_email,
-    //   },
-    // });
-
-    const mockSessionId = `cs_test_${crypto.randomUUID()}`;
-    const checkoutUrl = `https://checkout.stripe.com/pay/${mockSessionId}`;
-    console.log("[create-checkout] TODO: Replace mock Stripe session with real implementation");
+    const chainErrors = validateRoyaltyChain(royaltyChain);
+    if (chainErrors.length > 0) {
+      console.error("[create-checkout] Invalid royalty chain for file:", file_id, chainErrors);
+      return new Response(
+        JSON.stringify({ error: "Royalty chain is misconfigured for this file" }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ---- Resolve promo code (optional) ----
+    let promo: PromoCode | null = null;
+    let discountCents = 0;
+
+    if (promo_code) {
+      promo = await findPromoCode(supabaseAdmin, String(promo_code));
+      if (!promo) {
+        return new Response(
+          JSON.stringify({ error: "Promo code not found" }),
+          { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const { data: tagRows } = await supabaseAdmin
+        .from("file_community_tags")
+        .select("community_tag")
+        .eq("file_id", file_id);
+
+      const originator = royaltyChain.find((entry: { role: string }) => entry.role === "originator");
+      const promoError = checkPromoApplicable(promo, {
+        file_id,
+        family_id: fileRow.family_id,
+        originator_id: originator?.member_id ?? "",
+        community_tags: (tagRows ?? []).map((t: { community_tag: string }) => t.community_tag),
+      });
+
+      if (promoError) {
+        return new Response(
+          JSON.stringify({ error: promoError }),
+          { status: 422, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      discountCents = computeDiscountCents(promo, fileRow.price_cents);
+    }
+
+    // ---- Calculate pricing (discount → PIF fee → tax) ----
+    const taxRate = resolveTaxRate(billing);
+    const pricing = calculatePricing(
+      fileRow.price_cents,
+      royaltyChain,
+      discountCents,
+      taxRate.rate_basis_points
+    );
+
+    if (pricing.total_cents < MIN_CHARGE_CENTS) {
+      return new Response(
+        JSON.stringify({ error: "Discounted price is below the minimum charge" }),
+        { status: 422, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
 
     // ---- Create order row (payment_status = pending) ----
+    // Separate charges and transfers: the platform collects the full amount
+    // and keeps pricing.pif_fee_cents; each entry in pricing.payouts is
+    // transferred by process-payouts, grouped under the order id.
+    const provider = getPaymentProvider();
     const orderId = crypto.randomUUID();
+
     const { error: orderError } = await supabaseAdmin.from("orders").insert({
       id: orderId,
       file_id,
       buyer_email,
-      stripe_session_id: mockSessionId, // TODO: Use session.id from real Stripe
+      payment_provider: provider.name,
       payment_status: "pending",
+      file_price_cents: pricing.list_price_cents,
+      discount_cents: pricing.discount_cents,
+      promo_code_id: promo?.id ?? null,
       total_cents: pricing.total_cents,
       pif_fee_cents: pricing.pif_fee_cents,
+      billing_country: billing.country,
+      billing_region: billing.region,
+      tax_cents: pricing.tax_cents,
+      tax_rate_basis_points: pricing.tax_rate_basis_points,
+      tax_jurisdiction: taxRate.jurisdiction,
+      tax_rates_version: taxRate.rates_version,
       // download_token: null — set after payment confirmed
       // download_expires_at: null
     });
@@ -209,9 +243,83 @@ serve(async (req: Request) => {
       );
     }
 
+    // ---- Reserve a use of the promo code (atomic usage limits) ----
+    if (promo) {
+      const { data: reserved, error: reserveError } = await supabaseAdmin.rpc(
+        "reserve_promo_redemption",
+        {
+          p_promo_code_id: promo.id,
+          p_order_id: orderId,
+          p_buyer_email: buyer_email,
+          p_discount_cents: pricing.discount_cents,
+        }
+      );
+
+      if (reserveError || reserved !== true) {
+        if (reserveError) {
+          console.error("[create-checkout] Promo reservation error:", reserveError.message);
+        }
+        await supabaseAdmin.from("orders").update({ payment_status: "failed" }).eq("id", orderId);
+        return new Response(
+          JSON.stringify({ error: "Promo code has reached its usage limit" }),
+          { status: reserveError ? 500 : 409, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+    }
+
+    // ---- Create checkout session with the payment provider ----
+    const siteUrl = Deno.env.get("PUBLIC_SITE_URL") ?? "";
+    const { data: session, error: sessionError } = await provider.createCheckoutSession({
+      order_id: orderId,
+      buyer_email,
+      line_items: [
+        {
+          name: fileRow.title,
+          description: `PIF Marketplace file: ${fileRow.title}`,
+          amount_cents: pricing.total_cents - pricing.tax_cents,
+        },
+        ...taxLineItems(taxRate, pricing.tax_cents),
+      ],
+      metadata: { order_id: orderId, file_id, buyer_email },
+      success_url: `${siteUrl}/purchase/success?order_id=${orderId}`,
+      cancel_url: `${siteUrl}/purchase/cancel?order_id=${orderId}`,
+    });
+
+    if (sessionError || !session) {
+      console.error("[create-checkout] Checkout session error:", sessionError);
+      await supabaseAdmin.from("orders").update({ payment_status: "failed" }).eq("id", orderId);
+      if (promo) {
+        await supabaseAdmin.rpc("release_promo_redemption", { p_order_id: orderId });
+      }
+      return new Response(
+        JSON.stringify({ error: "Failed to start checkout" }),
+        { status: 502, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ---- Link the session to the order (the webhook looks it up by session id) ----
+    const { error: linkError } = await supabaseAdmin
+      .from("orders")
+      .update({ stripe_checkout_session_id: session.session_id })
+      .eq("id", orderId);
+
+    if (linkError) {
+      console.error("[create-checkout] Failed to store session id:", linkError.message);
+      return new Response(
+        JSON.stringify({ error: "Failed to create order" }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
     // ---- Success ----
     return new Response(
-      JSON.stringify({ checkout_url: checkoutUrl }),
+      JSON.stringify({
+        order_id: orderId,
+        checkout_url: session.checkout_url,
+        total_cents: pricing.total_cents,
+        discount_cents: pricing.discount_cents,
+        tax_cents: pricing.tax_cents,
+      }),
       { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
 
@@ -0,0 +1,233 @@
+// =============================================================================
+// PIF Selection-Connection — create-config-checkout
+// POST /create-config-checkout
+// Accepts: { config, buyer_email, billing_country, billing_region?,
+//            kind?: "cabinet" | "lamiform" }
+//   (billing_region is required where tax varies by region: US, CA)
+// Guest checkout for the output of one configuration: $5.00 (PIF is the
+// Originator) + PIF 10% fee + tax.
+//   - cabinet (default): the configurator's DXF / BOM (generate-cut-list);
+//     config is the configurator's slider values
+//   - lamiform: a LamiForm design's sliced DXF (generate-lamiform); config is
+//     its LamiForm parameters, which must be a valid design (422 otherwise)
+// Stores the configuration, its kind and its hash in config_purchases; once
+// paid, stripe-webhook issues the signed entitlement that verify-entitlement
+// checks. The buyer returns to configurator.html (or lamiform.html)
+// ?config_purchase=<id>.
+// =============================================================================
+
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { hashConfig, parseConfig, PRODUCT_KINDS, ProductKind } from "../_shared/entitlements.ts";
+import { parseLamiFormParams } from "../_shared/lamiform.ts";
+import { getPaymentProvider } from "../_shared/payments/index.ts";
+import { calculatePricing } from "../_shared/pricing.ts";
+import { parseBillingLocation, resolveTaxRate, taxLineItems } from "../_shared/tax.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Price of one configuration's output, before the PIF fee. */
+const CONFIG_PRICE_CENTS = 500;
+
+/** What each kind of purchase is called at checkout, and where the buyer returns to. */
+const PRODUCTS: Record<ProductKind, { name: string; description: string; page: string }> = {
+  cabinet: {
+    name: "Configurator output",
+    description: "DXF cut files and BOM for one cabinet configuration",
+    page: "configurator.html",
+  },
+  lamiform: {
+    name: "LamiForm output",
+    description: "Sliced DXF and material summary for one LamiForm design",
+    page: "lamiform.html",
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Main handler
+// ---------------------------------------------------------------------------
+
+serve(async (req: Request) => {
+  // ---- CORS preflight ----
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    // ---- Method guard ----
+    if (req.method !== "POST") {
+      return new Response(
+        JSON.stringify({ error: "Method not allowed" }),
+        { status: 405, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ---- Init Supabase admin client ----
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    // ---- Parse request body ----
+    const { config, buyer_email, billing_country, billing_region, kind = "cabinet" } = await req.json();
+
+    if (!config || !buyer_email || !billing_country) {
+      return new Response(
+        JSON.stringify({ error: "Missing required fields: config, buyer_email, billing_country" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (!PRODUCT_KINDS.includes(kind)) {
+      return new Response(
+        JSON.stringify({ error: `kind must be one of: ${PRODUCT_KINDS.join(", ")}` }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    const productKind = kind as ProductKind;
+
+    const parsedConfig = parseConfig(config);
+    if (!parsedConfig) {
+      return new Response(
+        JSON.stringify({
+          error: productKind === "lamiform"
+            ? "config must be an object of LamiForm parameter values"
+            : "config must be the configurator's slider values",
+        }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Only a design generate-lamiform can slice is sold
+    if (productKind === "lamiform") {
+      const { params, issues } = parseLamiFormParams(parsedConfig);
+      if (!params) {
+        return new Response(
+          JSON.stringify({ error: "Invalid LamiForm parameters", issues }),
+          { status: 422, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+    }
+
+    const billing = parseBillingLocation(billing_country, billing_region);
+    if (!billing) {
+      return new Response(
+        JSON.stringify({
+          error: "billing_country must be an ISO 3166-1 alpha-2 code; US and CA also need a billing_region (e.g. \"WA\")",
+        }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ---- Calculate pricing (PIF fee → tax; PIF keeps the whole base) ----
+    const configHash = await hashConfig(parsedConfig, productKind);
+    const taxRate = resolveTaxRate(billing);
+    const pricing = calculatePricing(CONFIG_PRICE_CENTS, [], 0, taxRate.rate_basis_points);
+
+    // ---- Create purchase row (payment_status = pending) ----
+    const provider = getPaymentProvider();
+    const purchaseId = crypto.randomUUID();
+
+    const { error: insertError } = await supabaseAdmin.from("config_purchases").insert({
+      id: purchaseId,
+      buyer_email,
+      config: parsedConfig,
+      config_hash: configHash,
+      product_kind: productKind,
+      file_price_cents: pricing.list_price_cents,
+      pif_fee_cents: pricing.pif_fee_cents,
+      total_cents: pricing.total_cents,
+      billing_country: billing.country,
+      billing_region: billing.region,
+      tax_cents: pricing.tax_cents,
+      tax_rate_basis_points: pricing.tax_rate_basis_points,
+      tax_jurisdiction: taxRate.jurisdiction,
+      tax_rates_version: taxRate.rates_version,
+      payment_provider: provider.name,
+      payment_status: "pending",
+    });
+
+    if (insertError) {
+      console.error("[create-config-checkout] Purchase insert error:", insertError.message);
+      return new Response(
+        JSON.stringify({ error: "Failed to create purchase" }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ---- Create checkout session with the payment provider ----
+    const siteUrl = Deno.env.get("PUBLIC_SITE_URL") ?? "";
+    const product = PRODUCTS[productKind];
+    const { data: session, error: sessionError } = await provider.createCheckoutSession({
+      order_id: purchaseId,
+      buyer_email,
+      line_items: [
+        {
+          name: product.name,
+          description: product.description,
+          amount_cents: pricing.total_cents - pricing.tax_cents,
+        },
+        ...taxLineItems(taxRate, pricing.tax_cents),
+      ],
+      metadata: {
+        config_purchase_id: purchaseId,
+        config_hash: configHash,
+        product_kind: productKind,
+        buyer_email,
+      },
+      success_url: `${siteUrl}/${product.page}?config_purchase=${purchaseId}`,
+      cancel_url: `${siteUrl}/${product.page}`,
+    });
+
+    if (sessionError || !session) {
+      console.error("[create-config-checkout] Checkout session error:", sessionError);
+      await supabaseAdmin.from("config_purchases").update({ payment_status: "failed" }).eq("id", purchaseId);
+      return new Response(
+        JSON.stringify({ error: "Failed to start checkout" }),
+        { status: 502, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ---- Link the session to the purchase (the webhook looks it up by session id) ----
+    const { error: linkError } = await supabaseAdmin
+      .from("config_purchases")
+      .update({ stripe_checkout_session_id: session.session_id })
+      .eq("id", purchaseId);
+
+    if (linkError) {
+      console.error("[create-config-checkout] Failed to store session id:", linkError.message);
+      return new Response(
+        JSON.stringify({ error: "Failed to create purchase" }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ---- Success ----
+    return new Response(
+      JSON.stringify({
+        purchase_id: purchaseId,
+        kind: productKind,
+        config_hash: configHash,
+        checkout_url: session.checkout_url,
+        total_cents: pricing.total_cents,
+        tax_cents: pricing.tax_cents,
+      }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+
+  } catch (err) {
+    console.error("[create-config-checkout] Unhandled error:", err);
+    return new Response(
+      JSON.stringify({ error: "Internal server error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -0,0 +1,218 @@
+// =============================================================================
+// PIF Selection-Connection — create-subscription
+// POST /create-subscription
+// Accepts: { tier_id }
+// Requires auth. Starts or changes the member's monthly membership plan:
+//   - no live subscription, paid tier → subscription checkout (checkout_url)
+//   - live subscription, higher tier  → switch price now, prorated
+//   - live subscription, lower tier   → switch price from the next period;
+//                                       the current tier lasts until then
+//   - live subscription, design_and_go → cancel at the end of the period
+// members.tier_id itself only changes through the stripe-webhook
+// customer.subscription.* events.
+// =============================================================================
+
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getPaymentProvider } from "../_shared/payments/index.ts";
+import { FREE_TIER, isTierId, tierPriceId, tierRank } from "../_shared/tiers.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Subscription statuses that count as an existing plan to change. */
+const LIVE_SUBSCRIPTION_STATUSES = ["active", "trialing", "past_due"];
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Extract the authenticated user from the Authorization header. */
+async function getAuthUser(
+  req: Request,
+  supabase: ReturnType<typeof createClient>
+) {
+  const authHeader = req.headers.get("Authorization");
+  if (!authHeader) return null;
+
+  const token = authHeader.replace("Bearer ", "");
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data.user) return null;
+  return data.user;
+}
+
+// ---------------------------------------------------------------------------
+// Main handler
+// ---------------------------------------------------------------------------
+
+serve(async (req: Request) => {
+  // ---- CORS preflight ----
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    // ---- Method guard ----
+    if (req.method !== "POST") {
+      return new Response(
+        JSON.stringify({ error: "Method not allowed" }),
+        { status: 405, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ---- Init Supabase admin client ----
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    // ---- Auth check ----
+    const user = await getAuthUser(req, supabaseAdmin);
+    if (!user) {
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ---- Parse request body ----
+    const { tier_id } = await req.json();
+
+    if (!isTierId(tier_id)) {
+      return new Response(
+        JSON.stringify({ error: "tier_id must be one of: design_and_go, emerging, surging, converging, diverging" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ---- Fetch member record ----
+    const { data: member, error: memberError } = await supabaseAdmin
+      .from("members")
+      .select("id, email, tier_id, pending_tier_id, stripe_customer_id, stripe_subscription_id, subscription_status")
+      .eq("auth_user_id", user.id)
+      .single();
+
+    if (memberError || !member) {
+      return new Response(
+        JSON.stringify({ error: "Member profile not found" }),
+        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const provider = getPaymentProvider();
+    const hasLiveSubscription =
+      !!member.stripe_subscription_id &&
+      LIVE_SUBSCRIPTION_STATUSES.includes(member.subscription_status ?? "");
+
+    // ---- Downgrade to the free tier = cancel at period end ----
+    if (tier_id === FREE_TIER) {
+      if (!hasLiveSubscription) {
+        return new Response(
+          JSON.stringify({ error: "You have no active membership to cancel" }),
+          { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const { error: cancelError } = await provider.cancelSubscriptionAtPeriodEnd(
+        member.stripe_subscription_id
+      );
+
+      if (cancelError) {
+        console.error("[create-subscription] Cancel failed:", cancelError);
+        return new Response(
+          JSON.stringify({ error: "Failed to cancel membership" }),
+          { status: 502, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      return new Response(
+        JSON.stringify({ status: "cancel_scheduled", tier_id }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ---- Paid tier: resolve its price ----
+    const priceId = tierPriceId(tier_id);
+    if (!priceId) {
+      console.error("[create-subscription] No price configured for tier:", tier_id);
+      return new Response(
+        JSON.stringify({ error: "This membership tier is not available yet" }),
+        { status: 503, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ---- Existing plan: change price (prorate upgrades only) ----
+    if (hasLiveSubscription) {
+      const onTier = member.tier_id === tier_id && !member.pending_tier_id;
+      if (onTier) {
+        return new Response(
+          JSON.stringify({ error: `You are already on the ${tier_id} tier` }),
+          { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const upgrade = tierRank(tier_id) > tierRank(member.tier_id);
+      const { error: changeError } = await provider.changeSubscriptionPrice(
+        member.stripe_subscription_id,
+        {
+          price_id: priceId,
+          tier_id,
+          prorate: upgrade,
+        }
+      );
+
+      if (changeError) {
+        console.error("[create-subscription] Price change failed:", changeError);
+        return new Response(
+          JSON.stringify({ error: "Failed to change membership" }),
+          { status: 502, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      return new Response(
+        JSON.stringify({ status: "updated", tier_id, effective: upgrade ? "now" : "period_end" }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ---- New plan: hosted subscription checkout ----
+    const siteUrl = Deno.env.get("PUBLIC_SITE_URL") ?? "";
+    const { data: session, error: sessionError } = await provider.createSubscriptionCheckout({
+      member_id: member.id,
+      tier_id,
+      price_id: priceId,
+      customer_id: member.stripe_customer_id ?? null,
+      customer_email: member.email,
+      success_url: `${siteUrl}/membership/success?tier_id=${tier_id}`,
+      cancel_url: `${siteUrl}/membership/cancel?tier_id=${tier_id}`,
+    });
+
+    if (sessionError || !session) {
+      console.error("[create-subscription] Checkout session error:", sessionError);
+      return new Response(
+        JSON.stringify({ error: "Failed to start checkout" }),
+        { status: 502, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ---- Success ----
+    return new Response(
+      JSON.stringify({ status: "checkout", tier_id, checkout_url: session.checkout_url }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+
+  } catch (err) {
+    console.error("[create-subscription] Unhandled error:", err);
+    return new Response(
+      JSON.stringify({ error: "Internal server error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
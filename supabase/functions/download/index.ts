@@ -1,12 +1,15 @@
 // =============================================================================
 // PIF Selection-Connection — download
 // GET /download?token=<download_token>
-// Validates a download token, generates a signed Supabase Storage URL, and
-// redirects the buyer to the file. Tracks download attempts.
+// Validates a download token, generates a signed Supabase Storage URL,
+// re-verifies the file streamed from it against its SHA-256
+// (files.checksum_sha256), and redirects the buyer to the file. Tracks
+// download attempts.
 // =============================================================================
 
 import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { MARKETPLACE_BUCKET, sha256Hex } from "../_shared/uploads.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -130,7 +133,7 @@ serve(async (req: Request) => {
     // ---- Fetch file record to get storage_path ----
     const { data: fileRow, error: fileError } = await supabaseAdmin
       .from("files")
-      .select("storage_path, title")
+      .select("storage_path, title, checksum_sha256")
       .eq("id", order.file_id)
       .single();
 
@@ -142,22 +145,48 @@ serve(async (req: Request) => {
     }
 
     // ---- Generate signed Supabase Storage URL ----
-    // TODO: Implement actual signed URL generation
-    // const { data: signedUrlData, error: signedUrlError } = await supabaseAdmin.storage
-    //   .from("marketplace-files")
-    //   .createSignedUrl(fileRow.storage_path, SIGNED_URL_EXPIRY_SECONDS);
-    //
-    // if (signedUrlError || !signedUrlData?.signedUrl) {
-    //   console.error("[download] Failed to generate signed URL:", signedUrlError?.message);
-    //   return new Response(
-    //     JSON.stringify({ error: "Failed to generate download URL" }),
-    //     { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    //   );
-    // }
-    // const signedUrl = signedUrlData.signedUrl;
-
-    const signedUrl = `https://placeholder.supabase.co/storage/v1/object/sign/marketplace-files/${fileRow.storage_path}?token=PLACEHOLDER`;
-    console.log("[download] TODO: Replace with real signed URL generation");
+    const { data: signedUrlData, error: signedUrlError } = await supabaseAdmin.storage
+      .from(MARKETPLACE_BUCKET)
+      .createSignedUrl(fileRow.storage_path, SIGNED_URL_EXPIRY_SECONDS);
+
+    if (signedUrlError || !signedUrlData?.signedUrl) {
+      console.error("[download] Failed to generate signed URL:", signedUrlError?.message);
+      return new Response(
+        JSON.stringify({ error: "Failed to generate download URL" }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    const signedUrl = signedUrlData.signedUrl;
+
+    // ---- Re-verify the stored file's SHA-256 ----
+    // Read through the signed URL and hashed as it streams in, so the file is
+    // never buffered. Files uploaded before checksums were recorded have none
+    // to check against
+    if (fileRow.checksum_sha256) {
+      const stored = await fetch(signedUrl);
+
+      if (!stored.ok || !stored.body) {
+        console.error("[download] Failed to read stored file:", stored.status);
+        await stored.body?.cancel();
+        return new Response(
+          JSON.stringify({ error: "File is unavailable" }),
+          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const checksum = await sha256Hex(stored.body);
+      if (checksum !== fileRow.checksum_sha256) {
+        console.error(
+          `[download] Integrity check failed for file ${order.file_id}: stored ${fileRow.checksum_sha256}, read ${checksum}`
+        );
+        return new Response(
+          JSON.stringify({ error: "File failed its integrity check and can't be downloaded. Please contact support." }),
+          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+    } else {
+      console.warn("[download] No checksum recorded for file", order.file_id);
+    }
 
     // ---- Update order: set downloaded_at, increment download_attempts ----
     const { error: trackError } = await supabaseAdmin
@@ -0,0 +1,226 @@
+// =============================================================================
+// PIF Selection-Connection — export-tax
+// GET /export-tax?from=YYYY-MM-DD&to=YYYY-MM-DD[&format=csv|json]
+// Requires auth + admin check (hardcoded admin member ID).
+// Exports the sales tax / VAT collected on paid orders for filing, from the
+// tax_report_lines view (migration 011). `to` is exclusive.
+//   json → { lines, summary } with one summary row per jurisdiction
+//   csv  → one row per order
+// =============================================================================
+
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/**
+ * Hardcoded admin member ID (same as admin-overrides).
+ * TODO: Move to env var or a dedicated admins table for production.
+ */
+const ADMIN_MEMBER_ID = Deno.env.get("ADMIN_MEMBER_ID") ?? "REPLACE_WITH_ADMIN_UUID";
+
+/** Columns exported, in CSV order. */
+const TAX_REPORT_COLUMNS = [
+  "order_id",
+  "order_group_id",
+  "paid_at",
+  "refunded_at",
+  "payment_status",
+  "billing_country",
+  "billing_region",
+  "tax_jurisdiction",
+  "tax_rate_basis_points",
+  "tax_rates_version",
+  "taxable_cents",
+  "tax_cents",
+  "tax_refunded_cents",
+  "total_cents",
+] as const;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+type TaxReportLine = Record<typeof TAX_REPORT_COLUMNS[number], string | number | null>;
+
+interface JurisdictionSummary {
+  tax_jurisdiction: string;
+  orders: number;
+  taxable_cents: number;
+  tax_cents: number;
+  tax_refunded_cents: number;
+  net_tax_cents: number;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Extract the authenticated user from the Authorization header. */
+async function getAuthUser(
+  req: Request,
+  supabase: ReturnType<typeof createClient>
+) {
+  const authHeader = req.headers.get("Authorization");
+  if (!authHeader) return null;
+
+  const token = authHeader.replace("Bearer ", "");
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data.user) return null;
+  return data.user;
+}
+
+/** Check if the authenticated user is an admin. */
+function isAdmin(userId: string): boolean {
+  // TODO: Expand to support multiple admins or an admin role in member_roles
+  return userId === ADMIN_MEMBER_ID;
+}
+
+/** Sum the lines per jurisdiction. */
+function summarize(lines: TaxReportLine[]): JurisdictionSummary[] {
+  const byJurisdiction = new Map<string, JurisdictionSummary>();
+
+  for (const line of lines) {
+    const key = (line.tax_jurisdiction as string | null) ?? "UNKNOWN";
+    const row = byJurisdiction.get(key) ?? {
+      tax_jurisdiction: key,
+      orders: 0,
+      taxable_cents: 0,
+      tax_cents: 0,
+      tax_refunded_cents: 0,
+      net_tax_cents: 0,
+    };
+    row.orders++;
+    row.taxable_cents += Number(line.taxable_cents ?? 0);
+    row.tax_cents += Number(line.tax_cents ?? 0);
+    row.tax_refunded_cents += Number(line.tax_refunded_cents ?? 0);
+    row.net_tax_cents = row.tax_cents - row.tax_refunded_cents;
+    byJurisdiction.set(key, row);
+  }
+
+  return [...byJurisdiction.values()].sort((a, b) =>
+    a.tax_jurisdiction.localeCompare(b.tax_jurisdiction)
+  );
+}
+
+/** RFC 4180 CSV with a header row. */
+function toCsv(lines: TaxReportLine[]): string {
+  const escape = (value: string | number | null) => {
+    const text = value === null ? "" : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  const rows = [TAX_REPORT_COLUMNS.join(",")];
+  for (const line of lines) {
+    rows.push(TAX_REPORT_COLUMNS.map((column) => escape(line[column])).join(","));
+  }
+  return rows.join("\r\n") + "\r\n";
+}
+
+// ---------------------------------------------------------------------------
+// Main handler
+// ---------------------------------------------------------------------------
+
+serve(async (req: Request) => {
+  // ---- CORS preflight ----
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    // ---- Method guard ----
+    if (req.method !== "GET") {
+      return new Response(
+        JSON.stringify({ error: "Method not allowed" }),
+        { status: 405, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ---- Init Supabase admin client ----
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    // ---- Auth check ----
+    const user = await getAuthUser(req, supabaseAdmin);
+    if (!user) {
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ---- Admin check ----
+    if (!isAdmin(user.id)) {
+      return new Response(
+        JSON.stringify({ error: "Admin access required" }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ---- Parse period ----
+    const url = new URL(req.url);
+    const from = url.searchParams.get("from");
+    const to = url.searchParams.get("to");
+    const format = url.searchParams.get("format") ?? "json";
+
+    const isDate = (value: string | null) => !!value && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value));
+    if (!isDate(from) || !isDate(to) || !["csv", "json"].includes(format)) {
+      return new Response(
+        JSON.stringify({ error: "Expected query: from=YYYY-MM-DD&to=YYYY-MM-DD[&format=csv|json]" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ---- Fetch report lines ----
+    const { data, error } = await supabaseAdmin
+      .from("tax_report_lines")
+      .select(TAX_REPORT_COLUMNS.join(", "))
+      .gte("paid_at", from!)
+      .lt("paid_at", to!)
+      .order("paid_at", { ascending: true });
+
+    if (error) {
+      console.error("[export-tax] Report query error:", error.message);
+      return new Response(
+        JSON.stringify({ error: "Failed to build tax report" }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const lines = (data ?? []) as unknown as TaxReportLine[];
+
+    // ---- Success ----
+    if (format === "csv") {
+      return new Response(toCsv(lines), {
+        status: 200,
+        headers: {
+          ...corsHeaders,
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="pif-tax-${from}-to-${to}.csv"`,
+        },
+      });
+    }
+
+    return new Response(
+      JSON.stringify({ from, to, lines, summary: summarize(lines) }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+
+  } catch (err) {
+    console.error("[export-tax] Unhandled error:", err);
+    return new Response(
+      JSON.stringify({ error: "Internal server error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
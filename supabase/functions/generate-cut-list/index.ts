@@ -0,0 +1,230 @@
+// =============================================================================
+// PIF Selection-Connection — generate-cut-list
+// POST /generate-cut-list
+// Accepts: { config, hardware?: { hinge, slide, pull }, name?, entitlement?,
+//            format?: "json" | "csv" | "dxf", units?: "inches" | "mm" }
+// Runs the configurator's cut list, BOM and DXF on the server
+// (_shared/cutlist.ts) at the database catalog's prices (_shared/catalog.ts).
+// config is configurator state — the SLIDER_GROUPS keys, as in
+// ChassisPresets.json; missing keys take their defaults. A config in mm sets
+// units: "mm". Outputs (part sizes, CSV columns, DXF $INSUNITS and labels)
+// are in `units`, defaulting to the config's own.
+//
+// Full output (part dimensions, BOM CSV, DXF) is released only to:
+//   - a buyer whose entitlement (verify-entitlement) covers this exact config
+//   - the admin, for shop automation (Authorization: Bearer <admin JWT>)
+// Anyone else gets a preview: part names and counts, sheet goods and cost.
+// format=csv / format=dxf return the file itself (402 without access).
+// =============================================================================
+
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  computeCostSummary,
+  computeCutList,
+  computeHardwareSchedule,
+  computeSheetGoods,
+  cutListInUnits,
+  generateCSV,
+  generateDXF,
+  parseHardwareSelection,
+  resolveCabinetState,
+  sheetGoodsInUnits,
+} from "../_shared/cutlist.ts";
+import { loadCatalog } from "../_shared/catalog.ts";
+import { hashConfig, hasEntitlement, parseConfig } from "../_shared/entitlements.ts";
+import { parseUnitSystem, UNIT_SYSTEMS } from "../_shared/units.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+// TODO: Replace with actual admin member UUID(s) or use a role check
+const ADMIN_MEMBER_ID = Deno.env.get("ADMIN_MEMBER_ID") ?? "REPLACE_WITH_ADMIN_UUID";
+
+const OUTPUT_FORMATS = ["json", "csv", "dxf"];
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Extract the authenticated user from the Authorization header. */
+async function getAuthUser(
+  req: Request,
+  supabase: ReturnType<typeof createClient>
+) {
+  const authHeader = req.headers.get("Authorization");
+  if (!authHeader) return null;
+
+  const token = authHeader.replace("Bearer ", "");
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data.user) return null;
+  return data.user;
+}
+
+/** Check if a user is the platform admin. */
+function isAdmin(userId: string): boolean {
+  // TODO: Expand to support multiple admins or an admin role in member_roles
+  return userId === ADMIN_MEMBER_ID;
+}
+
+/** File name stem: preset name (or "Custom") + date, as the configurator names exports. */
+function fileStem(name: string | null, dateStr: string): string {
+  return name ? name.replace(/[^a-zA-Z0-9]/g, "_") + "_" + dateStr : dateStr;
+}
+
+// ---------------------------------------------------------------------------
+// Main handler
+// ---------------------------------------------------------------------------
+
+serve(async (req: Request) => {
+  // ---- CORS preflight ----
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    // ---- Method guard ----
+    if (req.method !== "POST") {
+      return new Response(
+        JSON.stringify({ error: "Method not allowed" }),
+        { status: 405, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ---- Init Supabase admin client ----
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    // ---- Parse request body ----
+    const { config, hardware, name, entitlement, format = "json", units } = await req.json();
+
+    const parsedConfig = parseConfig(config);
+    if (!parsedConfig) {
+      return new Response(
+        JSON.stringify({ error: "config must be an object of configurator parameter values" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (!OUTPUT_FORMATS.includes(format)) {
+      return new Response(
+        JSON.stringify({ error: `format must be one of: ${OUTPUT_FORMATS.join(", ")}` }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const configUnits = parseUnitSystem(parsedConfig.units);
+    const outputUnits = configUnits && parseUnitSystem(units, configUnits);
+    if (!outputUnits) {
+      return new Response(
+        JSON.stringify({ error: `units and config.units must be one of: ${UNIT_SYSTEMS.join(", ")}` }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ---- Access: entitlement for this config, or admin ----
+    const configHash = await hashConfig(parsedConfig);
+    let fullAccess = false;
+
+    if (entitlement) {
+      fullAccess = await hasEntitlement(supabaseAdmin, entitlement, configHash);
+    }
+    if (!fullAccess) {
+      const user = await getAuthUser(req, supabaseAdmin);
+      fullAccess = !!user && isAdmin(user.id);
+    }
+
+    // ---- Compute ----
+    const catalog = await loadCatalog(supabaseAdmin);
+    const state = resolveCabinetState(parsedConfig);
+    const hw = parseHardwareSelection(hardware, catalog);
+    const presetName = typeof name === "string" && name.trim() && name !== "Custom" ? name.trim() : null;
+    const dateStr = new Date().toISOString().split("T")[0];
+
+    const parts = computeCutList(state);
+    const sheetGoods = computeSheetGoods(parts);
+    const hardwareSchedule = computeHardwareSchedule(state, hw, catalog);
+    const cost = computeCostSummary(state, hw, catalog, outputUnits);
+    const csvTitle = presetName ?? "Custom Configuration";
+
+    // ---- File downloads ----
+    if (format !== "json") {
+      if (!fullAccess) {
+        return new Response(
+          JSON.stringify({ error: "Purchase this configuration to download its files", config_hash: configHash }),
+          { status: 402, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const isCsv = format === "csv";
+      const body = isCsv
+        ? generateCSV(state, hw, csvTitle, dateStr, catalog, outputUnits)
+        : generateDXF(state, outputUnits);
+      const fileName = isCsv
+        ? `PIF_BOM_${fileStem(presetName, dateStr)}.csv`
+        : `PIF_CutParts_${dateStr}.dxf`;
+
+      return new Response(body, {
+        status: 200,
+        headers: {
+          ...corsHeaders,
+          "Content-Type": isCsv ? "text/csv" : "application/dxf",
+          "Content-Disposition": `attachment; filename="${fileName}"`,
+        },
+      });
+    }
+
+    // ---- Preview (no access) ----
+    if (!fullAccess) {
+      return new Response(
+        JSON.stringify({
+          full: false,
+          config_hash: configHash,
+          units: outputUnits,
+          parts: cutListInUnits(parts, outputUnits)
+            .map((p) => ({ name: p.name, qty: p.qty, type: p.type, t: p.t, material: p.material })),
+          sheet_goods: sheetGoodsInUnits(sheetGoods, outputUnits),
+          hardware: hardwareSchedule,
+          cost,
+        }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ---- Full output ----
+    return new Response(
+      JSON.stringify({
+        full: true,
+        config_hash: configHash,
+        units: outputUnits,
+        parts: cutListInUnits(parts, outputUnits),
+        sheet_goods: sheetGoodsInUnits(sheetGoods, outputUnits),
+        hardware: hardwareSchedule,
+        cost,
+        csv: generateCSV(state, hw, csvTitle, dateStr, catalog, outputUnits),
+        dxf: generateDXF(state, outputUnits),
+        files: {
+          csv: `PIF_BOM_${fileStem(presetName, dateStr)}.csv`,
+          dxf: `PIF_CutParts_${dateStr}.dxf`,
+        },
+      }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+
+  } catch (err) {
+    console.error("[generate-cut-list] Unhandled error:", err);
+    return new Response(
+      JSON.stringify({ error: "Internal server error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -0,0 +1,204 @@
+// =============================================================================
+// PIF Selection-Connection — generate-lamiform
+// POST /generate-lamiform
+// Accepts: { params, name?, entitlement?, format?: "json" | "dxf" }
+// Runs lamiform.html's slice computation, material summary, slice method
+// recommendation and DXF on the server (_shared/lamiform.ts).
+// params are LamiForm parameters — profileType, sliceDirection, alignMethod
+// and the page's sliders (height, topWidth, bottomWidth, taperStart,
+// curveFactor, materialThickness, sheetPrice); missing keys take the page
+// defaults. Invalid designs are rejected (422, with every issue listed).
+//
+// Same access rules as generate-cut-list. Full output (slice radii and
+// sizes, sheet-laid-out DXF) is released only to:
+//   - a buyer whose LamiForm entitlement covers these exact params (bought
+//     with create-config-checkout kind "lamiform"; a cabinet entitlement
+//     doesn't count)
+//   - the admin, for shop automation (Authorization: Bearer <admin JWT>)
+// Anyone else gets a preview: slice count, material summary and the
+// recommendation. format=dxf returns the file itself (402 without access).
+// =============================================================================
+
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { hashConfig, hasEntitlement, parseConfig } from "../_shared/entitlements.ts";
+import {
+  computeMaterialSummary,
+  computeSlices,
+  generateLamiFormDXF,
+  getSliceRecommendation,
+  parseLamiFormParams,
+} from "../_shared/lamiform.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+// TODO: Replace with actual admin member UUID(s) or use a role check
+const ADMIN_MEMBER_ID = Deno.env.get("ADMIN_MEMBER_ID") ?? "REPLACE_WITH_ADMIN_UUID";
+
+const OUTPUT_FORMATS = ["json", "dxf"];
+
+/** Sheet label when no preset name is given. */
+const DEFAULT_NAME = "Custom LamiForm";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Extract the authenticated user from the Authorization header. */
+async function getAuthUser(
+  req: Request,
+  supabase: ReturnType<typeof createClient>
+) {
+  const authHeader = req.headers.get("Authorization");
+  if (!authHeader) return null;
+
+  const token = authHeader.replace("Bearer ", "");
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data.user) return null;
+  return data.user;
+}
+
+/** Check if a user is the platform admin. */
+function isAdmin(userId: string): boolean {
+  // TODO: Expand to support multiple admins or an admin role in member_roles
+  return userId === ADMIN_MEMBER_ID;
+}
+
+// ---------------------------------------------------------------------------
+// Main handler
+// ---------------------------------------------------------------------------
+
+serve(async (req: Request) => {
+  // ---- CORS preflight ----
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    // ---- Method guard ----
+    if (req.method !== "POST") {
+      return new Response(
+        JSON.stringify({ error: "Method not allowed" }),
+        { status: 405, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ---- Init Supabase admin client ----
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    // ---- Parse request body ----
+    const { params, name, entitlement, format = "json" } = await req.json();
+
+    const parsedConfig = parseConfig(params);
+    if (!parsedConfig) {
+      return new Response(
+        JSON.stringify({ error: "params must be an object of LamiForm parameter values" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (!OUTPUT_FORMATS.includes(format)) {
+      return new Response(
+        JSON.stringify({ error: `format must be one of: ${OUTPUT_FORMATS.join(", ")}` }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { params: lamiForm, issues } = parseLamiFormParams(parsedConfig);
+    if (!lamiForm) {
+      return new Response(
+        JSON.stringify({ error: "Invalid LamiForm parameters", issues }),
+        { status: 422, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ---- Access: LamiForm entitlement for these params, or admin ----
+    const configHash = await hashConfig(parsedConfig, "lamiform");
+    let fullAccess = false;
+
+    if (entitlement) {
+      fullAccess = await hasEntitlement(supabaseAdmin, entitlement, configHash, "lamiform");
+    }
+    if (!fullAccess) {
+      const user = await getAuthUser(req, supabaseAdmin);
+      fullAccess = !!user && isAdmin(user.id);
+    }
+
+    // ---- Compute ----
+    const presetName = typeof name === "string" && name.trim() ? name.trim() : DEFAULT_NAME;
+    const dateStr = new Date().toISOString().split("T")[0];
+    const fileName = `PIF_LamiForm_${presetName.replace(/[^a-zA-Z0-9]/g, "_")}_${dateStr}.dxf`;
+
+    const slices = computeSlices(lamiForm);
+    const material = computeMaterialSummary(lamiForm, slices);
+    const recommendation = getSliceRecommendation(lamiForm);
+
+    // ---- File download ----
+    if (format === "dxf") {
+      if (!fullAccess) {
+        return new Response(
+          JSON.stringify({ error: "Purchase this design to download its files", config_hash: configHash }),
+          { status: 402, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      return new Response(generateLamiFormDXF(lamiForm, presetName), {
+        status: 200,
+        headers: {
+          ...corsHeaders,
+          "Content-Type": "application/dxf",
+          "Content-Disposition": `attachment; filename="${fileName}"`,
+        },
+      });
+    }
+
+    // ---- Preview (no access) ----
+    if (!fullAccess) {
+      return new Response(
+        JSON.stringify({
+          full: false,
+          config_hash: configHash,
+          params: lamiForm,
+          material,
+          recommendation,
+          warnings: issues,
+        }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ---- Full output ----
+    return new Response(
+      JSON.stringify({
+        full: true,
+        config_hash: configHash,
+        params: lamiForm,
+        slices,
+        material,
+        recommendation,
+        warnings: issues,
+        dxf: generateLamiFormDXF(lamiForm, presetName),
+        files: { dxf: fileName },
+      }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+
+  } catch (err) {
+    console.error("[generate-lamiform] Unhandled error:", err);
+    return new Response(
+      JSON.stringify({ error: "Internal server error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -0,0 +1,193 @@
+// =============================================================================
+// PIF Selection-Connection — gh-interchange
+// POST /gh-interchange
+//   { action: "export", config, hardware?, name? }
+//     → the web → GH document for one configuration (config is configurator
+//       state; missing keys take their defaults)
+//   { action: "compare", document, tolerances? }
+//     → diff report of a GH → web document against the server-side cut list
+// Requires auth + admin check (hardcoded admin member ID): the export carries
+// the full cut list, like generate-cut-list's full output.
+//
+// Format and tolerances: _shared/gh-interchange.ts (schema
+// "pif-gh-interchange"). A document that can't be read is rejected (422, with
+// every issue listed); a readable one always gets a report, with passed =
+// false on any mismatch.
+// =============================================================================
+
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { loadCatalog } from "../_shared/catalog.ts";
+import { parseHardwareSelection, resolveCabinetState } from "../_shared/cutlist.ts";
+import { hashConfig, parseConfig } from "../_shared/entitlements.ts";
+import {
+  compareInterchange,
+  exportInterchange,
+  parseInterchangeImport,
+  parseTolerances,
+} from "../_shared/gh-interchange.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/**
+ * Hardcoded admin member ID (same as admin-overrides).
+ * TODO: Move to env var or a dedicated admins table for production.
+ */
+const ADMIN_MEMBER_ID = Deno.env.get("ADMIN_MEMBER_ID") ?? "REPLACE_WITH_ADMIN_UUID";
+
+const ACTIONS = ["export", "compare"];
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Extract the authenticated user from the Authorization header. */
+async function getAuthUser(
+  req: Request,
+  supabase: ReturnType<typeof createClient>
+) {
+  const authHeader = req.headers.get("Authorization");
+  if (!authHeader) return null;
+
+  const token = authHeader.replace("Bearer ", "");
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data.user) return null;
+  return data.user;
+}
+
+/** Check if the authenticated user is an admin. */
+function isAdmin(userId: string): boolean {
+  // TODO: Expand to support multiple admins or an admin role in member_roles
+  return userId === ADMIN_MEMBER_ID;
+}
+
+// ---------------------------------------------------------------------------
+// Route handlers
+// ---------------------------------------------------------------------------
+
+/** export — web → GH document. */
+async function handleExport(
+  supabase: ReturnType<typeof createClient>,
+  body: Record<string, unknown>
+): Promise<Response> {
+  const parsedConfig = parseConfig(body.config);
+  if (!parsedConfig) {
+    return new Response(
+      JSON.stringify({ error: "config must be an object of configurator parameter values" }),
+      { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  const catalog = await loadCatalog(supabase);
+  const hardware = parseHardwareSelection(body.hardware, catalog);
+  const name = typeof body.name === "string" && body.name.trim() && body.name !== "Custom" ? body.name.trim() : null;
+  const configHash = await hashConfig(resolveCabinetState(parsedConfig));
+
+  return new Response(
+    JSON.stringify(exportInterchange(parsedConfig, hardware, name, configHash)),
+    { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+  );
+}
+
+/** compare — diff report for a GH → web document. */
+async function handleCompare(body: Record<string, unknown>): Promise<Response> {
+  const tolerances = parseTolerances(body.tolerances);
+  if (!tolerances) {
+    return new Response(
+      JSON.stringify({ error: "tolerances must be { dimension?, thickness?, sheets? } of non-negative numbers" }),
+      { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  const { doc, issues } = parseInterchangeImport(body.document);
+  if (!doc) {
+    return new Response(
+      JSON.stringify({ error: "Interchange document failed validation", issues }),
+      { status: 422, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  const configHash = await hashConfig(resolveCabinetState(doc.config));
+  const report = compareInterchange(doc, tolerances, configHash);
+
+  return new Response(
+    JSON.stringify({ ...report, source: doc.source, config_hash: configHash, warnings: issues }),
+    { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Main handler
+// ---------------------------------------------------------------------------
+
+serve(async (req: Request) => {
+  // ---- CORS preflight ----
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    // ---- Method guard ----
+    if (req.method !== "POST") {
+      return new Response(
+        JSON.stringify({ error: "Method not allowed" }),
+        { status: 405, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ---- Init Supabase admin client ----
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    // ---- Auth check ----
+    const user = await getAuthUser(req, supabaseAdmin);
+    if (!user) {
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ---- Admin check ----
+    if (!isAdmin(user.id)) {
+      return new Response(
+        JSON.stringify({ error: "Admin access required" }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ---- Route by action ----
+    const body = (await req.json()) ?? {};
+
+    switch (body.action) {
+      case "export":
+        return await handleExport(supabaseAdmin, body);
+
+      case "compare":
+        return await handleCompare(body);
+
+      default:
+        return new Response(
+          JSON.stringify({ error: `action must be one of: ${ACTIONS.join(", ")}` }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+    }
+
+  } catch (err) {
+    console.error("[gh-interchange] Unhandled error:", err);
+    return new Response(
+      JSON.stringify({ error: "Internal server error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -3,10 +3,14 @@
 // POST /list-file
 // Accepts: { file_id }
 // Requires auth. Transitions a validated file from 'uploaded' to 'listed' stage.
+// A file with the same SHA-256 as another member's listed file (flagged at
+// upload, or found now) is refused until an admin clears it
+// (admin-overrides clear_duplicate sets duplicate_cleared_at).
 // =============================================================================
 
 import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { findListedDuplicate } from "../_shared/uploads.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -79,7 +83,7 @@ serve(async (req: Request) => {
     // ---- Fetch the file record ----
     const { data: fileRow, error: fetchError } = await supabaseAdmin
       .from("files")
-      .select("id, uploader_id, validation_passed, stage")
+      .select("id, uploader_id, validation_passed, stage, checksum_sha256, duplicate_of_file_id, duplicate_cleared_at")
       .eq("id", file_id)
       .single();
 
@@ -117,6 +121,35 @@ serve(async (req: Request) => {
       );
     }
 
+    // ---- Duplicate hold ----
+    // Re-checked here too: the matching file may have been listed after upload
+    if (!fileRow.duplicate_cleared_at) {
+      let duplicateOf: string | null = fileRow.duplicate_of_file_id;
+      if (!duplicateOf && fileRow.checksum_sha256) {
+        const duplicate = await findListedDuplicate(supabaseAdmin, fileRow.checksum_sha256, fileRow.uploader_id);
+        if (duplicate) {
+          duplicateOf = duplicate.id;
+          const { error: flagError } = await supabaseAdmin
+            .from("files")
+            .update({ duplicate_of_file_id: duplicate.id })
+            .eq("id", file_id);
+          if (flagError) {
+            console.warn("[list-file] Duplicate flag warning:", flagError.message);
+          }
+        }
+      }
+
+      if (duplicateOf) {
+        return new Response(
+          JSON.stringify({
+            error: "File matches another member's listed file and is held for review",
+            duplicate_of_file_id: duplicateOf,
+          }),
+          { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+    }
+
     // ---- Update stage to 'listed' ----
     const { error: updateError } = await supabaseAdmin
       .from("files")
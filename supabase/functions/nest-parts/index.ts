@@ -0,0 +1,221 @@
+// =============================================================================
+// PIF Selection-Connection — nest-parts
+// POST /nest-parts
+// Accepts: { parts } or { config, entitlement? }
+//          plus optional { stock, kerf, trim, min_offcut: { long, short } }
+// Nests sheet-goods parts onto stock (_shared/nesting.ts) and returns sheet
+// layouts, yield and reusable offcuts.
+//   - parts   cut parts in the generate-cut-list shape
+//             ({ name, qty, w, h, t, grainLock, notch? }), in inches (ask
+//             generate-cut-list for units "inches"); anyone may nest their
+//             own parts
+//   - config  configurator state; its sheet parts come from the cut list, so
+//             like generate-cut-list it needs an entitlement covering config
+//             (or the admin's JWT), else 402
+// Either way at most MAX_PIECES pieces after qty expansion are nested (400);
+// a config's counts are clamped to the sliders' ranges before its cut list
+// is built.
+// stock defaults to 4x8 sheets in every thickness with grain along the 96".
+// =============================================================================
+
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { computeCutList, resolveCabinetState } from "../_shared/cutlist.ts";
+import { hashConfig, hasEntitlement, parseConfig } from "../_shared/entitlements.ts";
+import {
+  DEFAULT_KERF,
+  DEFAULT_MIN_OFFCUT,
+  DEFAULT_STOCK,
+  MAX_PIECES,
+  NestPart,
+  nestParts,
+  parseNestParts,
+  parseStockSheets,
+} from "../_shared/nesting.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+// TODO: Replace with actual admin member UUID(s) or use a role check
+const ADMIN_MEMBER_ID = Deno.env.get("ADMIN_MEMBER_ID") ?? "REPLACE_WITH_ADMIN_UUID";
+
+/** Sanity bounds on cutting settings, in inches. */
+const MAX_KERF = 0.5;
+const MAX_TRIM = 2;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Extract the authenticated user from the Authorization header. */
+async function getAuthUser(
+  req: Request,
+  supabase: ReturnType<typeof createClient>
+) {
+  const authHeader = req.headers.get("Authorization");
+  if (!authHeader) return null;
+
+  const token = authHeader.replace("Bearer ", "");
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data.user) return null;
+  return data.user;
+}
+
+/** Check if a user is the platform admin. */
+function isAdmin(userId: string): boolean {
+  // TODO: Expand to support multiple admins or an admin role in member_roles
+  return userId === ADMIN_MEMBER_ID;
+}
+
+function isLength(value: unknown, max: number): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0 && value <= max;
+}
+
+// ---------------------------------------------------------------------------
+// Main handler
+// ---------------------------------------------------------------------------
+
+serve(async (req: Request) => {
+  // ---- CORS preflight ----
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    // ---- Method guard ----
+    if (req.method !== "POST") {
+      return new Response(
+        JSON.stringify({ error: "Method not allowed" }),
+        { status: 405, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ---- Init Supabase admin client ----
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    // ---- Parse request body ----
+    const {
+      parts,
+      config,
+      entitlement,
+      stock,
+      kerf = DEFAULT_KERF,
+      trim = 0,
+      min_offcut = DEFAULT_MIN_OFFCUT,
+    } = await req.json();
+
+    if (!parts && !config) {
+      return new Response(
+        JSON.stringify({ error: "Provide parts or config" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (!isLength(kerf, MAX_KERF) || !isLength(trim, MAX_TRIM)) {
+      return new Response(
+        JSON.stringify({ error: `kerf must be 0–${MAX_KERF}" and trim 0–${MAX_TRIM}"` }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (!min_offcut || !isLength(min_offcut.long, Infinity) || !isLength(min_offcut.short, Infinity)) {
+      return new Response(
+        JSON.stringify({ error: "min_offcut must be { long, short } in inches" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const stockSheets = stock === undefined ? DEFAULT_STOCK : parseStockSheets(stock);
+    if (!stockSheets) {
+      return new Response(
+        JSON.stringify({ error: "stock must be a list of { w, h, thickness?, qty?, grain?, offcut? }" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ---- Resolve parts ----
+    let nestList: NestPart[] | null;
+
+    if (parts) {
+      nestList = parseNestParts(parts);
+      if (!nestList) {
+        return new Response(
+          JSON.stringify({ error: `parts must be a list of { name, qty, w, h, t, grainLock? } (${MAX_PIECES} pieces max)` }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+    } else {
+      const parsedConfig = parseConfig(config);
+      if (!parsedConfig) {
+        return new Response(
+          JSON.stringify({ error: "config must be an object of configurator parameter values" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      // ---- Access: entitlement for this config, or admin ----
+      const configHash = await hashConfig(parsedConfig);
+      let fullAccess = false;
+      if (entitlement) {
+        fullAccess = await hasEntitlement(supabaseAdmin, entitlement, configHash);
+      }
+      if (!fullAccess) {
+        const user = await getAuthUser(req, supabaseAdmin);
+        fullAccess = !!user && isAdmin(user.id);
+      }
+      if (!fullAccess) {
+        return new Response(
+          JSON.stringify({ error: "Purchase this configuration to nest its parts", config_hash: configHash }),
+          { status: 402, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      // resolveCabinetState clamps every count to its slider range (ShelfCount
+      // 12, DoorCount 4, DrawerCount 6, ZS_DadoCount 3), so the cut list
+      // built from it stays small whatever the request says
+      const state = resolveCabinetState(parsedConfig);
+
+      // Lumber parts (stretchers, face frame) come from boards, not sheets
+      nestList = computeCutList(state)
+        .filter((p) => p.material === "sheet" && p.qty > 0 && p.w > 0 && p.h > 0);
+
+      // Same cap as a parts list
+      const pieces = nestList.reduce((sum, p) => sum + p.qty, 0);
+      if (pieces > MAX_PIECES) {
+        return new Response(
+          JSON.stringify({ error: `This configuration has ${pieces} sheet pieces; at most ${MAX_PIECES} can be nested` }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+    }
+
+    // ---- Nest ----
+    const result = nestParts(nestList, stockSheets, {
+      kerf,
+      trim,
+      minOffcut: { long: min_offcut.long, short: min_offcut.short },
+    });
+
+    return new Response(
+      JSON.stringify({ kerf, trim, ...result }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+
+  } catch (err) {
+    console.error("[nest-parts] Unhandled error:", err);
+    return new Response(
+      JSON.stringify({ error: "Internal server error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -0,0 +1,376 @@
+// =============================================================================
+// PIF Selection-Connection — process-payouts
+// POST /process-payouts
+// Scheduled worker (pg_cron, see migration 006). Requires the service role key
+// as the Bearer token. Transfers pending payouts rows to each member's
+// connected account (via the payment provider) and retries failed transfers
+// with exponential backoff.
+//
+// For each due payout:
+//   - skip entirely while the `payouts` override is disabled
+//   - defer (without using up an attempt) if the order isn't paid or the
+//     member has no payout-enabled Stripe account yet
+//   - create a transfer with an idempotency key derived from the
+//     payout id, then record stripe_transfer_id / transferred_at
+//   - on error mark the row failed with the reason and schedule a retry
+//   - if the transfer went through but the row can't be updated, record it
+//     in payout_reconciliations (outcome needs_reconciliation) for an admin
+// =============================================================================
+
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getPaymentProvider, PaymentProvider } from "../_shared/payments/index.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Maximum payouts handled per invocation. */
+const BATCH_SIZE = 50;
+
+/** Transfer attempts before a payout is left failed for manual review. */
+const MAX_TRANSFER_ATTEMPTS = 8;
+
+/** First retry delay; doubles on each subsequent failure. */
+const BASE_RETRY_DELAY_MS = 15 * 60 * 1000; // 15 minutes
+
+/** Upper bound for the retry delay. */
+const MAX_RETRY_DELAY_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+/** How long to wait before re-checking a payout that isn't payable yet. */
+const DEFER_DELAY_MS = 6 * 60 * 60 * 1000; // 6 hours
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface DuePayout {
+  id: string;
+  order_id: string;
+  member_id: string;
+  amount_cents: number;
+  status: string;
+  attempts: number;
+  orders: { payment_status: string } | null;
+  members: { payout_enabled: boolean; stripe_account_id: string | null } | null;
+}
+
+type PayoutOutcome = "transferred" | "failed" | "deferred" | "needs_reconciliation";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Only the scheduler (service role key) may trigger transfers. */
+function isServiceRoleRequest(req: Request): boolean {
+  const authHeader = req.headers.get("Authorization");
+  const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  if (!authHeader || !serviceKey) return false;
+  return authHeader.replace("Bearer ", "") === serviceKey;
+}
+
+/** Check whether payouts are enabled via override_controls. */
+async function isPayoutsEnabled(
+  supabase: ReturnType<typeof createClient>
+): Promise<boolean> {
+  const { data, error } = await supabase
+    .from("override_controls")
+    .select("enabled")
+    .eq("feature_key", "payouts")
+    .single();
+
+  if (error || !data) return false;
+  return data.enabled === true;
+}
+
+/** Shape the joined payouts query rows; to-one embeds may come back as arrays. */
+function toDuePayout(row: Record<string, unknown>): DuePayout {
+  const one = <T>(value: unknown): T | null =>
+    ((Array.isArray(value) ? value[0] : value) ?? null) as T | null;
+  return {
+    id: row.id as string,
+    order_id: row.order_id as string,
+    member_id: row.member_id as string,
+    amount_cents: Number(row.amount_cents),
+    status: row.status as string,
+    attempts: Number(row.attempts ?? 0),
+    orders: one<DuePayout["orders"]>(row.orders),
+    members: one<DuePayout["members"]>(row.members),
+  };
+}
+
+/**
+ * Keep a record of a transfer whose payout row couldn't be updated: stamp
+ * the transfer id on the row whatever its status, and log it for an admin
+ * in payout_reconciliations. Either write alone is enough to find it again.
+ */
+async function recordUnreconciledTransfer(
+  supabase: ReturnType<typeof createClient>,
+  payout: DuePayout,
+  transferId: string,
+  reason: string
+): Promise<void> {
+  const { error: stampError } = await supabase
+    .from("payouts")
+    .update({ stripe_transfer_id: transferId, status_reason: `Needs reconciliation: ${reason}` })
+    .eq("id", payout.id);
+
+  const { error: logError } = await supabase
+    .from("payout_reconciliations")
+    .upsert(
+      { payout_id: payout.id, transfer_id: transferId, amount_cents: payout.amount_cents, reason },
+      { onConflict: "payout_id,transfer_id", ignoreDuplicates: true }
+    );
+
+  if (stampError && logError) {
+    console.error(
+      "[process-payouts] Transfer not recorded anywhere — reconcile by hand:",
+      payout.id,
+      transferId,
+      stampError.message,
+      logError.message
+    );
+  }
+}
+
+/** Exponential backoff for the given (1-based) attempt number. */
+function retryDelayMs(attempt: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempt - 1), MAX_RETRY_DELAY_MS);
+}
+
+/** Push a not-yet-payable payout back without counting it as an attempt. */
+async function deferPayout(
+  supabase: ReturnType<typeof createClient>,
+  payout: DuePayout,
+  reason: string
+): Promise<PayoutOutcome> {
+  await supabase
+    .from("payouts")
+    .update({
+      status_reason: reason,
+      next_attempt_at: new Date(Date.now() + DEFER_DELAY_MS).toISOString(),
+    })
+    .eq("id", payout.id)
+    .eq("status", payout.status);
+
+  console.log("[process-payouts] Deferred payout:", payout.id, reason);
+  return "deferred";
+}
+
+/** Transfer a single payout and record the outcome. */
+async function processPayout(
+  supabase: ReturnType<typeof createClient>,
+  provider: PaymentProvider,
+  payout: DuePayout
+): Promise<PayoutOutcome> {
+  // ---- Payability checks ----
+  if (payout.orders?.payment_status !== "paid") {
+    return await deferPayout(supabase, payout, `Order is ${payout.orders?.payment_status ?? "missing"}`);
+  }
+
+  const destination = payout.members?.stripe_account_id;
+  if (!payout.members?.payout_enabled || !destination) {
+    return await deferPayout(supabase, payout, "Member has no payout-enabled connected account");
+  }
+
+  const attempt = (payout.attempts ?? 0) + 1;
+  const now = new Date();
+
+  // ---- Create (or recover) the transfer ----
+  let transferId: string | null = null;
+  let failureReason: string | null = null;
+
+  // Stripe forgets idempotency keys after 24 hours, so look for a transfer
+  // from an earlier run (whose database write was lost) before creating one.
+  const { data: existing, error: lookupError } = await provider.findTransfer(
+    destination,
+    payout.order_id,
+    payout.id
+  );
+
+  if (lookupError || !existing) {
+    failureReason = lookupError ?? "Transfer lookup returned nothing";
+  } else if (existing.transfer_id) {
+    transferId = existing.transfer_id;
+  } else {
+    const { data: transfer, error } = await provider.createTransfer({
+      amount_cents: payout.amount_cents,
+      currency: "usd",
+      destination,
+      transfer_group: payout.order_id,
+      metadata: { payout_id: payout.id, order_id: payout.order_id },
+      idempotency_key: `payout-transfer-${payout.id}`,
+    });
+
+    if (error || !transfer) {
+      failureReason = error ?? "Provider returned no transfer";
+    } else {
+      transferId = transfer.transfer_id;
+    }
+  }
+
+  // ---- Failure: mark failed and schedule a retry ----
+  if (!transferId) {
+    const exhausted = attempt >= MAX_TRANSFER_ATTEMPTS;
+    await supabase
+      .from("payouts")
+      .update({
+        status: "failed",
+        status_reason: failureReason,
+        attempts: attempt,
+        last_attempt_at: now.toISOString(),
+        next_attempt_at: exhausted
+          ? null
+          : new Date(now.getTime() + retryDelayMs(attempt)).toISOString(),
+      })
+      .eq("id", payout.id)
+      .eq("status", payout.status);
+
+    console.error(
+      `[process-payouts] Transfer failed for payout ${payout.id} (attempt ${attempt}):`,
+      failureReason
+    );
+    return "failed";
+  }
+
+  // ---- Success: record the transfer ----
+  const { data: updated, error: updateError } = await supabase
+    .from("payouts")
+    .update({
+      status: "transferred",
+      stripe_transfer_id: transferId,
+      transferred_at: now.toISOString(),
+      status_reason: null,
+      attempts: attempt,
+      last_attempt_at: now.toISOString(),
+      next_attempt_at: null,
+    })
+    .eq("id", payout.id)
+    .eq("status", payout.status)
+    .select("id");
+
+  if (updateError || !updated || updated.length === 0) {
+    // The money moved but the row changed underneath us (e.g. cancelled by a
+    // refund in the meantime) or couldn't be written
+    const reason = updateError
+      ? `Payout update failed: ${updateError.message}`
+      : `Payout was no longer ${payout.status} when the transfer completed`;
+    console.error(
+      "[process-payouts] Transfer created but payout row not updated — needs reconciliation:",
+      payout.id,
+      transferId,
+      reason
+    );
+    await recordUnreconciledTransfer(supabase, payout, transferId, reason);
+    return "needs_reconciliation";
+  }
+
+  console.log("[process-payouts] Transferred payout:", payout.id, transferId);
+  return "transferred";
+}
+
+// ---------------------------------------------------------------------------
+// Main handler
+// ---------------------------------------------------------------------------
+
+serve(async (req: Request) => {
+  // ---- CORS preflight ----
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    // ---- Method guard ----
+    if (req.method !== "POST") {
+      return new Response(
+        JSON.stringify({ error: "Method not allowed" }),
+        { status: 405, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ---- Auth check (scheduler only) ----
+    if (!isServiceRoleRequest(req)) {
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ---- Init Supabase admin client ----
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    // ---- Override check ----
+    const payoutsEnabled = await isPayoutsEnabled(supabaseAdmin);
+    if (!payoutsEnabled) {
+      console.log("[process-payouts] Payouts are disabled — skipping run");
+      return new Response(
+        JSON.stringify({ skipped: true, reason: "Payouts are currently disabled" }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ---- Provider must support Connect-style transfers ----
+    const provider = getPaymentProvider();
+    if (!provider.supportsTransfers) {
+      console.log("[process-payouts] Provider does not support transfers:", provider.name);
+      return new Response(
+        JSON.stringify({ skipped: true, reason: `${provider.name} does not support transfers` }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ---- Fetch due payouts ----
+    const nowIso = new Date().toISOString();
+    const { data: duePayouts, error: fetchError } = await supabaseAdmin
+      .from("payouts")
+      .select(
+        "id, order_id, member_id, amount_cents, status, attempts, orders(payment_status), members(payout_enabled, stripe_account_id)"
+      )
+      .in("status", ["pending", "failed"])
+      .lt("attempts", MAX_TRANSFER_ATTEMPTS)
+      .or(`next_attempt_at.is.null,next_attempt_at.lte.${nowIso}`)
+      .order("created_at", { ascending: true })
+      .limit(BATCH_SIZE);
+
+    if (fetchError) {
+      console.error("[process-payouts] Failed to fetch payouts:", fetchError.message);
+      return new Response(
+        JSON.stringify({ error: "Failed to fetch payouts" }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ---- Process sequentially to keep Stripe rate limits predictable ----
+    const summary = { processed: 0, transferred: 0, failed: 0, deferred: 0, needs_reconciliation: 0 };
+
+    for (const payout of (duePayouts ?? []).map(toDuePayout)) {
+      const outcome = await processPayout(supabaseAdmin, provider, payout);
+      summary.processed++;
+      summary[outcome]++;
+    }
+
+    console.log("[process-payouts] Run complete:", summary);
+
+    // ---- Success ----
+    return new Response(
+      JSON.stringify(summary),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+
+  } catch (err) {
+    console.error("[process-payouts] Unhandled error:", err);
+    return new Response(
+      JSON.stringify({ error: "Internal server error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -0,0 +1,163 @@
+// =============================================================================
+// PIF Selection-Connection — product-catalog
+// GET /product-catalog?kind=&category=&version=
+//   (or POST with the same fields as JSON, for supabase.functions.invoke)
+//   kind      "presets" | "products" | "all" (default)
+//   category  only presets / products in this category, e.g. "Kitchen"
+//   version   a catalog version number (default: the latest import)
+// Public, no auth. Presets and products come back in the ChassisPresets.json /
+// StandardProducts.json shapes, with the catalog version they belong to, so
+// the configurator, library.html and the GH definition can all pin the same
+// revision. Imported by admin-product-catalog (migration 017).
+// =============================================================================
+
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  ChassisPresetRow,
+  findCatalogVersion,
+  presetsToFileShape,
+  productsToFileShape,
+  StandardProductRow,
+} from "../_shared/product-catalog.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const KINDS = ["presets", "products", "all"];
+
+/** Only the latest version can change (by a new import); pinned ones never do. */
+const CACHE_CONTROL_LATEST = "public, max-age=300";
+const CACHE_CONTROL_PINNED = "public, max-age=86400, immutable";
+
+// ---------------------------------------------------------------------------
+// Main handler
+// ---------------------------------------------------------------------------
+
+serve(async (req: Request) => {
+  // ---- CORS preflight ----
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    // ---- Method guard ----
+    if (req.method !== "GET" && req.method !== "POST") {
+      return new Response(
+        JSON.stringify({ error: "Method not allowed" }),
+        { status: 405, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ---- Init Supabase admin client ----
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    // ---- Parse parameters ----
+    let params: Record<string, unknown> = {};
+    if (req.method === "POST") {
+      params = (await req.json().catch(() => null)) ?? {};
+    } else {
+      params = Object.fromEntries(new URL(req.url).searchParams);
+    }
+
+    const kind = params.kind ?? "all";
+    if (typeof kind !== "string" || !KINDS.includes(kind)) {
+      return new Response(
+        JSON.stringify({ error: `kind must be one of: ${KINDS.join(", ")}` }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const category = params.category ?? null;
+    if (category !== null && (typeof category !== "string" || !category.trim())) {
+      return new Response(
+        JSON.stringify({ error: "category must be a category name" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    let version: number | null = null;
+    if (params.version !== undefined && params.version !== null && params.version !== "") {
+      version = Number(params.version);
+      if (!Number.isInteger(version) || version < 1) {
+        return new Response(
+          JSON.stringify({ error: "version must be a catalog version number" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+    }
+
+    // ---- Resolve the version ----
+    const catalogVersion = await findCatalogVersion(supabaseAdmin, version);
+    if (!catalogVersion) {
+      return new Response(
+        JSON.stringify({ error: version === null ? "No catalog has been imported yet" : `Catalog version ${version} not found` }),
+        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const response: Record<string, unknown> = {
+      version: catalogVersion.version,
+      imported_at: catalogVersion.imported_at,
+      presets_schema_version: catalogVersion.presets_schema_version,
+      products_schema_version: catalogVersion.products_schema_version,
+      category,
+      pricing: catalogVersion.pricing,
+    };
+
+    // ---- Presets ----
+    if (kind !== "products") {
+      let query = supabaseAdmin
+        .from("chassis_presets")
+        .select("name, category, params, sort_order")
+        .eq("catalog_version", catalogVersion.version);
+      if (category) query = query.eq("category", category);
+
+      const { data, error } = await query;
+      if (error) throw new Error(`Failed to load presets: ${error.message}`);
+      response.presets = presetsToFileShape((data ?? []) as ChassisPresetRow[]);
+    }
+
+    // ---- Products ----
+    if (kind !== "presets") {
+      let query = supabaseAdmin
+        .from("standard_products")
+        .select("*")
+        .eq("catalog_version", catalogVersion.version);
+      if (category) query = query.eq("category", category);
+
+      const { data, error } = await query;
+      if (error) throw new Error(`Failed to load products: ${error.message}`);
+      response.products = productsToFileShape((data ?? []) as StandardProductRow[]);
+    }
+
+    return new Response(
+      JSON.stringify(response),
+      {
+        status: 200,
+        headers: {
+          ...corsHeaders,
+          "Content-Type": "application/json",
+          "Cache-Control": version === null ? CACHE_CONTROL_LATEST : CACHE_CONTROL_PINNED,
+        },
+      }
+    );
+
+  } catch (err) {
+    console.error("[product-catalog] Unhandled error:", err);
+    return new Response(
+      JSON.stringify({ error: "Internal server error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
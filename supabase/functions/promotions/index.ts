@@ -0,0 +1,400 @@
+// =============================================================================
+// PIF Selection-Connection — promotions
+// GET   /promotions   — list promo codes (admins: all, members: their own)
+// POST  /promotions   — create a code
+//   Accepts: { code, description?, discount_type, percent_off?, amount_off_cents?,
+//              scope_type, scope_value?, starts_at?, expires_at?,
+//              max_redemptions?, max_per_buyer? }
+// PATCH /promotions   — update a code: { id, active?, expires_at?, max_redemptions? }
+// Requires auth. Originators may create codes scoped to their own files,
+// families or themselves; admins create platform-wide codes with any scope.
+// =============================================================================
+
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  isValidPromoCode,
+  normalizePromoCode,
+  ORIGINATOR_PROMO_SCOPES,
+  PROMO_DISCOUNT_TYPES,
+  PROMO_SCOPE_TYPES,
+  PromoDiscountType,
+  PromoScopeType,
+} from "../_shared/promotions.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "GET, POST, PATCH, OPTIONS",
+};
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/**
+ * Hardcoded admin member ID (same as admin-overrides).
+ * TODO: Move to env var or a dedicated admins table for production.
+ */
+const ADMIN_MEMBER_ID = Deno.env.get("ADMIN_MEMBER_ID") ?? "REPLACE_WITH_ADMIN_UUID";
+
+const PROMO_COLUMNS =
+  "id, code, description, created_by, is_platform, discount_type, percent_off, amount_off_cents, scope_type, scope_value, starts_at, expires_at, max_redemptions, max_per_buyer, redemption_count, active, created_at";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface Caller {
+  member_id: string | null;
+  is_admin: boolean;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Extract the authenticated user from the Authorization header. */
+async function getAuthUser(
+  req: Request,
+  supabase: ReturnType<typeof createClient>
+) {
+  const authHeader = req.headers.get("Authorization");
+  if (!authHeader) return null;
+
+  const token = authHeader.replace("Bearer ", "");
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data.user) return null;
+  return data.user;
+}
+
+/** Check if the authenticated user is an admin. */
+function isAdmin(userId: string): boolean {
+  // TODO: Expand to support multiple admins or an admin role in member_roles
+  return userId === ADMIN_MEMBER_ID;
+}
+
+/**
+ * Check that an originator may issue a code for this scope.
+ * Returns an error message, or null if allowed.
+ */
+async function checkOriginatorScope(
+  supabase: ReturnType<typeof createClient>,
+  memberId: string,
+  scopeType: PromoScopeType,
+  scopeValue: string
+): Promise<string | null> {
+  if (!ORIGINATOR_PROMO_SCOPES.includes(scopeType)) {
+    return `Originators can only create codes scoped to: ${ORIGINATOR_PROMO_SCOPES.join(", ")}`;
+  }
+
+  if (scopeType === "originator") {
+    return scopeValue === memberId ? null : "You can only create originator codes for yourself";
+  }
+
+  // file / family: the caller must originate the file (or a file in the family)
+  const { data, error } = await supabase
+    .from("file_royalty_chain")
+    .select("file_id, files!inner(family_id)")
+    .eq("member_id", memberId)
+    .eq("role", "originator")
+    .eq(scopeType === "file" ? "file_id" : "files.family_id", scopeValue)
+    .limit(1);
+
+  if (error) {
+    throw new Error(`Royalty chain lookup failed: ${error.message}`);
+  }
+  return data && data.length > 0
+    ? null
+    : `You are not the originator of this ${scopeType}`;
+}
+
+// ---------------------------------------------------------------------------
+// Route handlers
+// ---------------------------------------------------------------------------
+
+/** GET — List codes visible to the caller. */
+async function handleGet(
+  supabase: ReturnType<typeof createClient>,
+  caller: Caller
+): Promise<Response> {
+  let query = supabase.from("promo_codes").select(PROMO_COLUMNS).order("created_at", { ascending: false });
+  if (!caller.is_admin) {
+    if (!caller.member_id) {
+      return new Response(
+        JSON.stringify({ error: "Member profile not found" }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    query = query.eq("created_by", caller.member_id);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    console.error("[promotions] GET error:", error.message);
+    return new Response(
+      JSON.stringify({ error: "Failed to fetch promo codes" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  return new Response(
+    JSON.stringify({ promo_codes: data }),
+    { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+  );
+}
+
+/** POST — Create a code. */
+async function handlePost(
+  supabase: ReturnType<typeof createClient>,
+  caller: Caller,
+  body: Record<string, unknown>
+): Promise<Response> {
+  const code = normalizePromoCode(String(body.code ?? ""));
+  const discountType = body.discount_type as PromoDiscountType;
+  const scopeType = body.scope_type as PromoScopeType;
+  let scopeValue = body.scope_value ? String(body.scope_value) : null;
+
+  // ---- Validate fields ----
+  const errors: string[] = [];
+
+  if (!isValidPromoCode(code)) {
+    errors.push("code must be 3–32 characters: letters, digits, '-' or '_'");
+  }
+  if (!PROMO_DISCOUNT_TYPES.includes(discountType)) {
+    errors.push(`discount_type must be one of: ${PROMO_DISCOUNT_TYPES.join(", ")}`);
+  }
+  if (discountType === "percent" && !(Number.isInteger(body.percent_off) && (body.percent_off as number) >= 1 && (body.percent_off as number) <= 99)) {
+    errors.push("percent_off must be an integer from 1 to 99");
+  }
+  if (discountType === "fixed" && !(Number.isInteger(body.amount_off_cents) && (body.amount_off_cents as number) > 0)) {
+    errors.push("amount_off_cents must be a positive integer");
+  }
+  if (!PROMO_SCOPE_TYPES.includes(scopeType)) {
+    errors.push(`scope_type must be one of: ${PROMO_SCOPE_TYPES.join(", ")}`);
+  }
+  if (scopeType === "originator" && !scopeValue && caller.member_id) {
+    scopeValue = caller.member_id; // default: the caller's own files
+  }
+  if (scopeType === "all" ? scopeValue !== null : !scopeValue) {
+    errors.push(scopeType === "all" ? "scope_value must be empty for scope 'all'" : "scope_value is required");
+  }
+  for (const field of ["max_redemptions", "max_per_buyer"]) {
+    if (body[field] != null && !(Number.isInteger(body[field]) && (body[field] as number) > 0)) {
+      errors.push(`${field} must be a positive integer`);
+    }
+  }
+  for (const field of ["starts_at", "expires_at"]) {
+    if (body[field] != null && isNaN(Date.parse(String(body[field])))) {
+      errors.push(`${field} must be an ISO timestamp`);
+    }
+  }
+
+  if (errors.length > 0) {
+    return new Response(
+      JSON.stringify({ error: "Invalid promo code", details: errors }),
+      { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  // ---- Authorization: platform codes for admins, own scope for originators ----
+  if (!caller.is_admin) {
+    if (!caller.member_id) {
+      return new Response(
+        JSON.stringify({ error: "Member profile not found" }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    const scopeError = await checkOriginatorScope(supabase, caller.member_id, scopeType, scopeValue!);
+    if (scopeError) {
+      return new Response(
+        JSON.stringify({ error: scopeError }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+  }
+
+  // ---- Insert ----
+  const { data, error } = await supabase
+    .from("promo_codes")
+    .insert({
+      code,
+      description: body.description ?? null,
+      created_by: caller.member_id,
+      is_platform: caller.is_admin,
+      discount_type: discountType,
+      percent_off: discountType === "percent" ? body.percent_off : null,
+      amount_off_cents: discountType === "fixed" ? body.amount_off_cents : null,
+      scope_type: scopeType,
+      scope_value: scopeValue,
+      starts_at: body.starts_at ?? new Date().toISOString(),
+      expires_at: body.expires_at ?? null,
+      max_redemptions: body.max_redemptions ?? null,
+      max_per_buyer: body.max_per_buyer ?? null,
+    })
+    .select(PROMO_COLUMNS)
+    .single();
+
+  if (error) {
+    if (error.code === "23505") {
+      return new Response(
+        JSON.stringify({ error: "A promo code with this name already exists" }),
+        { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    console.error("[promotions] POST error:", error.message);
+    return new Response(
+      JSON.stringify({ error: "Failed to create promo code" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  return new Response(
+    JSON.stringify({ promo_code: data }),
+    { status: 201, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+  );
+}
+
+/** PATCH — Deactivate or adjust limits of an existing code. */
+async function handlePatch(
+  supabase: ReturnType<typeof createClient>,
+  caller: Caller,
+  body: Record<string, unknown>
+): Promise<Response> {
+  if (!body.id) {
+    return new Response(
+      JSON.stringify({ error: "Missing required field: id" }),
+      { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  const { data: existing, error: lookupError } = await supabase
+    .from("promo_codes")
+    .select("id, created_by")
+    .eq("id", body.id)
+    .maybeSingle();
+
+  if (lookupError || !existing) {
+    return new Response(
+      JSON.stringify({ error: "Promo code not found" }),
+      { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  if (!caller.is_admin && existing.created_by !== caller.member_id) {
+    return new Response(
+      JSON.stringify({ error: "You can only change your own promo codes" }),
+      { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  const updates: Record<string, unknown> = { updated_at: new Date().toISOString() };
+  if (typeof body.active === "boolean") updates.active = body.active;
+  if (body.expires_at !== undefined) {
+    if (body.expires_at !== null && isNaN(Date.parse(String(body.expires_at)))) {
+      return new Response(
+        JSON.stringify({ error: "expires_at must be an ISO timestamp or null" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    updates.expires_at = body.expires_at;
+  }
+  if (body.max_redemptions !== undefined) {
+    if (body.max_redemptions !== null && !(Number.isInteger(body.max_redemptions) && (body.max_redemptions as number) > 0)) {
+      return new Response(
+        JSON.stringify({ error: "max_redemptions must be a positive integer or null" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    updates.max_redemptions = body.max_redemptions;
+  }
+
+  const { data, error } = await supabase
+    .from("promo_codes")
+    .update(updates)
+    .eq("id", existing.id)
+    .select(PROMO_COLUMNS)
+    .single();
+
+  if (error) {
+    console.error("[promotions] PATCH error:", error.message);
+    return new Response(
+      JSON.stringify({ error: "Failed to update promo code" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  return new Response(
+    JSON.stringify({ promo_code: data }),
+    { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Main handler
+// ---------------------------------------------------------------------------
+
+serve(async (req: Request) => {
+  // ---- CORS preflight ----
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    // ---- Init Supabase admin client ----
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    // ---- Auth check ----
+    const user = await getAuthUser(req, supabaseAdmin);
+    if (!user) {
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { data: member } = await supabaseAdmin
+      .from("members")
+      .select("id")
+      .eq("auth_user_id", user.id)
+      .maybeSingle();
+
+    const caller: Caller = { member_id: member?.id ?? null, is_admin: isAdmin(user.id) };
+
+    if (!caller.is_admin && !caller.member_id) {
+      return new Response(
+        JSON.stringify({ error: "Member profile not found" }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ---- Route by method ----
+    switch (req.method) {
+      case "GET":
+        return await handleGet(supabaseAdmin, caller);
+
+      case "POST":
+        return await handlePost(supabaseAdmin, caller, await req.json());
+
+      case "PATCH":
+        return await handlePatch(supabaseAdmin, caller, await req.json());
+
+      default:
+        return new Response(
+          JSON.stringify({ error: "Method not allowed. Use GET, POST or PATCH." }),
+          { status: 405, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+    }
+
+  } catch (err) {
+    console.error("[promotions] Unhandled error:", err);
+    return new Response(
+      JSON.stringify({ error: "Internal server error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -0,0 +1,459 @@
+// =============================================================================
+// PIF Selection-Connection — publish-product
+// POST  /publish-product — submit a standard product for review
+//   Accepts: { product, markup_factor? } where product is what the
+//            configurator's generateProductJSON() builds ({ "SP-xxx": {...} })
+//            or the product object itself
+// GET   /publish-product?status= — submissions (admins: all, members: their own)
+// PATCH /publish-product — review (admin): { id, action: "approve" | "reject", note? }
+// Requires auth. The submitter is the product's author.
+//
+// Cost is recomputed here from the product's state and hardware at catalog
+// prices (_shared/cutlist.ts, _shared/catalog.ts); the submitted materialCost
+// and standardPrice are kept only for the reviewer. standardPrice =
+// materialCost x markup_factor (default: the catalog's markupFactor).
+// The product is validated like a catalog import against the latest catalog
+// version (_shared/product-catalog.ts) and waits as "pending". Approval adds
+// it, active, to a new catalog version (approve_product_submission,
+// migration 018); rejection needs a note for the author.
+// =============================================================================
+
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { loadCatalog } from "../_shared/catalog.ts";
+import { computeCostSummary, parseHardwareSelection, resolveCabinetState } from "../_shared/cutlist.ts";
+import { findCatalogVersion, parseStandardProduct } from "../_shared/product-catalog.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "GET, POST, PATCH, OPTIONS",
+};
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/**
+ * Hardcoded admin member ID (same as admin-overrides).
+ * TODO: Move to env var or a dedicated admins table for production.
+ */
+const ADMIN_MEMBER_ID = Deno.env.get("ADMIN_MEMBER_ID") ?? "REPLACE_WITH_ADMIN_UUID";
+
+/** Same bounds as the Publish modal's Markup field. */
+const MIN_MARKUP_FACTOR = 1;
+const MAX_MARKUP_FACTOR = 3;
+
+const MAX_NOTE_LENGTH = 1000;
+
+const SUBMISSION_STATUSES = ["pending", "approved", "rejected"];
+
+const SUBMISSION_COLUMNS =
+  "id, sku, author_member_id, status, product, submitted, material_cost_cents, standard_price_cents, " +
+  "markup_factor, base_catalog_version, published_version, reviewed_by, reviewed_at, review_note, created_at";
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** Postgres unique_violation. */
+const UNIQUE_VIOLATION = "23505";
+
+/** Exceptions raised by approve_product_submission, as responses. */
+const APPROVAL_ERRORS: Record<string, { status: number; error: string }> = {
+  submission_not_pending: { status: 409, error: "Submission has already been reviewed" },
+  sku_exists: { status: 409, error: "The catalog already has a product with this SKU" },
+  preset_missing: { status: 409, error: "The product's chassis preset is no longer in the catalog" },
+};
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface Caller {
+  member_id: string | null;
+  is_admin: boolean;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Extract the authenticated user from the Authorization header. */
+async function getAuthUser(
+  req: Request,
+  supabase: ReturnType<typeof createClient>
+) {
+  const authHeader = req.headers.get("Authorization");
+  if (!authHeader) return null;
+
+  const token = authHeader.replace("Bearer ", "");
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data.user) return null;
+  return data.user;
+}
+
+/** Check if the authenticated user is an admin. */
+function isAdmin(userId: string): boolean {
+  // TODO: Expand to support multiple admins or an admin role in member_roles
+  return userId === ADMIN_MEMBER_ID;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function roundDollars(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// ---------------------------------------------------------------------------
+// Route handlers
+// ---------------------------------------------------------------------------
+
+/** GET — List submissions, optionally by status. */
+async function handleGet(
+  supabase: ReturnType<typeof createClient>,
+  caller: Caller,
+  url: URL
+): Promise<Response> {
+  const status = url.searchParams.get("status");
+  if (status && !SUBMISSION_STATUSES.includes(status)) {
+    return new Response(
+      JSON.stringify({ error: `status must be one of: ${SUBMISSION_STATUSES.join(", ")}` }),
+      { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  let query = supabase
+    .from("product_submissions")
+    .select(SUBMISSION_COLUMNS)
+    .order("created_at", { ascending: status === "pending" });
+
+  if (!caller.is_admin) {
+    if (!caller.member_id) {
+      return new Response(
+        JSON.stringify({ error: "Member profile not found" }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    query = query.eq("author_member_id", caller.member_id);
+  }
+  if (status) query = query.eq("status", status);
+
+  const { data, error } = await query;
+  if (error) {
+    console.error("[publish-product] GET error:", error.message);
+    return new Response(
+      JSON.stringify({ error: "Failed to fetch submissions" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  return new Response(
+    JSON.stringify({ submissions: data }),
+    { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+  );
+}
+
+/** POST — Recompute, validate and file a product for review. */
+async function handlePost(
+  supabase: ReturnType<typeof createClient>,
+  caller: Caller,
+  body: Record<string, unknown>
+): Promise<Response> {
+  if (!caller.member_id) {
+    return new Response(
+      JSON.stringify({ error: "Products must be published from a member account" }),
+      { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  // ---- Unwrap generateProductJSON()'s { sku: product } ----
+  let submitted = body.product;
+  if (isPlainObject(submitted) && !("sku" in submitted)) {
+    const entries = Object.values(submitted);
+    submitted = entries.length === 1 ? entries[0] : null;
+  }
+  if (!isPlainObject(submitted) || !isPlainObject(submitted.state)) {
+    return new Response(
+      JSON.stringify({ error: "product must be a standard product with a state (see generateProductJSON)" }),
+      { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  // ---- Catalog it will join ----
+  const catalogVersion = await findCatalogVersion(supabase, null);
+  if (!catalogVersion) {
+    return new Response(
+      JSON.stringify({ error: "No product catalog has been imported yet" }),
+      { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  const markupFactor = body.markup_factor ?? catalogVersion.pricing.markupFactor;
+  if (typeof markupFactor !== "number" || !(markupFactor >= MIN_MARKUP_FACTOR && markupFactor <= MAX_MARKUP_FACTOR)) {
+    return new Response(
+      JSON.stringify({ error: `markup_factor must be from ${MIN_MARKUP_FACTOR} to ${MAX_MARKUP_FACTOR}` }),
+      { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  const { data: presetRows, error: presetError } = await supabase
+    .from("chassis_presets")
+    .select("name")
+    .eq("catalog_version", catalogVersion.version);
+  if (presetError) throw new Error(`Failed to load presets: ${presetError.message}`);
+
+  // ---- Recompute cost at catalog prices ----
+  const priceCatalog = await loadCatalog(supabase);
+  const submittedState = submitted.state as Record<string, unknown>;
+  const resolved = resolveCabinetState(submittedState);
+  const cost = computeCostSummary(resolved, parseHardwareSelection(submitted.hardware, priceCatalog), priceCatalog);
+  const materialCost = roundDollars(cost.total);
+  const standardPrice = roundDollars(materialCost * markupFactor);
+
+  // generateProductJSON() leaves default values out of state; the catalog
+  // needs the overall dimensions in it
+  const dimensions = { Width: resolved.Width, Height: resolved.Height, Depth: resolved.Depth };
+  const candidate = {
+    ...submitted,
+    dimensions,
+    state: { ...submittedState, ...dimensions },
+    materialCost,
+    standardPrice,
+    dateAdded: new Date().toISOString().split("T")[0],
+    active: false,
+  };
+
+  const { product, issues } = parseStandardProduct(
+    candidate,
+    new Set((presetRows ?? []).map((p: { name: string }) => p.name)),
+    priceCatalog.hardware,
+    markupFactor
+  );
+  if (!product) {
+    return new Response(
+      JSON.stringify({ error: "Product failed validation", issues }),
+      { status: 422, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  // ---- SKU must be new ----
+  const { data: existing } = await supabase
+    .from("standard_products")
+    .select("sku")
+    .eq("catalog_version", catalogVersion.version)
+    .eq("sku", product.sku)
+    .maybeSingle();
+  if (existing) {
+    return new Response(
+      JSON.stringify({ error: `The catalog already has a product ${product.sku}` }),
+      { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  // ---- File for review ----
+  const { data: submission, error: insertError } = await supabase
+    .from("product_submissions")
+    .insert({
+      sku: product.sku,
+      author_member_id: caller.member_id,
+      product,
+      submitted: body.product,
+      material_cost_cents: product.material_cost_cents,
+      standard_price_cents: product.standard_price_cents,
+      markup_factor: markupFactor,
+      base_catalog_version: catalogVersion.version,
+    })
+    .select(SUBMISSION_COLUMNS)
+    .single();
+
+  if (insertError) {
+    if (insertError.code === UNIQUE_VIOLATION) {
+      return new Response(
+        JSON.stringify({ error: `${product.sku} is already waiting for review` }),
+        { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    console.error("[publish-product] Insert error:", insertError.message);
+    return new Response(
+      JSON.stringify({ error: "Failed to submit product" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  return new Response(
+    JSON.stringify({
+      submission,
+      submitted_material_cost: typeof submitted.materialCost === "number" ? submitted.materialCost : null,
+      submitted_standard_price: typeof submitted.standardPrice === "number" ? submitted.standardPrice : null,
+      warnings: issues,
+    }),
+    { status: 201, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+  );
+}
+
+/** PATCH — Approve or reject a pending submission (admin). */
+async function handlePatch(
+  supabase: ReturnType<typeof createClient>,
+  caller: Caller,
+  body: Record<string, unknown>
+): Promise<Response> {
+  if (!caller.is_admin) {
+    return new Response(
+      JSON.stringify({ error: "Admin access required" }),
+      { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  const { id, action, note } = body;
+  if (typeof id !== "string" || !UUID_PATTERN.test(id) || (action !== "approve" && action !== "reject")) {
+    return new Response(
+      JSON.stringify({ error: "Provide id and action: \"approve\" or \"reject\"" }),
+      { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+  if (note !== undefined && note !== null && (typeof note !== "string" || note.length > MAX_NOTE_LENGTH)) {
+    return new Response(
+      JSON.stringify({ error: `note must be a string (${MAX_NOTE_LENGTH} chars max)` }),
+      { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+  const reviewNote = typeof note === "string" ? note.trim() || null : null;
+
+  if (action === "approve") {
+    const { error: approveError } = await supabase.rpc("approve_product_submission", {
+      p_submission_id: id,
+      p_reviewed_by: caller.member_id,
+      p_note: reviewNote,
+    });
+
+    if (approveError) {
+      const known = APPROVAL_ERRORS[approveError.message];
+      if (known) {
+        return new Response(
+          JSON.stringify({ error: known.error }),
+          { status: known.status, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+      console.error("[publish-product] Approve error:", approveError.message);
+      return new Response(
+        JSON.stringify({ error: "Failed to approve submission" }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+  } else {
+    if (!reviewNote) {
+      return new Response(
+        JSON.stringify({ error: "A note for the author is required when rejecting" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { data: rejected, error: rejectError } = await supabase
+      .from("product_submissions")
+      .update({
+        status: "rejected",
+        reviewed_by: caller.member_id,
+        reviewed_at: new Date().toISOString(),
+        review_note: reviewNote,
+      })
+      .eq("id", id)
+      .eq("status", "pending")
+      .select("id")
+      .maybeSingle();
+
+    if (rejectError) {
+      console.error("[publish-product] Reject error:", rejectError.message);
+      return new Response(
+        JSON.stringify({ error: "Failed to reject submission" }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    if (!rejected) {
+      return new Response(
+        JSON.stringify({ error: APPROVAL_ERRORS.submission_not_pending.error }),
+        { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+  }
+
+  const { data: submission } = await supabase
+    .from("product_submissions")
+    .select(SUBMISSION_COLUMNS)
+    .eq("id", id)
+    .single();
+
+  return new Response(
+    JSON.stringify({ submission }),
+    { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Main handler
+// ---------------------------------------------------------------------------
+
+serve(async (req: Request) => {
+  // ---- CORS preflight ----
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    // ---- Init Supabase admin client ----
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    // ---- Auth check ----
+    const user = await getAuthUser(req, supabaseAdmin);
+    if (!user) {
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { data: member } = await supabaseAdmin
+      .from("members")
+      .select("id")
+      .eq("auth_user_id", user.id)
+      .maybeSingle();
+
+    const caller: Caller = { member_id: member?.id ?? null, is_admin: isAdmin(user.id) };
+
+    if (!caller.is_admin && !caller.member_id) {
+      return new Response(
+        JSON.stringify({ error: "Member profile not found" }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ---- Route by method ----
+    switch (req.method) {
+      case "GET":
+        return await handleGet(supabaseAdmin, caller, new URL(req.url));
+
+      case "POST":
+        return await handlePost(supabaseAdmin, caller, (await req.json()) ?? {});
+
+      case "PATCH":
+        return await handlePatch(supabaseAdmin, caller, (await req.json()) ?? {});
+
+      default:
+        return new Response(
+          JSON.stringify({ error: "Method not allowed. Use GET, POST or PATCH." }),
+          { status: 405, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+    }
+
+  } catch (err) {
+    console.error("[publish-product] Unhandled error:", err);
+    return new Response(
+      JSON.stringify({ error: "Internal server error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -0,0 +1,337 @@
+// =============================================================================
+// PIF Selection-Connection — quote
+// POST /quote          — price a cabinet and store the quote
+//   Accepts: { config, hardware?: { hinge, slide, pull }, units?: "inches" | "mm" }
+// GET  /quote?id=<id>  — look up a stored quote
+// Quotes are itemized by _shared/quote.ts at the database catalog's prices:
+// sheet goods, hardware, edge banding, labor, markup and custom surcharge.
+// The stored price is honored until expires_at even if prices change (see
+// pricing_version and catalog_price_history).
+// Auth optional: a signed-in member's quotes are linked to them. A config
+// with values outside the sliders' ranges, fractional counts or that fails
+// the configurator's geometry rules is not quoted (422), nor is one whose
+// quote has a negative line or total.
+// Bodies over MAX_BODY_BYTES are refused (413), and each member or client
+// address may store QUOTE_RATE_LIMIT quotes per hour (429). Until the shop's
+// labor rates and a catalog version's pricing are set, POST answers 503.
+// config may be in mm (units: "mm" in the config); the quote is issued in
+// `units`, defaulting to the config's own, and stored with it.
+// =============================================================================
+
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { loadCatalog } from "../_shared/catalog.ts";
+import { validateConfiguration } from "../_shared/config-validation.ts";
+import { parseHardwareSelection, resolveCabinetState } from "../_shared/cutlist.ts";
+import { hashConfig, parseConfig } from "../_shared/entitlements.ts";
+import { calculateQuote, hasNegativeAmount, loadQuotePricing, QUOTE_VALID_DAYS } from "../_shared/quote.ts";
+import { parseUnitSystem, UNIT_SYSTEMS } from "../_shared/units.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+};
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** A configurator config is a few hundred numbers; 64 KiB is plenty. */
+const MAX_BODY_BYTES = 64 * 1024;
+
+/** Quotes stored per requester (member, or client address for guests) per window. */
+const QUOTE_RATE_LIMIT = 30;
+const QUOTE_RATE_WINDOW_MS = 60 * 60 * 1000;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Extract the authenticated user from the Authorization header. */
+async function getAuthUser(
+  req: Request,
+  supabase: ReturnType<typeof createClient>
+) {
+  const authHeader = req.headers.get("Authorization");
+  if (!authHeader) return null;
+
+  const token = authHeader.replace("Bearer ", "");
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data.user) return null;
+  return data.user;
+}
+
+/**
+ * Rate-limit key: the member, or a hash of the client address for guests
+ * (the address itself isn't stored).
+ */
+async function requesterKey(req: Request, memberId: string | null): Promise<string> {
+  if (memberId) return `member:${memberId}`;
+  const address = (req.headers.get("x-forwarded-for") ?? "").split(",")[0].trim() || "unknown";
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(address));
+  const hex = Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+  return `ip:${hex}`;
+}
+
+// ---------------------------------------------------------------------------
+// Handlers
+// ---------------------------------------------------------------------------
+
+/** GET: a stored quote by id, with whether it is still honored. */
+async function handleGet(
+  supabase: ReturnType<typeof createClient>,
+  url: URL
+): Promise<Response> {
+  const id = url.searchParams.get("id");
+  if (!id || !UUID_PATTERN.test(id)) {
+    return new Response(
+      JSON.stringify({ error: "id must be a quote UUID" }),
+      { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  const { data: quote, error } = await supabase
+    .from("quotes")
+    .select(
+      "id, config, config_hash, hardware, line_items, material_cents, labor_cents, markup_cents, " +
+      "surcharge_cents, total_cents, markup_factor, custom_surcharge_percent, pricing_version, " +
+      "units, created_at, expires_at"
+    )
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) {
+    console.error("[quote] Lookup failed:", error.message);
+    return new Response(
+      JSON.stringify({ error: "Failed to look up quote" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  if (!quote) {
+    return new Response(
+      JSON.stringify({ error: "Quote not found" }),
+      { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  const { id: quoteId, ...stored } = quote;
+  return new Response(
+    JSON.stringify({
+      quote_id: quoteId,
+      ...stored,
+      markup_factor: Number(quote.markup_factor),
+      custom_surcharge_percent: Number(quote.custom_surcharge_percent),
+      expired: new Date(quote.expires_at).getTime() <= Date.now(),
+    }),
+    { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+  );
+}
+
+/** POST: price a configuration and store the quote. */
+async function handlePost(
+  supabase: ReturnType<typeof createClient>,
+  req: Request
+): Promise<Response> {
+  // ---- Size cap ----
+  const declared = Number(req.headers.get("Content-Length") ?? NaN);
+  if (Number.isFinite(declared) && declared > MAX_BODY_BYTES) {
+    return new Response(
+      JSON.stringify({ error: `Request body is limited to ${MAX_BODY_BYTES} bytes` }),
+      { status: 413, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+  const raw = new Uint8Array(await req.arrayBuffer());
+  if (raw.length > MAX_BODY_BYTES) {
+    return new Response(
+      JSON.stringify({ error: `Request body is limited to ${MAX_BODY_BYTES} bytes` }),
+      { status: 413, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  let body: Record<string, unknown>;
+  try {
+    body = JSON.parse(new TextDecoder().decode(raw));
+  } catch {
+    body = {};
+  }
+  if (!body || typeof body !== "object") body = {};
+  const { config, hardware, units } = body;
+
+  const parsedConfig = parseConfig(config);
+  if (!parsedConfig) {
+    return new Response(
+      JSON.stringify({ error: "config must be an object of configurator parameter values" }),
+      { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  const quoteUnits = parseUnitSystem(units, parseUnitSystem(parsedConfig.units) ?? "inches");
+  if (!quoteUnits) {
+    return new Response(
+      JSON.stringify({ error: `units must be one of: ${UNIT_SYSTEMS.join(", ")}` }),
+      { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  // ---- Value and geometry check (same rules as upload-file) ----
+  // Counts must be whole numbers in the sliders' ranges (e.g. HingeCount 1–5)
+  const issues = validateConfiguration(parsedConfig);
+  if (issues.some((i) => i.severity === "error")) {
+    return new Response(
+      JSON.stringify({ error: "Configuration can't be built", issues }),
+      { status: 422, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  // ---- Optional member link ----
+  let memberId: string | null = null;
+  const user = await getAuthUser(req, supabase);
+  if (user) {
+    const { data: member } = await supabase
+      .from("members")
+      .select("id")
+      .eq("auth_user_id", user.id)
+      .maybeSingle();
+    memberId = member?.id ?? null;
+  }
+
+  // ---- Rate limit ----
+  const requester = await requesterKey(req, memberId);
+  const { count: recentQuotes, error: countError } = await supabase
+    .from("quotes")
+    .select("id", { count: "exact", head: true })
+    .eq("requester_key", requester)
+    .gte("created_at", new Date(Date.now() - QUOTE_RATE_WINDOW_MS).toISOString());
+
+  if (countError) {
+    console.error("[quote] Rate limit lookup failed:", countError.message);
+    return new Response(
+      JSON.stringify({ error: "Failed to store quote" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+  if ((recentQuotes ?? 0) >= QUOTE_RATE_LIMIT) {
+    return new Response(
+      JSON.stringify({ error: `At most ${QUOTE_RATE_LIMIT} quotes per hour; try again later` }),
+      { status: 429, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  // ---- Pricing configuration ----
+  const pricing = await loadQuotePricing(supabase);
+  if (!pricing) {
+    console.error("[quote] No labor rates or catalog version pricing set");
+    return new Response(
+      JSON.stringify({ error: "Quotes are not available yet" }),
+      { status: 503, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  // ---- Price ----
+  const catalog = await loadCatalog(supabase);
+  const hw = parseHardwareSelection(hardware, catalog);
+  const quote = calculateQuote(resolveCabinetState(parsedConfig), hw, pricing, catalog, quoteUnits);
+  if (hasNegativeAmount(quote)) {
+    console.error("[quote] Negative amount in quote for config:", JSON.stringify(parsedConfig));
+    return new Response(
+      JSON.stringify({ error: "This configuration can't be quoted" }),
+      { status: 422, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+  const configHash = await hashConfig(parsedConfig);
+  const expiresAt = new Date(Date.now() + QUOTE_VALID_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+  // ---- Store ----
+  const { data: row, error: insertError } = await supabase
+    .from("quotes")
+    .insert({
+      member_id: memberId,
+      config: parsedConfig,
+      config_hash: configHash,
+      hardware: hw,
+      line_items: quote.line_items,
+      material_cents: quote.material_cents,
+      labor_cents: quote.labor_cents,
+      markup_cents: quote.markup_cents,
+      surcharge_cents: quote.surcharge_cents,
+      total_cents: quote.total_cents,
+      markup_factor: quote.markup_factor,
+      custom_surcharge_percent: quote.custom_surcharge_percent,
+      pricing_version: quote.pricing_version,
+      units: quote.units,
+      expires_at: expiresAt,
+      requester_key: requester,
+    })
+    .select("id, created_at")
+    .single();
+
+  if (insertError) {
+    console.error("[quote] Insert error:", insertError.message);
+    return new Response(
+      JSON.stringify({ error: "Failed to store quote" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  return new Response(
+    JSON.stringify({
+      quote_id: row.id,
+      config_hash: configHash,
+      hardware: hw,
+      ...quote,
+      // Warnings don't block a quote, but the buyer should see them
+      warnings: issues,
+      created_at: row.created_at,
+      expires_at: expiresAt,
+    }),
+    { status: 201, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Main handler
+// ---------------------------------------------------------------------------
+
+serve(async (req: Request) => {
+  // ---- CORS preflight ----
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    // ---- Init Supabase admin client ----
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    // ---- Route by method ----
+    switch (req.method) {
+      case "GET":
+        return await handleGet(supabaseAdmin, new URL(req.url));
+
+      case "POST":
+        return await handlePost(supabaseAdmin, req);
+
+      default:
+        return new Response(
+          JSON.stringify({ error: "Method not allowed. Use GET or POST." }),
+          { status: 405, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+    }
+
+  } catch (err) {
+    console.error("[quote] Unhandled error:", err);
+    return new Response(
+      JSON.stringify({ error: "Internal server error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -126,9 +126,10 @@ serve(async (req: Request) => {
       .from("members")
       .insert({
         id: userId,
+        auth_user_id: userId,
         email,
         display_name,
-        tier: "design_and_go",
+        tier_id: "design_and_go", // Paid tiers come from create-subscription
         // TODO: Set additional default fields:
         // storage_used_bytes: 0,
         // payout_enabled: false,
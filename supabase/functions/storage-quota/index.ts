@@ -0,0 +1,138 @@
+// =============================================================================
+// PIF Selection-Connection — storage-quota
+// GET /storage-quota
+// Requires auth (JWT). The member's marketplace storage: bytes used, their
+// tier's quota (_shared/tiers.ts) and what's left, with a per-file breakdown
+// largest first. Removed files don't count. Usage is kept by the files
+// trigger from migration 022; upload-file and upload-session refuse uploads
+// that would exceed the quota.
+// =============================================================================
+
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { storageQuotaBytes } from "../_shared/tiers.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Extract the authenticated user from the Authorization header. */
+async function getAuthUser(
+  req: Request,
+  supabase: ReturnType<typeof createClient>
+) {
+  const authHeader = req.headers.get("Authorization");
+  if (!authHeader) return null;
+
+  const token = authHeader.replace("Bearer ", "");
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data.user) return null;
+  return data.user;
+}
+
+// ---------------------------------------------------------------------------
+// Main handler
+// ---------------------------------------------------------------------------
+
+serve(async (req: Request) => {
+  // ---- CORS preflight ----
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    // ---- Method guard ----
+    if (req.method !== "GET") {
+      return new Response(
+        JSON.stringify({ error: "Method not allowed" }),
+        { status: 405, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ---- Init Supabase admin client ----
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    // ---- Auth check ----
+    const user = await getAuthUser(req, supabaseAdmin);
+    if (!user) {
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ---- Member tier and usage ----
+    const { data: member, error: memberError } = await supabaseAdmin
+      .from("members")
+      .select("id, tier_id, storage_used_bytes")
+      .eq("auth_user_id", user.id)
+      .maybeSingle();
+
+    if (memberError) {
+      console.error("[storage-quota] Member lookup error:", memberError.message);
+      return new Response(
+        JSON.stringify({ error: "Failed to load storage usage" }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    if (!member) {
+      return new Response(
+        JSON.stringify({ error: "Member profile not found" }),
+        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ---- Per-file breakdown ----
+    const { data: files, error: filesError } = await supabaseAdmin
+      .from("files")
+      .select("id, title, version_label, stage, file_size_bytes, created_at")
+      .eq("uploader_id", member.id)
+      .neq("stage", "removed")
+      .order("file_size_bytes", { ascending: false });
+
+    if (filesError) {
+      console.error("[storage-quota] Files lookup error:", filesError.message);
+      return new Response(
+        JSON.stringify({ error: "Failed to load storage usage" }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ---- Success ----
+    const usedBytes = Number(member.storage_used_bytes);
+    const limitBytes = storageQuotaBytes(member.tier_id);
+    return new Response(
+      JSON.stringify({
+        tier_id: member.tier_id,
+        used_bytes: usedBytes,
+        limit_bytes: limitBytes,
+        remaining_bytes: Math.max(limitBytes - usedBytes, 0),
+        files: (files ?? []).map((f: Record<string, unknown>) => ({
+          file_id: f.id,
+          title: f.title,
+          version_label: f.version_label,
+          stage: f.stage,
+          file_size_bytes: Number(f.file_size_bytes),
+          created_at: f.created_at,
+        })),
+      }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+
+  } catch (err) {
+    console.error("[storage-quota] Unhandled error:", err);
+    return new Response(
+      JSON.stringify({ error: "Internal server error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
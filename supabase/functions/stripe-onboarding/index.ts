@@ -3,11 +3,18 @@
 // POST /stripe-onboarding
 // Receives Stripe Connect account.updated webhook events.
 // When a connected account becomes charges_enabled, grants the originator role
-// and enables payouts for the member.
+// and enables payouts for the member. Event ids are recorded in stripe_events
+// (source = 'connect') so retried deliveries are acknowledged only once.
 // =============================================================================
 
 import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getPaymentProvider } from "../_shared/payments/index.ts";
+import {
+  claimStripeEvent,
+  markStripeEventFailed,
+  markStripeEventProcessed,
+} from "../_shared/stripe-events.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -16,34 +23,88 @@ const corsHeaders = {
 };
 
 // ---------------------------------------------------------------------------
-// Helpers
+// Event Handlers
 // ---------------------------------------------------------------------------
 
 /**
- * Verify the Stripe Connect webhook signature.
- * Uses a separate webhook secret from the main Stripe webhook.
+ * Handle account.updated:
+ * Once the connected account is charges_enabled, enable payouts for the
+ * member and grant the originator role. Both steps are safe to repeat.
  */
-async function verifyStripeSignature(
-  body: string,
-  signature: string | null,
-  secret: string
-): Promise<Record<string, unknown> | null> {
-  // TODO: Implement proper Stripe webhook signature verification
-  // Same HMAC-SHA256 approach as stripe-webhook function.
-  // This endpoint uses STRIPE_CONNECT_WEBHOOK_SECRET (separate from payments webhook).
-
-  if (!signature) {
-    console.error("[stripe-onboarding] Missing Stripe-Signature header");
-    return null;
+async function handleAccountUpdated(
+  supabase: ReturnType<typeof createClient>,
+  account: Record<string, unknown>
+): Promise<Response> {
+  const stripeAccountId = account.id as string;
+  const chargesEnabled = account.charges_enabled as boolean;
+
+  console.log(
+    `[stripe-onboarding] Account ${stripeAccountId}: charges_enabled = ${chargesEnabled}`
+  );
+
+  if (!chargesEnabled) {
+    // Account is not yet fully onboarded — nothing to do
+    return new Response(
+      JSON.stringify({ received: true, charges_enabled: false }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  // ---- Find the member by stripe_account_id ----
+  const { data: member, error: memberError } = await supabase
+    .from("members")
+    .select("id, payout_enabled")
+    .eq("stripe_account_id", stripeAccountId)
+    .single();
+
+  if (memberError || !member) {
+    console.error(
+      "[stripe-onboarding] No member found for Stripe account:",
+      stripeAccountId
+    );
+    // Return 200 so Stripe doesn't retry — the account may belong to a different system
+    return new Response(
+      JSON.stringify({ received: true, error: "Member not found" }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
   }
 
-  console.log("[stripe-onboarding] TODO: Implement real Stripe signature verification");
+  // ---- Update members.payout_enabled = true ----
+  if (!member.payout_enabled) {
+    const { error: updateError } = await supabase
+      .from("members")
+      .update({ payout_enabled: true })
+      .eq("id", member.id);
 
-  try {
-    return JSON.parse(body);
-  } catch {
-    return null;
+    if (updateError) {
+      console.error("[stripe-onboarding] Failed to update payout_enabled:", updateError.message);
+    } else {
+      console.log("[stripe-onboarding] Enabled payouts for member:", member.id);
+    }
   }
+
+  // ---- Grant originator role in member_roles ----
+  // Use upsert to avoid duplicate key errors if role already exists
+  const { error: roleError } = await supabase
+    .from("member_roles")
+    .upsert(
+      { member_id: member.id, role: "originator" },
+      { onConflict: "member_id,role" }
+    );
+
+  if (roleError) {
+    console.error("[stripe-onboarding] Failed to grant originator role:", roleError.message);
+  } else {
+    console.log("[stripe-onboarding] Granted originator role to member:", member.id);
+  }
+
+  // TODO: Consider sending a welcome email notifying the member they can now upload files
+
+  // ---- Success ----
+  return new Response(
+    JSON.stringify({ received: true, charges_enabled: true, member_id: member.id }),
+    { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+  );
 }
 
 // ---------------------------------------------------------------------------
@@ -67,11 +128,10 @@ serve(async (req: Request) => {
 
     // ---- Read raw body for signature verification ----
     const body = await req.text();
-    const signature = req.headers.get("Stripe-Signature");
 
-    // ---- Verify Stripe signature ----
-    const webhookSecret = Deno.env.get("STRIPE_CONNECT_WEBHOOK_SECRET") ?? "";
-    const event = await verifyStripeSignature(body, signature, webhookSecret);
+    // ---- Verify via the payment provider (connect webhook secret) ----
+    const provider = getPaymentProvider();
+    const event = await provider.parseWebhook(body, req, "connect");
 
     if (!event) {
       return new Response(
@@ -81,7 +141,8 @@ serve(async (req: Request) => {
     }
 
     // ---- Only handle account.updated ----
-    const eventType = event.type as string;
+    const eventId = event.id;
+    const eventType = event.type;
     if (eventType !== "account.updated") {
       console.log("[stripe-onboarding] Ignoring event type:", eventType);
       return new Response(
@@ -96,78 +157,43 @@ serve(async (req: Request) => {
       Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
     );
 
-    // ---- Extract account data ----
-    const account = (event.data as Record<string, unknown>)?.object as Record<string, unknown>;
-    const stripeAccountId = account.id as string;
-    const chargesEnabled = account.charges_enabled as boolean;
-
-    console.log(
-      `[stripe-onboarding] Account ${stripeAccountId}: charges_enabled = ${chargesEnabled}`
-    );
+    // ---- Idempotency: claim the event id in the ledger ----
+    const claim = await claimStripeEvent(supabaseAdmin, event, "connect", provider.name);
 
-    if (!chargesEnabled) {
-      // Account is not yet fully onboarded — nothing to do
+    if (claim === "duplicate") {
+      console.log("[stripe-onboarding] Duplicate event, already processed:", eventId);
       return new Response(
-        JSON.stringify({ received: true, charges_enabled: false }),
+        JSON.stringify({ received: true, duplicate: true }),
         { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
 
-    // ---- Find the member by stripe_account_id ----
-    const { data: member, error: memberError } = await supabaseAdmin
-      .from("members")
-      .select("id, payout_enabled")
-      .eq("stripe_account_id", stripeAccountId)
-      .single();
-
-    if (memberError || !member) {
-      console.error(
-        "[stripe-onboarding] No member found for Stripe account:",
-        stripeAccountId
-      );
-      // Return 200 so Stripe doesn't retry — the account may belong to a different system
+    if (claim === "in_progress") {
+      // Non-2xx so Stripe retries once the in-flight delivery has finished
       return new Response(
-        JSON.stringify({ received: true, error: "Member not found" }),
-        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        JSON.stringify({ error: "Event is already being processed" }),
+        { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
 
-    // ---- Update members.payout_enabled = true ----
-    if (!member.payout_enabled) {
-      const { error: updateError } = await supabaseAdmin
-        .from("members")
-        .update({ payout_enabled: true })
-        .eq("id", member.id);
-
-      if (updateError) {
-        console.error("[stripe-onboarding] Failed to update payout_enabled:", updateError.message);
-      } else {
-        console.log("[stripe-onboarding] Enabled payouts for member:", member.id);
-      }
-    }
+    // ---- Process and record the outcome ----
+    const account = event.object;
 
-    // ---- Grant originator role in member_roles ----
-    // Use upsert to avoid duplicate key errors if role already exists
-    const { error: roleError } = await supabaseAdmin
-      .from("member_roles")
-      .upsert(
-        { member_id: member.id, role: "originator" },
-        { onConflict: "member_id,role" }
-      );
+    let response: Response;
+    try {
+      response = await handleAccountUpdated(supabaseAdmin, account);
+    } catch (handlerErr) {
+      await markStripeEventFailed(supabaseAdmin, eventId, String(handlerErr));
+      throw handlerErr;
+    }
 
-    if (roleError) {
-      console.error("[stripe-onboarding] Failed to grant originator role:", roleError.message);
+    if (response.ok) {
+      await markStripeEventProcessed(supabaseAdmin, eventId);
     } else {
-      console.log("[stripe-onboarding] Granted originator role to member:", member.id);
+      await markStripeEventFailed(supabaseAdmin, eventId, `Handler returned ${response.status}`);
     }
 
-    // TODO: Consider sending a welcome email notifying the member they can now upload files
-
-    // ---- Success ----
-    return new Response(
-      JSON.stringify({ received: true, charges_enabled: true, member_id: member.id }),
-      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
+    return response;
 
   } catch (err) {
     console.error("[stripe-onboarding] Unhandled error:", err);
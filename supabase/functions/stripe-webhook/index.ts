@@ -1,17 +1,55 @@
 // =============================================================================
 // PIF Selection-Connection — stripe-webhook
 // POST /stripe-webhook
-// Receives Stripe webhook events. No auth header — uses Stripe signature
-// verification instead.
+// Receives payment webhook events. No auth header — the configured payment
+// provider verifies the request (Stripe signature, Gumroad ping secret, ...)
+// and normalizes it to Stripe event names. Every event id is recorded in
+// stripe_events so retries of an already-processed event are acknowledged
+// without side effects.
 //
 // Handled events:
-//   - checkout.session.completed  → mark order paid, generate download token,
-//                                    create payout rows, send delivery email
+//   - checkout.session.completed  → check the amount paid against the stored
+//                                    total, then mark order paid, generate
+//                                    download token, create payout rows, send
+//                                    delivery email
+//                                    (cart sessions: every line of the order
+//                                    group, one email for the whole cart;
+//                                    configurator sessions: sign the
+//                                    entitlement and email the unlock link)
+//   - checkout.session.expired    → mark the pending order (cart: the group
+//                                    and its lines; or configurator purchase)
+//                                    failed and give back a single-file
+//                                    order's reserved promo code use
 //   - payment_intent.payment_failed → mark order failed
+//   - charge.refunded             → mark order(s) refunded, revoke download
+//                                    tokens, cancel or reverse their payouts
+//                                    (configurator: revoke the entitlement)
+//   - charge.dispute.created      → hold the order's payees' pending and
+//                                    failed (retryable) payouts
+//   - charge.dispute.closed       → release the payouts it held (won) or treat as
+//                                    refund (lost)
+//   - customer.subscription.created/updated/deleted
+//                                 → sync the member's tier_id, stripe_customer_id
+//                                    and downgrade grace period
+//   - invoice.payment_failed      → start the failed-renewal grace period
 // =============================================================================
 
 import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { signEntitlement } from "../_shared/entitlements.ts";
+import { getPaymentProvider } from "../_shared/payments/index.ts";
+import { splitRoyalties, validateRoyaltyChain } from "../_shared/royalty.ts";
+import {
+  MemberSubscriptionState,
+  parseSubscription,
+  planPaymentFailedUpdate,
+  planSubscriptionUpdate,
+} from "../_shared/subscriptions.ts";
+import {
+  claimStripeEvent,
+  markStripeEventFailed,
+  markStripeEventProcessed,
+} from "../_shared/stripe-events.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -23,42 +61,6 @@ const corsHeaders = {
 // Helpers
 // ---------------------------------------------------------------------------
 
-/**
- * Verify the Stripe webhook signature.
- * Returns the parsed event object or null if verification fails.
- */
-async function verifyStripeSignature(
-  body: string,
-  signature: string | null,
-  secret: string
-): Promise<Record<string, unknown> | null> {
-  // TODO: Implement proper Stripe webhook signature verification
-  // Use crypto.subtle to compute HMAC-SHA256 and compare with signature header
-  //
-  // The Stripe-Signature header contains:
-  //   t=<timestamp>,v1=<signature>
-  //
-  // Steps:
-  // 1. Parse t and v1 from the header
-  // 2. Compute expected = HMAC-SHA256(secret, `${t}.${body}`)
-  // 3. Compare expected with v1 using timing-safe comparison
-  // 4. Verify timestamp is within tolerance (e.g., 5 minutes)
-
-  if (!signature) {
-    console.error("[stripe-webhook] Missing Stripe-Signature header");
-    return null;
-  }
-
-  console.log("[stripe-webhook] TODO: Implement real Stripe signature verification");
-
-  // Stub: parse the body as JSON and trust it (UNSAFE — replace before production)
-  try {
-    return JSON.parse(body);
-  } catch {
-    return null;
-  }
-}
-
 /**
  * Send the file delivery email via Resend.
  */
@@ -96,6 +98,322 @@ async function sendDeliveryEmail(
   return true;
 }
 
+/**
+ * Send one delivery email listing every file of a cart purchase via Resend.
+ */
+async function sendCartDeliveryEmail(
+  buyerEmail: string,
+  items: { title: string; downloadUrl: string }[]
+): Promise<boolean> {
+  // TODO: Implement Resend email delivery (same template as sendDeliveryEmail,
+  // with one download link per item)
+
+  console.log("[stripe-webhook] TODO: Send cart delivery email to", buyerEmail);
+  for (const item of items) {
+    console.log("[stripe-webhook] File:", item.title, "Download URL:", item.downloadUrl);
+  }
+  return true;
+}
+
+/**
+ * Send the configurator unlock link for a paid configuration via Resend.
+ * The link carries the entitlement, so the purchase works in any browser.
+ */
+async function sendEntitlementEmail(
+  buyerEmail: string,
+  unlockUrl: string
+): Promise<boolean> {
+  // TODO: Implement Resend email delivery (same sender as sendDeliveryEmail,
+  // subject "Your PIF cabinet files are unlocked", or "LamiForm files")
+
+  console.log("[stripe-webhook] TODO: Send configurator unlock email to", buyerEmail);
+  console.log("[stripe-webhook] Unlock URL:", unlockUrl);
+  return true;
+}
+
+interface PaidOrder {
+  id: string;
+  order_group_id: string | null;
+  payment_status: string;
+  total_cents: number;
+  refunded_cents: number;
+}
+
+/**
+ * Find the orders paid by a Stripe PaymentIntent id (stored on each order
+ * when its checkout session completes). A single-file checkout yields one
+ * order, a cart checkout one order per line. Empty if nothing matches.
+ */
+async function findOrdersByPaymentIntent(
+  supabase: ReturnType<typeof createClient>,
+  paymentIntentId: string | null | undefined
+): Promise<PaidOrder[]> {
+  if (!paymentIntentId) return [];
+
+  const { data, error } = await supabase
+    .from("orders")
+    .select("id, order_group_id, payment_status, total_cents, refunded_cents")
+    .eq("stripe_payment_intent_id", paymentIntentId);
+
+  if (error) {
+    throw new Error(`Order lookup failed: ${error.message}`);
+  }
+  return (data ?? []) as PaidOrder[];
+}
+
+/**
+ * Mark an order refunded and revoke its download token so the buyer's link
+ * stops working immediately.
+ */
+async function revokeOrder(
+  supabase: ReturnType<typeof createClient>,
+  orderId: string,
+  refundedCents: number
+): Promise<void> {
+  const { error } = await supabase
+    .from("orders")
+    .update({
+      payment_status: "refunded",
+      refunded_cents: refundedCents,
+      refunded_at: new Date().toISOString(),
+      download_token: null,
+      download_expires_at: null,
+    })
+    .eq("id", orderId);
+
+  if (error) {
+    throw new Error(`Failed to revoke order ${orderId}: ${error.message}`);
+  }
+}
+
+/**
+ * Cancel or reverse every payout on an order.
+ * - Not yet transferred (pending / on_hold / failed) → cancelled
+ * - Already transferred → Stripe transfer reversal → reversed
+ *   (left as reversal_pending if Stripe rejects it, so a retry can finish it)
+ * Returns the number of payouts that could not be settled.
+ */
+async function reversePayoutsForOrder(
+  supabase: ReturnType<typeof createClient>,
+  orderId: string,
+  reason: string
+): Promise<number> {
+  const { data: payouts, error } = await supabase
+    .from("payouts")
+    .select("id, status, amount_cents, stripe_transfer_id")
+    .eq("order_id", orderId);
+
+  if (error) {
+    throw new Error(`Failed to fetch payouts for order ${orderId}: ${error.message}`);
+  }
+
+  let unsettled = 0;
+
+  for (const payout of payouts ?? []) {
+    if (["pending", "on_hold", "failed"].includes(payout.status)) {
+      // Conditional on status so a concurrent transfer run can't be overwritten
+      const { error: cancelError } = await supabase
+        .from("payouts")
+        .update({ status: "cancelled", status_reason: reason })
+        .eq("id", payout.id)
+        .eq("status", payout.status);
+
+      if (cancelError) {
+        console.error("[stripe-webhook] Failed to cancel payout:", payout.id, cancelError.message);
+        unsettled++;
+      }
+      continue;
+    }
+
+    if (!["transferred", "reversal_pending"].includes(payout.status)) continue;
+
+    if (!payout.stripe_transfer_id) {
+      console.error("[stripe-webhook] Transferred payout has no transfer id:", payout.id);
+      unsettled++;
+      continue;
+    }
+
+    const { data: reversal, error: reversalError } = await getPaymentProvider().reverseTransfer(
+      payout.stripe_transfer_id,
+      payout.amount_cents,
+      { payout_id: payout.id, reason },
+      `payout-reversal-${payout.id}`
+    );
+
+    if (reversalError || !reversal) {
+      console.error("[stripe-webhook] Transfer reversal failed:", payout.id, reversalError);
+      await supabase
+        .from("payouts")
+        .update({ status: "reversal_pending", status_reason: reversalError ?? reason })
+        .eq("id", payout.id);
+      unsettled++;
+      continue;
+    }
+
+    await supabase
+      .from("payouts")
+      .update({
+        status: "reversed",
+        status_reason: reason,
+        stripe_reversal_id: reversal.reversal_id,
+        reversed_at: new Date().toISOString(),
+      })
+      .eq("id", payout.id);
+  }
+
+  return unsettled;
+}
+
+/** Members columns read by the subscription handlers. */
+const MEMBER_SUBSCRIPTION_COLUMNS = "id, tier_id, pending_tier_id, tier_grace_until, stripe_subscription_id";
+
+/**
+ * Find the member a subscription belongs to: by the member id we put in the
+ * subscription metadata, else by the provider customer id.
+ */
+async function findSubscriptionMember(
+  supabase: ReturnType<typeof createClient>,
+  memberId: string | null,
+  customerId: string | null
+): Promise<MemberSubscriptionState | null> {
+  const query = supabase.from("members").select(MEMBER_SUBSCRIPTION_COLUMNS);
+  const { data, error } = memberId
+    ? await query.eq("id", memberId).maybeSingle()
+    : customerId
+      ? await query.eq("stripe_customer_id", customerId).maybeSingle()
+      : { data: null, error: null };
+
+  if (error) {
+    throw new Error(`Member lookup failed: ${error.message}`);
+  }
+  return data as MemberSubscriptionState | null;
+}
+
+/**
+ * Whether the provider collected exactly the stored total. A session whose
+ * amount_total is missing or different is never fulfilled.
+ */
+function paidAmountMatches(session: Record<string, unknown>, totalCents: number, what: string): boolean {
+  if (session.amount_total === totalCents) return true;
+  console.error(
+    `[stripe-webhook] Session ${session.id} paid ${session.amount_total ?? "no amount"}, ${what} total is ${totalCents}`
+  );
+  return false;
+}
+
+/**
+ * Fulfil one paid order line:
+ * 1. Mark order as paid
+ * 2. Generate download_token + expiry
+ * 3. Create payout rows for each royalty chain member
+ * 4. Mark the order's promo code use (if any) as redeemed
+ * Each step checks the order's current state first, so it is safe to repeat.
+ * Returns the line's download token, or null on a database failure (including
+ * reading the royalty chain or writing the payouts), so the event is failed
+ * and redelivered rather than recorded without its payouts.
+ */
+async function fulfillOrderLine(
+  supabase: ReturnType<typeof createClient>,
+  order: {
+    id: string;
+    file_id: string;
+    total_cents: number;
+    pif_fee_cents: number;
+    tax_cents: number;
+    payment_status: string;
+    download_token: string | null;
+  },
+  paymentIntentId: string | undefined
+): Promise<string | null> {
+  // ---- Mark order as paid with a download token (once) ----
+  let downloadToken = order.download_token;
+
+  if (order.payment_status === "paid" && downloadToken) {
+    console.log("[stripe-webhook] Order already paid, keeping existing token:", order.id);
+  } else {
+    downloadToken = crypto.randomUUID();
+    const downloadExpiresAt = new Date(Date.now() + 72 * 60 * 60 * 1000).toISOString(); // 72 hours
+
+    const { error: updateError } = await supabase
+      .from("orders")
+      .update({
+        payment_status: "paid",
+        stripe_payment_intent_id: paymentIntentId ?? null,
+        download_token: downloadToken,
+        download_expires_at: downloadExpiresAt,
+        paid_at: new Date().toISOString(),
+      })
+      .eq("id", order.id);
+
+    if (updateError) {
+      console.error("[stripe-webhook] Failed to update order:", updateError.message);
+      return null;
+    }
+  }
+
+  // ---- Create payout rows (skip if this order already has them) ----
+  const { data: existingPayouts, error: existingPayoutsError } = await supabase
+    .from("payouts")
+    .select("id")
+    .eq("order_id", order.id)
+    .limit(1);
+
+  if (existingPayoutsError) {
+    console.error("[stripe-webhook] Failed to check existing payouts:", existingPayoutsError.message);
+    return null;
+  }
+
+  if (existingPayouts && existingPayouts.length > 0) {
+    console.log("[stripe-webhook] Payouts already recorded for order:", order.id);
+  } else {
+    // ---- Fetch royalty chain for the file ----
+    const { data: royaltyChain, error: royaltyError } = await supabase
+      .from("file_royalty_chain")
+      .select("member_id, role, share_basis_points")
+      .eq("file_id", order.file_id);
+
+    if (royaltyError) {
+      console.error("[stripe-webhook] Failed to fetch royalty chain:", royaltyError.message);
+      return null;
+    }
+
+    const chainErrors = royaltyChain ? validateRoyaltyChain(royaltyChain) : [];
+    if (chainErrors.length > 0) {
+      console.error("[stripe-webhook] Invalid royalty chain, payouts not created:", order.file_id, chainErrors);
+    } else if (royaltyChain && royaltyChain.length > 0) {
+      // PIF keeps the fee and the tax is remitted; only the base price is split
+      const basePriceCents = order.total_cents - order.pif_fee_cents - order.tax_cents;
+      const payoutRows = splitRoyalties(basePriceCents, royaltyChain).map((split) => ({
+        order_id: order.id,
+        member_id: split.member_id,
+        role: split.role,
+        share_basis_points: split.share_basis_points,
+        amount_cents: split.amount_cents,
+        status: "pending", // Transferred later by process-payouts
+      }));
+
+      const { error: payoutError } = await supabase.from("payouts").insert(payoutRows);
+      if (payoutError) {
+        console.error("[stripe-webhook] Failed to create payouts:", payoutError.message);
+        return null;
+      }
+    }
+  }
+
+  // ---- Confirm the promo code use reserved at checkout ----
+  const { error: promoError } = await supabase
+    .from("promo_redemptions")
+    .update({ status: "redeemed", redeemed_at: new Date().toISOString() })
+    .eq("order_id", order.id)
+    .eq("status", "reserved");
+
+  if (promoError) {
+    console.warn("[stripe-webhook] Failed to mark promo redemption:", promoError.message);
+  }
+
+  return downloadToken;
+}
+
 // ---------------------------------------------------------------------------
 // Event Handlers
 // ---------------------------------------------------------------------------
@@ -106,6 +424,10 @@ async function sendDeliveryEmail(
  * 2. Generate download_token + expiry
  * 3. Create payout rows for each royalty chain member
  * 4. Send delivery email
+ *
+ * Each step checks the order's current state first, so re-running the handler
+ * for the same session never issues a second token, duplicates payouts or
+ * re-sends the email.
  */
 async function handleCheckoutCompleted(
   supabase: ReturnType<typeof createClient>,
@@ -116,16 +438,30 @@ async function handleCheckoutCompleted(
   const fileId = metadata?.file_id;
   const buyerEmail = metadata?.buyer_email;
 
+  if (session.mode === "subscription") {
+    return await handleSubscriptionCheckoutCompleted(supabase, session);
+  }
+
+  if (metadata?.order_group_id) {
+    return await handleCartCheckoutCompleted(supabase, session);
+  }
+
+  if (metadata?.config_purchase_id) {
+    return await handleConfigCheckoutCompleted(supabase, session);
+  }
+
   if (!fileId || !buyerEmail) {
     console.error("[stripe-webhook] Missing metadata in checkout session:", sessionId);
     return new Response(JSON.stringify({ error: "Missing metadata" }), { status: 400 });
   }
 
-  // ---- Find the order by stripe_session_id ----
+  // ---- Find the order by its checkout session id ----
   const { data: order, error: orderError } = await supabase
     .from("orders")
-    .select("id, file_id, total_cents, pif_fee_cents")
-    .eq("stripe_session_id", sessionId)
+    .select(
+      "id, file_id, total_cents, pif_fee_cents, tax_cents, payment_status, download_token, delivery_email_sent"
+    )
+    .eq("stripe_checkout_session_id", sessionId)
     .single();
 
   if (orderError || !order) {
@@ -133,66 +469,381 @@ async function handleCheckoutCompleted(
     return new Response(JSON.stringify({ error: "Order not found" }), { status: 404 });
   }
 
-  // ---- Generate download token and expiry ----
-  const downloadToken = crypto.randomUUID();
-  const downloadExpiresAt = new Date(Date.now() + 72 * 60 * 60 * 1000).toISOString(); // 72 hours
+  if (!paidAmountMatches(session, order.total_cents, `order ${order.id}`)) {
+    return new Response(JSON.stringify({ error: "Amount paid does not match order total" }), { status: 400 });
+  }
+
+  // ---- Mark paid, issue token, create payouts ----
+  const downloadToken = await fulfillOrderLine(supabase, order, session.payment_intent as string);
+  if (!downloadToken) {
+    return new Response(JSON.stringify({ error: "Failed to fulfil order" }), { status: 500 });
+  }
+
+  // ---- Send delivery email (once) ----
+  if (order.delivery_email_sent) {
+    console.log("[stripe-webhook] Delivery email already sent for order:", order.id);
+  } else {
+    // TODO: Build proper download URL using PUBLIC_SITE_URL
+    const downloadUrl = `${Deno.env.get("SUPABASE_URL")}/functions/v1/download?token=${downloadToken}`;
+
+    const { data: fileRow } = await supabase
+      .from("files")
+      .select("title")
+      .eq("id", fileId)
+      .single();
+
+    const emailSent = await sendDeliveryEmail(buyerEmail, fileRow?.title ?? "Untitled", downloadUrl);
+
+    if (emailSent) {
+      const { error: emailFlagError } = await supabase
+        .from("orders")
+        .update({
+          delivery_email_sent: true,
+          delivery_email_sent_at: new Date().toISOString(),
+        })
+        .eq("id", order.id);
+
+      if (emailFlagError) {
+        console.warn("[stripe-webhook] Failed to record delivery email:", emailFlagError.message);
+      }
+    } else {
+      console.warn("[stripe-webhook] Email delivery may have failed for order:", order.id);
+    }
+  }
+
+  return new Response(JSON.stringify({ received: true }), { status: 200 });
+}
+
+/**
+ * Handle checkout.session.completed for a membership subscription:
+ * remember the customer the provider created. The tier itself is driven by
+ * the customer.subscription.* events.
+ */
+async function handleSubscriptionCheckoutCompleted(
+  supabase: ReturnType<typeof createClient>,
+  session: Record<string, unknown>
+): Promise<Response> {
+  const metadata = session.metadata as Record<string, string> | undefined;
+  const memberId = metadata?.member_id ?? (session.client_reference_id as string | undefined);
+  const customerId = session.customer as string | undefined;
+
+  if (!memberId || !customerId) {
+    console.error("[stripe-webhook] Subscription checkout without member or customer:", session.id);
+    return new Response(JSON.stringify({ received: true, handled: false }), { status: 200 });
+  }
+
+  const { error } = await supabase
+    .from("members")
+    .update({ stripe_customer_id: customerId })
+    .eq("id", memberId);
+
+  if (error) {
+    console.error("[stripe-webhook] Failed to store customer id:", error.message);
+    return new Response(JSON.stringify({ error: "Failed to update member" }), { status: 500 });
+  }
+
+  console.log("[stripe-webhook] Subscription checkout completed for member:", memberId);
+  return new Response(JSON.stringify({ received: true }), { status: 200 });
+}
+
+/**
+ * Handle checkout.session.completed for a cart (metadata.order_group_id):
+ * fulfil every line of the order group, mark the group paid and send one
+ * delivery email with a download link per file. Safe to re-run like the
+ * single-file path.
+ */
+async function handleCartCheckoutCompleted(
+  supabase: ReturnType<typeof createClient>,
+  session: Record<string, unknown>
+): Promise<Response> {
+  const sessionId = session.id as string;
+  const metadata = session.metadata as Record<string, string>;
+  const buyerEmail = metadata.buyer_email;
+  const paymentIntentId = session.payment_intent as string;
+
+  if (!buyerEmail) {
+    console.error("[stripe-webhook] Missing metadata in cart checkout session:", sessionId);
+    return new Response(JSON.stringify({ error: "Missing metadata" }), { status: 400 });
+  }
+
+  // ---- Find the order group by its checkout session id ----
+  const { data: group, error: groupError } = await supabase
+    .from("order_groups")
+    .select("id, total_cents, payment_status, delivery_email_sent")
+    .eq("stripe_checkout_session_id", sessionId)
+    .single();
+
+  if (groupError || !group) {
+    console.error("[stripe-webhook] Order group not found for session:", sessionId);
+    return new Response(JSON.stringify({ error: "Order not found" }), { status: 404 });
+  }
+
+  if (!paidAmountMatches(session, group.total_cents, `order group ${group.id}`)) {
+    return new Response(JSON.stringify({ error: "Amount paid does not match order total" }), { status: 400 });
+  }
 
-  // ---- Mark order as paid ----
-  const { error: updateError } = await supabase
+  const { data: lines, error: linesError } = await supabase
     .from("orders")
-    .update({
-      payment_status: "paid",
-      download_token: downloadToken,
-      download_expires_at: downloadExpiresAt,
-      paid_at: new Date().toISOString(),
-    })
-    .eq("id", order.id);
+    .select("id, file_id, total_cents, pif_fee_cents, tax_cents, payment_status, download_token, files(title)")
+    .eq("order_group_id", group.id);
+
+  if (linesError || !lines || lines.length === 0) {
+    console.error("[stripe-webhook] No order lines for group:", group.id, linesError?.message);
+    return new Response(JSON.stringify({ error: "Order lines not found" }), { status: 404 });
+  }
+
+  // ---- Mark paid, issue tokens, create payouts for every line ----
+  const items: { title: string; downloadUrl: string }[] = [];
 
-  if (updateError) {
-    console.error("[stripe-webhook] Failed to update order:", updateError.message);
-    return new Response(JSON.stringify({ error: "Failed to update order" }), { status: 500 });
+  for (const line of lines) {
+    const downloadToken = await fulfillOrderLine(supabase, line, paymentIntentId);
+    if (!downloadToken) {
+      return new Response(JSON.stringify({ error: "Failed to fulfil order" }), { status: 500 });
+    }
+
+    const file = line.files as { title: string } | null;
+    items.push({
+      title: file?.title ?? "Untitled",
+      // TODO: Build proper download URL using PUBLIC_SITE_URL
+      downloadUrl: `${Deno.env.get("SUPABASE_URL")}/functions/v1/download?token=${downloadToken}`,
+    });
   }
 
-  // ---- Fetch royalty chain for the file ----
-  const { data: royaltyChain, error: royaltyError } = await supabase
-    .from("file_royalty_chain")
-    .select("member_id, share_basis_points, position")
-    .eq("file_id", fileId)
-    .order("position", { ascending: true });
+  if (group.payment_status !== "paid") {
+    const { error: updateError } = await supabase
+      .from("order_groups")
+      .update({
+        payment_status: "paid",
+        stripe_payment_intent_id: paymentIntentId ?? null,
+        paid_at: new Date().toISOString(),
+      })
+      .eq("id", group.id);
 
-  if (royaltyError) {
-    console.error("[stripe-webhook] Failed to fetch royalty chain:", royaltyError.message);
+    if (updateError) {
+      console.error("[stripe-webhook] Failed to update order group:", updateError.message);
+      return new Response(JSON.stringify({ error: "Failed to update order" }), { status: 500 });
+    }
   }
 
-  // ---- Create payout rows ----
-  if (royaltyChain && royaltyChain.length > 0) {
-    const basePriceCents = order.total_cents - order.pif_fee_cents;
-    const payoutRows = royaltyChain.map((entry) => ({
-      order_id: order.id,
-      member_id: entry.member_id,
-      amount_cents: Math.round((basePriceCents * entry.share_basis_points) / 10000),
-      status: "pending", // TODO: Process payouts via Stripe Transfer
-    }));
+  // ---- Send one delivery email for the cart (once) ----
+  if (group.delivery_email_sent) {
+    console.log("[stripe-webhook] Delivery email already sent for order group:", group.id);
+  } else {
+    const emailSent = await sendCartDeliveryEmail(buyerEmail, items);
 
-    const { error: payoutError } = await supabase.from("payouts").insert(payoutRows);
-    if (payoutError) {
-      console.error("[stripe-webhook] Failed to create payouts:", payoutError.message);
-      // Non-fatal — order is still marked paid. Payouts can be retried.
+    if (emailSent) {
+      const sentAt = new Date().toISOString();
+      const { error: emailFlagError } = await supabase
+        .from("order_groups")
+        .update({ delivery_email_sent: true, delivery_email_sent_at: sentAt })
+        .eq("id", group.id);
+
+      if (emailFlagError) {
+        console.warn("[stripe-webhook] Failed to record delivery email:", emailFlagError.message);
+      }
+
+      await supabase
+        .from("orders")
+        .update({ delivery_email_sent: true, delivery_email_sent_at: sentAt })
+        .eq("order_group_id", group.id);
+    } else {
+      console.warn("[stripe-webhook] Email delivery may have failed for order group:", group.id);
     }
   }
 
-  // ---- Send delivery email ----
-  // TODO: Build proper download URL using PUBLIC_SITE_URL
-  const downloadUrl = `${Deno.env.get("SUPABASE_URL")}/functions/v1/download?token=${downloadToken}`;
+  return new Response(JSON.stringify({ received: true, lines: lines.length }), { status: 200 });
+}
 
-  const { data: fileRow } = await supabase
-    .from("files")
-    .select("title")
-    .eq("id", fileId)
+/**
+ * Handle checkout.session.completed for a configurator purchase
+ * (metadata.config_purchase_id, cabinet or LamiForm): mark it paid, sign the
+ * entitlement for its product kind and configuration hash and email the
+ * unlock link. Safe to re-run: an issued
+ * entitlement is kept and the email goes out once.
+ */
+async function handleConfigCheckoutCompleted(
+  supabase: ReturnType<typeof createClient>,
+  session: Record<string, unknown>
+): Promise<Response> {
+  const sessionId = session.id as string;
+
+  const { data: purchase, error: purchaseError } = await supabase
+    .from("config_purchases")
+    .select(
+      "id, buyer_email, config_hash, product_kind, total_cents, payment_status, entitlement_token, delivery_email_sent"
+    )
+    .eq("stripe_checkout_session_id", sessionId)
     .single();
 
-  await sendDeliveryEmail(buyerEmail, fileRow?.title ?? "Untitled", downloadUrl);
+  if (purchaseError || !purchase) {
+    console.error("[stripe-webhook] Configurator purchase not found for session:", sessionId);
+    return new Response(JSON.stringify({ error: "Purchase not found" }), { status: 404 });
+  }
+
+  if (purchase.payment_status === "refunded") {
+    console.log("[stripe-webhook] Configurator purchase already refunded:", purchase.id);
+    return new Response(JSON.stringify({ received: true }), { status: 200 });
+  }
+
+  if (!paidAmountMatches(session, purchase.total_cents, `configurator purchase ${purchase.id}`)) {
+    return new Response(JSON.stringify({ error: "Amount paid does not match order total" }), { status: 400 });
+  }
+
+  // ---- Mark paid and issue the entitlement (once) ----
+  let entitlement = purchase.entitlement_token as string | null;
+
+  if (purchase.payment_status !== "paid" || !entitlement) {
+    entitlement = await signEntitlement(purchase.id, purchase.config_hash, purchase.product_kind);
+
+    const { error: updateError } = await supabase
+      .from("config_purchases")
+      .update({
+        payment_status: "paid",
+        stripe_payment_intent_id: (session.payment_intent as string) ?? null,
+        entitlement_token: entitlement,
+        entitlement_issued_at: new Date().toISOString(),
+        paid_at: new Date().toISOString(),
+      })
+      .eq("id", purchase.id);
+
+    if (updateError) {
+      console.error("[stripe-webhook] Failed to issue entitlement:", updateError.message);
+      return new Response(JSON.stringify({ error: "Failed to update purchase" }), { status: 500 });
+    }
+  }
+
+  // ---- Send the unlock link (once) ----
+  if (purchase.delivery_email_sent) {
+    console.log("[stripe-webhook] Unlock email already sent for purchase:", purchase.id);
+  } else {
+    const siteUrl = Deno.env.get("PUBLIC_SITE_URL") ?? "";
+    const page = purchase.product_kind === "lamiform" ? "lamiform.html" : "configurator.html";
+    const unlockUrl = `${siteUrl}/${page}?entitlement=${encodeURIComponent(entitlement)}`;
+    const emailSent = await sendEntitlementEmail(purchase.buyer_email, unlockUrl);
+
+    if (emailSent) {
+      const { error: emailFlagError } = await supabase
+        .from("config_purchases")
+        .update({ delivery_email_sent: true, delivery_email_sent_at: new Date().toISOString() })
+        .eq("id", purchase.id);
+
+      if (emailFlagError) {
+        console.warn("[stripe-webhook] Failed to record unlock email:", emailFlagError.message);
+      }
+    } else {
+      console.warn("[stripe-webhook] Email delivery may have failed for purchase:", purchase.id);
+    }
+  }
 
+  console.log("[stripe-webhook] Configurator purchase paid:", purchase.id);
+  return new Response(JSON.stringify({ received: true }), { status: 200 });
+}
+
+/**
+ * Handle checkout.session.expired:
+ * The buyer never paid, so fail the pending order(s) and release a
+ * single-file order's reserved promo code use so it counts against the
+ * limit again.
+ */
+async function handleCheckoutExpired(
+  supabase: ReturnType<typeof createClient>,
+  session: Record<string, unknown>
+): Promise<Response> {
+  const sessionId = session.id as string;
+  const metadata = session.metadata as Record<string, string> | undefined;
+
+  if (metadata?.config_purchase_id) {
+    const { error: purchaseError } = await supabase
+      .from("config_purchases")
+      .update({ payment_status: "failed" })
+      .eq("stripe_checkout_session_id", sessionId)
+      .eq("payment_status", "pending");
+
+    if (purchaseError) {
+      console.error("[stripe-webhook] Failed to expire configurator purchase:", purchaseError.message);
+      return new Response(JSON.stringify({ error: "Failed to update purchase" }), { status: 500 });
+    }
+    return new Response(JSON.stringify({ received: true }), { status: 200 });
+  }
+
+  const { data: order, error: orderError } = await supabase
+    .from("orders")
+    .select("id, payment_status, promo_code_id")
+    .eq("stripe_checkout_session_id", sessionId)
+    .maybeSingle();
+
+  if (orderError) {
+    console.error("[stripe-webhook] Order lookup failed for expired session:", orderError.message);
+    return new Response(JSON.stringify({ error: "Order lookup failed" }), { status: 500 });
+  }
+
+  if (!order) {
+    // Cart sessions belong to an order group; fail the group and its lines
+    // (create-cart-checkout reserves no promo code uses)
+    const { data: group, error: groupLookupError } = await supabase
+      .from("order_groups")
+      .select("id, payment_status")
+      .eq("stripe_checkout_session_id", sessionId)
+      .maybeSingle();
+
+    if (groupLookupError) {
+      console.error("[stripe-webhook] Order group lookup failed for expired session:", groupLookupError.message);
+      return new Response(JSON.stringify({ error: "Order lookup failed" }), { status: 500 });
+    }
+    if (!group) {
+      return new Response(JSON.stringify({ received: true }), { status: 200 });
+    }
+
+    if (group.payment_status === "pending") {
+      const { error: groupError } = await supabase
+        .from("order_groups")
+        .update({ payment_status: "failed" })
+        .eq("id", group.id)
+        .eq("payment_status", "pending");
+
+      const { error: linesError } = groupError
+        ? { error: null }
+        : await supabase
+          .from("orders")
+          .update({ payment_status: "failed" })
+          .eq("order_group_id", group.id)
+          .eq("payment_status", "pending");
+
+      if (groupError || linesError) {
+        console.error("[stripe-webhook] Failed to expire order group:", (groupError ?? linesError)?.message);
+        return new Response(JSON.stringify({ error: "Failed to update order" }), { status: 500 });
+      }
+    }
+
+    console.log("[stripe-webhook] Checkout expired for order group:", group.id);
+    return new Response(JSON.stringify({ received: true }), { status: 200 });
+  }
+
+  if (order.payment_status === "pending") {
+    const { error: updateError } = await supabase
+      .from("orders")
+      .update({ payment_status: "failed" })
+      .eq("id", order.id)
+      .eq("payment_status", "pending");
+
+    if (updateError) {
+      console.error("[stripe-webhook] Failed to expire order:", updateError.message);
+      return new Response(JSON.stringify({ error: "Failed to update order" }), { status: 500 });
+    }
+  }
+
+  if (order.promo_code_id) {
+    const { error: releaseError } = await supabase.rpc("release_promo_redemption", {
+      p_order_id: order.id,
+    });
+
+    if (releaseError) {
+      console.error("[stripe-webhook] Failed to release promo redemption:", releaseError.message);
+      return new Response(JSON.stringify({ error: "Failed to release promo code" }), { status: 500 });
+    }
+  }
+
+  console.log("[stripe-webhook] Checkout expired for order:", order.id);
   return new Response(JSON.stringify({ received: true }), { status: 200 });
 }
 
@@ -222,6 +873,340 @@ async function handlePaymentFailed(
   return new Response(JSON.stringify({ received: true }), { status: 200 });
 }
 
+/**
+ * Mark the configurator purchase paid by a PaymentIntent refunded, which
+ * makes verify-entitlement reject its entitlement. False if none matches.
+ */
+async function revokeConfigPurchase(
+  supabase: ReturnType<typeof createClient>,
+  paymentIntentId: string | null | undefined
+): Promise<boolean> {
+  if (!paymentIntentId) return false;
+
+  const { data, error } = await supabase
+    .from("config_purchases")
+    .update({ payment_status: "refunded", refunded_at: new Date().toISOString() })
+    .eq("stripe_payment_intent_id", paymentIntentId)
+    .select("id");
+
+  if (error) {
+    throw new Error(`Configurator purchase update failed: ${error.message}`);
+  }
+  return (data ?? []).length > 0;
+}
+
+/**
+ * Handle charge.refunded:
+ * A full refund marks the order refunded, revokes the download token and
+ * cancels/reverses its payouts — for a cart, every line of the payment and
+ * the order group. A partial refund is recorded only (on the group for a
+ * cart, since it can't be attributed to a line).
+ */
+async function handleChargeRefunded(
+  supabase: ReturnType<typeof createClient>,
+  charge: Record<string, unknown>
+): Promise<Response> {
+  const orders = await findOrdersByPaymentIntent(supabase, charge.payment_intent as string);
+  if (orders.length === 0) {
+    if (charge.refunded === true && await revokeConfigPurchase(supabase, charge.payment_intent as string)) {
+      console.log("[stripe-webhook] Configurator entitlement revoked for payment:", charge.payment_intent);
+      return new Response(JSON.stringify({ received: true }), { status: 200 });
+    }
+    console.log("[stripe-webhook] No order for refunded charge:", charge.id);
+    return new Response(JSON.stringify({ received: true, handled: false }), { status: 200 });
+  }
+
+  const amountRefunded = (charge.amount_refunded as number) ?? 0;
+  const groupId = orders[0].order_group_id;
+
+  if (charge.refunded !== true) {
+    // Partial refund — buyer keeps access; record the amount for reconciliation
+    const { error } = groupId
+      ? await supabase.from("order_groups").update({ refunded_cents: amountRefunded }).eq("id", groupId)
+      : await supabase.from("orders").update({ refunded_cents: amountRefunded }).eq("id", orders[0].id);
+
+    if (error) {
+      console.error("[stripe-webhook] Failed to record partial refund:", error.message);
+      return new Response(JSON.stringify({ error: "Failed to record refund" }), { status: 500 });
+    }
+    console.log("[stripe-webhook] Partial refund recorded for payment:", charge.payment_intent, amountRefunded);
+    return new Response(JSON.stringify({ received: true, partial: true }), { status: 200 });
+  }
+
+  let unsettled = 0;
+  for (const order of orders) {
+    await revokeOrder(supabase, order.id, groupId ? order.total_cents : amountRefunded);
+    unsettled += await reversePayoutsForOrder(supabase, order.id, "refunded");
+  }
+
+  if (groupId) {
+    const { error: groupError } = await supabase
+      .from("order_groups")
+      .update({
+        payment_status: "refunded",
+        refunded_cents: amountRefunded,
+        refunded_at: new Date().toISOString(),
+      })
+      .eq("id", groupId);
+
+    if (groupError) {
+      console.error("[stripe-webhook] Failed to mark order group refunded:", groupError.message);
+      unsettled++;
+    }
+  }
+
+  if (unsettled > 0) {
+    // Non-2xx so Stripe redelivers and the remaining reversals are retried
+    return new Response(
+      JSON.stringify({ error: `${unsettled} payout(s) could not be reversed` }),
+      { status: 500 }
+    );
+  }
+
+  console.log("[stripe-webhook] Order(s) refunded and access revoked:", orders.map((o) => o.id));
+  return new Response(JSON.stringify({ received: true }), { status: 200 });
+}
+
+/**
+ * Handle charge.dispute.created:
+ * Record the dispute and put every untransferred payout (pending, or failed
+ * and awaiting retry) of the order's payees on hold (not just this order's)
+ * until the dispute closes. For a cart payment the payees of every line are
+ * held.
+ */
+async function handleDisputeCreated(
+  supabase: ReturnType<typeof createClient>,
+  dispute: Record<string, unknown>
+): Promise<Response> {
+  const paymentIntentId = dispute.payment_intent as string;
+  const orders = await findOrdersByPaymentIntent(supabase, paymentIntentId);
+  if (orders.length === 0) {
+    console.log("[stripe-webhook] No order for disputed charge:", dispute.charge);
+    return new Response(JSON.stringify({ received: true, handled: false }), { status: 200 });
+  }
+
+  // ---- Who gets paid on this payment (every line of a cart) ----
+  const { data: orderPayouts, error: payoutsError } = await supabase
+    .from("payouts")
+    .select("member_id")
+    .in("order_id", orders.map((o) => o.id));
+
+  if (payoutsError) {
+    console.error("[stripe-webhook] Failed to fetch payouts for dispute:", payoutsError.message);
+    return new Response(JSON.stringify({ error: "Failed to fetch payouts" }), { status: 500 });
+  }
+
+  const memberIds = [...new Set((orderPayouts ?? []).map((p: { member_id: string }) => p.member_id))];
+
+  // ---- Record the dispute ----
+  const { error: disputeError } = await supabase.from("payment_disputes").upsert(
+    {
+      id: dispute.id as string,
+      order_id: orders[0].id,
+      stripe_charge_id: dispute.charge as string,
+      stripe_payment_intent_id: paymentIntentId ?? null,
+      amount_cents: (dispute.amount as number) ?? 0,
+      reason: (dispute.reason as string) ?? null,
+      status: "open",
+      held_member_ids: memberIds,
+    },
+    { onConflict: "id" }
+  );
+
+  if (disputeError) {
+    console.error("[stripe-webhook] Failed to record dispute:", disputeError.message);
+    return new Response(JSON.stringify({ error: "Failed to record dispute" }), { status: 500 });
+  }
+
+  // ---- Freeze untransferred payouts ----
+  // process-payouts retries failed rows too; released, they come back pending
+  if (memberIds.length > 0) {
+    const { error: holdError } = await supabase
+      .from("payouts")
+      .update({ status: "on_hold", status_reason: `dispute ${dispute.id}` })
+      .in("member_id", memberIds)
+      .in("status", ["pending", "failed"]);
+
+    if (holdError) {
+      console.error("[stripe-webhook] Failed to hold payouts:", holdError.message);
+      return new Response(JSON.stringify({ error: "Failed to hold payouts" }), { status: 500 });
+    }
+  }
+
+  console.log("[stripe-webhook] Dispute opened, payouts held for members:", memberIds);
+  return new Response(JSON.stringify({ received: true }), { status: 200 });
+}
+
+/**
+ * Handle charge.dispute.closed:
+ * - lost → revoke the order(s) and cancel/reverse their payouts like a refund
+ * - won / warning_closed → nothing to undo
+ * Then release the payouts this dispute held, for members with no other
+ * open dispute.
+ */
+async function handleDisputeClosed(
+  supabase: ReturnType<typeof createClient>,
+  dispute: Record<string, unknown>
+): Promise<Response> {
+  const disputeId = dispute.id as string;
+  const outcome = dispute.status as string;
+
+  const { data: record, error: recordError } = await supabase
+    .from("payment_disputes")
+    .select("id, order_id, stripe_payment_intent_id, held_member_ids")
+    .eq("id", disputeId)
+    .maybeSingle();
+
+  if (recordError) {
+    console.error("[stripe-webhook] Failed to fetch dispute:", recordError.message);
+    return new Response(JSON.stringify({ error: "Failed to fetch dispute" }), { status: 500 });
+  }
+
+  if (!record) {
+    console.log("[stripe-webhook] Closed dispute was never recorded:", disputeId);
+    return new Response(JSON.stringify({ received: true, handled: false }), { status: 200 });
+  }
+
+  const finalStatus = ["won", "lost", "warning_closed"].includes(outcome) ? outcome : "won";
+
+  const { error: closeError } = await supabase
+    .from("payment_disputes")
+    .update({ status: finalStatus, closed_at: new Date().toISOString() })
+    .eq("id", disputeId);
+
+  if (closeError) {
+    console.error("[stripe-webhook] Failed to close dispute:", closeError.message);
+    return new Response(JSON.stringify({ error: "Failed to close dispute" }), { status: 500 });
+  }
+
+  let unsettled = 0;
+  if (finalStatus === "lost") {
+    // Disputes recorded before cart support only carry the order id
+    const disputedCents = (dispute.amount as number) ?? 0;
+    const found = await findOrdersByPaymentIntent(supabase, record.stripe_payment_intent_id);
+    const lostOrders = found.length > 0 ? found : [{ id: record.order_id as string, total_cents: disputedCents }];
+
+    for (const order of lostOrders) {
+      await revokeOrder(supabase, order.id, lostOrders.length > 1 ? order.total_cents : disputedCents);
+      unsettled += await reversePayoutsForOrder(supabase, order.id, `dispute ${disputeId} lost`);
+    }
+  }
+
+  // ---- Release the payouts this dispute held ----
+  // Only rows it froze (status_reason "dispute <id>"), so other holds stay.
+  // A member still under another open dispute stays frozen: that dispute
+  // takes the rows over, so its close releases them.
+  const holdReason = `dispute ${disputeId}`;
+  for (const memberId of (record.held_member_ids ?? []) as string[]) {
+    const { data: stillOpen } = await supabase
+      .from("payment_disputes")
+      .select("id")
+      .eq("status", "open")
+      .contains("held_member_ids", [memberId])
+      .limit(1);
+
+    const otherDispute = stillOpen && stillOpen.length > 0 ? stillOpen[0].id as string : null;
+    if (otherDispute) {
+      console.log("[stripe-webhook] Member still under another dispute:", memberId, otherDispute);
+    }
+
+    const { error: releaseError } = await supabase
+      .from("payouts")
+      .update(otherDispute
+        ? { status_reason: `dispute ${otherDispute}` }
+        : { status: "pending", status_reason: null })
+      .eq("member_id", memberId)
+      .eq("status", "on_hold")
+      .eq("status_reason", holdReason);
+
+    if (releaseError) {
+      console.error("[stripe-webhook] Failed to release payouts:", memberId, releaseError.message);
+      unsettled++;
+    }
+  }
+
+  if (unsettled > 0) {
+    return new Response(
+      JSON.stringify({ error: `${unsettled} payout update(s) failed` }),
+      { status: 500 }
+    );
+  }
+
+  console.log("[stripe-webhook] Dispute closed:", disputeId, finalStatus);
+  return new Response(JSON.stringify({ received: true }), { status: 200 });
+}
+
+/**
+ * Handle customer.subscription.created / updated / deleted:
+ * bring the member's tier in line with what the subscription pays for
+ * (rules in _shared/subscriptions.ts).
+ */
+async function handleSubscriptionChanged(
+  supabase: ReturnType<typeof createClient>,
+  object: Record<string, unknown>,
+  deleted: boolean
+): Promise<Response> {
+  const subscription = parseSubscription(object);
+  const member = await findSubscriptionMember(supabase, subscription.member_id, subscription.customer_id);
+
+  if (!member) {
+    console.log("[stripe-webhook] No member for subscription:", subscription.id);
+    return new Response(JSON.stringify({ received: true, handled: false }), { status: 200 });
+  }
+
+  if (!subscription.tier_id && !deleted) {
+    console.error("[stripe-webhook] Subscription price matches no tier:", subscription.id);
+  }
+
+  const update = planSubscriptionUpdate(member, subscription, deleted);
+  if (!update) {
+    console.log("[stripe-webhook] Ignoring event for a replaced subscription:", subscription.id);
+    return new Response(JSON.stringify({ received: true, handled: false }), { status: 200 });
+  }
+
+  const { error } = await supabase.from("members").update(update).eq("id", member.id);
+  if (error) {
+    console.error("[stripe-webhook] Failed to update member subscription:", error.message);
+    return new Response(JSON.stringify({ error: "Failed to update member" }), { status: 500 });
+  }
+
+  console.log("[stripe-webhook] Subscription synced for member:", member.id, subscription.status, update.tier_id ?? member.tier_id);
+  return new Response(JSON.stringify({ received: true }), { status: 200 });
+}
+
+/**
+ * Handle invoice.payment_failed:
+ * a membership renewal failed — keep the tier for the grace period while the
+ * provider retries. Invoices without a subscription aren't memberships.
+ */
+async function handleInvoicePaymentFailed(
+  supabase: ReturnType<typeof createClient>,
+  invoice: Record<string, unknown>
+): Promise<Response> {
+  const subscriptionId = invoice.subscription as string | null;
+  if (!subscriptionId) {
+    return new Response(JSON.stringify({ received: true, handled: false }), { status: 200 });
+  }
+
+  const member = await findSubscriptionMember(supabase, null, invoice.customer as string | null);
+  if (!member || member.stripe_subscription_id !== subscriptionId) {
+    console.log("[stripe-webhook] No member for failed invoice:", invoice.id);
+    return new Response(JSON.stringify({ received: true, handled: false }), { status: 200 });
+  }
+
+  const update = planPaymentFailedUpdate(member);
+  if (update) {
+    const { error } = await supabase.from("members").update(update).eq("id", member.id);
+    if (error) {
+      console.error("[stripe-webhook] Failed to start payment grace period:", error.message);
+      return new Response(JSON.stringify({ error: "Failed to update member" }), { status: 500 });
+    }
+  }
+
+  console.log("[stripe-webhook] Membership payment failed for member:", member.id);
+  return new Response(JSON.stringify({ received: true }), { status: 200 });
+}
+
 // ---------------------------------------------------------------------------
 // Main handler
 // ---------------------------------------------------------------------------
@@ -243,11 +1228,10 @@ serve(async (req: Request) => {
 
     // ---- Read raw body for signature verification ----
     const body = await req.text();
-    const signature = req.headers.get("Stripe-Signature");
 
-    // ---- Verify Stripe signature ----
-    const webhookSecret = Deno.env.get("STRIPE_WEBHOOK_SECRET") ?? "";
-    const event = await verifyStripeSignature(body, signature, webhookSecret);
+    // ---- Verify and normalize via the payment provider ----
+    const provider = getPaymentProvider();
+    const event = await provider.parseWebhook(body, req, "payments");
 
     if (!event) {
       return new Response(
@@ -263,27 +1247,94 @@ serve(async (req: Request) => {
     );
 
     // ---- Route by event type ----
-    const eventType = event.type as string;
-    const eventData = (event.data as Record<string, unknown>)?.object as Record<string, unknown>;
+    const eventId = event.id;
+    const eventType = event.type;
+    const eventData = event.object;
 
-    console.log("[stripe-webhook] Received event:", eventType);
+    console.log("[stripe-webhook] Received event:", eventType, eventId);
 
-    switch (eventType) {
-      case "checkout.session.completed":
-        return await handleCheckoutCompleted(supabaseAdmin, eventData);
+    // ---- Idempotency: claim the event id in the ledger ----
+    const claim = await claimStripeEvent(supabaseAdmin, event, "payments", provider.name);
 
-      case "payment_intent.payment_failed":
-        return await handlePaymentFailed(supabaseAdmin, eventData);
+    if (claim === "duplicate") {
+      console.log("[stripe-webhook] Duplicate event, already processed:", eventId);
+      return new Response(
+        JSON.stringify({ received: true, duplicate: true }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
 
-      default:
-        // Acknowledge unhandled events so Stripe doesn't retry
-        console.log("[stripe-webhook] Unhandled event type:", eventType);
-        return new Response(
-          JSON.stringify({ received: true, handled: false }),
-          { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
+    if (claim === "in_progress") {
+      // Non-2xx so Stripe retries once the in-flight delivery has finished
+      console.log("[stripe-webhook] Event is being processed by another delivery:", eventId);
+      return new Response(
+        JSON.stringify({ error: "Event is already being processed" }),
+        { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
     }
 
+    let response: Response;
+    try {
+      switch (eventType) {
+        case "checkout.session.completed":
+          response = await handleCheckoutCompleted(supabaseAdmin, eventData);
+          break;
+
+        case "checkout.session.expired":
+          response = await handleCheckoutExpired(supabaseAdmin, eventData);
+          break;
+
+        case "payment_intent.payment_failed":
+          response = await handlePaymentFailed(supabaseAdmin, eventData);
+          break;
+
+        case "charge.refunded":
+          response = await handleChargeRefunded(supabaseAdmin, eventData);
+          break;
+
+        case "charge.dispute.created":
+          response = await handleDisputeCreated(supabaseAdmin, eventData);
+          break;
+
+        case "charge.dispute.closed":
+          response = await handleDisputeClosed(supabaseAdmin, eventData);
+          break;
+
+        case "customer.subscription.created":
+        case "customer.subscription.updated":
+          response = await handleSubscriptionChanged(supabaseAdmin, eventData, false);
+          break;
+
+        case "customer.subscription.deleted":
+          response = await handleSubscriptionChanged(supabaseAdmin, eventData, true);
+          break;
+
+        case "invoice.payment_failed":
+          response = await handleInvoicePaymentFailed(supabaseAdmin, eventData);
+          break;
+
+        default:
+          // Acknowledge unhandled events so Stripe doesn't retry
+          console.log("[stripe-webhook] Unhandled event type:", eventType);
+          response = new Response(
+            JSON.stringify({ received: true, handled: false }),
+            { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+          );
+      }
+    } catch (handlerErr) {
+      await markStripeEventFailed(supabaseAdmin, eventId, String(handlerErr));
+      throw handlerErr;
+    }
+
+    // ---- Record the outcome in the ledger ----
+    if (response.ok) {
+      await markStripeEventProcessed(supabaseAdmin, eventId);
+    } else {
+      await markStripeEventFailed(supabaseAdmin, eventId, `Handler returned ${response.status}`);
+    }
+
+    return response;
+
   } catch (err) {
     console.error("[stripe-webhook] Unhandled error:", err);
     return new Response(
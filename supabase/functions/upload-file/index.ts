@@ -2,12 +2,54 @@
 // PIF Selection-Connection — upload-file
 // POST /upload-file
 // Accepts: multipart/form-data with file, preview_image, title, description,
-//          price_cents, version_label, community_tags[]
-// Requires auth (JWT). Uploads a file to the marketplace with 7-point validation.
+//          price_cents, version_label, community_tags[], royalty_chain (optional
+//          JSON array of { member_id, role, share_basis_points })
+//          — or upload_id instead of file, to finalize a complete resumable
+//          upload (upload-session); the chunks become the marketplace file.
+//          checksum_sha256 (optional, hex) is verified against the upload.
+// Requires auth (JWT). Uploads a file to the marketplace with 7-point validation
+// — the format check opens the file (_shared/file-formats.ts: magic bytes
+// must match the extension; DXF, SVG, PDF, ZIP and 3DM structure checks) —
+// plus configurator geometry checks for configurator-state and LamiForm .json
+// files (_shared/config-validation.ts). A configurator-state file's unit
+// system (its "units" key, inches by default) is stored as files.config_units.
+// The file's SHA-256 is stored as files.checksum_sha256; a match with another
+// member's listed file sets files.duplicate_of_file_id, which holds the file
+// back from list-file until an admin clears it. Uploads count against the
+// member's tier storage quota (_shared/tiers.ts); the files trigger from
+// migration 022 keeps members.storage_used_bytes current and enforces it.
+// preview_image is optional for DXF and SVG files: without one, a listing
+// and a detail PNG are rendered from the drawing (_shared/thumbnails.ts).
 // =============================================================================
 
 import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { ConfigIssue, validateConfiguratorJson } from "../_shared/config-validation.ts";
+import { FILE_FORMATS, FormatInspection, inspectFile } from "../_shared/file-formats.ts";
+import { UnitSystem } from "../_shared/units.ts";
+import { ROYALTY_ROLES, RoyaltyEntry, RoyaltyRole, validateRoyaltyChain } from "../_shared/royalty.ts";
+import { renderThumbnails, THUMBNAIL_FORMATS, Thumbnails } from "../_shared/thumbnails.ts";
+import { storageQuotaBytes } from "../_shared/tiers.ts";
+import {
+  assembleUpload,
+  directFile,
+  fileExtension,
+  findListedDuplicate,
+  isSessionExpired,
+  listSessionChunks,
+  loadUploadSession,
+  MARKETPLACE_BUCKET,
+  MAX_FILE_SIZE_BYTES,
+  normalizeChecksum,
+  PREVIEW_BUCKET,
+  removeSessionChunks,
+  sessionFile,
+  sha256Hex,
+  STORAGE_QUOTA_EXCEEDED,
+  UploadChunk,
+  UploadedFile,
+  UploadSession,
+} from "../_shared/uploads.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -19,11 +61,35 @@ const corsHeaders = {
 // Constants
 // ---------------------------------------------------------------------------
 
-// TODO: Move allowed formats and size limits to a config table or env vars
-const ALLOWED_FILE_FORMATS = [".gh", ".3dm", ".json", ".zip"];
-const MAX_FILE_SIZE_BYTES = 100 * 1024 * 1024; // 100 MB hard cap
+// Marketplace file formats: _shared/file-formats.ts; size cap: _shared/uploads.ts
 const ALLOWED_PREVIEW_FORMATS = [".png", ".jpg", ".jpeg", ".webp"];
 const MAX_PREVIEW_SIZE_BYTES = 5 * 1024 * 1024; // 5 MB
+const MAX_CONFIG_JSON_BYTES = 1024 * 1024; // 1 MB — configurator state is a few KB
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// A finalize claim older than this is from a request that died; another may take over
+const FINALIZE_CLAIM_MINUTES = 10;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface StorageUsage {
+  limitBytes: number;
+  usedBytes: number;
+}
+
+interface ValidationCheck {
+  passed: boolean;
+  message: string;
+  /** Per-key configurator issues (configuration check only). */
+  issues?: ConfigIssue[];
+  /** Unit system of a configurator-state file (configuration check only). */
+  units?: UnitSystem | null;
+  /** Sniffed format, structure facts and issues (format check only). */
+  inspection?: FormatInspection;
+}
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -78,47 +144,316 @@ async function hasOriginatorRole(
   return data !== null;
 }
 
+/**
+ * The member's tier storage quota and current usage; null if there is no
+ * member row. Throws on DB errors.
+ */
+async function getStorageUsage(
+  supabase: ReturnType<typeof createClient>,
+  memberId: string
+): Promise<StorageUsage | null> {
+  const { data, error } = await supabase
+    .from("members")
+    .select("tier_id, storage_used_bytes")
+    .eq("id", memberId)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load storage usage: ${error.message}`);
+  if (!data) return null;
+  return { limitBytes: storageQuotaBytes(data.tier_id), usedBytes: Number(data.storage_used_bytes) };
+}
+
+/** Validation point 7 for an upload the quota can't take. */
+function quotaExceededCheck(fileSize: number, usage: StorageUsage): ValidationCheck {
+  return {
+    passed: false,
+    message: `Storage quota exceeded: ${usage.usedBytes} of ${usage.limitBytes} bytes used, file needs ${fileSize}. Upgrade your tier or remove files`,
+  };
+}
+
+/**
+ * Shape check for parsed royalty_chain JSON: an array of at most one entry
+ * per role, each { member_id: UUID, role, share_basis_points: integer } and
+ * nothing else. Returns the entries, or the problems found.
+ */
+function parseRoyaltyEntries(value: unknown): { chain: RoyaltyEntry[]; errors: string[] } {
+  if (!Array.isArray(value)) {
+    return { chain: [], errors: ["royalty_chain must be a JSON array"] };
+  }
+  if (value.length > ROYALTY_ROLES.length) {
+    return { chain: [], errors: [`royalty_chain has at most ${ROYALTY_ROLES.length} entries`] };
+  }
+
+  const errors: string[] = [];
+  const chain: RoyaltyEntry[] = [];
+  value.forEach((entry: unknown, i) => {
+    if (typeof entry !== "object" || entry === null || Array.isArray(entry)) {
+      errors.push(`royalty_chain[${i}] must be an object`);
+      return;
+    }
+    const { member_id, role, share_basis_points, ...rest } = entry as Record<string, unknown>;
+    const entryErrors: string[] = [];
+    if (typeof member_id !== "string" || !UUID_PATTERN.test(member_id)) {
+      entryErrors.push(`royalty_chain[${i}].member_id must be a member UUID`);
+    }
+    if (typeof role !== "string" || !ROYALTY_ROLES.includes(role as RoyaltyRole)) {
+      entryErrors.push(`royalty_chain[${i}].role must be one of ${ROYALTY_ROLES.join(", ")}`);
+    }
+    if (typeof share_basis_points !== "number" || !Number.isInteger(share_basis_points)) {
+      entryErrors.push(`royalty_chain[${i}].share_basis_points must be an integer`);
+    }
+    for (const key of Object.keys(rest)) {
+      entryErrors.push(`royalty_chain[${i}] has an unknown field: ${key}`);
+    }
+
+    if (entryErrors.length > 0) {
+      errors.push(...entryErrors);
+    } else {
+      chain.push({
+        member_id: member_id as string,
+        role: role as RoyaltyRole,
+        share_basis_points: share_basis_points as number,
+      });
+    }
+  });
+
+  return { chain: errors.length > 0 ? [] : chain, errors };
+}
+
+/**
+ * Parse and validate the optional royalty_chain form field.
+ * Defaults to 100% to the uploader as originator. The uploader must be the
+ * originator, and every other member in the chain must exist.
+ */
+async function resolveRoyaltyChain(
+  supabase: ReturnType<typeof createClient>,
+  uploaderId: string,
+  raw: string | null
+): Promise<{ chain: RoyaltyEntry[]; errors: string[] }> {
+  if (!raw) {
+    return {
+      chain: [{ member_id: uploaderId, role: "originator", share_basis_points: 10000 }],
+      errors: [],
+    };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return { chain: [], errors: ["royalty_chain must be a JSON array"] };
+  }
+
+  const shape = parseRoyaltyEntries(parsed);
+  if (shape.errors.length > 0) return shape;
+  const chain = shape.chain;
+
+  const errors = validateRoyaltyChain(chain);
+  if (errors.length > 0) return { chain, errors };
+
+  const originator = chain.find((entry) => entry.role === "originator");
+  if (originator?.member_id !== uploaderId) {
+    errors.push("The uploader must be the originator in the royalty chain");
+  }
+
+  const otherIds = chain.map((entry) => entry.member_id).filter((id) => id !== uploaderId);
+  if (otherIds.length > 0) {
+    const { data: found, error } = await supabase
+      .from("members")
+      .select("id")
+      .in("id", otherIds);
+
+    if (error) {
+      errors.push("Could not verify royalty chain members");
+    } else {
+      const foundIds = new Set((found ?? []).map((m: { id: string }) => m.id));
+      for (const id of otherIds) {
+        if (!foundIds.has(id)) errors.push(`Unknown member in royalty chain: ${id}`);
+      }
+    }
+  }
+
+  return { chain, errors };
+}
+
+/**
+ * The caller's complete, unfinalized upload session and its chunks, for
+ * finalizing a resumable upload; or the status and error to return.
+ */
+async function resolveUploadSession(
+  supabase: ReturnType<typeof createClient>,
+  uploadId: string,
+  uploaderId: string
+): Promise<{ session: UploadSession; chunks: UploadChunk[] } | { status: number; error: string }> {
+  if (!UUID_PATTERN.test(uploadId)) {
+    return { status: 400, error: "upload_id must be an upload session UUID" };
+  }
+
+  const session = await loadUploadSession(supabase, uploadId);
+  if (!session || session.uploader_id !== uploaderId) {
+    return { status: 404, error: "Upload session not found" };
+  }
+  if (session.file_id) {
+    return { status: 409, error: "Upload already finalized" };
+  }
+  if (isSessionExpired(session)) {
+    return { status: 410, error: "Upload session expired; start a new upload" };
+  }
+  if (session.offset_bytes < session.upload_length) {
+    return {
+      status: 409,
+      error: `Upload incomplete: ${session.offset_bytes} of ${session.upload_length} bytes received`,
+    };
+  }
+
+  const chunks = await listSessionChunks(supabase, session);
+  if (!chunks) {
+    return { status: 409, error: "Upload chunks are missing or overlap; start a new upload" };
+  }
+  return { session, chunks };
+}
+
+/**
+ * Claim a complete upload session for this request's finalize, so only one
+ * request stores it and creates its files row. Returns the claim's timestamp
+ * (upload_sessions.finalizing_at), or null if the session is already linked
+ * or another request holds a live claim. Throws on DB errors.
+ */
+async function claimUploadSession(
+  supabase: ReturnType<typeof createClient>,
+  sessionId: string
+): Promise<string | null> {
+  const claimedAt = new Date().toISOString();
+  const staleBefore = new Date(Date.now() - FINALIZE_CLAIM_MINUTES * 60 * 1000).toISOString();
+
+  const { data, error } = await supabase
+    .from("upload_sessions")
+    .update({ finalizing_at: claimedAt, updated_at: claimedAt })
+    .eq("id", sessionId)
+    .is("file_id", null)
+    .or(`finalizing_at.is.null,finalizing_at.lt.${staleBefore}`)
+    .select("id")
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to claim upload session: ${error.message}`);
+  return data ? claimedAt : null;
+}
+
+/** Give up a finalize claim after a failure, so the upload can be finalized again. */
+async function releaseUploadSession(
+  supabase: ReturnType<typeof createClient>,
+  sessionId: string,
+  claimedAt: string
+): Promise<void> {
+  const { error } = await supabase
+    .from("upload_sessions")
+    .update({ finalizing_at: null })
+    .eq("id", sessionId)
+    .eq("finalizing_at", claimedAt);
+  if (error) {
+    console.warn("[upload-file] Upload session release warning:", error.message);
+  }
+}
+
+/**
+ * Configurator geometry check for .json uploads; null for other formats.
+ * JSON that isn't configurator state (no Width/Height/Depth) or a LamiForm
+ * export passes unchecked.
+ */
+async function checkConfiguratorJson(file: UploadedFile): Promise<ValidationCheck | null> {
+  const ext = fileExtension(file.name);
+  if (ext !== ".json") return null;
+
+  if (file.size > MAX_CONFIG_JSON_BYTES) {
+    return { passed: false, message: `JSON files must be under ${MAX_CONFIG_JSON_BYTES} bytes` };
+  }
+
+  let result;
+  try {
+    result = validateConfiguratorJson(await file.text());
+  } catch {
+    return { passed: false, message: "File is not valid JSON" };
+  }
+
+  if (!result) {
+    return { passed: true, message: "Not a configurator state file; geometry not checked" };
+  }
+
+  const errors = result.issues.filter((i) => i.severity === "error").length;
+  const warnings = result.issues.length - errors;
+  return {
+    passed: result.passed,
+    message: `${result.configurations} configuration(s) checked: ${errors} error(s), ${warnings} warning(s)`,
+    issues: result.issues,
+    units: result.units,
+  };
+}
+
+/** Format check from the content inspection; fails with its first error. */
+function checkFormat(inspection: FormatInspection): ValidationCheck {
+  const label = inspection.format ? FILE_FORMATS[inspection.format].label : "File";
+  const errors = inspection.issues.filter((i) => i.severity === "error");
+  const warnings = inspection.issues.length - errors.length;
+  return {
+    passed: inspection.passed,
+    message: inspection.passed
+      ? `${label} accepted: ${warnings} warning(s)`
+      : errors[0]?.message ?? `${label} rejected`,
+    inspection,
+  };
+}
+
+/**
+ * Integrity check: the SHA-256 computed from the upload against the one the
+ * client sent, if any. Without one the hash is recorded unverified.
+ */
+function checkIntegrity(checksum: string, clientChecksum: string | null): ValidationCheck {
+  if (clientChecksum === null) {
+    return { passed: true, message: `SHA-256 ${checksum}` };
+  }
+
+  const expected = normalizeChecksum(clientChecksum);
+  if (!expected) {
+    return { passed: false, message: "checksum_sha256 must be a hex SHA-256" };
+  }
+  return expected === checksum
+    ? { passed: true, message: `SHA-256 ${checksum} matches the client checksum` }
+    : { passed: false, message: `Checksum mismatch: expected ${expected}, received ${checksum}. The file was corrupted in transit; upload it again` };
+}
+
 /**
  * 7-point validation for an uploaded file.
  * Returns an object with pass/fail for each check.
  */
 function validateFile(
-  file: File,
+  file: UploadedFile,
   previewImage: File | null,
+  thumbnails: Thumbnails | null,
   title: string,
   versionLabel: string,
   communityTags: string[],
-  _storageLimitBytes: number,
-  _storageUsedBytes: number
-): { passed: boolean; results: Record<string, { passed: boolean; message: string }> } {
-  const results: Record<string, { passed: boolean; message: string }> = {};
-
-  // 1. Format check
-  // TODO: Implement proper MIME type + extension validation
-  const ext = "." + (file.name.split(".").pop() ?? "").toLowerCase();
-  results.format = {
-    passed: ALLOWED_FILE_FORMATS.includes(ext),
-    message: ALLOWED_FILE_FORMATS.includes(ext)
-      ? "File format accepted"
-      : `Unsupported format: ${ext}. Allowed: ${ALLOWED_FILE_FORMATS.join(", ")}`,
-  };
-
-  // 2. Size vs tier quota
-  // TODO: Look up the member's tier storage quota from tiers table
-  const underQuota = file.size <= MAX_FILE_SIZE_BYTES;
+  storage: StorageUsage,
+  format: ValidationCheck,
+  integrity: ValidationCheck,
+  configuration: ValidationCheck | null
+): { passed: boolean; results: Record<string, ValidationCheck> } {
+  const results: Record<string, ValidationCheck> = {};
+
+  // 1. Format check (extension, magic bytes and structure)
+  results.format = format;
+
+  // 2. Size vs per-file cap and tier quota
+  const maxSize = Math.min(MAX_FILE_SIZE_BYTES, storage.limitBytes);
+  const underQuota = file.size <= maxSize;
   results.size = {
     passed: underQuota,
     message: underQuota
       ? `File size (${file.size} bytes) within limit`
-      : `File size (${file.size} bytes) exceeds max (${MAX_FILE_SIZE_BYTES} bytes)`,
+      : `File size (${file.size} bytes) exceeds max (${maxSize} bytes)`,
   };
 
-  // 3. Integrity check
-  // TODO: Implement checksum / corruption detection (e.g., compute SHA-256)
-  results.integrity = {
-    passed: true,
-    message: "TODO: Integrity check not yet implemented",
-  };
+  // 3. Integrity check (SHA-256, against the client checksum if sent)
+  results.integrity = integrity;
 
   // 4. Name / version label
   const hasNameAndVersion = title.trim().length > 0 && versionLabel.trim().length > 0;
@@ -150,19 +485,29 @@ function validateFile(
         ? "Preview image accepted"
         : "Preview image must be PNG/JPG/WebP and under 5 MB",
     };
+  } else if (thumbnails) {
+    results.preview_image = {
+      passed: true,
+      message: `Preview generated from the file's geometry (${thumbnails.strokes} strokes)`,
+    };
   } else {
     results.preview_image = {
       passed: false,
-      message: "Preview image is required",
+      message: "Preview image is required (generated only for DXF and SVG files with drawable geometry)",
     };
   }
 
-  // 7. Storage quota remaining
-  // TODO: Compare (storageUsedBytes + file.size) against tier quota
-  results.storage_quota = {
-    passed: true,
-    message: "TODO: Storage quota check not yet implemented",
-  };
+  // 7. Storage quota remaining (the files trigger re-checks atomically)
+  const usedAfter = storage.usedBytes + file.size;
+  results.storage_quota = usedAfter <= storage.limitBytes
+    ? { passed: true, message: `${usedAfter} of ${storage.limitBytes} bytes used after upload` }
+    : quotaExceededCheck(file.size, storage);
+
+  // Configurator state (.json only): geometry errors block the upload,
+  // warnings are kept with the file
+  if (configuration) {
+    results.configuration = configuration;
+  }
 
   const passed = Object.values(results).every((r) => r.passed);
   return { passed, results };
@@ -223,11 +568,13 @@ serve(async (req: Request) => {
     // ---- Parse multipart form data ----
     const formData = await req.formData();
     const file = formData.get("file") as File | null;
+    const uploadId = formData.get("upload_id") as string | null;
     const previewImage = formData.get("preview_image") as File | null;
     const title = (formData.get("title") as string) ?? "";
     const description = (formData.get("description") as string) ?? "";
     const priceCents = parseInt((formData.get("price_cents") as string) ?? "0", 10);
     const versionLabel = (formData.get("version_label") as string) ?? "";
+    const clientChecksum = formData.get("checksum_sha256") as string | null;
 
     // community_tags may come as repeated fields or a JSON array string
     let communityTags: string[] = [];
@@ -245,23 +592,85 @@ serve(async (req: Request) => {
       }
     }
 
-    if (!file) {
+    if (!file && !uploadId) {
+      return new Response(
+        JSON.stringify({ error: "File (or upload_id of a resumable upload) is required" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    if (file && uploadId) {
+      return new Response(
+        JSON.stringify({ error: "Send either file or upload_id, not both" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ---- Resumable upload: the completed session stands in for file ----
+    let session: UploadSession | null = null;
+    let chunks: UploadChunk[] = [];
+    if (uploadId) {
+      const resolved = await resolveUploadSession(supabaseAdmin, uploadId, user.id);
+      if ("error" in resolved) {
+        return new Response(
+          JSON.stringify({ error: resolved.error }),
+          { status: resolved.status, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+      ({ session, chunks } = resolved);
+    }
+    const upload: UploadedFile = session ? sessionFile(supabaseAdmin, session, chunks) : directFile(file!);
+
+    // ---- Royalty chain ----
+    const royalty = await resolveRoyaltyChain(
+      supabaseAdmin,
+      user.id,
+      formData.get("royalty_chain") as string | null
+    );
+
+    if (royalty.errors.length > 0) {
       return new Response(
-        JSON.stringify({ error: "File is required" }),
+        JSON.stringify({ error: "Invalid royalty chain", royalty_errors: royalty.errors }),
         { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
 
-    // ---- 7-point validation ----
-    // TODO: Fetch member's storage_used_bytes and tier quota for accurate checks
+    // ---- SHA-256, streamed (chunk by chunk for a resumable upload) ----
+    const checksum = await sha256Hex(upload.stream());
+
+    // ---- Tier storage quota and usage ----
+    const storage = await getStorageUsage(supabaseAdmin, user.id);
+    if (!storage) {
+      return new Response(
+        JSON.stringify({ error: "Member profile not found" }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ---- 7-point validation (+ configurator geometry for .json) ----
+    const inspection = await inspectFile(upload);
+    const configuration = await checkConfiguratorJson(upload);
+
+    // No preview supplied: render one from a DXF or SVG drawing
+    let thumbnails: Thumbnails | null = null;
+    if (!previewImage && inspection.passed && inspection.format && THUMBNAIL_FORMATS.includes(inspection.format)) {
+      try {
+        thumbnails = await renderThumbnails(upload, inspection.format);
+      } catch (err) {
+        console.warn("[upload-file] Thumbnail rendering warning:", err);
+      }
+    }
+
     const validation = validateFile(
-      file,
+      upload,
       previewImage,
+      thumbnails,
       title,
       versionLabel,
       communityTags,
-      /* storageLimitBytes */ MAX_FILE_SIZE_BYTES,
-      /* storageUsedBytes */ 0
+      storage,
+      checkFormat(inspection),
+      checkIntegrity(checksum, clientChecksum),
+      configuration
     );
 
     if (!validation.passed) {
@@ -274,27 +683,90 @@ serve(async (req: Request) => {
       );
     }
 
+    // ---- Duplicate check: same content as another member's listed file ----
+    // Not a validation failure (the uploader may hold rights to it), but the
+    // file is flagged and can't be listed until an admin clears it
+    const duplicate = await findListedDuplicate(supabaseAdmin, checksum, user.id);
+    if (duplicate) {
+      console.warn(
+        `[upload-file] Upload by ${user.id} matches listed file ${duplicate.id} (uploader ${duplicate.uploader_id}); flagged`
+      );
+    }
+
+    // ---- Claim the resumable upload session ----
+    // Before anything is stored or charged to the quota: a second finalize of
+    // the same session stops here
+    let claimedAt: string | null = null;
+    if (session) {
+      claimedAt = await claimUploadSession(supabaseAdmin, session.id);
+      if (!claimedAt) {
+        return new Response(
+          JSON.stringify({ error: "Upload already finalized" }),
+          { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+    }
+
     // ---- Upload file to Supabase Storage (marketplace-files bucket) ----
+    // A resumable upload's chunks are streamed in one at a time
     const fileId = crypto.randomUUID();
-    const storagePath = `${user.id}/${fileId}/${file.name}`;
-
-    // TODO: Implement actual storage upload
-    // const { error: uploadError } = await supabaseAdmin.storage
-    //   .from("marketplace-files")
-    //   .upload(storagePath, file, { contentType: file.type, upsert: false });
-    // if (uploadError) throw uploadError;
-    console.log("[upload-file] TODO: Upload file to storage at", storagePath);
-
-    // ---- Upload preview image to Supabase Storage (preview-images bucket) ----
-    let previewPath: string | null = null;
-    if (previewImage) {
-      previewPath = `${user.id}/${fileId}/preview_${previewImage.name}`;
-      // TODO: Implement actual preview upload
-      // const { error: previewError } = await supabaseAdmin.storage
-      //   .from("preview-images")
-      //   .upload(previewPath, previewImage, { contentType: previewImage.type, upsert: false });
-      // if (previewError) throw previewError;
-      console.log("[upload-file] TODO: Upload preview to storage at", previewPath);
+    const storagePath = `${user.id}/${fileId}/${upload.name}`;
+
+    const fileBody = session ? assembleUpload(supabaseAdmin, chunks) : file;
+    if (!fileBody) {
+      return new Response(
+        JSON.stringify({ error: "File (or upload_id of a resumable upload) is required" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { error: uploadError } = await supabaseAdmin.storage
+      .from(MARKETPLACE_BUCKET)
+      .upload(
+        storagePath,
+        fileBody,
+        {
+          // The inspected format's type, not the client's
+          contentType: FILE_FORMATS[inspection.format!].content_type,
+          upsert: false,
+          ...(session ? { duplex: "half" } : {}),
+        }
+      );
+
+    if (uploadError) {
+      console.error("[upload-file] Storage upload error:", uploadError.message);
+      if (session && claimedAt) await releaseUploadSession(supabaseAdmin, session.id, claimedAt);
+      return new Response(
+        JSON.stringify({ error: "Failed to store file" }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ---- Upload preview image(s) to Supabase Storage (preview-images bucket) ----
+    // A supplied preview as sent; generated ones as a listing and a detail PNG
+    const previews: { path: string; body: File | Uint8Array; contentType: string }[] = previewImage
+      ? [{ path: `${user.id}/${fileId}/preview_${previewImage.name}`, body: previewImage, contentType: previewImage.type }]
+      : [
+        { path: `${user.id}/${fileId}/preview_listing.png`, body: thumbnails!.listing.png, contentType: "image/png" },
+        { path: `${user.id}/${fileId}/preview_detail.png`, body: thumbnails!.detail.png, contentType: "image/png" },
+      ];
+    const previewPath = previews[0].path;
+    const previewDetailPath = previews[1]?.path ?? null;
+
+    for (const preview of previews) {
+      const { error: previewError } = await supabaseAdmin.storage
+        .from(PREVIEW_BUCKET)
+        .upload(preview.path, preview.body, { contentType: preview.contentType, upsert: false });
+      if (previewError) {
+        console.error("[upload-file] Preview upload error:", previewError.message);
+        await supabaseAdmin.storage.from(MARKETPLACE_BUCKET).remove([storagePath]);
+        await supabaseAdmin.storage.from(PREVIEW_BUCKET).remove(previews.map((p) => p.path));
+        if (session && claimedAt) await releaseUploadSession(supabaseAdmin, session.id, claimedAt);
+        return new Response(
+          JSON.stringify({ error: "Failed to store preview image" }),
+          { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
     }
 
     // ---- Insert files row ----
@@ -309,15 +781,49 @@ serve(async (req: Request) => {
         version_label: versionLabel,
         storage_path: storagePath,
         preview_image_path: previewPath,
-        file_size_bytes: file.size,
+        preview_detail_path: previewDetailPath,
+        file_format: inspection.format,
+        file_size_bytes: upload.size,
         validation_passed: true,
+        validation_results: validation.results,
+        validated_at: new Date().toISOString(),
+        config_units: configuration?.units ?? null,
+        checksum_sha256: checksum,
+        duplicate_of_file_id: duplicate?.id ?? null,
         stage: "uploaded", // Not yet listed
-        // TODO: Add checksum field once integrity check is implemented
       })
       .select("id")
       .single();
 
     if (fileInsertError) {
+      // The stored object has no row to account for it; don't leave it behind
+      const { error: cleanupError } = await supabaseAdmin.storage.from(MARKETPLACE_BUCKET).remove([storagePath]);
+      if (cleanupError) {
+        console.warn("[upload-file] Stored file cleanup warning:", cleanupError.message);
+      }
+      const { error: previewCleanupError } = await supabaseAdmin.storage
+        .from(PREVIEW_BUCKET)
+        .remove(previews.map((p) => p.path));
+      if (previewCleanupError) {
+        console.warn("[upload-file] Stored preview cleanup warning:", previewCleanupError.message);
+      }
+      if (session && claimedAt) await releaseUploadSession(supabaseAdmin, session.id, claimedAt);
+
+      // Another upload used up the quota since validation
+      if (fileInsertError.message === STORAGE_QUOTA_EXCEEDED) {
+        const current = await getStorageUsage(supabaseAdmin, user.id) ?? storage;
+        return new Response(
+          JSON.stringify({
+            error: "Validation failed",
+            validation_results: {
+              ...validation.results,
+              storage_quota: quotaExceededCheck(upload.size, current),
+            },
+          }),
+          { status: 422, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
       console.error("[upload-file] Insert error:", fileInsertError.message);
       return new Response(
         JSON.stringify({ error: "Failed to create file record" }),
@@ -325,6 +831,40 @@ serve(async (req: Request) => {
       );
     }
 
+    // ---- Close the resumable upload session ----
+    // Linking the files row marks it finalized; the chunks are no longer needed.
+    // Our claim can only be gone if it went stale and another request took
+    // over — then that request's file stands and this one is undone
+    if (session) {
+      const { data: closed, error: sessionError } = await supabaseAdmin
+        .from("upload_sessions")
+        .update({ file_id: fileId, updated_at: new Date().toISOString() })
+        .eq("id", session.id)
+        .is("file_id", null)
+        .eq("finalizing_at", claimedAt)
+        .select("id")
+        .maybeSingle();
+      if (sessionError || !closed) {
+        console.error("[upload-file] Upload session claim lost:", sessionError?.message ?? session.id);
+        // Deleting the row gives the storage quota back (files trigger)
+        const { error: rowCleanupError } = await supabaseAdmin.from("files").delete().eq("id", fileId);
+        if (rowCleanupError) {
+          console.warn("[upload-file] File row cleanup warning:", rowCleanupError.message);
+        }
+        await supabaseAdmin.storage.from(MARKETPLACE_BUCKET).remove([storagePath]);
+        await supabaseAdmin.storage.from(PREVIEW_BUCKET).remove(previews.map((p) => p.path));
+        return new Response(
+          JSON.stringify({ error: "Upload already finalized" }),
+          { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+      try {
+        await removeSessionChunks(supabaseAdmin, session);
+      } catch (err) {
+        console.warn("[upload-file] Chunk cleanup warning:", err);
+      }
+    }
+
     // ---- Insert file_community_tags rows ----
     if (communityTags.length > 0) {
       const tagRows = communityTags.map((tag) => ({
@@ -340,32 +880,33 @@ serve(async (req: Request) => {
       }
     }
 
-    // ---- Insert file_royalty_chain (initial entry for uploader) ----
+    // ---- Insert file_royalty_chain ----
+    // All rows in one insert: the chain-total trigger checks the sum at commit
     // TODO: Build full royalty chain based on derivative lineage
     const { error: royaltyError } = await supabaseAdmin
       .from("file_royalty_chain")
-      .insert({
-        file_id: fileId,
-        member_id: user.id,
-        share_basis_points: 10000, // 100% to uploader initially
-        position: 0,
-      });
+      .insert(
+        royalty.chain.map((entry) => ({
+          file_id: fileId,
+          member_id: entry.member_id,
+          role: entry.role,
+          share_basis_points: entry.share_basis_points,
+        }))
+      );
     if (royaltyError) {
       console.warn("[upload-file] Royalty chain insert warning:", royaltyError.message);
     }
 
-    // ---- Update members.storage_used_bytes ----
-    // TODO: Atomic increment using RPC or raw SQL
-    // await supabaseAdmin.rpc("increment_storage_used", {
-    //   p_member_id: user.id,
-    //   p_bytes: file.size,
-    // });
-    console.log("[upload-file] TODO: Increment storage_used_bytes by", file.size);
+    // members.storage_used_bytes was incremented by the files trigger with the insert
 
     // ---- Success ----
     return new Response(
       JSON.stringify({
         file_id: fileRow.id,
+        checksum_sha256: checksum,
+        duplicate_of_file_id: duplicate?.id ?? null,
+        preview_image_path: previewPath,
+        preview_detail_path: previewDetailPath,
         validation_results: validation.results,
       }),
       { status: 201, headers: { ...corsHeaders, "Content-Type": "application/json" } }
@@ -0,0 +1,528 @@
+// =============================================================================
+// PIF Selection-Connection — upload-session
+// Resumable uploads for large marketplace files (TUS 1.0 core protocol with
+// the creation, termination and expiration extensions):
+// POST   /upload-session          — create a session
+//   Headers: Upload-Length, Upload-Metadata ("filename <b64>,filetype <b64>")
+//   → 201, Location: /upload-session?id=<id>
+// HEAD   /upload-session?id=<id>  — bytes received so far (Upload-Offset)
+// PATCH  /upload-session?id=<id>  — append a chunk
+//   Headers: Upload-Offset (must equal the current offset),
+//            Content-Type: application/offset+octet-stream
+//   → 204 with the new Upload-Offset
+// DELETE /upload-session?id=<id>  — abandon the session and its chunks
+// Requires auth (JWT), the file_upload override and the originator role,
+// like upload-file. Once Upload-Offset reaches Upload-Length, finalize by
+// posting the upload-file form with upload_id instead of file: it runs the
+// 7-point validation and creates the files row (_shared/uploads.ts). A file
+// that can't fit the member's remaining tier storage quota is refused at
+// creation, before any chunks are sent.
+// =============================================================================
+
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { ALLOWED_FILE_FORMATS } from "../_shared/file-formats.ts";
+import { storageQuotaBytes } from "../_shared/tiers.ts";
+import {
+  chunkPath,
+  fileExtension,
+  isSessionExpired,
+  loadUploadSession,
+  MAX_CHUNK_BYTES,
+  MAX_FILE_SIZE_BYTES,
+  MIN_CHUNK_BYTES,
+  parseUploadMetadata,
+  removeSessionChunks,
+  TUS_VERSION,
+  UPLOAD_CHUNK_BUCKET,
+  UPLOAD_SESSION_TTL_HOURS,
+  UploadSession,
+} from "../_shared/uploads.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type, " +
+    "tus-resumable, upload-length, upload-metadata, upload-offset",
+  "Access-Control-Allow-Methods": "POST, HEAD, PATCH, DELETE, OPTIONS",
+  "Access-Control-Expose-Headers":
+    "location, tus-resumable, tus-version, tus-extension, tus-max-size, upload-offset, upload-length, upload-expires",
+  "Tus-Resumable": TUS_VERSION,
+};
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const TUS_EXTENSIONS = ["creation", "termination", "expiration"];
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const CHUNK_CONTENT_TYPE = "application/offset+octet-stream";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Extract the authenticated user from the Authorization header. */
+async function getAuthUser(
+  req: Request,
+  supabase: ReturnType<typeof createClient>
+) {
+  const authHeader = req.headers.get("Authorization");
+  if (!authHeader) return null;
+
+  const token = authHeader.replace("Bearer ", "");
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data.user) return null;
+  return data.user;
+}
+
+/** Check whether file_upload is enabled via override_controls. */
+async function isUploadEnabled(
+  supabase: ReturnType<typeof createClient>
+): Promise<boolean> {
+  const { data, error } = await supabase
+    .from("override_controls")
+    .select("enabled")
+    .eq("feature_key", "file_upload")
+    .single();
+
+  if (error || !data) return false;
+  return data.enabled === true;
+}
+
+/** Check whether the member has the 'originator' role. */
+async function hasOriginatorRole(
+  supabase: ReturnType<typeof createClient>,
+  memberId: string
+): Promise<boolean> {
+  const { data, error } = await supabase
+    .from("member_roles")
+    .select("role")
+    .eq("member_id", memberId)
+    .eq("role", "originator")
+    .maybeSingle();
+
+  if (error) {
+    console.error("[upload-session] Role check error:", error.message);
+    return false;
+  }
+  return data !== null;
+}
+
+/** TUS dates are RFC 7231 (HTTP-date). */
+function httpDate(iso: string): string {
+  return new Date(iso).toUTCString();
+}
+
+function newExpiry(): string {
+  return new Date(Date.now() + UPLOAD_SESSION_TTL_HOURS * 60 * 60 * 1000).toISOString();
+}
+
+/**
+ * Discard the caller's expired, unfinalized sessions and their chunks.
+ * Best effort — runs on every create so abandoned uploads don't pile up.
+ */
+async function purgeExpiredSessions(
+  supabase: ReturnType<typeof createClient>,
+  uploaderId: string
+): Promise<void> {
+  const { data, error } = await supabase
+    .from("upload_sessions")
+    .select("id, uploader_id, file_name, content_type, upload_length, offset_bytes, file_id, created_at, updated_at, expires_at")
+    .eq("uploader_id", uploaderId)
+    .is("file_id", null)
+    .lte("expires_at", new Date().toISOString());
+
+  if (error) {
+    console.warn("[upload-session] Expired session lookup warning:", error.message);
+    return;
+  }
+
+  for (const session of (data ?? []) as UploadSession[]) {
+    try {
+      await removeSessionChunks(supabase, session);
+      await supabase.from("upload_sessions").delete().eq("id", session.id);
+    } catch (err) {
+      console.warn("[upload-session] Expired session cleanup warning:", err);
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Route handlers
+// ---------------------------------------------------------------------------
+
+/** POST: create a session from Upload-Length / Upload-Metadata. */
+async function handleCreate(
+  supabase: ReturnType<typeof createClient>,
+  req: Request,
+  uploaderId: string
+): Promise<Response> {
+  const lengthHeader = req.headers.get("Upload-Length");
+  const uploadLength = lengthHeader !== null && /^\d+$/.test(lengthHeader) ? Number(lengthHeader) : NaN;
+  if (!Number.isSafeInteger(uploadLength) || uploadLength <= 0) {
+    return new Response(
+      JSON.stringify({ error: "Upload-Length must be the file size in bytes" }),
+      { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+  if (uploadLength > MAX_FILE_SIZE_BYTES) {
+    return new Response(
+      JSON.stringify({ error: `File size (${uploadLength} bytes) exceeds max (${MAX_FILE_SIZE_BYTES} bytes)` }),
+      { status: 413, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  const metadata = parseUploadMetadata(req.headers.get("Upload-Metadata"));
+  if (!metadata) {
+    return new Response(
+      JSON.stringify({ error: "Upload-Metadata must be comma-separated \"key base64value\" pairs" }),
+      { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+  const fileName = (metadata.filename ?? "").trim();
+  if (!fileName || fileName.includes("/")) {
+    return new Response(
+      JSON.stringify({ error: "Upload-Metadata must include the filename" }),
+      { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+  const ext = fileExtension(fileName);
+  if (!ALLOWED_FILE_FORMATS.includes(ext)) {
+    return new Response(
+      JSON.stringify({ error: `Unsupported format: ${ext}. Allowed: ${ALLOWED_FILE_FORMATS.join(", ")}` }),
+      { status: 415, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  const { data: member, error: memberError } = await supabase
+    .from("members")
+    .select("tier_id, storage_used_bytes")
+    .eq("id", uploaderId)
+    .maybeSingle();
+  if (memberError) throw new Error(`Failed to load storage usage: ${memberError.message}`);
+  if (!member) {
+    return new Response(
+      JSON.stringify({ error: "Member profile not found" }),
+      { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+  const limitBytes = storageQuotaBytes(member.tier_id);
+  const usedBytes = Number(member.storage_used_bytes);
+  if (usedBytes + uploadLength > limitBytes) {
+    return new Response(
+      JSON.stringify({
+        error: `Storage quota exceeded: ${usedBytes} of ${limitBytes} bytes used, file needs ${uploadLength}`,
+      }),
+      { status: 413, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  await purgeExpiredSessions(supabase, uploaderId);
+
+  const { data: session, error } = await supabase
+    .from("upload_sessions")
+    .insert({
+      uploader_id: uploaderId,
+      file_name: fileName,
+      content_type: metadata.filetype || null,
+      upload_length: uploadLength,
+      expires_at: newExpiry(),
+    })
+    .select("id, expires_at")
+    .single();
+
+  if (error) {
+    console.error("[upload-session] Insert error:", error.message);
+    return new Response(
+      JSON.stringify({ error: "Failed to create upload session" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  const location = `${Deno.env.get("SUPABASE_URL") ?? ""}/functions/v1/upload-session?id=${session.id}`;
+  return new Response(
+    JSON.stringify({
+      upload_id: session.id,
+      upload_length: uploadLength,
+      max_chunk_bytes: MAX_CHUNK_BYTES,
+      min_chunk_bytes: MIN_CHUNK_BYTES,
+      expires_at: session.expires_at,
+    }),
+    {
+      status: 201,
+      headers: {
+        ...corsHeaders,
+        "Location": location,
+        "Upload-Offset": "0",
+        "Upload-Expires": httpDate(session.expires_at),
+        "Content-Type": "application/json",
+      },
+    }
+  );
+}
+
+/** HEAD: where to resume. */
+function handleHead(session: UploadSession): Response {
+  return new Response(null, {
+    status: 200,
+    headers: {
+      ...corsHeaders,
+      "Upload-Offset": String(session.offset_bytes),
+      "Upload-Length": String(session.upload_length),
+      "Upload-Expires": httpDate(session.expires_at),
+      "Cache-Control": "no-store",
+    },
+  });
+}
+
+/** PATCH: append the chunk at Upload-Offset. */
+async function handlePatch(
+  supabase: ReturnType<typeof createClient>,
+  req: Request,
+  session: UploadSession
+): Promise<Response> {
+  if ((req.headers.get("Content-Type") ?? "").split(";")[0].trim() !== CHUNK_CONTENT_TYPE) {
+    return new Response(
+      JSON.stringify({ error: `Content-Type must be ${CHUNK_CONTENT_TYPE}` }),
+      { status: 415, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  const offsetHeader = req.headers.get("Upload-Offset");
+  const offset = offsetHeader !== null && /^\d+$/.test(offsetHeader) ? Number(offsetHeader) : NaN;
+  if (!Number.isSafeInteger(offset)) {
+    return new Response(
+      JSON.stringify({ error: "Upload-Offset is required" }),
+      { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+  if (offset !== session.offset_bytes) {
+    return new Response(
+      JSON.stringify({ error: "Upload-Offset does not match the bytes received; resume from the current offset", offset: session.offset_bytes }),
+      { status: 409, headers: { ...corsHeaders, "Upload-Offset": String(session.offset_bytes), "Content-Type": "application/json" } }
+    );
+  }
+
+  const remaining = session.upload_length - offset;
+  const declared = Number(req.headers.get("Content-Length") ?? NaN);
+  if (Number.isFinite(declared) && declared > Math.min(MAX_CHUNK_BYTES, remaining)) {
+    return new Response(
+      JSON.stringify({ error: `Chunks are at most ${MAX_CHUNK_BYTES} bytes and may not pass Upload-Length` }),
+      { status: 413, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  const chunk = new Uint8Array(await req.arrayBuffer());
+  if (chunk.length === 0) {
+    return new Response(
+      JSON.stringify({ error: "Chunk is empty" }),
+      { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+  if (chunk.length > Math.min(MAX_CHUNK_BYTES, remaining)) {
+    return new Response(
+      JSON.stringify({ error: `Chunks are at most ${MAX_CHUNK_BYTES} bytes and may not pass Upload-Length` }),
+      { status: 413, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+  if (chunk.length < MIN_CHUNK_BYTES && chunk.length < remaining) {
+    return new Response(
+      JSON.stringify({ error: `Every chunk but the last must be at least ${MIN_CHUNK_BYTES} bytes` }),
+      { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  // A retry of the same offset overwrites the chunk its failed attempt left
+  const { error: storageError } = await supabase.storage
+    .from(UPLOAD_CHUNK_BUCKET)
+    .upload(chunkPath(session, offset), chunk, { contentType: "application/octet-stream", upsert: true });
+
+  if (storageError) {
+    console.error("[upload-session] Chunk upload error:", storageError.message);
+    return new Response(
+      JSON.stringify({ error: "Failed to store chunk" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  // Only advance from the offset this chunk was written at: a concurrent
+  // PATCH that got there first wins, and this one reports the conflict
+  const newOffset = offset + chunk.length;
+  const { data: updated, error: updateError } = await supabase
+    .from("upload_sessions")
+    .update({ offset_bytes: newOffset, updated_at: new Date().toISOString(), expires_at: newExpiry() })
+    .eq("id", session.id)
+    .eq("offset_bytes", offset)
+    .select("offset_bytes, expires_at")
+    .maybeSingle();
+
+  if (updateError) {
+    console.error("[upload-session] Offset update error:", updateError.message);
+    return new Response(
+      JSON.stringify({ error: "Failed to record chunk" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+  if (!updated) {
+    return new Response(
+      JSON.stringify({ error: "Another request already wrote this offset; resume from the current offset" }),
+      { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  return new Response(null, {
+    status: 204,
+    headers: {
+      ...corsHeaders,
+      "Upload-Offset": String(newOffset),
+      "Upload-Expires": httpDate(updated.expires_at),
+    },
+  });
+}
+
+/** DELETE: abandon the session. */
+async function handleDelete(
+  supabase: ReturnType<typeof createClient>,
+  session: UploadSession
+): Promise<Response> {
+  if (session.file_id) {
+    return new Response(
+      JSON.stringify({ error: "Upload already finalized", file_id: session.file_id }),
+      { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  await removeSessionChunks(supabase, session);
+  const { error } = await supabase.from("upload_sessions").delete().eq("id", session.id);
+  if (error) {
+    console.error("[upload-session] Delete error:", error.message);
+    return new Response(
+      JSON.stringify({ error: "Failed to delete upload session" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  return new Response(null, { status: 204, headers: corsHeaders });
+}
+
+// ---------------------------------------------------------------------------
+// Main handler
+// ---------------------------------------------------------------------------
+
+serve(async (req: Request) => {
+  // ---- CORS preflight / TUS discovery ----
+  if (req.method === "OPTIONS") {
+    return new Response("ok", {
+      headers: {
+        ...corsHeaders,
+        "Tus-Version": TUS_VERSION,
+        "Tus-Extension": TUS_EXTENSIONS.join(","),
+        "Tus-Max-Size": String(MAX_FILE_SIZE_BYTES),
+      },
+    });
+  }
+
+  try {
+    // ---- Method guard ----
+    if (!["POST", "HEAD", "PATCH", "DELETE"].includes(req.method)) {
+      return new Response(
+        JSON.stringify({ error: "Method not allowed. Use POST, HEAD, PATCH or DELETE." }),
+        { status: 405, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ---- Protocol version ----
+    const tusResumable = req.headers.get("Tus-Resumable");
+    if (tusResumable !== null && tusResumable !== TUS_VERSION) {
+      return new Response(
+        JSON.stringify({ error: `Unsupported Tus-Resumable (supported: ${TUS_VERSION})` }),
+        { status: 412, headers: { ...corsHeaders, "Tus-Version": TUS_VERSION, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ---- Init Supabase admin client ----
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    // ---- Auth check ----
+    const user = await getAuthUser(req, supabaseAdmin);
+    if (!user) {
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ---- Override check ----
+    if (!(await isUploadEnabled(supabaseAdmin))) {
+      return new Response(
+        JSON.stringify({ error: "File uploads are currently disabled" }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ---- Originator role check ----
+    if (!(await hasOriginatorRole(supabaseAdmin, user.id))) {
+      return new Response(
+        JSON.stringify({ error: "Originator role required to upload files" }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (req.method === "POST") {
+      return await handleCreate(supabaseAdmin, req, user.id);
+    }
+
+    // ---- Existing session: HEAD / PATCH / DELETE ----
+    const id = new URL(req.url).searchParams.get("id");
+    if (!id || !UUID_PATTERN.test(id)) {
+      return new Response(
+        JSON.stringify({ error: "id must be an upload session UUID" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const session = await loadUploadSession(supabaseAdmin, id);
+    if (!session || session.uploader_id !== user.id) {
+      return new Response(
+        JSON.stringify({ error: "Upload session not found" }),
+        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (req.method === "DELETE") {
+      return await handleDelete(supabaseAdmin, session);
+    }
+
+    if (isSessionExpired(session) && !session.file_id) {
+      return new Response(
+        JSON.stringify({ error: "Upload session expired; start a new upload" }),
+        { status: 410, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (req.method === "HEAD") {
+      return handleHead(session);
+    }
+
+    if (session.file_id) {
+      return new Response(
+        JSON.stringify({ error: "Upload already finalized", file_id: session.file_id }),
+        { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    return await handlePatch(supabaseAdmin, req, session);
+
+  } catch (err) {
+    console.error("[upload-session] Unhandled error:", err);
+    return new Response(
+      JSON.stringify({ error: "Internal server error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -2,12 +2,15 @@
 // PIF Selection-Connection — verify-earning
 // POST /verify-earning
 // Accepts: { tax_acknowledged, w9_acknowledged }
-// Requires auth. Records tax/W-9 acknowledgment and creates a Stripe Connect
-// Express account for the member so they can receive payouts.
+// Requires auth. Records tax/W-9 acknowledgment and creates a connected
+// account (Stripe Connect Express unless PAYMENT_PROVIDER says otherwise) for
+// the member so they can receive payouts.
 // =============================================================================
 
 import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getPaymentProvider } from "../_shared/payments/index.ts";
+import { TierId, tierRank } from "../_shared/tiers.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -21,17 +24,9 @@ const corsHeaders = {
 
 /**
  * Minimum tier required to become an earner / originator.
- * Tiers in ascending order: design_and_go < emerging < maker < professional
+ * Tiers in ascending order: see MEMBERSHIP_TIERS in _shared/tiers.ts
  */
-const MINIMUM_EARNING_TIER = "emerging";
-
-/** Tier hierarchy for comparison. */
-const TIER_RANK: Record<string, number> = {
-  design_and_go: 0,
-  emerging: 1,
-  maker: 2,
-  professional: 3,
-};
+const MINIMUM_EARNING_TIER: TierId = "emerging";
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -53,9 +48,7 @@ async function getAuthUser(
 
 /** Check if a member's tier meets the minimum earning requirement. */
 function meetsMinimumTier(memberTier: string): boolean {
-  const memberRank = TIER_RANK[memberTier] ?? -1;
-  const requiredRank = TIER_RANK[MINIMUM_EARNING_TIER] ?? 999;
-  return memberRank >= requiredRank;
+  return tierRank(memberTier) >= tierRank(MINIMUM_EARNING_TIER);
 }
 
 // ---------------------------------------------------------------------------
@@ -107,7 +100,7 @@ serve(async (req: Request) => {
     // ---- Fetch member record ----
     const { data: member, error: memberError } = await supabaseAdmin
       .from("members")
-      .select("id, tier, email, display_name, stripe_account_id, payout_enabled")
+      .select("id, tier_id, email, display_name, stripe_account_id, payout_enabled")
       .eq("id", user.id)
       .single();
 
@@ -119,10 +112,10 @@ serve(async (req: Request) => {
     }
 
     // ---- Verify minimum tier ----
-    if (!meetsMinimumTier(member.tier)) {
+    if (!meetsMinimumTier(member.tier_id)) {
       return new Response(
         JSON.stringify({
-          error: `Your current tier (${member.tier}) does not meet the minimum requirement (${MINIMUM_EARNING_TIER}) to earn on the marketplace.`,
+          error: `Your current tier (${member.tier_id}) does not meet the minimum requirement (${MINIMUM_EARNING_TIER}) to earn on the marketplace.`,
         }),
         { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
@@ -160,53 +153,49 @@ serve(async (req: Request) => {
       );
     }
 
-    // ---- Create Stripe Connect Express account ----
-    // TODO: Implement actual Stripe Connect account creation
-    // const stripe = new Stripe(Deno.env.get("STRIPE_SECRET_KEY")!, { apiVersion: "2023-10-16" });
-    //
-    // const account = await stripe.accounts.create({
-    //   type: "express",
-    //   email: member.email,
-    //   metadata: {
-    //     pif_member_id: member.id,
-    //     display_name: member.display_name,
-    //   },
-    //   capabilities: {
-    //     card_payments: { requested: true },
-    //     transfers: { requested: true },
-    //   },
-    // });
-    //
-    // // Store the Stripe account ID on the member
-    // await supabaseAdmin
-    //   .from("members")
-    //   .update({ stripe_account_id: account.id })
-    //   .eq("id", member.id);
-    //
-    // // Create an account link for onboarding
-    // const accountLink = await stripe.accountLinks.create({
-    //   account: account.id,
-    //   refresh_url: `${Deno.env.get("PUBLIC_SITE_URL")}/earning/refresh`,
-    //   return_url: `${Deno.env.get("PUBLIC_SITE_URL")}/earning/complete`,
-    //   type: "account_onboarding",
-    // });
-    //
-    // const onboardingUrl = accountLink.url;
-
-    const mockAccountId = `acct_${crypto.randomUUID().replace(/-/g, "").slice(0, 16)}`;
-    const onboardingUrl = `https://connect.stripe.com/setup/e/${mockAccountId}`;
-    console.log("[verify-earning] TODO: Replace mock Stripe account with real implementation");
-
-    // Store mock account ID
+    // ---- Create connected account (Stripe Connect Express by default) ----
+    const provider = getPaymentProvider();
+    const { data: account, error: accountError } = await provider.createConnectedAccount({
+      member_id: member.id,
+      email: member.email,
+      display_name: member.display_name,
+    });
+
+    if (accountError || !account) {
+      console.error("[verify-earning] Failed to create connected account:", accountError);
+      return new Response(
+        JSON.stringify({ error: "Failed to create payout account" }),
+        { status: 502, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ---- Store the account ID on the member ----
     const { error: stripeUpdateError } = await supabaseAdmin
       .from("members")
-      .update({ stripe_account_id: mockAccountId })
+      .update({ stripe_account_id: account.account_id })
       .eq("id", member.id);
 
     if (stripeUpdateError) {
       console.error("[verify-earning] Failed to store Stripe account:", stripeUpdateError.message);
     }
 
+    // ---- Create an account link for onboarding ----
+    const siteUrl = Deno.env.get("PUBLIC_SITE_URL") ?? "";
+    const { data: link, error: linkError } = await provider.createOnboardingLink(account.account_id, {
+      refresh_url: `${siteUrl}/earning/refresh`,
+      return_url: `${siteUrl}/earning/complete`,
+    });
+
+    if (linkError || !link) {
+      console.error("[verify-earning] Failed to create onboarding link:", linkError);
+      return new Response(
+        JSON.stringify({ error: "Failed to create onboarding link" }),
+        { status: 502, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const onboardingUrl = link.url;
+
     // ---- Success ----
     return new Response(
       JSON.stringify({ stripe_onboarding_url: onboardingUrl }),
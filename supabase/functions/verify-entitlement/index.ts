@@ -0,0 +1,195 @@
+// =============================================================================
+// PIF Selection-Connection — verify-entitlement
+// POST /verify-entitlement
+// Accepts: { entitlement, config?, kind? } or { purchase_id, config?, kind? }
+// Confirms a configurator purchase before configurator.html releases a DXF /
+// BOM export (kind "cabinet", the default) or lamiform.html a LamiForm one
+// (kind "lamiform"). No auth header — the configurator is guest checkout:
+//   - entitlement  the signed token stripe-webhook issued (emailed to the buyer
+//                  and cached by the configurator)
+//   - purchase_id  from the checkout return URL; swaps a paid purchase for its
+//                  entitlement
+// The purchase must be for that kind of product; with config, it must hash
+// to the configuration that was paid for.
+// Responses (200 unless the request itself is bad):
+//   { valid: true, purchase_id, kind, config_hash, entitlement, config }
+//   { valid: false, reason: "pending" }   — payment not confirmed yet; retry
+//   { valid: false, reason }              — invalid_entitlement, not_found,
+//                                           wrong_product, refunded, failed,
+//                                           config_mismatch
+// =============================================================================
+
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { hashConfig, parseConfig, PRODUCT_KINDS, verifyEntitlement } from "../_shared/entitlements.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// ---------------------------------------------------------------------------
+// Main handler
+// ---------------------------------------------------------------------------
+
+serve(async (req: Request) => {
+  // ---- CORS preflight ----
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    // ---- Method guard ----
+    if (req.method !== "POST") {
+      return new Response(
+        JSON.stringify({ error: "Method not allowed" }),
+        { status: 405, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ---- Init Supabase admin client ----
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    // ---- Parse request body ----
+    const { entitlement, purchase_id, config, kind = "cabinet" } = await req.json();
+
+    if (!entitlement && !purchase_id) {
+      return new Response(
+        JSON.stringify({ error: "Provide entitlement or purchase_id" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (!PRODUCT_KINDS.includes(kind)) {
+      return new Response(
+        JSON.stringify({ error: `kind must be one of: ${PRODUCT_KINDS.join(", ")}` }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ---- Resolve the purchase ----
+    let purchaseId: string;
+    let signedHash: string | null = null;
+
+    if (entitlement) {
+      const claims = await verifyEntitlement(entitlement);
+      if (!claims) {
+        return new Response(
+          JSON.stringify({ valid: false, reason: "invalid_entitlement" }),
+          { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+      purchaseId = claims.purchase_id;
+      signedHash = claims.config_hash;
+    } else {
+      if (typeof purchase_id !== "string" || !UUID_PATTERN.test(purchase_id)) {
+        return new Response(
+          JSON.stringify({ error: "purchase_id must be a UUID" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+      purchaseId = purchase_id;
+    }
+
+    const { data: purchase, error: purchaseError } = await supabaseAdmin
+      .from("config_purchases")
+      .select("id, config, config_hash, product_kind, payment_status, entitlement_token")
+      .eq("id", purchaseId)
+      .maybeSingle();
+
+    if (purchaseError) {
+      console.error("[verify-entitlement] Purchase lookup failed:", purchaseError.message);
+      return new Response(
+        JSON.stringify({ error: "Failed to look up purchase" }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (!purchase) {
+      return new Response(
+        JSON.stringify({ valid: false, reason: "not_found" }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // A cabinet purchase never unlocks a LamiForm export, or the other way round
+    if (purchase.product_kind !== kind) {
+      return new Response(
+        JSON.stringify({ valid: false, reason: "wrong_product" }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ---- Payment state ----
+    if (purchase.payment_status === "pending") {
+      return new Response(
+        JSON.stringify({ valid: false, reason: "pending" }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (purchase.payment_status !== "paid" || !purchase.entitlement_token) {
+      return new Response(
+        JSON.stringify({ valid: false, reason: purchase.payment_status }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Only the token on record is honoured
+    if (entitlement && entitlement !== purchase.entitlement_token) {
+      return new Response(
+        JSON.stringify({ valid: false, reason: "invalid_entitlement" }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ---- Configuration match ----
+    if (signedHash !== null && signedHash !== purchase.config_hash) {
+      return new Response(
+        JSON.stringify({ valid: false, reason: "invalid_entitlement" }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (config !== undefined) {
+      const parsedConfig = parseConfig(config);
+      const configHash = parsedConfig ? await hashConfig(parsedConfig, purchase.product_kind) : null;
+      if (configHash !== purchase.config_hash) {
+        return new Response(
+          JSON.stringify({ valid: false, reason: "config_mismatch", purchase_id: purchase.id }),
+          { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+    }
+
+    // ---- Success ----
+    return new Response(
+      JSON.stringify({
+        valid: true,
+        purchase_id: purchase.id,
+        kind: purchase.product_kind,
+        config_hash: purchase.config_hash,
+        entitlement: purchase.entitlement_token,
+        config: purchase.config,
+      }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+
+  } catch (err) {
+    console.error("[verify-entitlement] Unhandled error:", err);
+    return new Response(
+      JSON.stringify({ error: "Internal server error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
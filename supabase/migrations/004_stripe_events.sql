@@ -0,0 +1,25 @@
+-- Stripe webhook event ledger.
+-- Every event id received by stripe-webhook or stripe-onboarding is recorded
+-- here so Stripe retries of the same event are not processed twice.
+
+-- ============================================================
+-- STRIPE EVENTS
+-- ============================================================
+CREATE TABLE stripe_events (
+  id           TEXT PRIMARY KEY,              -- Stripe event id (evt_...)
+  type         TEXT NOT NULL,
+  source       TEXT NOT NULL CHECK (source IN ('payments','connect')),
+  status       TEXT NOT NULL DEFAULT 'processing'
+               CHECK (status IN ('processing','processed','failed')),
+  attempts     INTEGER NOT NULL DEFAULT 1,
+  last_error   TEXT,
+  received_at  TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at   TIMESTAMPTZ NOT NULL DEFAULT now(),
+  processed_at TIMESTAMPTZ
+);
+
+CREATE INDEX idx_stripe_events_status ON stripe_events(status);
+CREATE INDEX idx_stripe_events_type ON stripe_events(type);
+
+-- Only Edge Functions (service role) read or write the ledger
+ALTER TABLE stripe_events ENABLE ROW LEVEL SECURITY;
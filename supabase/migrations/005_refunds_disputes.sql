@@ -0,0 +1,64 @@
+-- Refund and dispute handling.
+-- Refunds revoke download access and cancel or reverse the order's payouts.
+-- Disputes hold the affected members' pending payouts until they close.
+
+-- ============================================================
+-- ORDERS — refund tracking
+-- ============================================================
+ALTER TABLE orders
+  ADD COLUMN refunded_cents INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN refunded_at    TIMESTAMPTZ;
+
+CREATE INDEX idx_orders_stripe_payment_intent ON orders(stripe_payment_intent_id);
+
+-- ============================================================
+-- PAYOUTS — hold / cancel / reversal states
+--   on_hold          frozen while a dispute on one of the member's orders is open
+--   cancelled        never transferred; the sale was refunded or lost
+--   reversal_pending transferred, but the Stripe transfer reversal has not succeeded yet
+--   reversed         transferred and then reversed back to the platform
+-- ============================================================
+ALTER TABLE payouts DROP CONSTRAINT payouts_status_check;
+ALTER TABLE payouts ADD CONSTRAINT payouts_status_check
+  CHECK (status IN ('pending','on_hold','transferred','failed','cancelled','reversal_pending','reversed'));
+
+ALTER TABLE payouts
+  ADD COLUMN status_reason      TEXT,
+  ADD COLUMN stripe_reversal_id TEXT,
+  ADD COLUMN reversed_at        TIMESTAMPTZ;
+
+-- ============================================================
+-- PAYMENT DISPUTES
+-- One row per Stripe dispute. held_member_ids records whose payouts were
+-- frozen, so closing one dispute doesn't release a member still under another.
+-- ============================================================
+CREATE TABLE payment_disputes (
+  id               TEXT PRIMARY KEY,              -- Stripe dispute id (dp_...)
+  order_id         UUID NOT NULL REFERENCES orders(id),
+  stripe_charge_id TEXT,
+  amount_cents     INTEGER NOT NULL DEFAULT 0,
+  reason           TEXT,
+  status           TEXT NOT NULL DEFAULT 'open'
+                   CHECK (status IN ('open','won','lost','warning_closed')),
+  held_member_ids  UUID[] NOT NULL DEFAULT '{}',
+  created_at       TIMESTAMPTZ NOT NULL DEFAULT now(),
+  closed_at        TIMESTAMPTZ
+);
+
+CREATE INDEX idx_disputes_order ON payment_disputes(order_id);
+CREATE INDEX idx_disputes_status ON payment_disputes(status);
+
+ALTER TABLE payment_disputes ENABLE ROW LEVEL SECURITY;
+
+-- Sellers can see disputes on orders for their files
+CREATE POLICY "Sellers see disputes on their orders"
+  ON payment_disputes FOR SELECT
+  USING (
+    order_id IN (
+      SELECT id FROM orders WHERE file_id IN (
+        SELECT id FROM files WHERE uploader_id IN (
+          SELECT id FROM members WHERE auth_user_id = auth.uid()
+        )
+      )
+    )
+  );
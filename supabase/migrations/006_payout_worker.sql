@@ -0,0 +1,64 @@
+-- Payout transfer worker support.
+-- process-payouts picks up pending/failed payouts, transfers them via Stripe
+-- Connect and retries failures with exponential backoff.
+
+-- ============================================================
+-- PAYOUTS — retry bookkeeping
+-- ============================================================
+ALTER TABLE payouts
+  ADD COLUMN attempts        INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN last_attempt_at TIMESTAMPTZ,
+  ADD COLUMN next_attempt_at TIMESTAMPTZ;
+
+CREATE INDEX idx_payouts_due ON payouts(status, next_attempt_at);
+
+-- ============================================================
+-- PAYOUT RECONCILIATIONS
+-- Transfers that went through but couldn't be recorded on their payout row
+-- (the row changed underneath the worker, e.g. cancelled by a refund, or the
+-- write failed). Each needs an admin to reverse the transfer or correct the
+-- row, then set resolved_at — money never moves without a record here or on
+-- the payout.
+-- ============================================================
+CREATE TABLE payout_reconciliations (
+  id           UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  payout_id    UUID NOT NULL REFERENCES payouts(id),
+  transfer_id  TEXT NOT NULL,
+  amount_cents INTEGER NOT NULL,
+  reason       TEXT NOT NULL,
+  created_at   TIMESTAMPTZ NOT NULL DEFAULT now(),
+  resolved_at  TIMESTAMPTZ,
+  UNIQUE (payout_id, transfer_id)
+);
+
+CREATE INDEX idx_payout_reconciliations_open
+  ON payout_reconciliations(created_at) WHERE resolved_at IS NULL;
+
+-- Only Edge Functions (service role) read or write it
+ALTER TABLE payout_reconciliations ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================
+-- SCHEDULE
+-- Runs process-payouts every 15 minutes with the service role key.
+-- Requires the `project_url` and `service_role_key` secrets in Vault:
+--   select vault.create_secret('https://YOUR_PROJECT_ID.supabase.co', 'project_url');
+--   select vault.create_secret('YOUR_SERVICE_ROLE_KEY', 'service_role_key');
+-- ============================================================
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'process-payouts',
+  '*/15 * * * *',
+  $$
+  SELECT net.http_post(
+    url     := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+               || '/functions/v1/process-payouts',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body    := '{}'::jsonb
+  );
+  $$
+);
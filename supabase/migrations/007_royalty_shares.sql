@@ -0,0 +1,105 @@
+-- Royalty chain shares.
+-- Replaces the fixed amount_cents per role with a share of the base price in
+-- basis points (10000 = 100%), so the same chain works at any price. Shares
+-- of a file's chain must sum to exactly 100% and include an originator.
+
+-- ============================================================
+-- FILE ROYALTY CHAIN
+-- ============================================================
+ALTER TABLE file_royalty_chain ADD COLUMN share_basis_points INTEGER;
+
+-- Backfill from the old amounts: each entry gets its share of the file's
+-- amount_cents total, rounded down, and the rounding remainder goes to the
+-- originator (or, in a chain without one, the largest entry). A file whose
+-- amounts total 0 gives the originator 100%.
+WITH totals AS (
+  SELECT id, file_id, role,
+         amount_cents::BIGINT AS amount,
+         SUM(amount_cents::BIGINT) OVER (PARTITION BY file_id) AS file_total
+    FROM file_royalty_chain
+), shares AS (
+  SELECT id, file_id, role,
+         CASE WHEN file_total > 0 THEN (amount * 10000 / file_total)::INTEGER ELSE 0 END AS share_bp
+    FROM totals
+), ranked AS (
+  SELECT id, share_bp,
+         10000 - SUM(share_bp) OVER (PARTITION BY file_id) AS remainder,
+         ROW_NUMBER() OVER (
+           PARTITION BY file_id
+           ORDER BY (role = 'originator') DESC, share_bp DESC, id
+         ) AS rank
+    FROM shares
+)
+UPDATE file_royalty_chain c
+   SET share_basis_points = r.share_bp + CASE WHEN r.rank = 1 THEN r.remainder ELSE 0 END
+  FROM ranked r
+ WHERE c.id = r.id;
+
+-- Entries that were owed nothing have no share to keep
+DELETE FROM file_royalty_chain WHERE share_basis_points = 0;
+
+-- Every backfilled chain must come to exactly 100%
+DO $$
+DECLARE
+  bad_file UUID;
+  bad_total BIGINT;
+BEGIN
+  SELECT file_id, SUM(share_basis_points)
+    INTO bad_file, bad_total
+    FROM file_royalty_chain
+   GROUP BY file_id
+  HAVING SUM(share_basis_points) <> 10000
+   LIMIT 1;
+
+  IF bad_file IS NOT NULL THEN
+    RAISE EXCEPTION 'Royalty chain backfill for file % sums to % basis points (must be 10000)', bad_file, bad_total;
+  END IF;
+END;
+$$;
+
+ALTER TABLE file_royalty_chain ALTER COLUMN share_basis_points SET NOT NULL;
+ALTER TABLE file_royalty_chain
+  ADD CONSTRAINT file_royalty_chain_share_basis_points_check
+  CHECK (share_basis_points > 0 AND share_basis_points <= 10000);
+ALTER TABLE file_royalty_chain DROP COLUMN amount_cents;
+
+-- Chain totals are checked at commit time so multi-row inserts and
+-- re-splits can pass through intermediate states.
+CREATE OR REPLACE FUNCTION check_royalty_chain_total()
+RETURNS TRIGGER AS $$
+DECLARE
+  target_file UUID := COALESCE(NEW.file_id, OLD.file_id);
+  total_bp    INTEGER;
+  has_origin  BOOLEAN;
+BEGIN
+  SELECT COALESCE(SUM(share_basis_points), 0), BOOL_OR(role = 'originator')
+    INTO total_bp, has_origin
+    FROM file_royalty_chain
+   WHERE file_id = target_file;
+
+  -- Chain removed entirely (e.g. file deleted) — nothing to check
+  IF total_bp = 0 THEN
+    RETURN NULL;
+  END IF;
+
+  IF total_bp <> 10000 THEN
+    RAISE EXCEPTION 'Royalty chain for file % sums to % basis points (must be 10000)', target_file, total_bp;
+  END IF;
+
+  IF NOT has_origin THEN
+    RAISE EXCEPTION 'Royalty chain for file % has no originator', target_file;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE CONSTRAINT TRIGGER trg_royalty_chain_total
+  AFTER INSERT OR UPDATE OR DELETE ON file_royalty_chain
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW EXECUTE FUNCTION check_royalty_chain_total();
+
+-- ============================================================
+-- PAYOUTS — record the share each payout was computed from
+-- ============================================================
+ALTER TABLE payouts ADD COLUMN share_basis_points INTEGER;
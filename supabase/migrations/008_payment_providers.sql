@@ -0,0 +1,17 @@
+-- Swappable payment providers (Stripe Connect, Gumroad, local fake).
+-- The stripe_* id columns keep their names and hold the active provider's
+-- equivalent ids; these columns record which provider issued them.
+
+-- ============================================================
+-- ORDERS
+-- ============================================================
+ALTER TABLE orders
+  ADD COLUMN payment_provider TEXT NOT NULL DEFAULT 'stripe'
+  CHECK (payment_provider IN ('stripe','gumroad','fake'));
+
+-- ============================================================
+-- STRIPE EVENTS (webhook ledger for every provider)
+-- ============================================================
+ALTER TABLE stripe_events
+  ADD COLUMN provider TEXT NOT NULL DEFAULT 'stripe'
+  CHECK (provider IN ('stripe','gumroad','fake'));
@@ -0,0 +1,60 @@
+-- Cart checkout: several marketplace files bought in one payment.
+-- An order group owns the checkout session and the single payment; each file
+-- is still an orders row (a "line") with its own price, download token and
+-- payouts, linked to the group by order_group_id.
+
+-- ============================================================
+-- ORDER GROUPS
+-- ============================================================
+CREATE TABLE order_groups (
+  id                          UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  buyer_email                 TEXT NOT NULL,
+  buyer_member_id             UUID REFERENCES members(id),
+  -- Amounts (all in cents, sums over the lines)
+  file_price_cents            INTEGER NOT NULL,
+  pif_fee_cents               INTEGER NOT NULL,
+  total_cents                 INTEGER NOT NULL,
+  -- Payment
+  payment_provider            TEXT NOT NULL DEFAULT 'stripe'
+                              CHECK (payment_provider IN ('stripe','gumroad','fake')),
+  stripe_checkout_session_id  TEXT UNIQUE,
+  stripe_payment_intent_id    TEXT,
+  payment_status              TEXT NOT NULL DEFAULT 'pending'
+                              CHECK (payment_status IN ('pending','paid','failed','refunded')),
+  -- Refunds are issued against the single payment, so they're tracked here
+  refunded_cents              INTEGER NOT NULL DEFAULT 0,
+  refunded_at                 TIMESTAMPTZ,
+  -- Email delivery (one email for the whole cart)
+  delivery_email_sent         BOOLEAN NOT NULL DEFAULT false,
+  delivery_email_sent_at      TIMESTAMPTZ,
+  -- Timestamps
+  created_at                  TIMESTAMPTZ NOT NULL DEFAULT now(),
+  paid_at                     TIMESTAMPTZ
+);
+
+CREATE INDEX idx_order_groups_buyer_email ON order_groups(buyer_email);
+CREATE INDEX idx_order_groups_buyer_member ON order_groups(buyer_member_id);
+CREATE INDEX idx_order_groups_stripe_session ON order_groups(stripe_checkout_session_id);
+
+-- ============================================================
+-- ORDERS — cart lines
+-- ============================================================
+ALTER TABLE orders ADD COLUMN order_group_id UUID REFERENCES order_groups(id);
+CREATE INDEX idx_orders_group ON orders(order_group_id);
+
+-- ============================================================
+-- PAYMENT DISPUTES — a cart payment disputes every line at once
+-- ============================================================
+ALTER TABLE payment_disputes ADD COLUMN stripe_payment_intent_id TEXT;
+
+-- ============================================================
+-- RLS
+-- ============================================================
+ALTER TABLE order_groups ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Buyers see own order groups"
+  ON order_groups FOR SELECT
+  USING (
+    buyer_member_id IN (SELECT id FROM members WHERE auth_user_id = auth.uid())
+    OR buyer_email = (SELECT email FROM auth.users WHERE id = auth.uid())
+  );
@@ -0,0 +1,164 @@
+-- Discount codes and promotions.
+-- A promo code takes a percentage or a fixed amount off the file price before
+-- the PIF fee is added, so the fee and every royalty split are computed on
+-- the discounted price. Originators create codes for their own files;
+-- platform-wide codes (created by an admin) may target any scope.
+
+-- ============================================================
+-- PROMO CODES
+-- ============================================================
+CREATE TABLE promo_codes (
+  id                  UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code                TEXT NOT NULL UNIQUE CHECK (code = upper(code) AND code ~ '^[A-Z0-9_-]{3,32}$'),
+  description         TEXT,
+  -- Who issued it: an originator (their own files only) or the platform
+  created_by          UUID REFERENCES members(id),
+  is_platform         BOOLEAN NOT NULL DEFAULT false,
+  -- Discount
+  discount_type       TEXT NOT NULL CHECK (discount_type IN ('percent','fixed')),
+  percent_off         INTEGER CHECK (percent_off BETWEEN 1 AND 99),
+  amount_off_cents    INTEGER CHECK (amount_off_cents > 0),
+  -- Scope: what the code applies to. scope_value is a file id, family id,
+  -- originator member id or community tag; NULL for 'all' (platform only).
+  scope_type          TEXT NOT NULL CHECK (scope_type IN ('all','file','family','originator','community_tag')),
+  scope_value         TEXT,
+  -- Limits
+  starts_at           TIMESTAMPTZ NOT NULL DEFAULT now(),
+  expires_at          TIMESTAMPTZ,
+  max_redemptions     INTEGER CHECK (max_redemptions > 0),
+  max_per_buyer       INTEGER CHECK (max_per_buyer > 0),
+  redemption_count    INTEGER NOT NULL DEFAULT 0,
+  active              BOOLEAN NOT NULL DEFAULT true,
+  -- Timestamps
+  created_at          TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at          TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (
+    (discount_type = 'percent' AND percent_off IS NOT NULL AND amount_off_cents IS NULL) OR
+    (discount_type = 'fixed' AND amount_off_cents IS NOT NULL AND percent_off IS NULL)
+  ),
+  CHECK ((scope_type = 'all') = (scope_value IS NULL)),
+  CHECK (is_platform OR (created_by IS NOT NULL AND scope_type IN ('file','family','originator')))
+);
+
+CREATE INDEX idx_promo_codes_created_by ON promo_codes(created_by);
+
+-- ============================================================
+-- PROMO REDEMPTIONS
+-- One row per order that used a code. 'reserved' when checkout starts,
+-- 'redeemed' once paid, 'released' if the checkout never completes.
+-- ============================================================
+CREATE TABLE promo_redemptions (
+  id                UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  promo_code_id     UUID NOT NULL REFERENCES promo_codes(id),
+  order_id          UUID NOT NULL UNIQUE REFERENCES orders(id),
+  buyer_email       TEXT NOT NULL,
+  discount_cents    INTEGER NOT NULL CHECK (discount_cents >= 0),
+  status            TEXT NOT NULL DEFAULT 'reserved'
+                    CHECK (status IN ('reserved','redeemed','released')),
+  created_at        TIMESTAMPTZ NOT NULL DEFAULT now(),
+  redeemed_at       TIMESTAMPTZ
+);
+
+CREATE INDEX idx_promo_redemptions_code ON promo_redemptions(promo_code_id, buyer_email);
+
+-- ============================================================
+-- ORDERS — applied discount
+-- file_price_cents stays the list price; total/pif_fee reflect the discount.
+-- ============================================================
+ALTER TABLE orders
+  ADD COLUMN promo_code_id  UUID REFERENCES promo_codes(id),
+  ADD COLUMN discount_cents INTEGER NOT NULL DEFAULT 0 CHECK (discount_cents >= 0);
+
+-- ============================================================
+-- ATOMIC USAGE ACCOUNTING
+-- Called by create-checkout with the service role. Locks the code row so
+-- concurrent checkouts can't exceed max_redemptions / max_per_buyer.
+-- ============================================================
+CREATE OR REPLACE FUNCTION reserve_promo_redemption(
+  p_promo_code_id  UUID,
+  p_order_id       UUID,
+  p_buyer_email    TEXT,
+  p_discount_cents INTEGER
+) RETURNS BOOLEAN
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_code promo_codes%ROWTYPE;
+  v_buyer_uses INTEGER;
+BEGIN
+  SELECT * INTO v_code FROM promo_codes WHERE id = p_promo_code_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT v_code.active THEN
+    RETURN false;
+  END IF;
+
+  IF v_code.max_redemptions IS NOT NULL AND v_code.redemption_count >= v_code.max_redemptions THEN
+    RETURN false;
+  END IF;
+
+  IF v_code.max_per_buyer IS NOT NULL THEN
+    SELECT count(*) INTO v_buyer_uses
+      FROM promo_redemptions
+     WHERE promo_code_id = p_promo_code_id
+       AND lower(buyer_email) = lower(p_buyer_email)
+       AND status <> 'released';
+
+    IF v_buyer_uses >= v_code.max_per_buyer THEN
+      RETURN false;
+    END IF;
+  END IF;
+
+  INSERT INTO promo_redemptions (promo_code_id, order_id, buyer_email, discount_cents)
+  VALUES (p_promo_code_id, p_order_id, p_buyer_email, p_discount_cents);
+
+  UPDATE promo_codes
+     SET redemption_count = redemption_count + 1
+   WHERE id = p_promo_code_id;
+
+  RETURN true;
+END;
+$$;
+
+-- Give a reserved use back when the checkout is abandoned or fails.
+CREATE OR REPLACE FUNCTION release_promo_redemption(p_order_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_code_id UUID;
+BEGIN
+  UPDATE promo_redemptions
+     SET status = 'released'
+   WHERE order_id = p_order_id
+     AND status = 'reserved'
+  RETURNING promo_code_id INTO v_code_id;
+
+  IF v_code_id IS NOT NULL THEN
+    UPDATE promo_codes
+       SET redemption_count = greatest(redemption_count - 1, 0)
+     WHERE id = v_code_id;
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION reserve_promo_redemption(UUID, UUID, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION release_promo_redemption(UUID) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================
+-- RLS — codes are managed through the promotions Edge Function
+-- ============================================================
+ALTER TABLE promo_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE promo_redemptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members see own promo codes"
+  ON promo_codes FOR SELECT
+  USING (created_by IN (SELECT id FROM members WHERE auth_user_id = auth.uid()));
+
+CREATE POLICY "Members see redemptions of own promo codes"
+  ON promo_redemptions FOR SELECT
+  USING (
+    promo_code_id IN (
+      SELECT id FROM promo_codes
+      WHERE created_by IN (SELECT id FROM members WHERE auth_user_id = auth.uid())
+    )
+  );
@@ -0,0 +1,57 @@
+-- Sales tax / VAT.
+-- create-checkout taxes base price + PIF fee at the buyer's billing location
+-- using the local rate table in supabase/functions/_shared/tax-rates.ts.
+-- Tax is stored on its own column and never enters the royalty split:
+--   royalty base = total_cents - pif_fee_cents - tax_cents
+
+-- ============================================================
+-- ORDERS — tax and billing location
+-- ============================================================
+ALTER TABLE orders
+  ADD COLUMN billing_country        TEXT CHECK (billing_country ~ '^[A-Z]{2}$'),
+  ADD COLUMN billing_region         TEXT,
+  ADD COLUMN tax_cents              INTEGER NOT NULL DEFAULT 0 CHECK (tax_cents >= 0),
+  ADD COLUMN tax_rate_basis_points  INTEGER NOT NULL DEFAULT 0 CHECK (tax_rate_basis_points >= 0),
+  ADD COLUMN tax_jurisdiction       TEXT,
+  ADD COLUMN tax_rates_version      TEXT;
+
+CREATE INDEX idx_orders_tax_jurisdiction ON orders(tax_jurisdiction, paid_at);
+
+-- ============================================================
+-- ORDER GROUPS — cart totals include the lines' tax
+-- ============================================================
+ALTER TABLE order_groups
+  ADD COLUMN billing_country  TEXT CHECK (billing_country ~ '^[A-Z]{2}$'),
+  ADD COLUMN billing_region   TEXT,
+  ADD COLUMN tax_cents        INTEGER NOT NULL DEFAULT 0 CHECK (tax_cents >= 0);
+
+-- ============================================================
+-- TAX REPORT
+-- One row per paid or refunded order for filing. Refunded tax is the whole
+-- tax on a full refund, pro rata on a partial one. Read by export-tax.
+-- ============================================================
+CREATE VIEW tax_report_lines
+WITH (security_invoker = true) AS
+SELECT
+  o.id                                   AS order_id,
+  o.order_group_id,
+  o.paid_at,
+  o.refunded_at,
+  o.payment_status,
+  o.billing_country,
+  o.billing_region,
+  o.tax_jurisdiction,
+  o.tax_rate_basis_points,
+  o.tax_rates_version,
+  o.total_cents - o.tax_cents            AS taxable_cents,
+  o.tax_cents,
+  CASE
+    WHEN o.payment_status = 'refunded' THEN o.tax_cents
+    WHEN o.refunded_cents > 0 AND o.total_cents > 0
+      THEN round(o.tax_cents::numeric * o.refunded_cents / o.total_cents)::INTEGER
+    ELSE 0
+  END                                    AS tax_refunded_cents,
+  o.total_cents
+FROM orders o
+WHERE o.paid_at IS NOT NULL
+  AND o.payment_status IN ('paid','refunded');
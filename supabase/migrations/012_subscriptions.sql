@@ -0,0 +1,59 @@
+-- Membership subscriptions.
+-- create-subscription starts or changes a member's monthly plan; stripe-webhook
+-- keeps members.tier_id in step with customer.subscription.* and
+-- invoice.payment_failed (see supabase/functions/_shared/subscriptions.ts).
+-- Downgrades, cancellations and failed renewals don't drop the tier at once:
+-- pending_tier_id is applied when tier_grace_until passes.
+
+-- ============================================================
+-- MEMBERS — subscription state
+-- ============================================================
+ALTER TABLE members
+  ADD COLUMN stripe_subscription_id          TEXT UNIQUE,
+  ADD COLUMN subscription_status             TEXT,
+  ADD COLUMN subscription_current_period_end TIMESTAMPTZ,
+  ADD COLUMN pending_tier_id                 TEXT
+             CHECK (pending_tier_id IN ('design_and_go','emerging','surging','converging','diverging')),
+  ADD COLUMN tier_grace_until                TIMESTAMPTZ,
+  ADD CONSTRAINT members_pending_tier_grace CHECK ((pending_tier_id IS NULL) = (tier_grace_until IS NULL));
+
+CREATE INDEX idx_members_stripe_customer ON members(stripe_customer_id);
+CREATE INDEX idx_members_tier_grace ON members(tier_grace_until) WHERE tier_grace_until IS NOT NULL;
+
+-- Tier and billing columns are written by Edge Functions only. The
+-- "Members update own profile" policy still lets members edit their profile.
+REVOKE UPDATE ON members FROM anon, authenticated;
+GRANT UPDATE (display_name, avatar_url, bio) ON members TO authenticated;
+
+-- ============================================================
+-- GRACE EXPIRY
+-- ============================================================
+CREATE OR REPLACE FUNCTION apply_expired_tier_grace()
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  UPDATE members
+     SET tier_id          = pending_tier_id,
+         pending_tier_id  = NULL,
+         tier_grace_until = NULL
+   WHERE tier_grace_until <= now();
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION apply_expired_tier_grace() FROM PUBLIC, anon, authenticated;
+
+-- ============================================================
+-- SCHEDULE
+-- Applies due downgrades every 15 minutes (pg_cron enabled in 006).
+-- ============================================================
+SELECT cron.schedule(
+  'apply-tier-grace',
+  '*/15 * * * *',
+  $$ SELECT apply_expired_tier_grace(); $$
+);
@@ -0,0 +1,104 @@
+-- Configurator purchases (DXF / BOM for one configuration, $5.00 + PIF fee).
+-- create-config-checkout stores the configuration and its SHA-256 hash and
+-- opens a guest checkout; stripe-webhook marks the purchase paid and issues a
+-- signed entitlement (see supabase/functions/_shared/entitlements.ts) that
+-- verify-entitlement checks before configurator.html releases an export.
+-- A refund revokes the entitlement.
+
+-- ============================================================
+-- CONFIG PURCHASES
+-- ============================================================
+CREATE TABLE config_purchases (
+  id                          UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  buyer_email                 TEXT NOT NULL,
+  -- Configuration the buyer paid for (configurator slider state)
+  config                      JSONB NOT NULL,
+  config_hash                 TEXT NOT NULL CHECK (config_hash ~ '^[0-9a-f]{64}$'),
+  -- Amounts (all in cents)
+  file_price_cents            INTEGER NOT NULL,
+  pif_fee_cents               INTEGER NOT NULL,
+  total_cents                 INTEGER NOT NULL,
+  billing_country             TEXT NOT NULL CHECK (billing_country ~ '^[A-Z]{2}$'),
+  billing_region              TEXT,
+  tax_cents                   INTEGER NOT NULL DEFAULT 0 CHECK (tax_cents >= 0),
+  tax_rate_basis_points       INTEGER NOT NULL DEFAULT 0 CHECK (tax_rate_basis_points >= 0),
+  tax_jurisdiction            TEXT,
+  tax_rates_version           TEXT,
+  -- Payment
+  payment_provider            TEXT NOT NULL DEFAULT 'stripe'
+                              CHECK (payment_provider IN ('stripe','gumroad','fake')),
+  stripe_checkout_session_id  TEXT UNIQUE,
+  stripe_payment_intent_id    TEXT,
+  payment_status              TEXT NOT NULL DEFAULT 'pending'
+                              CHECK (payment_status IN ('pending','paid','failed','refunded')),
+  -- Entitlement (set once paid)
+  entitlement_token           TEXT UNIQUE,
+  entitlement_issued_at       TIMESTAMPTZ,
+  -- Email delivery
+  delivery_email_sent         BOOLEAN NOT NULL DEFAULT false,
+  delivery_email_sent_at      TIMESTAMPTZ,
+  -- Timestamps
+  created_at                  TIMESTAMPTZ NOT NULL DEFAULT now(),
+  paid_at                     TIMESTAMPTZ,
+  refunded_at                 TIMESTAMPTZ,
+  CONSTRAINT config_purchases_paid_entitlement
+    CHECK (payment_status <> 'paid' OR entitlement_token IS NOT NULL)
+);
+
+CREATE INDEX idx_config_purchases_buyer_email ON config_purchases(buyer_email);
+CREATE INDEX idx_config_purchases_config_hash ON config_purchases(config_hash);
+CREATE INDEX idx_config_purchases_payment_intent ON config_purchases(stripe_payment_intent_id);
+
+-- Guests have no session; only Edge Functions (service role) read or write.
+ALTER TABLE config_purchases ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================
+-- TAX REPORT — include configurator purchases
+-- Same columns as migration 011; configurator purchases have no order group
+-- and are only ever refunded in full.
+-- ============================================================
+CREATE OR REPLACE VIEW tax_report_lines
+WITH (security_invoker = true) AS
+SELECT
+  o.id                                   AS order_id,
+  o.order_group_id,
+  o.paid_at,
+  o.refunded_at,
+  o.payment_status,
+  o.billing_country,
+  o.billing_region,
+  o.tax_jurisdiction,
+  o.tax_rate_basis_points,
+  o.tax_rates_version,
+  o.total_cents - o.tax_cents            AS taxable_cents,
+  o.tax_cents,
+  CASE
+    WHEN o.payment_status = 'refunded' THEN o.tax_cents
+    WHEN o.refunded_cents > 0 AND o.total_cents > 0
+      THEN round(o.tax_cents::numeric * o.refunded_cents / o.total_cents)::INTEGER
+    ELSE 0
+  END                                    AS tax_refunded_cents,
+  o.total_cents
+FROM orders o
+WHERE o.paid_at IS NOT NULL
+  AND o.payment_status IN ('paid','refunded')
+UNION ALL
+SELECT
+  c.id                                   AS order_id,
+  NULL::UUID                             AS order_group_id,
+  c.paid_at,
+  c.refunded_at,
+  c.payment_status,
+  c.billing_country,
+  c.billing_region,
+  c.tax_jurisdiction,
+  c.tax_rate_basis_points,
+  c.tax_rates_version,
+  c.total_cents - c.tax_cents            AS taxable_cents,
+  c.tax_cents,
+  CASE WHEN c.payment_status = 'refunded' THEN c.tax_cents ELSE 0 END
+                                         AS tax_refunded_cents,
+  c.total_cents
+FROM config_purchases c
+WHERE c.paid_at IS NOT NULL
+  AND c.payment_status IN ('paid','refunded');
@@ -0,0 +1,7 @@
+-- Keep upload-file's per-check validation results on the file row, including
+-- the per-key configurator issues for configurator-state .json uploads (see
+-- supabase/functions/_shared/config-validation.ts), so review can see the
+-- warnings a file was accepted with.
+
+ALTER TABLE files
+  ADD COLUMN validation_results JSONB;
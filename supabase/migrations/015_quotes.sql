@@ -0,0 +1,75 @@
+-- Cabinet quotes.
+-- The quote function prices a configurator state (sheet goods, hardware, edge
+-- banding, labor, markup and custom surcharge — see
+-- supabase/functions/_shared/quote.ts) and stores the itemized result, so the
+-- quoted price can be honored until expires_at even if prices change.
+-- Markup and surcharge come from the latest catalog_versions.pricing
+-- (migration 017); the shop's labor rate and times are set by an admin in
+-- quote_labor_rates. Until both exist the quote function refuses to price.
+
+-- ============================================================
+-- QUOTES
+-- ============================================================
+CREATE TABLE quotes (
+  id                        UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- Set when a signed-in member requested the quote; guests may quote too
+  member_id                 UUID REFERENCES members(id),
+  config                    JSONB NOT NULL,
+  config_hash               TEXT NOT NULL CHECK (config_hash ~ '^[0-9a-f]{64}$'),
+  hardware                  JSONB NOT NULL,
+  -- Itemized lines as quoted (QuoteLineItem[])
+  line_items                JSONB NOT NULL,
+  -- Amounts (all in cents)
+  material_cents            INTEGER NOT NULL CHECK (material_cents >= 0),
+  labor_cents               INTEGER NOT NULL CHECK (labor_cents >= 0),
+  markup_cents              INTEGER NOT NULL CHECK (markup_cents >= 0),
+  surcharge_cents           INTEGER NOT NULL CHECK (surcharge_cents >= 0),
+  total_cents               INTEGER NOT NULL CHECK (total_cents >= 0),
+  markup_factor             NUMERIC(6,4) NOT NULL,
+  custom_surcharge_percent  NUMERIC(6,2) NOT NULL,
+  pricing_version           TEXT NOT NULL,
+  -- Who asked, for the per-requester rate limit: "member:<id>" or
+  -- "ip:<sha-256 of the client address>"
+  requester_key             TEXT,
+  -- Timestamps
+  created_at                TIMESTAMPTZ NOT NULL DEFAULT now(),
+  expires_at                TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX idx_quotes_member ON quotes(member_id);
+CREATE INDEX idx_quotes_config_hash ON quotes(config_hash);
+CREATE INDEX idx_quotes_requester ON quotes(requester_key, created_at);
+
+ALTER TABLE quotes ENABLE ROW LEVEL SECURITY;
+
+-- Members can read their own quotes; guests look theirs up by id through
+-- the quote function. Only Edge Functions (service role) insert.
+CREATE POLICY "Members read own quotes"
+  ON quotes FOR SELECT
+  USING (member_id IN (SELECT id FROM members WHERE auth_user_id = auth.uid()));
+
+-- ============================================================
+-- LABOR RATES
+-- A single row (id is always true) holding the shop's measured times and
+-- hourly rate, set by an admin (see MAINTENANCE.md). Not seeded: quotes are
+-- refused until the shop's real figures are in.
+-- ============================================================
+CREATE TABLE quote_labor_rates (
+  id                          BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+  rate_cents_per_hour         INTEGER NOT NULL CHECK (rate_cents_per_hour > 0),
+  setup_minutes               NUMERIC(6,2) NOT NULL CHECK (setup_minutes >= 0),
+  -- Per sheet-goods part cut (CNC or panel saw)
+  sheet_part_minutes          NUMERIC(6,2) NOT NULL CHECK (sheet_part_minutes >= 0),
+  -- Per lumber part (stretchers, face frame)
+  lumber_part_minutes         NUMERIC(6,2) NOT NULL CHECK (lumber_part_minutes >= 0),
+  -- Hinge boring and hanging
+  door_minutes                NUMERIC(6,2) NOT NULL CHECK (door_minutes >= 0),
+  -- Box assembly and slide install
+  drawer_minutes              NUMERIC(6,2) NOT NULL CHECK (drawer_minutes >= 0),
+  edge_banding_foot_minutes   NUMERIC(6,2) NOT NULL CHECK (edge_banding_foot_minutes >= 0),
+  updated_by                  UUID REFERENCES members(id),
+  updated_at                  TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Only Edge Functions (service role) read or write labor rates.
+ALTER TABLE quote_labor_rates ENABLE ROW LEVEL SECURITY;
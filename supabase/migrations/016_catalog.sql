@@ -0,0 +1,210 @@
+-- Hardware and material catalog.
+-- Replaces editing HARDWARE_LIBRARY / MATERIAL_PRICING inside configurator.html:
+-- the catalog function serves these tables to the configurator and the
+-- server-side pricing (generate-cut-list, quote — see
+-- supabase/functions/_shared/catalog.ts); admin-catalog creates, updates and
+-- deactivates entries. Every price change is kept in catalog_price_history.
+-- Prices in cents; params in inches. Seeded from the configurator's tables.
+
+-- ============================================================
+-- HARDWARE ITEMS
+-- ============================================================
+CREATE TABLE hardware_items (
+  id             TEXT PRIMARY KEY CHECK (id ~ '^[A-Z0-9][A-Z0-9-]{1,31}$'),
+  category       TEXT NOT NULL CHECK (category IN ('hinges','slides','pulls')),
+  label          TEXT NOT NULL,
+  brand          TEXT NOT NULL DEFAULT '',
+  model          TEXT NOT NULL DEFAULT '',
+  price_cents    INTEGER NOT NULL CHECK (price_cents >= 0),
+  -- Slider values the item sets, e.g. { "HingeCupDiameter": 1.378 }
+  params         JSONB NOT NULL DEFAULT '{}'::jsonb CHECK (jsonb_typeof(params) = 'object'),
+  active         BOOLEAN NOT NULL DEFAULT true,
+  sort_order     INTEGER NOT NULL DEFAULT 0,
+  updated_by     UUID REFERENCES members(id),
+  created_at     TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at     TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_hardware_items_category ON hardware_items(category, sort_order);
+
+-- ============================================================
+-- MATERIAL PRICES
+-- Sheet goods per thickness (one NULL-thickness row is the default for
+-- thicknesses without their own price) and edge banding per foot.
+-- ============================================================
+CREATE TABLE material_prices (
+  id             TEXT PRIMARY KEY CHECK (id ~ '^[a-z0-9][a-z0-9.-]{1,31}$'),
+  kind           TEXT NOT NULL CHECK (kind IN ('sheet','edge_banding')),
+  thickness      NUMERIC(6,3) CHECK (thickness > 0),
+  label          TEXT NOT NULL,
+  unit           TEXT NOT NULL CHECK (unit IN ('sheet','ft')),
+  price_cents    INTEGER NOT NULL CHECK (price_cents >= 0),
+  active         BOOLEAN NOT NULL DEFAULT true,
+  updated_by     UUID REFERENCES members(id),
+  created_at     TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at     TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT material_prices_unit CHECK (
+    (kind = 'sheet' AND unit = 'sheet') OR
+    (kind = 'edge_banding' AND unit = 'ft' AND thickness IS NULL)
+  )
+);
+
+-- One active price per sheet thickness, one default sheet, one edge banding
+CREATE UNIQUE INDEX idx_material_prices_sheet_thickness
+  ON material_prices(thickness) WHERE kind = 'sheet' AND thickness IS NOT NULL AND active;
+CREATE UNIQUE INDEX idx_material_prices_sheet_default
+  ON material_prices(kind) WHERE kind = 'sheet' AND thickness IS NULL AND active;
+CREATE UNIQUE INDEX idx_material_prices_edge_banding
+  ON material_prices(kind) WHERE kind = 'edge_banding' AND active;
+
+-- ============================================================
+-- PRICE HISTORY
+-- Written by trigger, so edits outside admin-catalog are recorded too.
+-- ============================================================
+CREATE TABLE catalog_price_history (
+  id               UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  item_type        TEXT NOT NULL CHECK (item_type IN ('hardware','material')),
+  item_id          TEXT NOT NULL,
+  -- NULL when the item was created
+  old_price_cents  INTEGER,
+  new_price_cents  INTEGER NOT NULL,
+  changed_by       UUID REFERENCES members(id),
+  changed_at       TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_catalog_price_history_item ON catalog_price_history(item_type, item_id, changed_at DESC);
+
+CREATE OR REPLACE FUNCTION record_catalog_price_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    NEW.updated_at := now();
+    IF NEW.price_cents = OLD.price_cents THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  INSERT INTO catalog_price_history (item_type, item_id, old_price_cents, new_price_cents, changed_by)
+  VALUES (
+    TG_ARGV[0],
+    NEW.id,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.price_cents END,
+    NEW.price_cents,
+    NEW.updated_by
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trg_hardware_items_price
+  BEFORE INSERT OR UPDATE ON hardware_items
+  FOR EACH ROW EXECUTE FUNCTION record_catalog_price_change('hardware');
+
+CREATE TRIGGER trg_material_prices_price
+  BEFORE INSERT OR UPDATE ON material_prices
+  FOR EACH ROW EXECUTE FUNCTION record_catalog_price_change('material');
+
+-- ============================================================
+-- RLS — anyone can read the active catalog; only Edge Functions
+-- (service role) write. Price history is admin-only (service role).
+-- ============================================================
+ALTER TABLE hardware_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE material_prices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE catalog_price_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public active hardware"
+  ON hardware_items FOR SELECT
+  USING (active = true);
+
+CREATE POLICY "Public active material prices"
+  ON material_prices FOR SELECT
+  USING (active = true);
+
+-- ============================================================
+-- SEED — the configurator's HARDWARE_LIBRARY and MATERIAL_PRICING
+-- ("Manual / Custom" is not a catalog item; the configurator adds it)
+-- ============================================================
+INSERT INTO hardware_items (id, category, label, brand, model, price_cents, params, sort_order) VALUES
+  ('HG-001', 'hinges', 'Blum CLIP Top BM 110° Full OL', 'Blum', '71B3550', 350, '{"HingeCupDiameter":1.378,"HingeCupDepth":0.512,"HingeBoringDistance":0.197}', 10),
+  ('HG-002', 'hinges', 'Blum CLIP Top BM 110° Half OL', 'Blum', '71B3650', 375, '{"HingeCupDiameter":1.378,"HingeCupDepth":0.512,"HingeBoringDistance":0.197}', 20),
+  ('HG-003', 'hinges', 'Blum CLIP Top BM 110° Inset', 'Blum', '71B3750', 400, '{"HingeCupDiameter":1.378,"HingeCupDepth":0.512,"HingeBoringDistance":0.197}', 30),
+  ('HG-004', 'hinges', 'Blum CLIP Top 110° Full OL (no SC)', 'Blum', '71T3550', 225, '{"HingeCupDiameter":1.378,"HingeCupDepth":0.453,"HingeBoringDistance":0.197}', 40),
+  ('HG-005', 'hinges', 'Blum CLIP Top BM 95° Thick Door', 'Blum', '71B9550', 425, '{"HingeCupDiameter":1.378,"HingeCupDepth":0.512,"HingeBoringDistance":0.197}', 50),
+  ('HG-006', 'hinges', 'Blum CLIP Top BM 110° Press-In', 'Blum', '71B3580', 350, '{"HingeCupDiameter":1.378,"HingeCupDepth":0.512,"HingeBoringDistance":0.197}', 60),
+  ('HG-007', 'hinges', 'Blum CLIP Top 170° Wide Angle', 'Blum', '79T5580', 650, '{"HingeCupDiameter":1.378,"HingeCupDepth":0.453,"HingeBoringDistance":0.197}', 70),
+  ('HG-008', 'hinges', 'Blum CLIP Top 155° Zero Protrusion', 'Blum', '79T8500', 700, '{"HingeCupDiameter":1.378,"HingeCupDepth":0.453,"HingeBoringDistance":0.197}', 80),
+  ('HG-009', 'hinges', 'Blum CLIP Top 110° w/ Restriction', 'Blum', '70T3553', 250, '{"HingeCupDiameter":1.378,"HingeCupDepth":0.453,"HingeBoringDistance":0.197}', 90),
+  ('HG-010', 'hinges', 'Blum CLIP Top Mini 94° (26mm)', 'Blum', '70T9550.TL', 300, '{"HingeCupDiameter":1.024,"HingeCupDepth":0.394,"HingeBoringDistance":0.197}', 100),
+  ('HG-011', 'hinges', 'Hettich Sensys 110° Full OL (SC)', 'Hettich', '9071205', 350, '{"HingeCupDiameter":1.378,"HingeCupDepth":0.504,"HingeBoringDistance":0.197}', 110),
+  ('HG-012', 'hinges', 'Hettich Sensys 110° Half OL (SC)', 'Hettich', '9071206', 375, '{"HingeCupDiameter":1.378,"HingeCupDepth":0.504,"HingeBoringDistance":0.197}', 120),
+  ('HG-013', 'hinges', 'Hettich Sensys 110° Inset (SC)', 'Hettich', '9071207', 400, '{"HingeCupDiameter":1.378,"HingeCupDepth":0.504,"HingeBoringDistance":0.197}', 130),
+  ('HG-014', 'hinges', 'Hettich Sensys 110° Full OL (no SC)', 'Hettich', '9073662', 250, '{"HingeCupDiameter":1.378,"HingeCupDepth":0.504,"HingeBoringDistance":0.197}', 140),
+  ('HG-015', 'hinges', 'Hettich Sensys W90 95° Blind Corner', 'Hettich', '9085200', 450, '{"HingeCupDiameter":1.378,"HingeCupDepth":0.504,"HingeBoringDistance":0.197}', 150),
+  ('HG-016', 'hinges', 'Hettich Sensys 110° Thin Door (SC)', 'Hettich', '9094450', 500, '{"HingeCupDiameter":1.378,"HingeCupDepth":0.457,"HingeBoringDistance":0.197}', 160),
+  ('HG-017', 'hinges', 'Grass Tiomos 110° Full OL (SC)', 'Grass', 'F045138502', 400, '{"HingeCupDiameter":1.378,"HingeCupDepth":0.531,"HingeBoringDistance":0.236}', 170),
+  ('HG-018', 'hinges', 'Grass Tiomos 110° Half OL (SC)', 'Grass', 'F045138506', 425, '{"HingeCupDiameter":1.378,"HingeCupDepth":0.531,"HingeBoringDistance":0.236}', 180),
+  ('HG-019', 'hinges', 'Salice C2A 110° Full OL (SC)', 'Salice', 'C2ABG99', 325, '{"HingeCupDiameter":1.378,"HingeCupDepth":0.472,"HingeBoringDistance":0.197}', 190),
+  ('HG-020', 'hinges', 'Salice C2R 110° Inset (SC)', 'Salice', 'C2RFG99', 350, '{"HingeCupDiameter":1.378,"HingeCupDepth":0.472,"HingeBoringDistance":0.197}', 200),
+  ('HG-021', 'hinges', 'Liberty H702 110° Full OL (SC)', 'Liberty', 'H70223C', 200, '{"HingeCupDiameter":1.378,"HingeCupDepth":0.472,"HingeBoringDistance":0.197}', 210),
+  ('HG-022', 'hinges', 'Generic Euro 110° (SC)', 'Generic', 'EURO-110-SC', 125, '{"HingeCupDiameter":1.378,"HingeCupDepth":0.472,"HingeBoringDistance":0.197}', 220),
+  ('DS-001', 'slides', 'Blum TANDEM 563H (UM, 100lb)', 'Blum', '563H', 2800, '{"DrawerClearance":0.827,"SlideTopClearance":0.276,"SlideBottomClearance":0.551}', 10),
+  ('DS-002', 'slides', 'Blum TANDEM 569H HD (UM, 150lb)', 'Blum', '569H', 4200, '{"DrawerClearance":0.827,"SlideTopClearance":0.276,"SlideBottomClearance":0.551}', 20),
+  ('DS-003', 'slides', 'Blum TANDEM 563F ¾" (UM, 100lb)', 'Blum', '563F', 3000, '{"DrawerClearance":0.965,"SlideTopClearance":0.276,"SlideBottomClearance":0.551}', 30),
+  ('DS-004', 'slides', 'Blum MOVENTO 760H (UM, 88lb)', 'Blum', '760H', 3800, '{"DrawerClearance":0.502,"SlideTopClearance":0.276,"SlideBottomClearance":0.551}', 40),
+  ('DS-005', 'slides', 'Blum MOVENTO 769H HD (UM, 155lb)', 'Blum', '769H', 5200, '{"DrawerClearance":0.502,"SlideTopClearance":0.276,"SlideBottomClearance":0.551}', 50),
+  ('DS-006', 'slides', 'Hettich Quadro V6 IW21 (UM, 100lb)', 'Hettich', '9134368', 2400, '{"DrawerClearance":0.492,"SlideTopClearance":0.276,"SlideBottomClearance":0.433}', 60),
+  ('DS-007', 'slides', 'Hettich Quadro 4D V6 (UM, 100lb)', 'Hettich', '9135020', 3500, '{"DrawerClearance":0.492,"SlideTopClearance":0.276,"SlideBottomClearance":0.433}', 70),
+  ('DS-008', 'slides', 'Hettich Quadro FAQ (UM/SM, 100lb)', 'Hettich', '9306534', 2000, '{"DrawerClearance":0.492,"SlideTopClearance":0.276,"SlideBottomClearance":0.433}', 80),
+  ('DS-009', 'slides', 'Hettich Actro YOU (UM, 90lb)', 'Hettich', '9257008', 3600, '{"DrawerClearance":0.492,"SlideTopClearance":0.236,"SlideBottomClearance":0.394}', 90),
+  ('DS-010', 'slides', 'Hettich Actro YOU HD (UM, 154lb)', 'Hettich', '9257010', 5000, '{"DrawerClearance":0.492,"SlideTopClearance":0.236,"SlideBottomClearance":0.394}', 100),
+  ('DS-011', 'slides', 'KV 8400B (SM, 100lb)', 'Knape & Vogt', '8400B', 1200, '{"DrawerClearance":0.5,"SlideTopClearance":0.25,"SlideBottomClearance":0.5}', 110),
+  ('DS-012', 'slides', 'KV 8417B Soft-Close (SM, 100lb)', 'Knape & Vogt', '8417B', 1800, '{"DrawerClearance":0.5,"SlideTopClearance":0.25,"SlideBottomClearance":0.5}', 120),
+  ('DS-013', 'slides', 'KV 8450FM (UM, 75lb)', 'Knape & Vogt', '8450FM', 2200, '{"DrawerClearance":0.5,"SlideTopClearance":0.276,"SlideBottomClearance":0.472}', 130),
+  ('DS-014', 'slides', 'Accuride C3832 (SM, 100lb)', 'Accuride', 'C3832', 1400, '{"DrawerClearance":0.5,"SlideTopClearance":0.25,"SlideBottomClearance":0.5}', 140),
+  ('DS-015', 'slides', 'Accuride C3832-SC (SM SC, 100lb)', 'Accuride', 'C3832-SC', 2000, '{"DrawerClearance":0.5,"SlideTopClearance":0.25,"SlideBottomClearance":0.5}', 150),
+  ('DS-016', 'slides', 'Accuride C3160 (Center, 35lb)', 'Accuride', 'C3160', 800, '{"DrawerClearance":0,"SlideTopClearance":0.25,"SlideBottomClearance":0.25}', 160),
+  ('DS-017', 'slides', 'Liberty D806 SC (SM, 100lb)', 'Liberty', 'D80622C', 1000, '{"DrawerClearance":0.5,"SlideTopClearance":0.25,"SlideBottomClearance":0.5}', 170),
+  ('DS-018', 'slides', 'Liberty D942 HD (SM, 200lb)', 'Liberty', 'D94222C', 2200, '{"DrawerClearance":0.5,"SlideTopClearance":0.25,"SlideBottomClearance":0.5}', 180),
+  ('DS-019', 'slides', 'Grass Dynapro (UM, 100lb)', 'Grass', 'Dynapro', 3400, '{"DrawerClearance":0.492,"SlideTopClearance":0.236,"SlideBottomClearance":0.472}', 190),
+  ('DS-020', 'slides', 'Salice Futura (UM, 100lb)', 'Salice', 'A7555/530', 3000, '{"DrawerClearance":0.492,"SlideTopClearance":0.276,"SlideBottomClearance":0.472}', 200),
+  ('DS-021', 'slides', 'King Slide 2M15 (UM, 75lb)', 'King Slide', '2M15', 1800, '{"DrawerClearance":0.492,"SlideTopClearance":0.276,"SlideBottomClearance":0.472}', 210),
+  ('DS-022', 'slides', 'Accuride C7432 HD (SM, 150lb)', 'Accuride', 'C7432', 2400, '{"DrawerClearance":0.5,"SlideTopClearance":0.25,"SlideBottomClearance":0.5}', 220),
+  ('PL-001', 'pulls', 'Amerock Bar 3-3/4" CC (Black)', 'Amerock', 'BP40515', 550, '{"PullBoreSpacing":3.75,"PullMountingHoleDia":0.1875,"PullProjection":1.375}', 10),
+  ('PL-002', 'pulls', 'Amerock Bar 5-1/16" CC (Black)', 'Amerock', 'BP40516', 600, '{"PullBoreSpacing":5.063,"PullMountingHoleDia":0.1875,"PullProjection":1.375}', 20),
+  ('PL-003', 'pulls', 'Amerock Bar 6-5/16" CC (Black)', 'Amerock', 'BP40517', 650, '{"PullBoreSpacing":6.313,"PullMountingHoleDia":0.1875,"PullProjection":1.375}', 30),
+  ('PL-004', 'pulls', 'Amerock Bar 7-9/16" CC (Black)', 'Amerock', 'BP40518', 700, '{"PullBoreSpacing":7.563,"PullMountingHoleDia":0.1875,"PullProjection":1.375}', 40),
+  ('PL-005', 'pulls', 'Amerock Bar 10-1/16" CC (Black)', 'Amerock', 'BP40520', 800, '{"PullBoreSpacing":10.063,"PullMountingHoleDia":0.1875,"PullProjection":1.375}', 50),
+  ('PL-006', 'pulls', 'Amerock Blackrock Knob 1-3/16"', 'Amerock', 'BP55277BBR', 400, '{"PullBoreSpacing":0,"PullMountingHoleDia":0.1875,"PullProjection":1.188}', 60),
+  ('PL-007', 'pulls', 'Amerock Allison Knob 1-1/4" (SN)', 'Amerock', 'BP53005G10', 250, '{"PullBoreSpacing":0,"PullMountingHoleDia":0.1875,"PullProjection":1}', 70),
+  ('PL-008', 'pulls', 'Top Knobs Bar 3-3/4" CC (SN)', 'Top Knobs', 'M2158', 850, '{"PullBoreSpacing":3.75,"PullMountingHoleDia":0.1875,"PullProjection":1.313}', 80),
+  ('PL-009', 'pulls', 'Top Knobs Aspen 3-3/4" CC (Bronze)', 'Top Knobs', 'M1512', 1400, '{"PullBoreSpacing":3.75,"PullMountingHoleDia":0.1875,"PullProjection":1.5}', 90),
+  ('PL-010', 'pulls', 'Top Knobs Nouveau Knob 1-1/16"', 'Top Knobs', 'M2170', 550, '{"PullBoreSpacing":0,"PullMountingHoleDia":0.1875,"PullProjection":1}', 100),
+  ('PL-011', 'pulls', 'Richelieu Bar 5-1/16" CC (BN)', 'Richelieu', 'BP305128195', 450, '{"PullBoreSpacing":5.063,"PullMountingHoleDia":0.1875,"PullProjection":1.25}', 110),
+  ('PL-012', 'pulls', 'Richelieu Bar 7-9/16" CC (BN)', 'Richelieu', 'BP305196195', 550, '{"PullBoreSpacing":7.563,"PullMountingHoleDia":0.1875,"PullProjection":1.25}', 120),
+  ('PL-013', 'pulls', 'Liberty Bar 3-3/4" CC (Black)', 'Liberty', 'P01026C', 350, '{"PullBoreSpacing":3.75,"PullMountingHoleDia":0.1875,"PullProjection":1.25}', 130),
+  ('PL-014', 'pulls', 'Liberty Edge Pull 3-3/4" CC (SN)', 'Liberty', 'P29613K', 400, '{"PullBoreSpacing":3.75,"PullMountingHoleDia":0.1875,"PullProjection":0.625}', 140),
+  ('PL-015', 'pulls', 'Liberty Wrapped Bar 5-1/16" CC', 'Liberty', 'P44428C', 400, '{"PullBoreSpacing":5.063,"PullMountingHoleDia":0.1875,"PullProjection":1.375}', 150),
+  ('PL-016', 'pulls', 'Hickory Bar 3-3/4" CC (Black)', 'Hickory', 'HH075594', 450, '{"PullBoreSpacing":3.75,"PullMountingHoleDia":0.1875,"PullProjection":1.375}', 160),
+  ('PL-017', 'pulls', 'Hickory Cup Pull 3" CC (SS)', 'Hickory', 'P3055-SS', 600, '{"PullBoreSpacing":3,"PullMountingHoleDia":0.1875,"PullProjection":0.875}', 170),
+  ('PL-018', 'pulls', 'Amerock Cup Pull 3" CC (SN)', 'Amerock', 'BP36640G10', 550, '{"PullBoreSpacing":3,"PullMountingHoleDia":0.1875,"PullProjection":0.75}', 180),
+  ('PL-019', 'pulls', 'Top Knobs Tab Pull 2" (Single)', 'Top Knobs', 'TK95x', 700, '{"PullBoreSpacing":0,"PullMountingHoleDia":0.1875,"PullProjection":0.375}', 190),
+  ('PL-020', 'pulls', 'Berenson Euro Bar 3-3/4" CC (BN)', 'Berenson', '2096-4BPN-P', 600, '{"PullBoreSpacing":3.75,"PullMountingHoleDia":0.1875,"PullProjection":1.375}', 200),
+  ('PL-021', 'pulls', 'Atlas Bar 5-1/16" CC (Black)', 'Atlas', 'A837-BL', 900, '{"PullBoreSpacing":5.063,"PullMountingHoleDia":0.1875,"PullProjection":1.5}', 210),
+  ('PL-022', 'pulls', 'Generic Euro Bar 3-3/4" CC', 'Generic', 'Euro Bar', 150, '{"PullBoreSpacing":3.75,"PullMountingHoleDia":0.1875,"PullProjection":1.25}', 220),
+  ('PL-023', 'pulls', 'Generic Euro Knob 1-3/16" (SN)', 'Generic', 'Euro Knob', 100, '{"PullBoreSpacing":0,"PullMountingHoleDia":0.1875,"PullProjection":1}', 230);
+
+INSERT INTO material_prices (id, kind, thickness, label, unit, price_cents) VALUES
+  ('sheet-0.750', 'sheet', 0.750, '¾" Plywood', 'sheet', 5800),
+  ('sheet-0.767', 'sheet', 0.767, '¾" Plywood', 'sheet', 5800),
+  ('sheet-0.797', 'sheet', 0.797, '¾" Plywood', 'sheet', 5800),
+  ('sheet-0.733', 'sheet', 0.733, '¾" Plywood', 'sheet', 5800),
+  ('sheet-0.758', 'sheet', 0.758, '¾" Plywood', 'sheet', 5800),
+  ('sheet-0.960', 'sheet', 0.960, '¾" Plywood', 'sheet', 5800),
+  ('sheet-0.500', 'sheet', 0.500, '½" Plywood', 'sheet', 4800),
+  ('sheet-0.375', 'sheet', 0.375, '¼" Plywood', 'sheet', 2800),
+  ('sheet-0.250', 'sheet', 0.250, '¼" Plywood', 'sheet', 2800),
+  ('sheet-0.125', 'sheet', 0.125, '⅙" Hardboard', 'sheet', 1800),
+  ('sheet-default', 'sheet', NULL, 'Plywood Sheet', 'sheet', 5000),
+  ('edge-banding', 'edge_banding', NULL, 'Edge Banding', 'ft', 75);
@@ -0,0 +1,142 @@
+-- Versioned chassis preset and standard product catalog.
+-- admin-product-catalog imports ChassisPresets.json and StandardProducts.json
+-- together as one numbered catalog version; product-catalog serves a version
+-- (the latest by default) to the configurator, library.html and the GH
+-- definition, so all three read the same revision. Versions are never edited:
+-- a change is a new import.
+
+-- ============================================================
+-- CATALOG VERSIONS
+-- ============================================================
+CREATE TABLE catalog_versions (
+  version                   INTEGER PRIMARY KEY CHECK (version > 0),
+  -- schema_version of each imported file
+  presets_schema_version    TEXT NOT NULL,
+  products_schema_version   TEXT NOT NULL,
+  presets_source            TEXT,
+  products_source           TEXT,
+  -- StandardProducts.json "pricing": { markupFactor, customSurchargePercent }
+  pricing                   JSONB NOT NULL,
+  note                      TEXT,
+  imported_by               UUID REFERENCES members(id),
+  imported_at               TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- ============================================================
+-- CHASSIS PRESETS — slider overrides applied on top of the defaults
+-- ============================================================
+CREATE TABLE chassis_presets (
+  catalog_version  INTEGER NOT NULL REFERENCES catalog_versions(version) ON DELETE CASCADE,
+  name             TEXT NOT NULL,
+  category         TEXT NOT NULL,
+  params           JSONB NOT NULL,
+  sort_order       INTEGER NOT NULL,
+  PRIMARY KEY (catalog_version, name)
+);
+
+CREATE INDEX idx_chassis_presets_category ON chassis_presets(catalog_version, category);
+
+-- ============================================================
+-- STANDARD PRODUCTS — complete configurator states with fixed prices
+-- ============================================================
+CREATE TABLE standard_products (
+  catalog_version       INTEGER NOT NULL REFERENCES catalog_versions(version) ON DELETE CASCADE,
+  sku                   TEXT NOT NULL,
+  name                  TEXT NOT NULL,
+  category              TEXT NOT NULL,
+  description           TEXT NOT NULL DEFAULT '',
+  chassis_preset        TEXT NOT NULL,
+  dimensions            JSONB NOT NULL,
+  hardware              JSONB NOT NULL,
+  state                 JSONB NOT NULL,
+  material_cost_cents   INTEGER NOT NULL CHECK (material_cost_cents >= 0),
+  standard_price_cents  INTEGER NOT NULL CHECK (standard_price_cents >= 0),
+  date_added            DATE,
+  active                BOOLEAN NOT NULL DEFAULT true,
+  tags                  TEXT[] NOT NULL DEFAULT '{}',
+  sort_order            INTEGER NOT NULL,
+  PRIMARY KEY (catalog_version, sku),
+  FOREIGN KEY (catalog_version, chassis_preset) REFERENCES chassis_presets(catalog_version, name)
+);
+
+CREATE INDEX idx_standard_products_category ON standard_products(catalog_version, category);
+
+-- ============================================================
+-- ATOMIC IMPORT
+-- Called by admin-product-catalog with the service role once both files
+-- have been validated. Takes the next version number under a lock so two
+-- imports can't claim the same one; rows are the JSONB arrays built by
+-- _shared/product-catalog.ts.
+-- ============================================================
+CREATE OR REPLACE FUNCTION import_catalog_version(
+  p_presets_schema_version   TEXT,
+  p_products_schema_version  TEXT,
+  p_presets_source           TEXT,
+  p_products_source          TEXT,
+  p_pricing                  JSONB,
+  p_presets                  JSONB,
+  p_products                 JSONB,
+  p_imported_by              UUID,
+  p_note                     TEXT
+) RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_version INTEGER;
+BEGIN
+  LOCK TABLE catalog_versions IN EXCLUSIVE MODE;
+
+  SELECT coalesce(max(version), 0) + 1 INTO v_version FROM catalog_versions;
+
+  INSERT INTO catalog_versions (
+    version, presets_schema_version, products_schema_version,
+    presets_source, products_source, pricing, note, imported_by
+  ) VALUES (
+    v_version, p_presets_schema_version, p_products_schema_version,
+    p_presets_source, p_products_source, p_pricing, p_note, p_imported_by
+  );
+
+  INSERT INTO chassis_presets (catalog_version, name, category, params, sort_order)
+  SELECT v_version, x.name, x.category, x.params, x.sort_order
+    FROM jsonb_to_recordset(p_presets)
+      AS x(name TEXT, category TEXT, params JSONB, sort_order INTEGER);
+
+  INSERT INTO standard_products (
+    catalog_version, sku, name, category, description, chassis_preset, dimensions,
+    hardware, state, material_cost_cents, standard_price_cents, date_added, active,
+    tags, sort_order
+  )
+  SELECT v_version, x.sku, x.name, x.category, x.description, x.chassis_preset, x.dimensions,
+         x.hardware, x.state, x.material_cost_cents, x.standard_price_cents, x.date_added, x.active,
+         ARRAY(SELECT jsonb_array_elements_text(x.tags)), x.sort_order
+    FROM jsonb_to_recordset(p_products)
+      AS x(sku TEXT, name TEXT, category TEXT, description TEXT, chassis_preset TEXT,
+           dimensions JSONB, hardware JSONB, state JSONB, material_cost_cents INTEGER,
+           standard_price_cents INTEGER, date_added DATE, active BOOLEAN, tags JSONB,
+           sort_order INTEGER);
+
+  RETURN v_version;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION import_catalog_version(TEXT, TEXT, TEXT, TEXT, JSONB, JSONB, JSONB, UUID, TEXT)
+  FROM PUBLIC, anon, authenticated;
+
+-- ============================================================
+-- RLS — the catalog is public; only Edge Functions (service role) write
+-- ============================================================
+ALTER TABLE catalog_versions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE chassis_presets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE standard_products ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public catalog versions"
+  ON catalog_versions FOR SELECT
+  USING (true);
+
+CREATE POLICY "Public chassis presets"
+  ON chassis_presets FOR SELECT
+  USING (true);
+
+CREATE POLICY "Public standard products"
+  ON standard_products FOR SELECT
+  USING (true);
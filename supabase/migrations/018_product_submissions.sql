@@ -0,0 +1,213 @@
+-- Standard product publishing with a review queue.
+-- publish-product takes the product snapshot the configurator's Publish modal
+-- builds, recomputes its cost on the server and files it as a pending
+-- submission by the signed-in member. An admin approves (the product joins a
+-- new catalog version, active) or rejects it.
+
+-- ============================================================
+-- AUTHORSHIP
+-- ============================================================
+ALTER TABLE standard_products
+  ADD COLUMN author_member_id UUID REFERENCES members(id);
+
+-- ============================================================
+-- SUBMISSIONS
+-- ============================================================
+CREATE TABLE product_submissions (
+  id                     UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  sku                    TEXT NOT NULL,
+  author_member_id       UUID NOT NULL REFERENCES members(id),
+  status                 TEXT NOT NULL DEFAULT 'pending'
+                           CHECK (status IN ('pending','approved','rejected')),
+  -- standard_products row fields (_shared/product-catalog.ts StandardProductRow),
+  -- with the server-computed cost and price
+  product                JSONB NOT NULL,
+  -- The payload as the configurator sent it, for the reviewer
+  submitted              JSONB NOT NULL,
+  material_cost_cents    INTEGER NOT NULL CHECK (material_cost_cents >= 0),
+  standard_price_cents   INTEGER NOT NULL CHECK (standard_price_cents >= 0),
+  markup_factor          NUMERIC(4,2) NOT NULL,
+  -- Catalog version the product was validated against / published in
+  base_catalog_version   INTEGER NOT NULL REFERENCES catalog_versions(version),
+  published_version      INTEGER REFERENCES catalog_versions(version),
+  reviewed_by            UUID REFERENCES members(id),
+  reviewed_at            TIMESTAMPTZ,
+  review_note            TEXT,
+  created_at             TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_product_submissions_status ON product_submissions(status, created_at);
+CREATE INDEX idx_product_submissions_author ON product_submissions(author_member_id, created_at DESC);
+
+-- One pending submission per SKU
+CREATE UNIQUE INDEX idx_product_submissions_pending_sku
+  ON product_submissions(sku) WHERE status = 'pending';
+
+-- ============================================================
+-- IMPORT KEEPS AUTHORSHIP
+-- Same as migration 017, plus: a product re-imported from
+-- StandardProducts.json keeps the author it had in the previous version.
+-- ============================================================
+CREATE OR REPLACE FUNCTION import_catalog_version(
+  p_presets_schema_version   TEXT,
+  p_products_schema_version  TEXT,
+  p_presets_source           TEXT,
+  p_products_source          TEXT,
+  p_pricing                  JSONB,
+  p_presets                  JSONB,
+  p_products                 JSONB,
+  p_imported_by              UUID,
+  p_note                     TEXT
+) RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_version INTEGER;
+BEGIN
+  LOCK TABLE catalog_versions IN EXCLUSIVE MODE;
+
+  SELECT coalesce(max(version), 0) + 1 INTO v_version FROM catalog_versions;
+
+  INSERT INTO catalog_versions (
+    version, presets_schema_version, products_schema_version,
+    presets_source, products_source, pricing, note, imported_by
+  ) VALUES (
+    v_version, p_presets_schema_version, p_products_schema_version,
+    p_presets_source, p_products_source, p_pricing, p_note, p_imported_by
+  );
+
+  INSERT INTO chassis_presets (catalog_version, name, category, params, sort_order)
+  SELECT v_version, x.name, x.category, x.params, x.sort_order
+    FROM jsonb_to_recordset(p_presets)
+      AS x(name TEXT, category TEXT, params JSONB, sort_order INTEGER);
+
+  INSERT INTO standard_products (
+    catalog_version, sku, name, category, description, chassis_preset, dimensions,
+    hardware, state, material_cost_cents, standard_price_cents, date_added, active,
+    tags, sort_order
+  )
+  SELECT v_version, x.sku, x.name, x.category, x.description, x.chassis_preset, x.dimensions,
+         x.hardware, x.state, x.material_cost_cents, x.standard_price_cents, x.date_added, x.active,
+         ARRAY(SELECT jsonb_array_elements_text(x.tags)), x.sort_order
+    FROM jsonb_to_recordset(p_products)
+      AS x(sku TEXT, name TEXT, category TEXT, description TEXT, chassis_preset TEXT,
+           dimensions JSONB, hardware JSONB, state JSONB, material_cost_cents INTEGER,
+           standard_price_cents INTEGER, date_added DATE, active BOOLEAN, tags JSONB,
+           sort_order INTEGER);
+
+  UPDATE standard_products p
+     SET author_member_id = prev.author_member_id
+    FROM standard_products prev
+   WHERE p.catalog_version = v_version
+     AND prev.catalog_version = v_version - 1
+     AND prev.sku = p.sku
+     AND prev.author_member_id IS NOT NULL;
+
+  RETURN v_version;
+END;
+$$;
+
+-- ============================================================
+-- APPROVAL
+-- Called by publish-product with the service role. Under the same lock as
+-- an import: copies the latest catalog version into the next one and adds
+-- the submitted product, active. Raises:
+--   submission_not_pending  already reviewed (or no such submission)
+--   sku_exists              the latest version already has this SKU
+--   preset_missing          its chassis preset was dropped since submission
+-- ============================================================
+CREATE OR REPLACE FUNCTION approve_product_submission(
+  p_submission_id  UUID,
+  p_reviewed_by    UUID,
+  p_note           TEXT
+) RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_sub      product_submissions%ROWTYPE;
+  v_prev     INTEGER;
+  v_version  INTEGER;
+BEGIN
+  LOCK TABLE catalog_versions IN EXCLUSIVE MODE;
+
+  SELECT * INTO v_sub FROM product_submissions WHERE id = p_submission_id FOR UPDATE;
+  IF NOT FOUND OR v_sub.status <> 'pending' THEN
+    RAISE EXCEPTION 'submission_not_pending';
+  END IF;
+
+  SELECT max(version) INTO v_prev FROM catalog_versions;
+
+  IF EXISTS (SELECT 1 FROM standard_products WHERE catalog_version = v_prev AND sku = v_sub.sku) THEN
+    RAISE EXCEPTION 'sku_exists';
+  END IF;
+  IF NOT EXISTS (
+    SELECT 1 FROM chassis_presets
+     WHERE catalog_version = v_prev AND name = v_sub.product->>'chassis_preset'
+  ) THEN
+    RAISE EXCEPTION 'preset_missing';
+  END IF;
+
+  v_version := v_prev + 1;
+
+  INSERT INTO catalog_versions (
+    version, presets_schema_version, products_schema_version,
+    presets_source, products_source, pricing, note, imported_by
+  )
+  SELECT v_version, presets_schema_version, products_schema_version,
+         presets_source, products_source, pricing, 'Published ' || v_sub.sku, p_reviewed_by
+    FROM catalog_versions
+   WHERE version = v_prev;
+
+  INSERT INTO chassis_presets (catalog_version, name, category, params, sort_order)
+  SELECT v_version, name, category, params, sort_order
+    FROM chassis_presets
+   WHERE catalog_version = v_prev;
+
+  INSERT INTO standard_products (
+    catalog_version, sku, name, category, description, chassis_preset, dimensions,
+    hardware, state, material_cost_cents, standard_price_cents, date_added, active,
+    tags, sort_order, author_member_id
+  )
+  SELECT v_version, sku, name, category, description, chassis_preset, dimensions,
+         hardware, state, material_cost_cents, standard_price_cents, date_added, active,
+         tags, sort_order, author_member_id
+    FROM standard_products
+   WHERE catalog_version = v_prev;
+
+  INSERT INTO standard_products (
+    catalog_version, sku, name, category, description, chassis_preset, dimensions,
+    hardware, state, material_cost_cents, standard_price_cents, date_added, active,
+    tags, sort_order, author_member_id
+  )
+  SELECT v_version, v_sub.sku, x.name, x.category, x.description, x.chassis_preset, x.dimensions,
+         x.hardware, x.state, v_sub.material_cost_cents, v_sub.standard_price_cents, current_date, true,
+         ARRAY(SELECT jsonb_array_elements_text(x.tags)),
+         (SELECT coalesce(max(sort_order), -1) + 1 FROM standard_products WHERE catalog_version = v_prev),
+         v_sub.author_member_id
+    FROM jsonb_to_record(v_sub.product)
+      AS x(name TEXT, category TEXT, description TEXT, chassis_preset TEXT,
+           dimensions JSONB, hardware JSONB, state JSONB, tags JSONB);
+
+  UPDATE product_submissions
+     SET status = 'approved',
+         published_version = v_version,
+         reviewed_by = p_reviewed_by,
+         reviewed_at = now(),
+         review_note = p_note
+   WHERE id = p_submission_id;
+
+  RETURN v_version;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION approve_product_submission(UUID, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================
+-- RLS — authors see their own submissions; writes go through
+-- publish-product (service role)
+-- ============================================================
+ALTER TABLE product_submissions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members see own product submissions"
+  ON product_submissions FOR SELECT
+  USING (author_member_id IN (SELECT id FROM members WHERE auth_user_id = auth.uid()));
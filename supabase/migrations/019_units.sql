@@ -0,0 +1,17 @@
+-- Unit systems (inches / mm, see supabase/functions/_shared/units.ts).
+-- Configurations may be sent in millimetres; record the unit system a quote
+-- was issued in and the one an uploaded configuration file uses, so both can
+-- be shown back to the customer in their own units.
+
+-- ============================================================
+-- QUOTES
+-- ============================================================
+ALTER TABLE quotes
+  ADD COLUMN units TEXT NOT NULL DEFAULT 'inches' CHECK (units IN ('inches', 'mm'));
+
+-- ============================================================
+-- FILES
+-- ============================================================
+-- Set for configurator-state .json uploads only (NULL for other files)
+ALTER TABLE files
+  ADD COLUMN config_units TEXT CHECK (config_units IN ('inches', 'mm'));
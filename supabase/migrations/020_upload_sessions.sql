@@ -0,0 +1,49 @@
+-- Resumable uploads.
+-- upload-session takes large marketplace files in chunks (TUS 1.0 core
+-- protocol, see supabase/functions/_shared/uploads.ts); each session tracks
+-- how many bytes have arrived so an interrupted upload resumes from there.
+-- Chunks live in the private upload-chunks bucket until upload-file
+-- finalizes the session into marketplace-files and links the files row.
+
+-- ============================================================
+-- UPLOAD SESSIONS
+-- ============================================================
+CREATE TABLE upload_sessions (
+  id             UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  uploader_id    UUID NOT NULL REFERENCES members(id),
+  file_name      TEXT NOT NULL,
+  content_type   TEXT,
+  -- Total size declared at creation (Upload-Length)
+  upload_length  BIGINT NOT NULL CHECK (upload_length > 0),
+  -- Bytes received so far (Upload-Offset)
+  offset_bytes   BIGINT NOT NULL DEFAULT 0
+                 CHECK (offset_bytes >= 0 AND offset_bytes <= upload_length),
+  -- Set when upload-file has created the files row
+  file_id        UUID REFERENCES files(id),
+  -- Set when an upload-file request claims the session to finalize it,
+  -- before storing the file; a second finalize finds it taken (409)
+  finalizing_at  TIMESTAMPTZ,
+  created_at     TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at     TIMESTAMPTZ NOT NULL DEFAULT now(),
+  -- Pushed back on every chunk; expired sessions are discarded
+  expires_at     TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX idx_upload_sessions_uploader ON upload_sessions(uploader_id, expires_at);
+
+ALTER TABLE upload_sessions ENABLE ROW LEVEL SECURITY;
+
+-- Uploaders can see their own sessions; only Edge Functions (service role) write.
+CREATE POLICY "Uploaders read own upload sessions"
+  ON upload_sessions FOR SELECT
+  USING (uploader_id IN (SELECT id FROM members WHERE auth_user_id = auth.uid()));
+
+-- ============================================================
+-- STORAGE BUCKETS
+-- Private; Edge Functions read and write with the service role key.
+-- ============================================================
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES
+  ('marketplace-files', 'marketplace-files', false, 104857600),
+  ('upload-chunks',     'upload-chunks',     false, 6291456)
+ON CONFLICT (id) DO NOTHING;
@@ -0,0 +1,24 @@
+-- File integrity and duplicate detection.
+-- upload-file stores each marketplace file's SHA-256 (streamed, see
+-- supabase/functions/_shared/uploads.ts) and download re-verifies the stored
+-- object against it before signing a URL. An upload with the same hash as
+-- another member's listed file is flagged as a likely resold copy; list-file
+-- refuses flagged files until an admin has reviewed and cleared them.
+
+-- ============================================================
+-- FILES
+-- ============================================================
+-- NULL for files uploaded before checksums were recorded
+ALTER TABLE files
+  ADD COLUMN checksum_sha256 TEXT CHECK (checksum_sha256 ~ '^[0-9a-f]{64}$');
+
+-- The other member's listed file this one matched, when flagged
+ALTER TABLE files
+  ADD COLUMN duplicate_of_file_id UUID REFERENCES files(id);
+
+-- Set by an admin who has reviewed the match (e.g. the uploader holds the
+-- rights); a cleared file can be listed and is not flagged again
+ALTER TABLE files
+  ADD COLUMN duplicate_cleared_at TIMESTAMPTZ;
+
+CREATE INDEX idx_files_checksum ON files(checksum_sha256) WHERE checksum_sha256 IS NOT NULL;
@@ -0,0 +1,102 @@
+-- Tier storage quotas.
+-- members.storage_used_bytes is the total size of a member's files that are
+-- not 'removed'. A trigger on files keeps it current as files are added,
+-- resized, removed (stage 'removed') or restored, and deleted, in the same
+-- transaction as the change; growth past the member's tier quota raises
+-- 'storage_quota_exceeded', so concurrent uploads can't overshoot it.
+-- upload-file checks the quota up front for a readable validation result;
+-- the trigger is what holds. Quotas mirror TIER_PLANS in
+-- supabase/functions/_shared/tiers.ts — change both together.
+
+-- ============================================================
+-- QUOTAS
+-- ============================================================
+CREATE OR REPLACE FUNCTION tier_storage_quota_bytes(p_tier_id TEXT)
+RETURNS BIGINT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_tier_id
+    WHEN 'emerging'   THEN 2147483648      -- 2 GB
+    WHEN 'surging'    THEN 10737418240     -- 10 GB
+    WHEN 'converging' THEN 53687091200     -- 50 GB
+    WHEN 'diverging'  THEN 268435456000    -- 250 GB
+    ELSE 262144000                         -- design_and_go: 250 MB
+  END;
+$$;
+
+-- ============================================================
+-- ATOMIC USAGE ACCOUNTING
+-- The conditional UPDATE locks the member row, so concurrent changes for one
+-- member are applied one at a time against the current total.
+-- The trigger runs as its owner: since migration 012 members can't update
+-- storage_used_bytes themselves, but changing their own files must still
+-- adjust it. adjust_storage_used is only for the trigger.
+-- ============================================================
+CREATE OR REPLACE FUNCTION adjust_storage_used(p_member_id UUID, p_delta BIGINT)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF p_delta > 0 THEN
+    UPDATE members
+       SET storage_used_bytes = storage_used_bytes + p_delta
+     WHERE id = p_member_id
+       AND storage_used_bytes + p_delta <= tier_storage_quota_bytes(tier_id);
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'storage_quota_exceeded';
+    END IF;
+  ELSIF p_delta < 0 THEN
+    UPDATE members
+       SET storage_used_bytes = greatest(storage_used_bytes + p_delta, 0)
+     WHERE id = p_member_id;
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION adjust_storage_used(UUID, BIGINT) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION track_file_storage()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_old BIGINT := 0;
+  v_new BIGINT := 0;
+BEGIN
+  IF TG_OP <> 'INSERT' AND OLD.stage <> 'removed' THEN
+    v_old := OLD.file_size_bytes;
+  END IF;
+  IF TG_OP <> 'DELETE' AND NEW.stage <> 'removed' THEN
+    v_new := NEW.file_size_bytes;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.uploader_id <> OLD.uploader_id THEN
+    PERFORM adjust_storage_used(OLD.uploader_id, -v_old);
+    PERFORM adjust_storage_used(NEW.uploader_id, v_new);
+  ELSE
+    PERFORM adjust_storage_used(COALESCE(NEW.uploader_id, OLD.uploader_id), v_new - v_old);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER trg_files_storage
+  AFTER INSERT OR DELETE OR UPDATE OF stage, file_size_bytes, uploader_id ON files
+  FOR EACH ROW EXECUTE FUNCTION track_file_storage();
+
+-- ============================================================
+-- BACKFILL
+-- storage_used_bytes was never incremented before this migration.
+-- ============================================================
+UPDATE members m
+   SET storage_used_bytes = COALESCE((
+     SELECT sum(f.file_size_bytes)
+       FROM files f
+      WHERE f.uploader_id = m.id
+        AND f.stage <> 'removed'
+   ), 0);
@@ -0,0 +1,15 @@
+-- Marketplace file formats.
+-- The files.file_format CHECK (dxf, svg, crv, crv3d, pdf, zip) and what
+-- upload-file accepted (.gh, .3dm, .json, .zip) had drifted apart. Both now
+-- follow FILE_FORMATS in supabase/functions/_shared/file-formats.ts, where
+-- each format's content is inspected on upload; upload-file sets file_format
+-- from the inspected format. Change both together.
+
+-- ============================================================
+-- FILES
+-- ============================================================
+ALTER TABLE files DROP CONSTRAINT files_file_format_check;
+
+ALTER TABLE files
+  ADD CONSTRAINT files_file_format_check
+  CHECK (file_format IN ('dxf','svg','pdf','zip','3dm','gh','crv','crv3d','json'));
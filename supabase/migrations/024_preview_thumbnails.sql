@@ -0,0 +1,21 @@
+-- Preview thumbnails.
+-- upload-file no longer requires a preview_image for DXF and SVG uploads:
+-- it renders a listing and a detail PNG from the drawing's geometry
+-- (supabase/functions/_shared/thumbnails.ts). preview_image_path holds the
+-- listing image (or the originator's own preview) and preview_detail_path
+-- the larger one; a supplied preview has no separate detail image.
+
+-- ============================================================
+-- FILES
+-- ============================================================
+ALTER TABLE files
+  ADD COLUMN preview_detail_path TEXT;
+
+-- ============================================================
+-- STORAGE BUCKETS
+-- Public: previews are shown on marketplace listings.
+-- ============================================================
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES
+  ('preview-images', 'preview-images', true, 5242880)
+ON CONFLICT (id) DO NOTHING;
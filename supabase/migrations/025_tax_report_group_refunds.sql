@@ -0,0 +1,57 @@
+-- Tax report: partial cart refunds.
+-- A partial refund of a cart is recorded on its order group (stripe-webhook
+-- can't attribute it to a line), so each of the group's orders reports the
+-- group's refunded share of its tax. Redefines the view from migration 013;
+-- columns are unchanged.
+
+-- ============================================================
+-- TAX REPORT
+-- ============================================================
+CREATE OR REPLACE VIEW tax_report_lines
+WITH (security_invoker = true) AS
+SELECT
+  o.id                                   AS order_id,
+  o.order_group_id,
+  o.paid_at,
+  o.refunded_at,
+  o.payment_status,
+  o.billing_country,
+  o.billing_region,
+  o.tax_jurisdiction,
+  o.tax_rate_basis_points,
+  o.tax_rates_version,
+  o.total_cents - o.tax_cents            AS taxable_cents,
+  o.tax_cents,
+  CASE
+    WHEN o.payment_status = 'refunded' THEN o.tax_cents
+    WHEN g.refunded_cents > 0 AND g.total_cents > 0
+      THEN round(o.tax_cents::numeric * g.refunded_cents / g.total_cents)::INTEGER
+    WHEN o.refunded_cents > 0 AND o.total_cents > 0
+      THEN round(o.tax_cents::numeric * o.refunded_cents / o.total_cents)::INTEGER
+    ELSE 0
+  END                                    AS tax_refunded_cents,
+  o.total_cents
+FROM orders o
+LEFT JOIN order_groups g ON g.id = o.order_group_id
+WHERE o.paid_at IS NOT NULL
+  AND o.payment_status IN ('paid','refunded')
+UNION ALL
+SELECT
+  c.id                                   AS order_id,
+  NULL::UUID                             AS order_group_id,
+  c.paid_at,
+  c.refunded_at,
+  c.payment_status,
+  c.billing_country,
+  c.billing_region,
+  c.tax_jurisdiction,
+  c.tax_rate_basis_points,
+  c.tax_rates_version,
+  c.total_cents - c.tax_cents            AS taxable_cents,
+  c.tax_cents,
+  CASE WHEN c.payment_status = 'refunded' THEN c.tax_cents ELSE 0 END
+                                         AS tax_refunded_cents,
+  c.total_cents
+FROM config_purchases c
+WHERE c.paid_at IS NOT NULL
+  AND c.payment_status IN ('paid','refunded');
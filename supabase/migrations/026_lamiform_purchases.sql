@@ -0,0 +1,14 @@
+-- LamiForm purchases.
+-- create-config-checkout also sells one LamiForm design's output (sliced DXF
+-- and material summary from generate-lamiform) through config_purchases.
+-- product_kind says which product a purchase is for; the kind is also part of
+-- config_hash and of the signed entitlement, so a cabinet purchase never
+-- unlocks a LamiForm design or the other way round.
+
+-- ============================================================
+-- CONFIG PURCHASES
+-- ============================================================
+-- Existing rows are all cabinet configurations
+ALTER TABLE config_purchases
+  ADD COLUMN product_kind TEXT NOT NULL DEFAULT 'cabinet'
+             CHECK (product_kind IN ('cabinet','lamiform'));